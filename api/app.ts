@@ -29,12 +29,20 @@ const limiter = rateLimit({
   },
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  // The cron service calls scheduled jobs often and authenticates itself
+  skip: (req) => req.path.startsWith('/api/cron/')
 });
 
 // Middleware
 app.use(limiter);
 app.use(cors(corsOptions));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw body so payment callback signatures can be checked
+  verify: (req, _res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Session configuration
@@ -71,16 +79,38 @@ app.use((req, res, next) => {
 import prayersRoutes from './routes/prayers.js';
 import eventsRoutes from './routes/events.js';
 import donationsRoutes from './routes/donations.js';
+import campaignsRoutes from './routes/campaigns.js';
+import pledgesRoutes from './routes/pledges.js';
+import receiptsRoutes from './routes/receipts.js';
 import announcementsRoutes from './routes/announcements.js';
 import communityRoutes from './routes/community.js';
+import calendarRoutes from './routes/calendar.js';
+import ramadanRoutes from './routes/ramadan.js';
+import searchRoutes from './routes/search.js';
+import speakersRoutes from './routes/speakers.js';
+import kajianRoutes from './routes/kajian.js';
+import facilitiesRoutes from './routes/facilities.js';
+import surveysRoutes from './routes/surveys.js';
+import cronRoutes from './routes/cron.js';
 
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/prayers', prayersRoutes);
 app.use('/api/events', eventsRoutes);
+app.use('/api/donations/campaigns', campaignsRoutes);
+app.use('/api/donations/pledges', pledgesRoutes);
+app.use('/api/donations/receipts', receiptsRoutes);
 app.use('/api/donations', donationsRoutes);
 app.use('/api/announcements', announcementsRoutes);
 app.use('/api/community', communityRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/ramadan', ramadanRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/speakers', speakersRoutes);
+app.use('/api/kajian', kajianRoutes);
+app.use('/api/facilities', facilitiesRoutes);
+app.use('/api/surveys', surveysRoutes);
+app.use('/api/cron', cronRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
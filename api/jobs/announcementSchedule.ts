@@ -0,0 +1,101 @@
+/**
+ * Announcement scheduler
+ *
+ * Publishes announcements whose publish_at has arrived (sending their push
+ * notification if one was requested) and archives announcements once they
+ * expire. Each change is a conditional update, so running several instances
+ * never publishes or notifies twice.
+ */
+import { supabaseAdmin } from '../lib/supabase.js';
+import { notifyAnnouncement, AUDIENCE_COLUMNS } from '../lib/announcements.js';
+
+const TICK_SECONDS = 60;
+
+let running = false;
+
+/**
+ * Publish and archive due announcements; returns how many of each changed
+ */
+export const runAnnouncementSchedule = async (now = new Date()): Promise<{ published: number; archived: number }> => {
+  const timestamp = now.toISOString();
+
+  // Publish: only rows still unpublished come back, so each is handled once
+  const { data: published, error: publishError } = await supabaseAdmin
+    .from('announcements')
+    .update({ is_published: true, published_at: timestamp, updated_at: timestamp })
+    .eq('is_published', false)
+    .lte('publish_at', timestamp)
+    .is('archived_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${timestamp}`)
+    .select(`id, title, content, priority, send_notification, ${AUDIENCE_COLUMNS}`);
+
+  if (publishError) {
+    throw new Error(publishError.message);
+  }
+
+  for (const announcement of published || []) {
+    if (announcement.send_notification) {
+      try {
+        await notifyAnnouncement(announcement);
+      } catch (error) {
+        console.error('Scheduled announcement notification error:', error);
+      }
+    }
+  }
+
+  // Archive expired announcements; they stay published but are hidden by default
+  const { data: archived, error: archiveError } = await supabaseAdmin
+    .from('announcements')
+    .update({ archived_at: timestamp })
+    .lte('expires_at', timestamp)
+    .is('archived_at', null)
+    .select('id');
+
+  if (archiveError) {
+    throw new Error(archiveError.message);
+  }
+
+  const changes = [
+    ...(published || []).map(row => ({ action: 'PUBLISH', resource_id: row.id })),
+    ...(archived || []).map(row => ({ action: 'ARCHIVE', resource_id: row.id }))
+  ];
+
+  if (changes.length > 0) {
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert(changes.map(change => ({
+        user_id: null,
+        action: change.action,
+        resource_type: 'ANNOUNCEMENT',
+        resource_id: change.resource_id,
+        details: { scheduled: true }
+      })));
+  }
+
+  return { published: published?.length || 0, archived: archived?.length || 0 };
+};
+
+/**
+ * Run the announcement scheduler until the returned stop function is called
+ */
+export const startAnnouncementScheduler = (): (() => void) => {
+  const tick = async () => {
+    // Skip the tick if the previous one is still running
+    if (running) return;
+    running = true;
+    try {
+      await runAnnouncementSchedule();
+    } catch (error) {
+      console.error('Announcement scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, TICK_SECONDS * 1000);
+  timer.unref();
+  tick();
+
+  console.log('Announcement scheduler started');
+  return () => clearInterval(timer);
+};
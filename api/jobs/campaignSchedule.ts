@@ -0,0 +1,36 @@
+/**
+ * Donation campaign scheduler
+ *
+ * Closes fundraising campaigns once their deadline has passed.
+ */
+import { closeExpiredCampaigns } from '../lib/campaigns.js';
+
+// Deadlines are dates, so checking hourly closes a campaign soon after midnight
+const TICK_SECONDS = 60 * 60;
+
+let running = false;
+
+/**
+ * Run the campaign scheduler until the returned stop function is called
+ */
+export const startCampaignScheduler = (): (() => void) => {
+  const tick = async () => {
+    // Skip the tick if the previous one is still running
+    if (running) return;
+    running = true;
+    try {
+      await closeExpiredCampaigns();
+    } catch (error) {
+      console.error('Campaign scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, TICK_SECONDS * 1000);
+  timer.unref();
+  tick();
+
+  console.log('Campaign scheduler started');
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,36 @@
+/**
+ * Event waitlist scheduler
+ *
+ * Lapses waitlist offers that were not confirmed in time and passes the
+ * spots on to the next people in line.
+ */
+import { expireWaitlistOffers } from '../lib/eventWaitlist.js';
+
+const TICK_SECONDS = 60;
+
+let running = false;
+
+/**
+ * Run the waitlist scheduler until the returned stop function is called
+ */
+export const startEventWaitlistScheduler = (): (() => void) => {
+  const tick = async () => {
+    // Skip the tick if the previous one is still running
+    if (running) return;
+    running = true;
+    try {
+      await expireWaitlistOffers();
+    } catch (error) {
+      console.error('Event waitlist scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, TICK_SECONDS * 1000);
+  timer.unref();
+  tick();
+
+  console.log('Event waitlist scheduler started');
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,37 @@
+/**
+ * Donation pledge scheduler
+ *
+ * Creates the instalments of pledges as they fall due and reminds members of
+ * instalments left unpaid.
+ */
+import { generateDueInstalments, remindUnpaidInstalments } from '../lib/pledges.js';
+
+const TICK_SECONDS = 15 * 60;
+
+let running = false;
+
+/**
+ * Run the pledge scheduler until the returned stop function is called
+ */
+export const startPledgeScheduler = (): (() => void) => {
+  const tick = async () => {
+    // Skip the tick if the previous one is still running
+    if (running) return;
+    running = true;
+    try {
+      await generateDueInstalments();
+      await remindUnpaidInstalments();
+    } catch (error) {
+      console.error('Pledge scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, TICK_SECONDS * 1000);
+  timer.unref();
+  tick();
+
+  console.log('Pledge scheduler started');
+  return () => clearInterval(timer);
+};
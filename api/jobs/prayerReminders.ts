@@ -0,0 +1,172 @@
+/**
+ * Prayer reminder scheduler
+ *
+ * Every tick resolves the prayer schedule, finds the reminders that are due
+ * and sends them. A reminder is claimed in prayer_reminder_log before it is
+ * sent, and the log's unique key means it is sent once even if the server
+ * restarts or several instances run the scheduler. Reminders that came due
+ * while the server was down are still sent if they are less than
+ * CATCH_UP_MINUTES late.
+ */
+import { supabaseAdmin } from '../lib/supabase.js';
+import { getMosqueSettings, getMosqueToday, resolveSchedules } from '../lib/prayerSchedule.js';
+import { shiftDate } from '../lib/hijri.js';
+import { isFriday } from '../lib/iqamah.js';
+import { sendPushNotification, isPushConfigured } from '../lib/webPush.js';
+import { getReminderSlots, describeReminder, PrayerReminderPreference, ReminderSlot } from '../lib/prayerReminders.js';
+
+const TICK_SECONDS = 30;
+const CATCH_UP_MINUTES = 10;
+
+let running = false;
+
+const loadActivePreferences = async (now: Date): Promise<PrayerReminderPreference[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('prayer_reminders')
+    .select(`
+      user_id,
+      prayer,
+      adhan_minutes,
+      iqamah_minutes,
+      is_muted,
+      users!inner(
+        is_active,
+        reminders_paused_until
+      )
+    `)
+    .eq('is_muted', false)
+    .eq('users.is_active', true)
+    .or(`reminders_paused_until.is.null,reminders_paused_until.lt.${now.toISOString()}`, { referencedTable: 'users' });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map(row => ({
+    user_id: row.user_id,
+    prayer: row.prayer,
+    adhan_minutes: row.adhan_minutes,
+    iqamah_minutes: row.iqamah_minutes,
+    is_muted: row.is_muted
+  }));
+};
+
+/**
+ * Send the reminders that are due at a moment; returns how many were sent
+ */
+export const runPrayerReminders = async (now = new Date()): Promise<number> => {
+  const preferences = await loadActivePreferences(now);
+  if (preferences.length === 0) {
+    return 0;
+  }
+
+  const settings = await getMosqueSettings();
+  const today = getMosqueToday(settings);
+
+  // Include yesterday so late isha reminders survive midnight
+  const schedules = await resolveSchedules(shiftDate(today, -1), today, settings);
+
+  const earliest = now.getTime() - CATCH_UP_MINUTES * 60 * 1000;
+  const due = schedules
+    .flatMap(schedule => getReminderSlots(schedule, preferences, settings.timezone))
+    .filter(slot => slot.remind_at.getTime() <= now.getTime() && slot.remind_at.getTime() > earliest);
+
+  if (due.length === 0) {
+    return 0;
+  }
+
+  // Claim the slots; rows that already exist were sent (or are being sent) elsewhere
+  const { data: claimed, error } = await supabaseAdmin
+    .from('prayer_reminder_log')
+    .upsert(due.map(slot => ({
+      user_id: slot.user_id,
+      prayer_date: slot.prayer_date,
+      prayer: slot.prayer,
+      kind: slot.kind,
+      remind_at: slot.remind_at.toISOString()
+    })), { onConflict: 'user_id,prayer_date,prayer,kind', ignoreDuplicates: true })
+    .select('id, user_id, prayer_date, prayer, kind');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const claimedKeys = new Map((claimed || []).map(row => [
+    `${row.user_id}|${row.prayer_date}|${row.prayer}|${row.kind}`,
+    row.id as string
+  ]));
+
+  // Users who share a reminder get the same notification
+  const groups = new Map<string, { slot: ReminderSlot; userIds: string[]; logIds: string[] }>();
+  for (const slot of due) {
+    const logId = claimedKeys.get(`${slot.user_id}|${slot.prayer_date}|${slot.prayer}|${slot.kind}`);
+    if (!logId) continue;
+
+    const key = `${slot.prayer_date}|${slot.prayer}|${slot.kind}|${slot.minutes}`;
+    const group = groups.get(key) || { slot, userIds: [], logIds: [] };
+    group.userIds.push(slot.user_id);
+    group.logIds.push(logId);
+    groups.set(key, group);
+  }
+
+  let sent = 0;
+  for (const { slot, userIds, logIds } of groups.values()) {
+    const { title, body } = describeReminder(slot, isFriday(slot.prayer_date));
+
+    let status: 'sent' | 'failed' = 'failed';
+    try {
+      const result = await sendPushNotification({
+        title,
+        body,
+        url: '/schedule',
+        tag: `reminder-${slot.prayer_date}-${slot.prayer}-${slot.kind}`
+      }, {
+        userIds,
+        urgency: 'high',
+        // A reminder is useless once the moment has passed
+        ttl: Math.max(60, slot.minutes * 60)
+      });
+      sent += result.sent;
+      status = result.sent > 0 ? 'sent' : 'failed';
+    } catch (sendError) {
+      console.error('Send prayer reminder error:', sendError);
+    }
+
+    await supabaseAdmin
+      .from('prayer_reminder_log')
+      .update({ status })
+      .in('id', logIds);
+  }
+
+  return sent;
+};
+
+/**
+ * Run the reminder scheduler until the returned stop function is called
+ */
+export const startPrayerReminderScheduler = (): (() => void) => {
+  if (!isPushConfigured()) {
+    console.warn('Prayer reminder scheduler not started: push notifications are not configured');
+    return () => {};
+  }
+
+  const tick = async () => {
+    // Skip the tick if the previous one is still running
+    if (running) return;
+    running = true;
+    try {
+      await runPrayerReminders();
+    } catch (error) {
+      console.error('Prayer reminder scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, TICK_SECONDS * 1000);
+  timer.unref();
+  tick();
+
+  console.log('Prayer reminder scheduler started');
+  return () => clearInterval(timer);
+};
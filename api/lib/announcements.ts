@@ -0,0 +1,314 @@
+/**
+ * Announcement publishing helpers
+ *
+ * Shared by the announcement routes and the scheduling job so an
+ * announcement's push notification goes out once, whichever of them
+ * publishes it, and only to the announcement's audience.
+ *
+ * An announcement without an audience is for everyone. A targeted one is for
+ * anyone who matches at least one of its targets: a role, a volunteer skill,
+ * a registration for an event, or an explicit user list.
+ */
+import { supabaseAdmin } from './supabase.js';
+import { sendPushNotification, PushResult } from './webPush.js';
+import { markdownToText } from './markdown.js';
+
+export const AUDIENCE_ROLES = ['Admin', 'Imam', 'Pengurus', 'Jamaah'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface AnnouncementAudience {
+  audience_roles: string[] | null;
+  audience_skills: string[] | null;
+  audience_event_id: string | null;
+  audience_user_ids: string[] | null;
+}
+
+export interface PublishableAnnouncement extends Partial<AnnouncementAudience> {
+  id: string;
+  title: string;
+  content: string;
+  priority: string;
+}
+
+/**
+ * What an announcement reader can be targeted by
+ */
+export interface AudienceViewer {
+  id: string;
+  role: string;
+  skills: string[];
+  eventIds: string[];
+}
+
+export const AUDIENCE_COLUMNS = 'audience_roles, audience_skills, audience_event_id, audience_user_ids';
+
+// Normalise a list field; empty lists mean "no target"
+const parseList = (value: unknown): { value?: string[] | null; error?: boolean } => {
+  if (value === undefined) return {};
+  if (value === null) return { value: null };
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return { error: true };
+  const items = [...new Set(value.map(item => item.trim()).filter(Boolean))];
+  return { value: items.length > 0 ? items : null };
+};
+
+/**
+ * Validate the audience fields of a request body. Only fields present in the
+ * body are returned, so it works for partial updates.
+ */
+export const parseAudience = (body: Record<string, unknown>): { audience: Partial<AnnouncementAudience>; error?: string } => {
+  const audience: Partial<AnnouncementAudience> = {};
+
+  const roles = parseList(body.audience_roles);
+  if (roles.error || roles.value?.some(role => !AUDIENCE_ROLES.includes(role))) {
+    return { audience, error: `audience_roles must be a list of: ${AUDIENCE_ROLES.join(', ')}` };
+  }
+  if (roles.value !== undefined) audience.audience_roles = roles.value;
+
+  const skills = parseList(body.audience_skills);
+  if (skills.error) {
+    return { audience, error: 'audience_skills must be a list of volunteer skills' };
+  }
+  if (skills.value !== undefined) audience.audience_skills = skills.value;
+
+  const userIds = parseList(body.audience_user_ids);
+  if (userIds.error || userIds.value?.some(id => !UUID_PATTERN.test(id))) {
+    return { audience, error: 'audience_user_ids must be a list of user IDs' };
+  }
+  if (userIds.value !== undefined) audience.audience_user_ids = userIds.value;
+
+  if (body.audience_event_id !== undefined) {
+    const eventId = body.audience_event_id;
+    if (eventId !== null && eventId !== '' && (typeof eventId !== 'string' || !UUID_PATTERN.test(eventId))) {
+      return { audience, error: 'audience_event_id must be an event ID' };
+    }
+    audience.audience_event_id = (eventId as string | null) || null;
+  }
+
+  return { audience };
+};
+
+/**
+ * Whether an announcement has any audience target
+ */
+export const isTargeted = (audience: Partial<AnnouncementAudience>): boolean =>
+  Boolean(audience.audience_roles || audience.audience_skills || audience.audience_event_id || audience.audience_user_ids);
+
+/**
+ * Load what a signed-in user can be targeted by
+ */
+export const loadAudienceViewer = async (user: { id: string; role: string }): Promise<AudienceViewer> => {
+  const [{ data: profile }, { data: registrations }] = await Promise.all([
+    supabaseAdmin
+      .from('users')
+      .select('volunteer_skills')
+      .eq('id', user.id)
+      .single(),
+    supabaseAdmin
+      .from('event_registrations')
+      .select('event_id')
+      .eq('user_id', user.id)
+      .neq('status', 'cancelled')
+  ]);
+
+  return {
+    id: user.id,
+    role: user.role,
+    skills: Array.isArray(profile?.volunteer_skills) ? profile.volunteer_skills : [],
+    eventIds: (registrations || []).map(registration => registration.event_id)
+  };
+};
+
+// Quote a value for a PostgREST array literal
+const arrayLiteral = (values: string[]) =>
+  `{${values.map(value => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')}}`;
+
+/**
+ * PostgREST `or` filter matching the announcements meant for a viewer;
+ * anonymous readers only get untargeted announcements
+ */
+export const audienceFilter = (viewer: AudienceViewer | null): string => {
+  const conditions = ['is_targeted.eq.false'];
+
+  if (viewer) {
+    conditions.push(`audience_roles.cs.${arrayLiteral([viewer.role])}`);
+    conditions.push(`audience_user_ids.cs.{${viewer.id}}`);
+    if (viewer.skills.length > 0) {
+      conditions.push(`audience_skills.ov.${arrayLiteral(viewer.skills)}`);
+    }
+    if (viewer.eventIds.length > 0) {
+      conditions.push(`audience_event_id.in.(${viewer.eventIds.join(',')})`);
+    }
+  }
+
+  return conditions.join(',');
+};
+
+/**
+ * Whether an announcement is meant for a viewer
+ */
+export const isInAudience = (announcement: Partial<AnnouncementAudience>, viewer: AudienceViewer | null): boolean => {
+  if (!isTargeted(announcement)) return true;
+  if (!viewer) return false;
+
+  return Boolean(
+    announcement.audience_roles?.includes(viewer.role) ||
+    announcement.audience_user_ids?.includes(viewer.id) ||
+    announcement.audience_skills?.some(skill => viewer.skills.includes(skill)) ||
+    (announcement.audience_event_id && viewer.eventIds.includes(announcement.audience_event_id))
+  );
+};
+
+/**
+ * Resolve the users a targeted announcement is for; undefined means everyone
+ */
+export const resolveAudienceUserIds = async (audience: Partial<AnnouncementAudience>): Promise<string[] | undefined> => {
+  if (!isTargeted(audience)) return undefined;
+
+  const userIds = new Set(audience.audience_user_ids || []);
+
+  if (audience.audience_roles) {
+    const { data, error } = await supabaseAdmin
+      .from('user_roles')
+      .select('user_id')
+      .in('role_name', audience.audience_roles)
+      .eq('is_active', true);
+    if (error) throw new Error(error.message);
+    (data || []).forEach(row => userIds.add(row.user_id));
+  }
+
+  if (audience.audience_skills) {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('is_active', true)
+      .eq('is_volunteer', true)
+      .overlaps('volunteer_skills', audience.audience_skills);
+    if (error) throw new Error(error.message);
+    (data || []).forEach(row => userIds.add(row.id));
+  }
+
+  if (audience.audience_event_id) {
+    const { data, error } = await supabaseAdmin
+      .from('event_registrations')
+      .select('user_id')
+      .eq('event_id', audience.audience_event_id)
+      .neq('status', 'cancelled');
+    if (error) throw new Error(error.message);
+    (data || []).forEach(row => userIds.add(row.user_id));
+  }
+
+  return [...userIds];
+};
+
+/**
+ * Send the push notification for an announcement unless it was already sent.
+ * Returns null when another caller sent (or is sending) it. Pass resend to
+ * send it again on purpose.
+ */
+export const notifyAnnouncement = async (
+  announcement: PublishableAnnouncement,
+  resend = false
+): Promise<PushResult | null> => {
+  // Claim the notification; only one caller gets the row back
+  let claim = supabaseAdmin
+    .from('announcements')
+    .update({ notification_sent_at: new Date().toISOString() })
+    .eq('id', announcement.id);
+
+  if (!resend) {
+    claim = claim.is('notification_sent_at', null);
+  }
+
+  const { data: claimed, error } = await claim.select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!claimed || claimed.length === 0) {
+    return null;
+  }
+
+  // Targeted announcements only reach their audience's devices
+  const userIds = await resolveAudienceUserIds(announcement);
+  const text = markdownToText(announcement.content);
+
+  return sendPushNotification({
+    title: `📢 ${announcement.title}`,
+    body: text.length > 100 ? text.substring(0, 100) + '...' : text,
+    url: `/announcements/${announcement.id}`,
+    tag: `announcement-${announcement.id}`,
+    requireInteraction: announcement.priority === 'urgent'
+  }, {
+    userIds,
+    announcementId: announcement.id,
+    urgency: announcement.priority === 'urgent' ? 'high' : 'normal'
+  });
+};
+
+export interface AnnouncementReceipt {
+  read_at: string;
+  acknowledged_at: string | null;
+}
+
+/**
+ * Record that a user has read an announcement; the first read is kept
+ */
+export const recordRead = async (announcementId: string, userId: string): Promise<void> => {
+  const { error } = await supabaseAdmin
+    .from('announcement_receipts')
+    .upsert({
+      announcement_id: announcementId,
+      user_id: userId
+    }, { onConflict: 'announcement_id,user_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+/**
+ * Record that a user acknowledges an announcement (which also marks it read);
+ * acknowledging again keeps the first acknowledgement
+ */
+export const recordAcknowledgement = async (announcementId: string, userId: string): Promise<AnnouncementReceipt> => {
+  await recordRead(announcementId, userId);
+
+  const { error } = await supabaseAdmin
+    .from('announcement_receipts')
+    .update({ acknowledged_at: new Date().toISOString() })
+    .eq('announcement_id', announcementId)
+    .eq('user_id', userId)
+    .is('acknowledged_at', null);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const receipts = await getReceipts([announcementId], userId);
+  return receipts.get(announcementId) as AnnouncementReceipt;
+};
+
+/**
+ * A user's receipts for a set of announcements, by announcement ID
+ */
+export const getReceipts = async (announcementIds: string[], userId: string): Promise<Map<string, AnnouncementReceipt>> => {
+  if (announcementIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('announcement_receipts')
+    .select('announcement_id, read_at, acknowledged_at')
+    .eq('user_id', userId)
+    .in('announcement_id', announcementIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return new Map((data || []).map(row => [
+    row.announcement_id as string,
+    { read_at: row.read_at, acknowledged_at: row.acknowledged_at }
+  ]));
+};
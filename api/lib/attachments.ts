@@ -0,0 +1,159 @@
+/**
+ * Announcement attachments
+ *
+ * Validates uploaded images and PDFs by their content (not just the declared
+ * MIME type), makes thumbnails for images and signs attachment URLs.
+ * Attachment URLs are signed so they work in <img> tags and offline caches,
+ * which cannot send the Authorization header. A URL is made for one reader
+ * and expires; the download checks again that the reader can see the
+ * announcement.
+ */
+import crypto from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { getSigningSecret } from './secrets.js';
+
+export const MAX_ATTACHMENTS = 10;
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const ATTACHMENT_TYPES: Record<string, { extension: string; maxBytes: number }> = {
+  'image/jpeg': { extension: 'jpg', maxBytes: 5 * 1024 * 1024 },
+  'image/png': { extension: 'png', maxBytes: 5 * 1024 * 1024 },
+  'image/webp': { extension: 'webp', maxBytes: 5 * 1024 * 1024 },
+  'application/pdf': { extension: 'pdf', maxBytes: MAX_UPLOAD_BYTES }
+};
+
+const THUMBNAIL_SIZE = 400;
+// Refuse images that would take too much memory to decode
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export type AttachmentVariant = 'file' | 'thumbnail';
+
+export interface Thumbnail {
+  body: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Detect the type of an upload from its first bytes
+ */
+export const detectMimeType = (body: Buffer): string | null => {
+  if (body.length >= 3 && body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (body.length >= 8 && body.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (body.length >= 12 && body.toString('ascii', 0, 4) === 'RIFF' && body.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (body.length >= 5 && body.toString('ascii', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+};
+
+/**
+ * Check an upload's type and size; returns the detected MIME type or an error
+ */
+export const validateAttachment = (
+  body: Buffer,
+  declaredType: string
+): { mimeType?: string; error?: string } => {
+  const mimeType = detectMimeType(body);
+
+  if (!mimeType) {
+    return { error: `Unsupported file type. Allowed: ${Object.keys(ATTACHMENT_TYPES).join(', ')}` };
+  }
+  if (declaredType && declaredType !== 'application/octet-stream' && declaredType !== mimeType) {
+    return { error: `File content does not match its type (${declaredType})` };
+  }
+  if (body.length > ATTACHMENT_TYPES[mimeType].maxBytes) {
+    return { error: `File is too large. Maximum for ${mimeType} is ${ATTACHMENT_TYPES[mimeType].maxBytes / (1024 * 1024)} MB` };
+  }
+
+  return { mimeType };
+};
+
+/**
+ * Make a WebP thumbnail for an image; PDFs have none
+ */
+export const createThumbnail = async (body: Buffer, mimeType: string): Promise<Thumbnail | null> => {
+  if (!mimeType.startsWith('image/')) {
+    return null;
+  }
+
+  const { data, info } = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer({ resolveWithObject: true });
+
+  return { body: data, width: info.width, height: info.height };
+};
+
+/**
+ * Storage key for an attachment file
+ */
+export const attachmentKey = (announcementId: string, attachmentId: string, variant: AttachmentVariant, mimeType: string): string => {
+  const extension = variant === 'thumbnail' ? 'webp' : ATTACHMENT_TYPES[mimeType].extension;
+  return `announcements/${announcementId}/${attachmentId}${variant === 'thumbnail' ? '-thumb' : ''}.${extension}`;
+};
+
+/**
+ * Clean up an uploaded file name for storage and Content-Disposition
+ */
+export const sanitizeFileName = (name: string): string => {
+  const cleaned = path.basename(name).replace(/[^\w.\- ()]+/g, '_').trim();
+  return cleaned.slice(-120) || 'attachment';
+};
+
+// Links expire LINK_LIFETIME_SECONDS after the end of the current period, so
+// a reader keeps getting the same URL for a while and caches still work
+const LINK_LIFETIME_SECONDS = 60 * 60;
+
+// A link names the reader it was made for, so the download can check that
+// they still see the announcement
+const sign = (attachmentId: string, variant: AttachmentVariant, viewerId: string | null, expires: number) => {
+  const secret = getSigningSecret('STORAGE_SIGNING_SECRET');
+  return crypto.createHmac('sha256', secret).update(`${attachmentId}:${variant}:${viewerId || ''}:${expires}`).digest('base64url');
+};
+
+/**
+ * Signed URL for an attachment file or thumbnail, for one reader (null when
+ * signed out)
+ */
+export const attachmentUrl = (
+  announcementId: string,
+  attachmentId: string,
+  variant: AttachmentVariant,
+  viewerId: string | null,
+  now = Date.now()
+): string => {
+  const expires = (Math.ceil(now / 1000 / LINK_LIFETIME_SECONDS) + 1) * LINK_LIFETIME_SECONDS;
+  const params = new URLSearchParams({
+    ...(viewerId && { viewer: viewerId }),
+    expires: String(expires),
+    sig: sign(attachmentId, variant, viewerId, expires)
+  });
+  return `/api/announcements/${announcementId}/attachments/${attachmentId}/${variant}?${params}`;
+};
+
+/**
+ * Check an attachment URL signature and that the link has not expired
+ */
+export const verifyAttachmentSignature = (
+  attachmentId: string,
+  variant: AttachmentVariant,
+  viewerId: string | null,
+  expires: number,
+  signature: string,
+  now = Date.now()
+): boolean => {
+  if (!Number.isInteger(expires) || expires * 1000 <= now) return false;
+
+  const expected = Buffer.from(sign(attachmentId, variant, viewerId, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
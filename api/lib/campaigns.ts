@@ -0,0 +1,160 @@
+/**
+ * Donation campaigns
+ *
+ * Fundraising campaigns with a target and an optional deadline. Totals are
+ * kept on the campaign by the donations trigger in migration 024, which also
+ * completes a campaign when it reaches its target; campaigns past their
+ * deadline are closed by the campaign scheduler.
+ */
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { supabaseAdmin } from './supabase.js';
+import { detectMimeType } from './attachments.js';
+import { getMosqueSettings, getMosqueToday } from './prayerSchedule.js';
+
+export type CampaignStatus = 'Active' | 'Completed' | 'Closed';
+export type CampaignClosedReason = 'target_reached' | 'deadline' | 'manual';
+
+export interface CampaignState {
+  status: CampaignStatus;
+  closed_reason: CampaignClosedReason | null;
+  closed_at: string | null;
+}
+
+const COVER_WIDTH = 1200;
+const COVER_HEIGHT = 630;
+// Refuse images that would take too much memory to decode
+const MAX_INPUT_PIXELS = 40_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * URL slug for a campaign title, e.g. "renovasi-atap-masjid"
+ */
+export const campaignSlug = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 200)
+    .replace(/-+$/, '') || 'kampanye';
+
+/**
+ * Status of a campaign after its target or deadline changed: a campaign
+ * short of its target and not past its deadline is open again, whatever
+ * closed it before
+ */
+export const campaignStateAfterChange = (
+  campaign: { status: CampaignStatus; closed_reason: CampaignClosedReason | null; closed_at: string | null; total_raised: number; target_amount: number; deadline: string | null },
+  today: string
+): CampaignState => {
+  const now = new Date().toISOString();
+
+  if (Number(campaign.total_raised) >= Number(campaign.target_amount)) {
+    return campaign.status === 'Completed'
+      ? { status: 'Completed', closed_reason: campaign.closed_reason, closed_at: campaign.closed_at }
+      : { status: 'Completed', closed_reason: 'target_reached', closed_at: now };
+  }
+
+  if (campaign.deadline && campaign.deadline < today) {
+    return campaign.status === 'Closed'
+      ? { status: 'Closed', closed_reason: campaign.closed_reason, closed_at: campaign.closed_at }
+      : { status: 'Closed', closed_reason: 'deadline', closed_at: now };
+  }
+
+  return { status: 'Active', closed_reason: null, closed_at: null };
+};
+
+/**
+ * Campaign as returned by the API: the cover storage key is replaced by a URL
+ * and progress is added
+ */
+export const presentCampaign = <T extends { id: string; cover_image_key: string | null; total_raised: number; target_amount: number; deadline: string | null }>(
+  campaign: T,
+  today: string
+) => {
+  const { cover_image_key, ...rest } = campaign;
+  const totalRaised = Number(campaign.total_raised);
+  const target = Number(campaign.target_amount);
+
+  return {
+    ...rest,
+    total_raised: totalRaised,
+    target_amount: target,
+    cover_url: campaignCoverUrl({ id: campaign.id, cover_image_key }),
+    progress: target > 0 ? Math.min(100, Math.round((totalRaised / target) * 1000) / 10) : 0,
+    remaining_amount: Math.max(0, target - totalRaised),
+    days_left: campaign.deadline
+      ? Math.max(0, Math.round((Date.parse(campaign.deadline) - Date.parse(today)) / DAY_MS))
+      : null
+  };
+};
+
+/**
+ * Wide WebP cover from an uploaded JPEG, PNG or WebP image
+ */
+export const createCampaignCover = async (body: Buffer): Promise<{ body?: Buffer; error?: string }> => {
+  const mimeType = detectMimeType(body);
+  if (!mimeType || !mimeType.startsWith('image/')) {
+    return { error: 'Cover image must be a JPEG, PNG or WebP image' };
+  }
+
+  try {
+    const cover = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(COVER_WIDTH, COVER_HEIGHT, { fit: 'cover', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    return { body: cover };
+  } catch {
+    return { error: 'Image could not be read' };
+  }
+};
+
+/**
+ * Storage key for a new campaign cover; every upload gets a new key so the
+ * cover URL can be cached forever
+ */
+export const campaignCoverKey = (campaignId: string): string =>
+  `campaigns/${campaignId}/cover-${crypto.randomBytes(6).toString('hex')}.webp`;
+
+/**
+ * Public URL of a campaign's cover image
+ */
+export const campaignCoverUrl = (campaign: { id: string; cover_image_key: string | null }): string | null =>
+  campaign.cover_image_key
+    ? `/api/donations/campaigns/${campaign.id}/cover?v=${campaign.cover_image_key.split('/').pop()?.replace('.webp', '')}`
+    : null;
+
+/**
+ * Close active campaigns whose deadline has passed; returns how many were closed
+ */
+export const closeExpiredCampaigns = async (): Promise<number> => {
+  const today = getMosqueToday(await getMosqueSettings());
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('donation_campaigns')
+    .update({ status: 'Closed', closed_reason: 'deadline', closed_at: now, updated_at: now })
+    .eq('status', 'Active')
+    .lt('deadline', today)
+    .select('id, title');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  for (const campaign of data || []) {
+    // Log deadline closing
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: null,
+        action: 'CLOSE',
+        resource_type: 'DONATION_CAMPAIGN',
+        resource_id: campaign.id,
+        details: { title: campaign.title, reason: 'deadline' }
+      });
+  }
+
+  return data?.length || 0;
+};
@@ -0,0 +1,308 @@
+/**
+ * Donation payments
+ *
+ * Creates gateway payments for donations and applies payment callbacks.
+ * Callbacks are verified by the provider, recorded once in payment_callbacks
+ * (so resent notifications are answered with the first result) and checked
+ * against the donation amount before the donation is completed.
+ */
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase.js';
+import {
+  getPaymentProvider,
+  paymentQrCode,
+  CallbackHeaders,
+  PaymentInstructions,
+  PaymentNotification
+} from './payments.js';
+import { issueDonationReceipt } from './receipts.js';
+
+export interface PayableDonation {
+  id?: string;
+  reference_number: string;
+  amount: number;
+  donation_type: string;
+}
+
+export interface PaymentDetails {
+  provider: string | null;
+  method: string | null;
+  reference: string;
+  amount: number;
+  qr_string: string | null;
+  // PNG data URL of the QRIS code
+  qr_image: string | null;
+  va_number: string | null;
+  va_bank: string | null;
+  expires_at: string | null;
+}
+
+export interface CallbackOutcome {
+  status: number;
+  body: { success: boolean; message?: string; error?: string; data?: { result: string; duplicate?: boolean } };
+}
+
+/**
+ * A new unique donation reference, e.g. DON-1718000000000-1A2B3C4D
+ */
+export const donationReference = (): string =>
+  `DON-${Date.now()}-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+
+/**
+ * Create the gateway payment for a new donation; returns the donation columns
+ * to store with it
+ */
+export const createDonationPayment = async (
+  donation: PayableDonation,
+  customerName?: string | null
+): Promise<Record<string, unknown>> => {
+  const provider = getPaymentProvider();
+  const payment: PaymentInstructions = await provider.createPayment({
+    reference: donation.reference_number,
+    amount: Number(donation.amount),
+    description: `${donation.donation_type} - ${donation.reference_number}`,
+    customer_name: customerName
+  });
+
+  return {
+    payment_provider: payment.provider,
+    payment_method: payment.method,
+    provider_reference: payment.provider_reference,
+    qr_code_data: payment.qr_string || null,
+    va_number: payment.va_number || null,
+    va_bank: payment.va_bank || null,
+    payment_expires_at: payment.expires_at
+  };
+};
+
+/**
+ * Whether an unpaid donation needs a new payment: it has none yet, it failed
+ * or its QR code or virtual account has expired
+ */
+export const needsNewPayment = (donation: Record<string, unknown>, now = Date.now()): boolean =>
+  donation.status === 'Failed'
+  || !donation.payment_provider
+  || (typeof donation.payment_expires_at === 'string' && Date.parse(donation.payment_expires_at) <= now);
+
+/**
+ * Give an unpaid donation a new payment under a new reference. The old
+ * payment can no longer be paid, so its reference is not needed for callbacks.
+ * Returns null when the donation was paid or cancelled in the meantime.
+ */
+export const renewDonationPayment = async (
+  donation: Record<string, unknown>,
+  customerName?: string | null
+): Promise<Record<string, unknown> | null> => {
+  const reference = donationReference();
+  const paymentColumns = await createDonationPayment(
+    { reference_number: reference, amount: Number(donation.amount), donation_type: String(donation.donation_type) },
+    customerName
+  );
+
+  const { data: renewed, error } = await supabaseAdmin
+    .from('donations')
+    .update({ reference_number: reference, ...paymentColumns, status: 'Pending', updated_at: new Date().toISOString() })
+    .eq('id', donation.id as string)
+    .in('status', ['Pending', 'Failed'])
+    .select('*');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return renewed?.[0] || null;
+};
+
+/**
+ * How to pay a donation, with the QR code as an image
+ */
+export const getPaymentDetails = async (donation: Record<string, unknown>): Promise<PaymentDetails> => {
+  const qrString = typeof donation.qr_code_data === 'string' && donation.payment_provider ? donation.qr_code_data : null;
+
+  return {
+    provider: (donation.payment_provider as string) || null,
+    method: (donation.payment_method as string) || null,
+    reference: String(donation.reference_number),
+    amount: Number(donation.amount),
+    qr_string: qrString,
+    qr_image: qrString ? await paymentQrCode(qrString) : null,
+    va_number: (donation.va_number as string) || null,
+    va_bank: (donation.va_bank as string) || null,
+    expires_at: (donation.payment_expires_at as string) || null
+  };
+};
+
+// Apply a verified notification to its donation; returns the result recorded for the callback
+const applyNotification = async (
+  notification: PaymentNotification,
+  donation: Record<string, unknown>
+): Promise<string> => {
+  const now = new Date().toISOString();
+
+  if (notification.status === 'pending') {
+    return 'ignored';
+  }
+
+  if (notification.status !== 'paid') {
+    // Only payments still waiting can fail; a late failure never undoes a payment
+    const { data: failed } = await supabaseAdmin
+      .from('donations')
+      .update({ status: 'Failed', updated_at: now })
+      .eq('id', donation.id as string)
+      .eq('status', 'Pending')
+      .select('id');
+    return failed && failed.length > 0 ? 'failed' : 'ignored';
+  }
+
+  if (Math.abs(notification.amount - Number(donation.amount)) >= 0.01) {
+    // Keep the donation pending for a person to reconcile
+    await supabaseAdmin
+      .from('donations')
+      .update({
+        paid_amount: notification.amount,
+        transaction_id: notification.transaction_id,
+        updated_at: now
+      })
+      .eq('id', donation.id as string);
+    return 'amount_mismatch';
+  }
+
+  // A payment that arrives after the donation expired still completes it
+  const { data: completed } = await supabaseAdmin
+    .from('donations')
+    .update({
+      status: 'Completed',
+      completed_at: now,
+      paid_at: notification.paid_at || now,
+      paid_amount: notification.amount,
+      transaction_id: notification.transaction_id,
+      updated_at: now
+    })
+    .eq('id', donation.id as string)
+    .neq('status', 'Completed')
+    .select('id');
+
+  return completed && completed.length > 0 ? 'completed' : 'already_completed';
+};
+
+/**
+ * Verify and apply a payment callback from a provider
+ */
+export const processPaymentCallback = async (
+  providerName: string | undefined,
+  rawBody: Buffer,
+  headers: CallbackHeaders
+): Promise<CallbackOutcome> => {
+  let provider;
+  try {
+    provider = getPaymentProvider(providerName);
+  } catch {
+    return { status: 404, body: { success: false, error: 'Unknown payment provider' } };
+  }
+
+  const notification = provider.parseCallback(rawBody, headers);
+  if (!notification) {
+    return { status: 401, body: { success: false, error: 'Invalid signature' } };
+  }
+
+  const { data: callback, error: insertError } = await supabaseAdmin
+    .from('payment_callbacks')
+    .insert({
+      provider: provider.name,
+      reference: notification.reference,
+      transaction_id: notification.transaction_id,
+      status: notification.status,
+      amount: Number.isFinite(notification.amount) ? notification.amount : null,
+      payload: JSON.parse(rawBody.toString('utf8'))
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    if (insertError.code !== '23505') {
+      throw new Error(insertError.message);
+    }
+
+    // Already received: answer with the first result
+    const { data: previous } = await supabaseAdmin
+      .from('payment_callbacks')
+      .select('result')
+      .eq('provider', provider.name)
+      .eq('transaction_id', notification.transaction_id)
+      .eq('status', notification.status)
+      .single();
+
+    return {
+      status: 200,
+      body: { success: true, message: 'Callback already processed', data: { result: previous?.result || 'received', duplicate: true } }
+    };
+  }
+
+  try {
+    const { data: donation } = await supabaseAdmin
+      .from('donations')
+      .select('*')
+      .eq('reference_number', notification.reference)
+      .single();
+
+    // Only the gateway the donation's payment was created with can settle it
+    const result = !donation
+      ? 'unknown_donation'
+      : donation.payment_provider !== provider.name
+        ? 'provider_mismatch'
+        : await applyNotification(notification, donation);
+
+    if (result === 'completed') {
+      try {
+        const { data: completed } = await supabaseAdmin
+          .from('donations')
+          .select('*')
+          .eq('id', donation.id)
+          .single();
+        if (completed) await issueDonationReceipt(completed);
+      } catch (receiptError) {
+        // The receipt is issued on download instead
+        console.error('Issue donation receipt error:', receiptError);
+      }
+    }
+
+    await supabaseAdmin
+      .from('payment_callbacks')
+      .update({ result, donation_id: donation?.id || null })
+      .eq('id', callback.id);
+
+    if (donation) {
+      // Log payment callback
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: donation.donor_id,
+          action: ['amount_mismatch', 'provider_mismatch'].includes(result) ? 'PAYMENT_MISMATCH' : 'PAYMENT_CALLBACK',
+          resource_type: 'DONATION',
+          resource_id: donation.id,
+          details: {
+            provider: provider.name,
+            reference: notification.reference,
+            status: notification.status,
+            transaction_id: notification.transaction_id,
+            amount: notification.amount,
+            expected_amount: donation.amount,
+            result
+          }
+        });
+    }
+
+    if (!donation) {
+      return { status: 404, body: { success: false, error: 'Donation not found' } };
+    }
+
+    if (result === 'provider_mismatch') {
+      return { status: 409, body: { success: false, error: 'Donation is not paid through this provider' } };
+    }
+
+    return { status: 200, body: { success: true, message: 'Payment processed', data: { result } } };
+  } catch (error) {
+    // Let the gateway's retry process the callback again
+    await supabaseAdmin.from('payment_callbacks').delete().eq('id', callback.id);
+    throw error;
+  }
+};
@@ -0,0 +1,83 @@
+/**
+ * Event tickets and attendance
+ *
+ * Every confirmed registration has a QR ticket: the registration ID signed
+ * with an HMAC, so a scanner can reject forged tickets before looking the
+ * registration up. Tickets never change, which lets the PWA keep them for
+ * offline use.
+ */
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { getSigningSecret } from './secrets.js';
+
+export const TICKET_PREFIX = 'MSJ1';
+
+export type CheckInMethod = 'ticket' | 'walk_in' | 'manual';
+
+export interface AttendanceRecord {
+  status: string;
+  check_in_method?: CheckInMethod | null;
+}
+
+export interface AttendanceSummary {
+  registered: number;
+  attended: number;
+  walk_ins: number;
+  no_shows: number;
+  waitlisted: number;
+  attendance_rate: number | null;
+}
+
+const sign = (registrationId: string) => {
+  const secret = getSigningSecret('EVENT_TICKET_SECRET');
+  return crypto.createHmac('sha256', secret).update(`ticket:${registrationId}`).digest('base64url');
+};
+
+/**
+ * Ticket token encoded in a registration's QR code
+ */
+export const createTicketToken = (registrationId: string): string =>
+  `${TICKET_PREFIX}.${registrationId}.${sign(registrationId)}`;
+
+/**
+ * Registration ID of a genuine ticket token, or null
+ */
+export const parseTicketToken = (token: string): string | null => {
+  const [prefix, registrationId, signature] = token.trim().split('.');
+  if (prefix !== TICKET_PREFIX || !registrationId || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(registrationId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? registrationId : null;
+};
+
+/**
+ * QR code image (PNG data URL) for a ticket token
+ */
+export const ticketQrCode = (token: string): Promise<string> =>
+  QRCode.toDataURL(token, { errorCorrectionLevel: 'M', margin: 1, width: 320 });
+
+/**
+ * Attendance totals for a set of registrations. No-shows are only counted
+ * once the event has started.
+ */
+export const summarizeAttendance = (registrations: AttendanceRecord[], hasStarted: boolean): AttendanceSummary => {
+  const registered = registrations.filter(r =>
+    ['registered', 'attended'].includes(r.status) && r.check_in_method !== 'walk_in'
+  );
+  const attended = registrations.filter(r => r.status === 'attended');
+  const registeredAttended = registered.filter(r => r.status === 'attended').length;
+
+  return {
+    registered: registered.length,
+    attended: attended.length,
+    walk_ins: attended.filter(r => r.check_in_method === 'walk_in').length,
+    no_shows: hasStarted ? registered.length - registeredAttended : 0,
+    waitlisted: registrations.filter(r => r.status === 'waitlisted').length,
+    attendance_rate: hasStarted && registered.length > 0
+      ? Math.round((registeredAttended / registered.length) * 1000) / 10
+      : null
+  };
+};
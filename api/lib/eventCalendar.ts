@@ -0,0 +1,95 @@
+/**
+ * Event calendar feeds
+ *
+ * Maps events and their occurrences to iCalendar VEVENTs. UIDs are stable
+ * (one per event, or per occurrence date of a recurring event) and SEQUENCE
+ * follows the last edit, so calendar apps subscribed to a feed apply updates
+ * and cancellations instead of adding duplicates.
+ */
+import crypto from 'crypto';
+import { ICalEvent } from './ical.js';
+import { EventOccurrence, RecurringEvent } from './eventOccurrences.js';
+
+// Events have no end time; calendars get a typical length per type
+export const EVENT_DURATION_MINUTES: Record<string, number> = {
+  jumat: 60,
+  kajian: 90,
+  pengajian: 120
+};
+
+const DEFAULT_DURATION_MINUTES = 90;
+
+/**
+ * Typical length of an event of a type, in minutes
+ */
+export const getEventDuration = (type: string): number => EVENT_DURATION_MINUTES[type] || DEFAULT_DURATION_MINUTES;
+
+export const EVENT_TYPE_LABELS: Record<string, string> = {
+  kajian: 'Kajian',
+  jumat: "Jum'at",
+  pengajian: 'Pengajian'
+};
+
+export interface CalendarEvent extends RecurringEvent {
+  title: string;
+  description: string | null;
+  type: string;
+  updated_at: string | null;
+  is_active?: boolean | null;
+}
+
+/**
+ * Stable UID of an event, or of one occurrence of a recurring event
+ */
+export const eventUid = (eventId: string, occurrenceDate?: string | null): string =>
+  occurrenceDate
+    ? `event-${eventId}-${occurrenceDate.replace(/-/g, '')}@masjeed`
+    : `event-${eventId}@masjeed`;
+
+/**
+ * Random token for a private calendar feed URL
+ */
+export const generateCalendarToken = (): string => crypto.randomBytes(24).toString('base64url');
+
+/**
+ * VEVENT for an event, or for one occurrence when given. Deleted events and
+ * cancelled occurrences are kept as CANCELLED so subscribers remove them.
+ */
+export const toICalEvent = (
+  event: CalendarEvent,
+  occurrence?: EventOccurrence | null,
+  options: { tentative?: boolean } = {}
+): ICalEvent => {
+  const start = new Date(occurrence?.starts_at || event.event_datetime);
+  const duration = getEventDuration(event.type);
+  const speaker = occurrence ? occurrence.speaker : event.speaker;
+
+  // Either the event or its override may be the most recent edit
+  const lastModified = new Date(Math.max(
+    Date.parse(event.updated_at || event.event_datetime),
+    occurrence?.updated_at ? Date.parse(occurrence.updated_at) : 0
+  ));
+
+  const isCancelled = event.is_active === false || Boolean(occurrence?.is_cancelled);
+  const appUrl = process.env.APP_URL || 'http://localhost:5173';
+  const description = [
+    speaker ? `Pemateri: ${speaker}` : null,
+    occurrence?.notes || null,
+    event.description || null
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    uid: eventUid(event.id, occurrence?.occurrence_date),
+    start,
+    end: new Date(start.getTime() + duration * 60 * 1000),
+    summary: event.title,
+    description: description || null,
+    location: occurrence ? occurrence.location : event.location,
+    url: `${appUrl}/events/${event.id}${occurrence ? `?date=${occurrence.occurrence_date}` : ''}`,
+    categories: [EVENT_TYPE_LABELS[event.type] || event.type],
+    status: isCancelled ? 'CANCELLED' : options.tentative ? 'TENTATIVE' : 'CONFIRMED',
+    // Seconds since the epoch grow with every edit
+    sequence: Math.floor(lastModified.getTime() / 1000),
+    lastModified
+  };
+};
@@ -0,0 +1,238 @@
+/**
+ * Event occurrences
+ *
+ * Expands recurring events into dated occurrences in the mosque timezone and
+ * applies the per-occurrence overrides from event_occurrence_overrides
+ * (cancellations, start time, speaker, location and capacity).
+ */
+import { supabaseAdmin } from './supabase.js';
+import { parseRRule, formatRRule, expandRRule, describeRRule } from './recurrence.js';
+import { getMosqueSettings, resolveSchedules, MosqueSettings, ResolvedPrayerSchedule } from './prayerSchedule.js';
+import { getLocalDate, getLocalTime, toUtcDate } from './prayerTimes.js';
+import { addMinutes } from './iqamah.js';
+
+export const RECURRENCE_ANCHORS = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'] as const;
+
+export type RecurrenceAnchor = typeof RECURRENCE_ANCHORS[number];
+
+// Longest range of occurrences listed in one request
+export const MAX_OCCURRENCE_RANGE_DAYS = 366;
+
+const MIN_OFFSET_MINUTES = -180;
+const MAX_OFFSET_MINUTES = 720;
+
+export interface EventRecurrence {
+  recurrence_rule: string | null;
+  recurrence_anchor: RecurrenceAnchor | null;
+  recurrence_offset_minutes: number;
+}
+
+export interface RecurringEvent extends Partial<EventRecurrence> {
+  id: string;
+  event_datetime: string;
+  speaker: string | null;
+  speaker_id?: string | null;
+  location: string;
+  capacity: number | null;
+}
+
+export interface OccurrenceOverride {
+  event_id: string;
+  occurrence_date: string;
+  is_cancelled: boolean;
+  starts_at: string | null;
+  speaker: string | null;
+  speaker_id: string | null;
+  location: string | null;
+  capacity: number | null;
+  notes: string | null;
+  updated_at: string | null;
+}
+
+export interface EventOccurrence {
+  occurrence_date: string;
+  starts_at: string;
+  speaker: string | null;
+  speaker_id: string | null;
+  location: string;
+  capacity: number | null;
+  notes: string | null;
+  is_cancelled: boolean;
+  is_overridden: boolean;
+  // When the occurrence's override last changed
+  updated_at: string | null;
+}
+
+export interface ExpandOptions {
+  includeCancelled?: boolean;
+}
+
+/**
+ * Validate the recurrence fields of a request body. Only fields present in
+ * the body are returned; the rule is stored in canonical form.
+ */
+export const parseRecurrence = (body: Record<string, unknown>): { recurrence: Partial<EventRecurrence>; error?: string } => {
+  const recurrence: Partial<EventRecurrence> = {};
+
+  if (body.recurrence_rule !== undefined) {
+    const rule = body.recurrence_rule;
+    if (rule === null || rule === '') {
+      recurrence.recurrence_rule = null;
+    } else if (typeof rule !== 'string') {
+      return { recurrence, error: 'recurrence_rule must be an RRULE string' };
+    } else {
+      try {
+        recurrence.recurrence_rule = formatRRule(parseRRule(rule));
+      } catch (error) {
+        return { recurrence, error: `Invalid recurrence_rule: ${(error as Error).message}` };
+      }
+    }
+  }
+
+  if (body.recurrence_anchor !== undefined) {
+    const anchor = body.recurrence_anchor;
+    if (anchor !== null && anchor !== '' && !RECURRENCE_ANCHORS.includes(anchor as RecurrenceAnchor)) {
+      return { recurrence, error: `recurrence_anchor must be one of: ${RECURRENCE_ANCHORS.join(', ')}` };
+    }
+    recurrence.recurrence_anchor = (anchor as RecurrenceAnchor | null) || null;
+  }
+
+  if (body.recurrence_offset_minutes !== undefined) {
+    const offset = Number(body.recurrence_offset_minutes ?? 0);
+    if (!Number.isInteger(offset) || offset < MIN_OFFSET_MINUTES || offset > MAX_OFFSET_MINUTES) {
+      return {
+        recurrence,
+        error: `recurrence_offset_minutes must be a whole number between ${MIN_OFFSET_MINUTES} and ${MAX_OFFSET_MINUTES}`
+      };
+    }
+    recurrence.recurrence_offset_minutes = offset;
+  }
+
+  return { recurrence };
+};
+
+/**
+ * Whether an event is a recurring series
+ */
+export const isRecurring = (event: Partial<EventRecurrence>): boolean => Boolean(event.recurrence_rule);
+
+/**
+ * Indonesian description of an event's recurrence, e.g. "Setiap Kamis, 10 menit setelah maghrib"
+ */
+export const describeRecurrence = (event: Partial<EventRecurrence>): string | null => {
+  if (!event.recurrence_rule) return null;
+
+  const description = describeRRule(parseRRule(event.recurrence_rule));
+  if (!event.recurrence_anchor) return description;
+
+  const offset = event.recurrence_offset_minutes || 0;
+  const anchor = event.recurrence_anchor;
+  if (offset === 0) return `${description}, waktu ${anchor}`;
+  return offset > 0
+    ? `${description}, ${offset} menit setelah ${anchor}`
+    : `${description}, ${-offset} menit sebelum ${anchor}`;
+};
+
+/**
+ * Expand recurring events into their occurrences between two local dates
+ * (inclusive), keyed by event ID. Cancelled occurrences are left out unless
+ * includeCancelled is set.
+ */
+export const expandOccurrences = async (
+  events: RecurringEvent[],
+  rangeStart: string,
+  rangeEnd: string,
+  settings?: MosqueSettings,
+  options: ExpandOptions = {}
+): Promise<Map<string, EventOccurrence[]>> => {
+  const mosqueSettings = settings || await getMosqueSettings();
+  const { timezone } = mosqueSettings;
+  const occurrences = new Map<string, EventOccurrence[]>();
+
+  const series = events
+    .filter(event => event.recurrence_rule)
+    .map(event => ({
+      event,
+      dates: expandRRule(
+        parseRRule(event.recurrence_rule as string),
+        getLocalDate(timezone, new Date(event.event_datetime)),
+        rangeStart,
+        rangeEnd
+      )
+    }))
+    .filter(({ dates }) => dates.length > 0);
+
+  if (series.length === 0) {
+    return occurrences;
+  }
+
+  const allDates = series.flatMap(({ dates }) => dates).sort();
+  const firstDate = allDates[0];
+  const lastDate = allDates[allDates.length - 1];
+
+  // Prayer times are only needed for series anchored to a prayer
+  const needsSchedules = series.some(({ event }) => event.recurrence_anchor);
+  const [schedules, overridesResult] = await Promise.all([
+    needsSchedules ? resolveSchedules(firstDate, lastDate, mosqueSettings) : Promise.resolve([] as ResolvedPrayerSchedule[]),
+    supabaseAdmin
+      .from('event_occurrence_overrides')
+      .select('event_id, occurrence_date, is_cancelled, starts_at, speaker, speaker_id, location, capacity, notes, updated_at')
+      .in('event_id', series.map(({ event }) => event.id))
+      .gte('occurrence_date', firstDate)
+      .lte('occurrence_date', lastDate)
+  ]);
+
+  if (overridesResult.error) {
+    throw new Error(overridesResult.error.message);
+  }
+
+  const schedulesByDate = new Map(schedules.map(schedule => [schedule.prayer_date, schedule]));
+  const overrides = new Map<string, OccurrenceOverride>(
+    ((overridesResult.data || []) as OccurrenceOverride[]).map(override => [`${override.event_id}:${override.occurrence_date}`, override])
+  );
+
+  for (const { event, dates } of series) {
+    const defaultTime = getLocalTime(timezone, new Date(event.event_datetime));
+    const list: EventOccurrence[] = [];
+
+    for (const date of dates) {
+      const override = overrides.get(`${event.id}:${date}`);
+      if (override?.is_cancelled && !options.includeCancelled) continue;
+
+      // Fall back to the series time when the prayer time is unavailable
+      const anchorTime = event.recurrence_anchor ? schedulesByDate.get(date)?.[event.recurrence_anchor] : null;
+      const time = anchorTime ? addMinutes(anchorTime, event.recurrence_offset_minutes || 0) : defaultTime;
+
+      list.push({
+        occurrence_date: date,
+        starts_at: override?.starts_at || toUtcDate(date, time, timezone).toISOString(),
+        speaker: override?.speaker || event.speaker,
+        // An override naming someone else replaces the series' speaker
+        speaker_id: override?.speaker ? override.speaker_id : event.speaker_id ?? null,
+        location: override?.location || event.location,
+        capacity: override?.capacity ?? event.capacity,
+        notes: override?.notes || null,
+        is_cancelled: Boolean(override?.is_cancelled),
+        is_overridden: Boolean(override),
+        updated_at: override?.updated_at || null
+      });
+    }
+
+    occurrences.set(event.id, list);
+  }
+
+  return occurrences;
+};
+
+/**
+ * The occurrence of a recurring event on a local date, cancelled or not;
+ * null when the series does not fall on that date
+ */
+export const findOccurrence = async (
+  event: RecurringEvent,
+  date: string,
+  settings?: MosqueSettings
+): Promise<EventOccurrence | null> => {
+  const occurrences = await expandOccurrences([event], date, date, settings, { includeCancelled: true });
+  return occurrences.get(event.id)?.[0] || null;
+};
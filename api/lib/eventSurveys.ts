@@ -0,0 +1,330 @@
+/**
+ * Event surveys
+ *
+ * Short feedback surveys attached to events: rating scales, multiple choice
+ * and free text questions. Surveys open to attendees when the event (or
+ * occurrence) starts. Responses may be anonymous; a keyed hash of the
+ * respondent still limits each member to one response per occurrence.
+ */
+import crypto from 'crypto';
+import { getSigningSecret } from './secrets.js';
+
+export const QUESTION_TYPES = ['rating', 'choice', 'text'] as const;
+export const RATING_CATEGORIES = ['speaker', 'topic', 'venue', 'overall'] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+export type RatingCategory = typeof RATING_CATEGORIES[number];
+
+export const MAX_QUESTIONS = 20;
+export const MAX_TEXT_ANSWER_LENGTH = 1000;
+
+const DEFAULT_SCALE = 5;
+const MIN_SCALE = 2;
+const MAX_SCALE = 10;
+const MAX_OPTIONS = 12;
+const QUESTION_ID_PATTERN = /^[a-z0-9_-]{1,40}$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SurveyQuestion {
+  id: string;
+  type: QuestionType;
+  label: string;
+  required: boolean;
+  // rating
+  scale?: number;
+  category?: RatingCategory | null;
+  // choice
+  options?: string[];
+  multiple?: boolean;
+}
+
+export type SurveyAnswer = number | string | string[];
+
+export type SurveyAnswers = Record<string, SurveyAnswer>;
+
+export interface SurveyResponse {
+  answers: SurveyAnswers;
+  // Null for anonymous responses
+  respondent_name: string | null;
+  submitted_at: string;
+}
+
+export type QuestionSummary =
+  | (SurveyQuestion & { type: 'rating'; responses: number; average: number | null; distribution: number[] })
+  | (SurveyQuestion & { type: 'choice'; responses: number; counts: { option: string; count: number }[] })
+  | (SurveyQuestion & { type: 'text'; responses: number; answers: { text: string; respondent_name: string | null; submitted_at: string }[] });
+
+export interface RatingSummary {
+  responses: number;
+  // Average on a 1-5 scale, whatever the scale of the questions
+  average: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Validate survey questions from a request body; questions without an ID get
+ * one from their position
+ */
+export const parseQuestions = (input: unknown): { questions?: SurveyQuestion[]; error?: string } => {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'questions must be a non-empty list' };
+  }
+  if (input.length > MAX_QUESTIONS) {
+    return { error: `A survey can have at most ${MAX_QUESTIONS} questions` };
+  }
+
+  const questions: SurveyQuestion[] = [];
+  const ids = new Set<string>();
+
+  for (const [index, item] of input.entries()) {
+    const raw = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const position = index + 1;
+    const id = raw.id === undefined || raw.id === null || raw.id === '' ? `q${position}` : String(raw.id);
+    const label = typeof raw.label === 'string' ? raw.label.trim() : '';
+    const type = raw.type as QuestionType;
+
+    if (!QUESTION_ID_PATTERN.test(id) || ids.has(id)) {
+      return { error: `Question ${position} has an invalid or duplicate id` };
+    }
+    if (!QUESTION_TYPES.includes(type)) {
+      return { error: `Question ${position} must have type ${QUESTION_TYPES.join(', ')}` };
+    }
+    if (!label || label.length > 300) {
+      return { error: `Question ${position} needs a label of at most 300 characters` };
+    }
+    ids.add(id);
+
+    const question: SurveyQuestion = { id, type, label, required: raw.required === true };
+
+    if (type === 'rating') {
+      const scale = raw.scale === undefined || raw.scale === null ? DEFAULT_SCALE : Number(raw.scale);
+      if (!Number.isInteger(scale) || scale < MIN_SCALE || scale > MAX_SCALE) {
+        return { error: `Question ${position} must have a scale between ${MIN_SCALE} and ${MAX_SCALE}` };
+      }
+      const category = raw.category === undefined || raw.category === null || raw.category === ''
+        ? null
+        : raw.category as RatingCategory;
+      if (category !== null && !RATING_CATEGORIES.includes(category)) {
+        return { error: `Question ${position} must have category ${RATING_CATEGORIES.join(', ')}` };
+      }
+      question.scale = scale;
+      question.category = category;
+    }
+
+    if (type === 'choice') {
+      const options = Array.isArray(raw.options)
+        ? raw.options.map(option => String(option).trim()).filter(Boolean)
+        : [];
+      if (options.length < 2 || options.length > MAX_OPTIONS || new Set(options).size !== options.length) {
+        return { error: `Question ${position} needs 2 to ${MAX_OPTIONS} distinct options` };
+      }
+      if (options.some(option => option.length > 100)) {
+        return { error: `Question ${position} has an option longer than 100 characters` };
+      }
+      question.options = options;
+      question.multiple = raw.multiple === true;
+    }
+
+    questions.push(question);
+  }
+
+  return { questions };
+};
+
+/**
+ * Whether new questions keep existing answers meaningful: every existing
+ * question is kept with the same type, scale and options (labels may change
+ * and questions and options may be added)
+ */
+export const areQuestionsCompatible = (current: SurveyQuestion[], next: SurveyQuestion[]): boolean => {
+  const byId = new Map(next.map(question => [question.id, question]));
+
+  return current.every(question => {
+    const updated = byId.get(question.id);
+    if (!updated || updated.type !== question.type) return false;
+    if (question.type === 'rating') return updated.scale === question.scale;
+    if (question.type === 'choice') {
+      return (question.options || []).every(option => updated.options?.includes(option))
+        && Boolean(updated.multiple) === Boolean(question.multiple);
+    }
+    return true;
+  });
+};
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Validate a response against the survey questions; unknown questions are
+ * dropped
+ */
+export const validateAnswers = (
+  questions: SurveyQuestion[],
+  input: unknown
+): { answers?: SurveyAnswers; error?: string } => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'answers must be an object keyed by question id' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const answers: SurveyAnswers = {};
+
+  for (const question of questions) {
+    const value = typeof raw[question.id] === 'string' ? (raw[question.id] as string).trim() : raw[question.id];
+
+    if (isBlank(value)) {
+      if (question.required) {
+        return { error: `"${question.label}" is required` };
+      }
+      continue;
+    }
+
+    if (question.type === 'rating') {
+      const rating = Number(value);
+      if (!Number.isInteger(rating) || rating < 1 || rating > (question.scale || DEFAULT_SCALE)) {
+        return { error: `"${question.label}" must be a rating from 1 to ${question.scale || DEFAULT_SCALE}` };
+      }
+      answers[question.id] = rating;
+    } else if (question.type === 'choice') {
+      const options = question.options || [];
+      if (question.multiple) {
+        const choices = Array.isArray(value) ? [...new Set(value.map(String))] : [String(value)];
+        if (choices.some(choice => !options.includes(choice))) {
+          return { error: `"${question.label}" has an unknown option` };
+        }
+        answers[question.id] = choices;
+      } else {
+        if (typeof value !== 'string' || !options.includes(value)) {
+          return { error: `"${question.label}" has an unknown option` };
+        }
+        answers[question.id] = value;
+      }
+    } else {
+      if (typeof value !== 'string' || value.length > MAX_TEXT_ANSWER_LENGTH) {
+        return { error: `"${question.label}" must be text of at most ${MAX_TEXT_ANSWER_LENGTH} characters` };
+      }
+      answers[question.id] = value;
+    }
+  }
+
+  if (Object.keys(answers).length === 0) {
+    return { error: 'At least one question must be answered' };
+  }
+
+  return { answers };
+};
+
+/**
+ * Key identifying a member's response to a survey for an occurrence without
+ * revealing the member
+ */
+export const respondentKey = (surveyId: string, userId: string, occurrenceDate: string | null): string => {
+  const secret = getSigningSecret('SURVEY_SECRET');
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`survey:${surveyId}:${userId}:${occurrenceDate || ''}`)
+    .digest('base64url');
+};
+
+/**
+ * When a survey accepts responses for an event or occurrence starting at
+ * startsAt
+ */
+export const getSurveyWindow = (startsAt: string, openDays: number): { opens_at: string; closes_at: string } => {
+  const opens = Date.parse(startsAt);
+  return {
+    opens_at: new Date(opens).toISOString(),
+    closes_at: new Date(opens + openDays * DAY_MS).toISOString()
+  };
+};
+
+/**
+ * Whether a survey window is upcoming, open or closed at a moment
+ */
+export const getSurveyState = (
+  window: { opens_at: string; closes_at: string },
+  now = new Date()
+): 'upcoming' | 'open' | 'closed' => {
+  if (now.getTime() < Date.parse(window.opens_at)) return 'upcoming';
+  if (now.getTime() >= Date.parse(window.closes_at)) return 'closed';
+  return 'open';
+};
+
+/**
+ * Per-question results: rating averages and distributions, choice counts and
+ * the free text answers, newest first
+ */
+export const summarizeResponses = (questions: SurveyQuestion[], responses: SurveyResponse[]): QuestionSummary[] =>
+  questions.map(question => {
+    const answered = responses.filter(response => !isBlank(response.answers[question.id]));
+
+    if (question.type === 'rating') {
+      const scale = question.scale || DEFAULT_SCALE;
+      const ratings = answered.map(response => Number(response.answers[question.id]));
+      const distribution = Array.from({ length: scale }, (_, index) => ratings.filter(rating => rating === index + 1).length);
+      return {
+        ...question,
+        type: 'rating' as const,
+        responses: ratings.length,
+        average: ratings.length > 0 ? round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) : null,
+        distribution
+      };
+    }
+
+    if (question.type === 'choice') {
+      const chosen = answered.flatMap(response => {
+        const answer = response.answers[question.id];
+        return Array.isArray(answer) ? answer : [String(answer)];
+      });
+      // Options removed from the survey still show up when answered
+      const options = [...new Set([...(question.options || []), ...chosen])];
+      return {
+        ...question,
+        type: 'choice' as const,
+        responses: answered.length,
+        counts: options.map(option => ({ option, count: chosen.filter(choice => choice === option).length }))
+      };
+    }
+
+    return {
+      ...question,
+      type: 'text' as const,
+      responses: answered.length,
+      answers: answered
+        .map(response => ({
+          text: String(response.answers[question.id]),
+          respondent_name: response.respondent_name,
+          submitted_at: response.submitted_at
+        }))
+        .sort((a, b) => Date.parse(b.submitted_at) - Date.parse(a.submitted_at))
+    };
+  });
+
+/**
+ * Rating answers grouped by question category and scaled to 1-5, so surveys
+ * with different questions can be compared (e.g. across a speaker's events);
+ * ratings without a category are grouped as 'other'
+ */
+export const summarizeRatings = (
+  items: { questions: SurveyQuestion[]; answers: SurveyAnswers }[]
+): Record<string, RatingSummary> => {
+  const totals = new Map<string, { sum: number; count: number }>();
+
+  for (const { questions, answers } of items) {
+    for (const question of questions) {
+      if (question.type !== 'rating' || isBlank(answers[question.id])) continue;
+
+      const scale = question.scale || DEFAULT_SCALE;
+      // Map 1..scale onto 1..5
+      const scaled = 1 + ((Number(answers[question.id]) - 1) * 4) / (scale - 1);
+      const key = question.category || 'other';
+      const total = totals.get(key) || { sum: 0, count: 0 };
+      totals.set(key, { sum: total.sum + scaled, count: total.count + 1 });
+    }
+  }
+
+  return Object.fromEntries(
+    [...totals.entries()].map(([key, total]) => [key, { responses: total.count, average: round(total.sum / total.count) }])
+  );
+};
@@ -0,0 +1,253 @@
+/**
+ * Event waitlist
+ *
+ * Registrations beyond an event's capacity join a first come, first served
+ * waitlist. When a spot opens the next person is offered it and notified;
+ * they have a confirmation window to take it before it passes on. Spots are
+ * counted and taken in database functions that lock the event, so concurrent
+ * registrations and cancellations never hand out the same spot twice.
+ */
+import { supabaseAdmin } from './supabase.js';
+import { sendPushNotification } from './webPush.js';
+import { getMosqueSettings, MosqueSettings } from './prayerSchedule.js';
+import { isRecurring, findOccurrence } from './eventOccurrences.js';
+
+// Statuses that hold one of the event's spots
+export const SPOT_STATUSES = ['registered', 'attended', 'offered'];
+
+export const DEFAULT_CONFIRMATION_HOURS = 24;
+
+export interface WaitlistSlot {
+  event_id: string;
+  occurrence_date: string | null;
+  title: string;
+  starts_at: string;
+  capacity: number | null;
+  confirmation_hours: number | null;
+}
+
+/**
+ * Hours a promoted person has to confirm, from the event or the server default
+ */
+export const getConfirmationHours = (hours?: number | null): number =>
+  hours || Number(process.env.EVENT_WAITLIST_CONFIRMATION_HOURS) || DEFAULT_CONFIRMATION_HOURS;
+
+/**
+ * Register a member for an event or occurrence, on the waitlist once it is
+ * full; returns the registration, or null if they already have one
+ */
+export const registerForSlot = async (
+  eventId: string,
+  userId: string,
+  occurrenceDate: string | null,
+  capacity: number | null
+): Promise<(Record<string, unknown> & { id: string; status: string; registered_at: string }) | null> => {
+  // Counting the spots and inserting happen under the lock offers take, so
+  // concurrent registrations can't overfill the slot
+  const { data, error } = await supabaseAdmin.rpc('register_for_event', {
+    target_event_id: eventId,
+    target_user_id: userId,
+    target_occurrence_date: occurrenceDate,
+    slot_capacity: capacity || null
+  });
+
+  if (error) {
+    if (error.code === '23505') return null;
+    throw new Error(error.message);
+  }
+  return data[0];
+};
+
+/**
+ * 1-based place in line of a waitlisted registration
+ */
+export const getWaitlistPosition = async (
+  eventId: string,
+  occurrenceDate: string | null,
+  registeredAt: string
+): Promise<number> => {
+  let query = supabaseAdmin
+    .from('event_registrations')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_id', eventId)
+    .eq('status', 'waitlisted')
+    .lte('registered_at', registeredAt);
+  query = occurrenceDate ? query.eq('occurrence_date', occurrenceDate) : query.is('occurrence_date', null);
+
+  const { count, error } = await query;
+  if (error) throw new Error(error.message);
+  return count || 1;
+};
+
+/**
+ * Load the waitlist slot for an event or one of its occurrences; null when
+ * the event or occurrence does not exist or is cancelled
+ */
+export const loadWaitlistSlot = async (
+  eventId: string,
+  occurrenceDate: string | null,
+  settings?: MosqueSettings
+): Promise<WaitlistSlot | null> => {
+  const { data: event } = await supabaseAdmin
+    .from('events')
+    .select('*')
+    .eq('id', eventId)
+    .single();
+
+  if (!event) return null;
+
+  if (!isRecurring(event)) {
+    return {
+      event_id: event.id,
+      occurrence_date: null,
+      title: event.title,
+      starts_at: event.event_datetime,
+      capacity: event.capacity,
+      confirmation_hours: event.waitlist_confirmation_hours
+    };
+  }
+
+  if (!occurrenceDate) return null;
+  const occurrence = await findOccurrence(event, occurrenceDate, settings);
+  if (!occurrence || occurrence.is_cancelled) return null;
+
+  return {
+    event_id: event.id,
+    occurrence_date: occurrence.occurrence_date,
+    title: event.title,
+    starts_at: occurrence.starts_at,
+    capacity: occurrence.capacity,
+    confirmation_hours: event.waitlist_confirmation_hours
+  };
+};
+
+/**
+ * Offer open spots to the next people on the waitlist and notify them.
+ * Offers never outlast the start of the event. Returns how many were offered.
+ */
+export const promoteWaitlist = async (slot: WaitlistSlot, now = new Date()): Promise<number> => {
+  const startsAt = new Date(slot.starts_at);
+  if (startsAt <= now) return 0;
+
+  const windowEnd = new Date(now.getTime() + getConfirmationHours(slot.confirmation_hours) * 3600000);
+  const expiresAt = (windowEnd < startsAt ? windowEnd : startsAt).toISOString();
+
+  // Counting the open spots and claiming the next people in line happen in one
+  // locked step, so concurrent promotions can't offer the same spot twice
+  const { data: offered, error } = await supabaseAdmin.rpc('offer_waitlist_spots', {
+    target_event_id: slot.event_id,
+    target_occurrence_date: slot.occurrence_date,
+    slot_capacity: slot.capacity || null,
+    offer_expires: expiresAt
+  });
+
+  if (error) throw new Error(error.message);
+  if (!offered || offered.length === 0) return 0;
+
+  const settings = await getMosqueSettings();
+  const deadline = new Date(expiresAt).toLocaleString('id-ID', {
+    timeZone: settings.timezone,
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  for (const registration of offered as { id: string; user_id: string }[]) {
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: null,
+        action: 'PROMOTE',
+        resource_type: 'EVENT_REGISTRATION',
+        resource_id: registration.id,
+        details: { event_id: slot.event_id, occurrence_date: slot.occurrence_date, offer_expires_at: expiresAt }
+      });
+
+    try {
+      await sendPushNotification({
+        title: `🎉 Tempat tersedia: ${slot.title}`,
+        body: `Anda mendapat tempat dari daftar tunggu. Konfirmasi sebelum ${deadline}.`,
+        url: `/events/${slot.event_id}${slot.occurrence_date ? `?date=${slot.occurrence_date}` : ''}`,
+        tag: `waitlist-${registration.id}`,
+        requireInteraction: true
+      }, { userIds: [registration.user_id], urgency: 'high' });
+    } catch (pushError) {
+      console.error('Waitlist notification error:', pushError);
+    }
+  }
+
+  return offered.length;
+};
+
+/**
+ * Offer open spots on every waitlist of an event (each occurrence of a
+ * recurring event has its own), e.g. after its capacity was raised
+ */
+export const promoteEventWaitlists = async (eventId: string, now = new Date()): Promise<number> => {
+  const { data: waiting, error } = await supabaseAdmin
+    .from('event_registrations')
+    .select('occurrence_date')
+    .eq('event_id', eventId)
+    .eq('status', 'waitlisted');
+
+  if (error) throw new Error(error.message);
+
+  const settings = await getMosqueSettings();
+  const occurrenceDates = new Set<string | null>((waiting || []).map(registration => registration.occurrence_date));
+  let promoted = 0;
+
+  for (const occurrenceDate of occurrenceDates) {
+    const slot = await loadWaitlistSlot(eventId, occurrenceDate, settings);
+    if (slot) {
+      promoted += await promoteWaitlist(slot, now);
+    }
+  }
+
+  return promoted;
+};
+
+/**
+ * Drop offers whose confirmation window has passed and offer the spots to the
+ * next people in line. Returns how many offers lapsed.
+ */
+export const expireWaitlistOffers = async (now = new Date()): Promise<number> => {
+  // Only rows still offered come back, so each lapse is handled once
+  const { data: expired, error } = await supabaseAdmin
+    .from('event_registrations')
+    .delete()
+    .eq('status', 'offered')
+    .lte('offer_expires_at', now.toISOString())
+    .select('id, event_id, occurrence_date, user_id');
+
+  if (error) throw new Error(error.message);
+  if (!expired || expired.length === 0) return 0;
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert(expired.map(registration => ({
+      user_id: null,
+      action: 'EXPIRE',
+      resource_type: 'EVENT_REGISTRATION',
+      resource_id: registration.id,
+      details: {
+        event_id: registration.event_id,
+        occurrence_date: registration.occurrence_date,
+        registrant_id: registration.user_id
+      }
+    })));
+
+  const settings = await getMosqueSettings();
+  const slotKeys = new Set(expired.map(registration => `${registration.event_id}:${registration.occurrence_date || ''}`));
+
+  for (const key of slotKeys) {
+    const [eventId, occurrenceDate] = key.split(':');
+    const slot = await loadWaitlistSlot(eventId, occurrenceDate || null, settings);
+    if (slot) {
+      await promoteWaitlist(slot, now);
+    }
+  }
+
+  return expired.length;
+};
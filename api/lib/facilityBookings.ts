@@ -0,0 +1,311 @@
+/**
+ * Facility bookings
+ *
+ * Conflict detection for bookings of the hall, classrooms, ambulance and
+ * other facilities. A booking clashes with other bookings of the facility
+ * and with events held at the facility's location, including occurrences of
+ * recurring events moved there by an override. Approved bookings and events
+ * block a booking; pending requests are only reported. The same check runs
+ * the other way when an event is scheduled at a facility's location.
+ */
+import { supabaseAdmin } from './supabase.js';
+import { expandOccurrences, RecurringEvent } from './eventOccurrences.js';
+import { getMosqueSettings, MosqueSettings } from './prayerSchedule.js';
+import { getLocalDate } from './prayerTimes.js';
+import { getEventDuration } from './eventCalendar.js';
+
+export const BOOKING_STATUSES = ['pending', 'approved', 'rejected', 'cancelled'] as const;
+
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+
+// Longest single booking, e.g. an ambulance trip out of town
+export const MAX_BOOKING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Facility {
+  id: string;
+  name: string;
+  location: string | null;
+  buffer_minutes: number;
+}
+
+export interface LocationEvent {
+  event_id: string;
+  occurrence_date: string | null;
+  title: string;
+  location: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface BookingConflict {
+  type: 'booking' | 'event';
+  id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  status?: BookingStatus;
+  occurrence_date?: string | null;
+  // Approved bookings and events block; pending requests are warnings
+  blocking: boolean;
+}
+
+/**
+ * Comparable form of a location ("Aula Utama " and "aula utama" match)
+ */
+export const normalizeLocation = (location: string | null | undefined): string =>
+  (location || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) => startA < endB && startB < endA;
+
+/**
+ * Events and occurrences at any of the given locations overlapping a time
+ * range, with their typical length as end time
+ */
+export const listEventsAtLocations = async (
+  locations: string[],
+  from: Date,
+  to: Date,
+  settings?: MosqueSettings
+): Promise<LocationEvent[]> => {
+  const wanted = new Set(locations.map(normalizeLocation).filter(Boolean));
+  if (wanted.size === 0) return [];
+
+  const mosqueSettings = settings || await getMosqueSettings();
+  // Events that started up to a day before the range can still be running
+  const searchFrom = new Date(from.getTime() - DAY_MS);
+
+  const [oneOffResult, seriesResult] = await Promise.all([
+    supabaseAdmin
+      .from('events')
+      .select('id, title, type, location, event_datetime')
+      .is('recurrence_rule', null)
+      .gte('event_datetime', searchFrom.toISOString())
+      .lt('event_datetime', to.toISOString()),
+    supabaseAdmin
+      .from('events')
+      .select('*')
+      .not('recurrence_rule', 'is', null)
+      .lt('event_datetime', to.toISOString())
+  ]);
+
+  const error = oneOffResult.error || seriesResult.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const series = (seriesResult.data || []) as (RecurringEvent & { title: string; type: string })[];
+  const occurrences = await expandOccurrences(
+    series,
+    getLocalDate(mosqueSettings.timezone, searchFrom),
+    getLocalDate(mosqueSettings.timezone, to),
+    mosqueSettings
+  );
+
+  const candidates: (LocationEvent & { type: string })[] = [
+    ...(oneOffResult.data || []).map(event => ({
+      event_id: event.id,
+      occurrence_date: null,
+      title: event.title,
+      type: event.type,
+      location: event.location,
+      starts_at: event.event_datetime,
+      ends_at: ''
+    })),
+    ...series.flatMap(event => (occurrences.get(event.id) || []).map(occurrence => ({
+      event_id: event.id,
+      occurrence_date: occurrence.occurrence_date,
+      title: event.title,
+      type: event.type,
+      location: occurrence.location,
+      starts_at: occurrence.starts_at,
+      ends_at: ''
+    })))
+  ];
+
+  return candidates
+    .filter(event => wanted.has(normalizeLocation(event.location)))
+    .map(({ type, ...event }) => {
+      const start = Date.parse(event.starts_at);
+      return {
+        ...event,
+        starts_at: new Date(start).toISOString(),
+        ends_at: new Date(start + getEventDuration(type) * 60 * 1000).toISOString()
+      };
+    })
+    .filter(event => overlaps(Date.parse(event.starts_at), Date.parse(event.ends_at), from.getTime(), to.getTime()))
+    .sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+};
+
+/**
+ * Bookings and events that clash with booking a facility from startsAt to
+ * endsAt, keeping the facility's buffer free on both sides
+ */
+export const findConflicts = async (
+  facility: Facility,
+  startsAt: Date,
+  endsAt: Date,
+  options: { excludeBookingId?: string; settings?: MosqueSettings } = {}
+): Promise<BookingConflict[]> => {
+  const buffer = (facility.buffer_minutes || 0) * 60 * 1000;
+  const from = new Date(startsAt.getTime() - buffer);
+  const to = new Date(endsAt.getTime() + buffer);
+
+  let query = supabaseAdmin
+    .from('facility_bookings')
+    .select('id, purpose, starts_at, ends_at, status')
+    .eq('facility_id', facility.id)
+    .in('status', ['pending', 'approved'])
+    .lt('starts_at', to.toISOString())
+    .gt('ends_at', from.toISOString());
+
+  if (options.excludeBookingId) {
+    query = query.neq('id', options.excludeBookingId);
+  }
+
+  const [{ data: bookings, error }, events] = await Promise.all([
+    query,
+    facility.location ? listEventsAtLocations([facility.location], from, to, options.settings) : Promise.resolve([])
+  ]);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return [
+    ...(bookings || []).map(booking => ({
+      type: 'booking' as const,
+      id: booking.id,
+      title: booking.purpose,
+      starts_at: booking.starts_at,
+      ends_at: booking.ends_at,
+      status: booking.status as BookingStatus,
+      blocking: booking.status === 'approved'
+    })),
+    ...events.map(event => ({
+      type: 'event' as const,
+      id: event.event_id,
+      title: event.title,
+      starts_at: event.starts_at,
+      ends_at: event.ends_at,
+      occurrence_date: event.occurrence_date,
+      blocking: true
+    }))
+  ];
+};
+
+/**
+ * Approved bookings of the facilities at an event's location that clash with
+ * the event, or with any upcoming occurrence of a recurring event (including
+ * occurrences moved elsewhere by an override, which no longer clash)
+ */
+export const findEventBookingConflicts = async (
+  event: RecurringEvent & { title: string; type: string },
+  settings?: MosqueSettings
+): Promise<BookingConflict[]> => {
+  const location = normalizeLocation(event.location);
+  if (!location) return [];
+
+  const { data: facilities, error: facilitiesError } = await supabaseAdmin
+    .from('facilities')
+    .select('id, name, location, buffer_minutes')
+    .eq('is_active', true)
+    .not('location', 'is', null);
+
+  if (facilitiesError) {
+    throw new Error(facilitiesError.message);
+  }
+
+  const atLocation = new Map(
+    ((facilities || []) as Facility[])
+      .filter(facility => normalizeLocation(facility.location) === location)
+      .map(facility => [facility.id, facility])
+  );
+  if (atLocation.size === 0) return [];
+
+  const duration = getEventDuration(event.type) * 60 * 1000;
+  const eventStart = Date.parse(event.event_datetime);
+  if (Number.isNaN(eventStart)) return [];
+  const maxBuffer = Math.max(...[...atLocation.values()].map(facility => facility.buffer_minutes || 0)) * 60 * 1000;
+
+  let query = supabaseAdmin
+    .from('facility_bookings')
+    .select('id, facility_id, purpose, starts_at, ends_at, status')
+    .in('facility_id', [...atLocation.keys()])
+    .eq('status', 'approved')
+    .order('starts_at', { ascending: true });
+
+  // A series can clash with any booking still to come
+  query = event.recurrence_rule
+    ? query.gt('ends_at', new Date(Math.max(eventStart, Date.now()) - maxBuffer).toISOString())
+    : query
+      .lt('starts_at', new Date(eventStart + duration + maxBuffer).toISOString())
+      .gt('ends_at', new Date(eventStart - maxBuffer).toISOString());
+
+  const { data: bookings, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!bookings || bookings.length === 0) return [];
+
+  let slots = [{ starts_at: eventStart, location: event.location }];
+  if (event.recurrence_rule) {
+    const mosqueSettings = settings || await getMosqueSettings();
+    const from = new Date(Math.min(...bookings.map(booking => Date.parse(booking.starts_at))) - maxBuffer - DAY_MS);
+    const to = new Date(Math.max(...bookings.map(booking => Date.parse(booking.ends_at))) + maxBuffer);
+    const occurrences = await expandOccurrences(
+      [event],
+      getLocalDate(mosqueSettings.timezone, from),
+      getLocalDate(mosqueSettings.timezone, to),
+      mosqueSettings
+    );
+    slots = (occurrences.get(event.id) || []).map(occurrence => ({
+      starts_at: Date.parse(occurrence.starts_at),
+      location: occurrence.location
+    }));
+  }
+
+  return bookings
+    .filter(booking => {
+      const buffer = (atLocation.get(booking.facility_id)?.buffer_minutes || 0) * 60 * 1000;
+      const bookingStart = Date.parse(booking.starts_at) - buffer;
+      const bookingEnd = Date.parse(booking.ends_at) + buffer;
+      return slots.some(slot =>
+        normalizeLocation(slot.location) === location &&
+        overlaps(slot.starts_at, slot.starts_at + duration, bookingStart, bookingEnd)
+      );
+    })
+    .map(booking => ({
+      type: 'booking' as const,
+      id: booking.id,
+      title: `${atLocation.get(booking.facility_id)?.name}: ${booking.purpose}`,
+      starts_at: booking.starts_at,
+      ends_at: booking.ends_at,
+      status: booking.status as BookingStatus,
+      blocking: true
+    }));
+};
+
+/**
+ * Validate a booking time range; returns the parsed dates or an error
+ */
+export const parseBookingTimes = (
+  startsAt: unknown,
+  endsAt: unknown
+): { start?: Date; end?: Date; error?: string } => {
+  const start = new Date(String(startsAt));
+  const end = new Date(String(endsAt));
+
+  if (!startsAt || !endsAt || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return { error: 'starts_at and ends_at must be valid dates and times' };
+  }
+  if (end <= start) {
+    return { error: 'ends_at must be after starts_at' };
+  }
+  if (end.getTime() - start.getTime() > MAX_BOOKING_DAYS * DAY_MS) {
+    return { error: `A booking can last at most ${MAX_BOOKING_DAYS} days` };
+  }
+
+  return { start, end };
+};
@@ -0,0 +1,204 @@
+/**
+ * Hijri calendar conversion
+ *
+ * Uses the Umm al-Qura calendar from the runtime's ICU data, falling back to
+ * the arithmetic (tabular) Islamic calendar when ICU lacks it. The offset
+ * shifts results by whole days so the calendar can follow the Indonesian
+ * sidang isbat announcement.
+ */
+
+export interface HijriDate {
+  day: number;
+  month: number;
+  year: number;
+  month_name: string;
+  formatted: string;
+}
+
+export type IslamicDateKey =
+  | 'islamic_new_year'
+  | 'ashura'
+  | 'maulid'
+  | 'isra_miraj'
+  | 'ramadan_start'
+  | 'nuzulul_quran'
+  | 'idul_fitri'
+  | 'arafah'
+  | 'idul_adha'
+  | 'ayyamul_bidh';
+
+export interface IslamicDate {
+  key: IslamicDateKey;
+  name: string;
+  date: string;
+  end_date: string | null;
+  hijri: HijriDate;
+}
+
+export const HIJRI_MONTHS = [
+  'Muharram',
+  'Safar',
+  'Rabiul Awal',
+  'Rabiul Akhir',
+  'Jumadil Awal',
+  'Jumadil Akhir',
+  'Rajab',
+  "Sya'ban",
+  'Ramadhan',
+  'Syawal',
+  "Dzulqa'dah",
+  'Dzulhijjah'
+];
+
+export const MAX_HIJRI_OFFSET = 2;
+
+// Yearly observances as [month, day, length in days]
+const OBSERVANCES: { key: IslamicDateKey; name: string; month: number; day: number; days: number }[] = [
+  { key: 'islamic_new_year', name: 'Tahun Baru Islam', month: 1, day: 1, days: 1 },
+  { key: 'ashura', name: 'Hari Asyura', month: 1, day: 10, days: 1 },
+  { key: 'maulid', name: 'Maulid Nabi Muhammad SAW', month: 3, day: 12, days: 1 },
+  { key: 'isra_miraj', name: "Isra Mi'raj", month: 7, day: 27, days: 1 },
+  { key: 'ramadan_start', name: 'Awal Ramadhan', month: 9, day: 1, days: 1 },
+  { key: 'nuzulul_quran', name: 'Nuzulul Quran', month: 9, day: 17, days: 1 },
+  { key: 'idul_fitri', name: 'Idul Fitri', month: 10, day: 1, days: 2 },
+  { key: 'arafah', name: 'Hari Arafah', month: 12, day: 9, days: 1 },
+  { key: 'idul_adha', name: 'Idul Adha', month: 12, day: 10, days: 1 }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let umalquraFormatter: Intl.DateTimeFormat | null | undefined;
+
+const getUmalquraFormatter = (): Intl.DateTimeFormat | null => {
+  if (umalquraFormatter === undefined) {
+    try {
+      const formatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', {
+        timeZone: 'UTC',
+        day: 'numeric',
+        month: 'numeric',
+        year: 'numeric'
+      });
+      umalquraFormatter = formatter.resolvedOptions().calendar === 'islamic-umalqura' ? formatter : null;
+    } catch {
+      umalquraFormatter = null;
+    }
+  }
+  return umalquraFormatter;
+};
+
+const toUtcMidnight = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Move a Gregorian date (YYYY-MM-DD) by a number of days
+ */
+export const shiftDate = (date: string, days: number) => toDateString(new Date(toUtcMidnight(date).getTime() + days * DAY_MS));
+
+// Arithmetic Islamic calendar via julian day numbers
+const tabularToJulianDay = (year: number, month: number, day: number) => {
+  return day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + 1948439.5 - 1;
+};
+
+const tabularFromDate = (date: string): [number, number, number] => {
+  const jd = Math.floor(toUtcMidnight(date).getTime() / DAY_MS + 2440587.5) + 0.5;
+  const year = Math.floor((30 * (jd - 1948439.5) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jd - (29 + tabularToJulianDay(year, 1, 1))) / 29.5) + 1);
+  const day = jd - tabularToJulianDay(year, month, 1) + 1;
+  return [year, month, day];
+};
+
+const tabularToDate = (year: number, month: number, day: number) => {
+  const jd = tabularToJulianDay(year, month, day);
+  return toDateString(new Date((jd - 2440587.5) * DAY_MS));
+};
+
+const convert = (date: string): [number, number, number] => {
+  const formatter = getUmalquraFormatter();
+  if (!formatter) {
+    return tabularFromDate(date);
+  }
+  const parts = formatter.formatToParts(toUtcMidnight(date));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return [get('year'), get('month'), get('day')];
+};
+
+const buildHijriDate = (year: number, month: number, day: number): HijriDate => {
+  const monthName = HIJRI_MONTHS[month - 1];
+  return {
+    day,
+    month,
+    year,
+    month_name: monthName,
+    formatted: `${day} ${monthName} ${year} H`
+  };
+};
+
+/**
+ * Hijri date for a Gregorian date (YYYY-MM-DD)
+ */
+export const toHijri = (date: string, offset = 0): HijriDate => {
+  const [year, month, day] = convert(shiftDate(date, offset));
+  return buildHijriDate(year, month, day);
+};
+
+/**
+ * Gregorian date (YYYY-MM-DD) for a Hijri date, or null if that day does not
+ * exist (e.g. the 30th of a 29-day month)
+ */
+export const fromHijri = (year: number, month: number, day: number, offset = 0): string | null => {
+  // The tabular estimate is within a couple of days of Umm al-Qura
+  const estimate = tabularToDate(year, month, day);
+  for (const delta of [0, -1, 1, -2, 2, -3, 3]) {
+    const candidate = shiftDate(estimate, delta);
+    const [y, m, d] = convert(candidate);
+    if (y === year && m === month && d === day) {
+      return shiftDate(candidate, -offset);
+    }
+  }
+  return null;
+};
+
+/**
+ * Islamic observances between two Gregorian dates (inclusive), ordered by date
+ */
+export const getIslamicDates = (startDate: string, endDate: string, offset = 0): IslamicDate[] => {
+  const dates: IslamicDate[] = [];
+  const firstYear = toHijri(startDate, offset).year;
+  const lastYear = toHijri(endDate, offset).year;
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    for (const observance of OBSERVANCES) {
+      const date = fromHijri(year, observance.month, observance.day, offset);
+      if (!date) continue;
+
+      dates.push({
+        key: observance.key,
+        name: observance.name,
+        date,
+        end_date: observance.days > 1 ? shiftDate(date, observance.days - 1) : null,
+        hijri: buildHijriDate(year, observance.month, observance.day)
+      });
+    }
+
+    // Ayyamul Bidh: the 13th to 15th of every month except Ramadan (already fasting)
+    // and Dzulhijjah (13th is a day of tasyrik)
+    for (let month = 1; month <= 12; month++) {
+      if (month === 9 || month === 12) continue;
+      const date = fromHijri(year, month, 13, offset);
+      if (!date) continue;
+
+      dates.push({
+        key: 'ayyamul_bidh',
+        name: `Ayyamul Bidh ${HIJRI_MONTHS[month - 1]}`,
+        date,
+        end_date: shiftDate(date, 2),
+        hijri: buildHijriDate(year, month, 13)
+      });
+    }
+  }
+
+  return dates
+    .filter(item => (item.end_date || item.date) >= startDate && item.date <= endDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,120 @@
+/**
+ * Iqamah and jumu'ah resolution
+ */
+import { PrayerName } from './prayerTimes.js';
+
+export type IqamahPrayer = Exclude<PrayerName, 'sunrise'>;
+export type IqamahMode = 'offset' | 'fixed';
+
+export const IQAMAH_PRAYERS: IqamahPrayer[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+export interface IqamahRule {
+  id: string;
+  prayer: IqamahPrayer;
+  mode: IqamahMode;
+  offset_minutes: number | null;
+  fixed_time: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  label: string | null;
+}
+
+export interface JumuahSchedule {
+  id: string;
+  jumuah_date: string;
+  khutbah_time: string | null;
+  khatib_name: string | null;
+  imam_name: string | null;
+  muadzin_name: string | null;
+  theme: string | null;
+  notes: string | null;
+}
+
+export interface ResolvedJumuah {
+  id: string | null;
+  khutbah_time: string | null;
+  khatib_name: string | null;
+  imam_name: string | null;
+  muadzin_name: string | null;
+  theme: string | null;
+  notes: string | null;
+}
+
+/**
+ * Add minutes to an HH:MM clock time (wraps around midnight)
+ */
+export const addMinutes = (time: string, minutes: number): string => {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Pick the rule that applies to a prayer on a date. Date-ranged rules win
+ * over defaults; among ranged rules the most recently started one wins.
+ */
+export const findIqamahRule = (rules: IqamahRule[], prayer: IqamahPrayer, date: string): IqamahRule | null => {
+  const matching = rules.filter(rule =>
+    rule.prayer === prayer &&
+    (!rule.start_date || (rule.start_date <= date && (!rule.end_date || rule.end_date >= date)))
+  );
+
+  const ranged = matching
+    .filter(rule => rule.start_date)
+    .sort((a, b) => (b.start_date || '').localeCompare(a.start_date || ''));
+
+  return ranged[0] || matching.find(rule => !rule.start_date) || null;
+};
+
+/**
+ * Resolve iqamah times for a day from its adhan times
+ */
+export const resolveIqamah = (
+  date: string,
+  adhan: Partial<Record<IqamahPrayer, string | null>>,
+  rules: IqamahRule[]
+): Record<IqamahPrayer, string | null> => {
+  const iqamah = {} as Record<IqamahPrayer, string | null>;
+
+  for (const prayer of IQAMAH_PRAYERS) {
+    const rule = findIqamahRule(rules, prayer, date);
+    const adhanTime = adhan[prayer];
+
+    if (!rule || !adhanTime) {
+      iqamah[prayer] = null;
+    } else if (rule.mode === 'fixed' && rule.fixed_time) {
+      // A fixed time never comes before the adhan
+      const fixed = rule.fixed_time.slice(0, 5);
+      iqamah[prayer] = fixed > adhanTime ? fixed : adhanTime;
+    } else {
+      iqamah[prayer] = addMinutes(adhanTime, rule.offset_minutes || 0);
+    }
+  }
+
+  return iqamah;
+};
+
+/**
+ * Whether a date (YYYY-MM-DD) falls on a Friday
+ */
+export const isFriday = (date: string): boolean => {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() === 5;
+};
+
+/**
+ * Jumu'ah details for a Friday; khutbah defaults to the dhuhr adhan
+ */
+export const resolveJumuah = (
+  dhuhr: string | null,
+  schedule?: JumuahSchedule | null
+): ResolvedJumuah => {
+  return {
+    id: schedule?.id || null,
+    khutbah_time: schedule?.khutbah_time?.slice(0, 5) || dhuhr,
+    khatib_name: schedule?.khatib_name || null,
+    imam_name: schedule?.imam_name || null,
+    muadzin_name: schedule?.muadzin_name || null,
+    theme: schedule?.theme || null,
+    notes: schedule?.notes || null
+  };
+};
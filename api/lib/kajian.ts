@@ -0,0 +1,148 @@
+/**
+ * Kajian series
+ *
+ * A series is a kitab or theme studied over numbered sessions. Sessions are
+ * held at events (or occurrences of a recurring event), so their times come
+ * from the event schedule and a member's progress from the event check-ins.
+ */
+import { supabaseAdmin } from './supabase.js';
+import { expandOccurrences, RecurringEvent } from './eventOccurrences.js';
+import { MosqueSettings, getMosqueSettings } from './prayerSchedule.js';
+
+export const MATERIAL_KINDS = ['audio', 'video', 'slides', 'link'] as const;
+
+export type MaterialKind = typeof MATERIAL_KINDS[number];
+
+export interface KajianSession {
+  id: string;
+  session_number: number;
+  event_id: string | null;
+  occurrence_date: string | null;
+}
+
+export interface SeriesProgress {
+  total_sessions: number;
+  held_sessions: number;
+  attended_sessions: number;
+  // Share of the sessions held so far that the member attended
+  attendance_rate: number | null;
+  attended_session_ids: string[];
+}
+
+const sessionKey = (eventId: string, occurrenceDate: string | null) => `${eventId}:${occurrenceDate || ''}`;
+
+/**
+ * Start time of each session (by session ID) from its event or occurrence;
+ * sessions without an event, or on a date the series does not fall on, have
+ * none
+ */
+export const resolveSessionTimes = async (
+  sessions: KajianSession[],
+  settings?: MosqueSettings
+): Promise<Map<string, string>> => {
+  const times = new Map<string, string>();
+  const eventIds = [...new Set(sessions.map(session => session.event_id).filter(Boolean))] as string[];
+  if (eventIds.length === 0) return times;
+
+  const { data: events, error } = await supabaseAdmin
+    .from('events')
+    .select('id, event_datetime, speaker, location, capacity, recurrence_rule, recurrence_anchor, recurrence_offset_minutes')
+    .in('id', eventIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const dates = sessions.map(session => session.occurrence_date).filter(Boolean).sort() as string[];
+  const recurring = ((events || []) as RecurringEvent[]).filter(event => event.recurrence_rule);
+  const occurrences = recurring.length > 0 && dates.length > 0
+    ? await expandOccurrences(recurring, dates[0], dates[dates.length - 1], settings || await getMosqueSettings(), { includeCancelled: true })
+    : new Map();
+
+  const startsAt = new Map<string, string>();
+  for (const event of (events || []) as RecurringEvent[]) {
+    if (event.recurrence_rule) {
+      for (const occurrence of occurrences.get(event.id) || []) {
+        startsAt.set(sessionKey(event.id, occurrence.occurrence_date), occurrence.starts_at);
+      }
+    } else {
+      startsAt.set(sessionKey(event.id, null), event.event_datetime);
+    }
+  }
+
+  for (const session of sessions) {
+    const time = session.event_id ? startsAt.get(sessionKey(session.event_id, session.occurrence_date)) : undefined;
+    if (time) {
+      times.set(session.id, time);
+    }
+  }
+
+  return times;
+};
+
+/**
+ * A member's attendance through a series: sessions count as attended when
+ * the member was checked in at the session's event or occurrence
+ */
+export const getSeriesProgress = async (
+  userId: string,
+  sessions: KajianSession[],
+  sessionTimes: Map<string, string>,
+  now = new Date()
+): Promise<SeriesProgress> => {
+  const eventIds = [...new Set(sessions.map(session => session.event_id).filter(Boolean))] as string[];
+  const attended = new Set<string>();
+
+  if (eventIds.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('event_registrations')
+      .select('event_id, occurrence_date')
+      .eq('user_id', userId)
+      .eq('status', 'attended')
+      .in('event_id', eventIds);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    for (const registration of data || []) {
+      attended.add(sessionKey(registration.event_id, registration.occurrence_date));
+    }
+  }
+
+  const held = sessions.filter(session => {
+    const time = sessionTimes.get(session.id);
+    return time && Date.parse(time) <= now.getTime();
+  });
+  const attendedIds = sessions
+    .filter(session => session.event_id && attended.has(sessionKey(session.event_id, session.occurrence_date)))
+    .map(session => session.id);
+
+  return {
+    total_sessions: sessions.length,
+    held_sessions: held.length,
+    attended_sessions: attendedIds.length,
+    attendance_rate: held.length > 0
+      ? Math.round((Math.min(attendedIds.length, held.length) / held.length) * 1000) / 10
+      : null,
+    attended_session_ids: attendedIds
+  };
+};
+
+/**
+ * Whether a recording link is a web URL
+ */
+export const isValidMaterialUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Storage key for an uploaded session material
+ */
+export const materialKey = (seriesId: string, sessionId: string, materialId: string, extension: string): string =>
+  `kajian/${seriesId}/${sessionId}/${materialId}.${extension}`;
@@ -0,0 +1,56 @@
+/**
+ * Markdown rendering for announcement content
+ *
+ * Content is stored as Markdown and rendered to HTML on the way out. The HTML
+ * is sanitized against a small allowlist, so raw HTML, scripts, inline styles
+ * and images in the Markdown never reach the browser. Images are shared as
+ * attachments instead.
+ */
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'p', 'br', 'hr', 'strong', 'em', 'del', 'code', 'pre', 'blockquote',
+    'ul', 'ol', 'li', 'h3', 'h4', 'h5', 'h6', 'a',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td'
+  ],
+  allowedAttributes: {
+    // target and rel are added by transformTags below
+    a: ['href', 'target', 'rel'],
+    ol: ['start'],
+    th: ['align'],
+    td: ['align']
+  },
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+  // Headings in an announcement sit below the page's own h1/h2
+  transformTags: {
+    h1: 'h3',
+    h2: 'h4',
+    a: sanitizeHtml.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer nofollow' })
+  },
+  allowedSchemesAppliedToAttributes: ['href']
+};
+
+/**
+ * Render Markdown to sanitized HTML
+ */
+export const renderMarkdown = (markdown: string): string => {
+  const html = marked.parse(markdown, { async: false, gfm: true, breaks: true });
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+};
+
+/**
+ * Plain text version of Markdown, e.g. for push notification bodies
+ */
+export const markdownToText = (markdown: string): string => {
+  const text = sanitizeHtml(renderMarkdown(markdown), { allowedTags: [], allowedAttributes: {} });
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+};
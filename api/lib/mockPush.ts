@@ -0,0 +1,107 @@
+/**
+ * Local mock push service
+ *
+ * Stands in for a browser's push service during development: a mock device
+ * gets its own key pair and endpoint, so push sending can be tested end to
+ * end. Messages posted to the endpoint are decrypted (aes128gcm, RFC 8291)
+ * and kept in memory for inspection. Unknown devices answer 410 Gone like a
+ * real push service, which exercises subscription pruning.
+ */
+import crypto from 'crypto';
+
+export interface MockPushMessage {
+  received_at: string;
+  ttl: number | null;
+  urgency: string | null;
+  payload: unknown;
+}
+
+interface MockDevice {
+  ecdh: crypto.ECDH;
+  auth: Buffer;
+  messages: MockPushMessage[];
+}
+
+// Messages kept per device
+const MAX_MESSAGES = 50;
+
+const devices = new Map<string, MockDevice>();
+
+/**
+ * Whether the mock push service can be used; never in production
+ */
+export const isMockPushEnabled = (): boolean => process.env.NODE_ENV !== 'production';
+
+/**
+ * Create a mock device; returns the keys to store as its push subscription
+ */
+export const createMockDevice = (): { id: string; p256dh: string; auth: string } => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16);
+  const id = crypto.randomUUID();
+
+  devices.set(id, { ecdh, auth, messages: [] });
+  return { id, p256dh: ecdh.getPublicKey().toString('base64url'), auth: auth.toString('base64url') };
+};
+
+const hmac = (key: Buffer, ...data: Buffer[]) => {
+  const mac = crypto.createHmac('sha256', key);
+  for (const part of data) mac.update(part);
+  return mac.digest();
+};
+
+// Decrypt a single-record aes128gcm message
+const decrypt = (device: MockDevice, body: Buffer): Buffer => {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const senderKey = body.subarray(21, 21 + idLength);
+  const record = body.subarray(21 + idLength);
+
+  const receiverKey = device.ecdh.getPublicKey();
+  const sharedSecret = device.ecdh.computeSecret(senderKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]);
+  const ikm = hmac(hmac(device.auth, sharedSecret), keyInfo, Buffer.from([1]));
+  const prk = hmac(salt, ikm);
+  const contentKey = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0'), Buffer.from([1])).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0'), Buffer.from([1])).subarray(0, 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+  // The last record ends with a 0x02 delimiter followed by zero padding
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  return padded.subarray(0, end);
+};
+
+/**
+ * Receive a push message for a mock device; returns false for unknown devices
+ */
+export const receiveMockPush = (id: string, body: Buffer, headers: Record<string, string | string[] | undefined>): boolean => {
+  const device = devices.get(id);
+  if (!device) return false;
+
+  const plaintext = decrypt(device, body).toString('utf8');
+  let payload: unknown = plaintext;
+  try {
+    payload = JSON.parse(plaintext);
+  } catch {
+    // Not JSON; keep the text
+  }
+
+  device.messages.unshift({
+    received_at: new Date().toISOString(),
+    ttl: headers.ttl !== undefined ? Number(headers.ttl) : null,
+    urgency: typeof headers.urgency === 'string' ? headers.urgency : null,
+    payload
+  });
+  device.messages.length = Math.min(device.messages.length, MAX_MESSAGES);
+  return true;
+};
+
+/**
+ * Messages a mock device received, newest first, or null for unknown devices
+ */
+export const getMockMessages = (id: string): MockPushMessage[] | null => devices.get(id)?.messages || null;
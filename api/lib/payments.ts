@@ -0,0 +1,341 @@
+/**
+ * Payment gateway adapters
+ *
+ * Donations are paid through a PaymentProvider so the gateway can be swapped
+ * per environment. PAYMENT_PROVIDER picks the adapter: "qris" creates dynamic
+ * QRIS codes and "virtual_account" bank virtual accounts through the gateway
+ * at PAYMENT_GATEWAY_URL; "mock" (the default outside production) is a local
+ * gateway that settles payments on request, for development and tests. Other
+ * adapters can be added with registerPaymentProvider.
+ *
+ * Gateways confirm payments with a callback signed with an HMAC-SHA256 of the
+ * raw request body using PAYMENT_GATEWAY_SECRET.
+ */
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+export type PaymentMethod = 'QRIS' | 'VIRTUAL_ACCOUNT';
+
+export type PaymentStatus = 'paid' | 'failed' | 'expired' | 'pending';
+
+export interface PaymentRequest {
+  reference: string;
+  amount: number;
+  description: string;
+  customer_name?: string | null;
+}
+
+export interface PaymentInstructions {
+  provider: string;
+  method: PaymentMethod;
+  // The gateway's ID for the payment
+  provider_reference: string;
+  qr_string?: string;
+  va_number?: string;
+  va_bank?: string;
+  expires_at: string | null;
+}
+
+export interface PaymentNotification {
+  reference: string;
+  status: PaymentStatus;
+  amount: number;
+  // The gateway's ID for the payment attempt; with status it identifies a callback
+  transaction_id: string;
+  paid_at: string | null;
+}
+
+export type CallbackHeaders = Record<string, string | string[] | undefined>;
+
+export interface PaymentProvider {
+  name: string;
+  method: PaymentMethod;
+  createPayment: (request: PaymentRequest) => Promise<PaymentInstructions>;
+  /** Returns null when the signature is missing or wrong */
+  parseCallback: (rawBody: Buffer, headers: CallbackHeaders) => PaymentNotification | null;
+}
+
+type ProviderFactory = () => PaymentProvider;
+
+export const SIGNATURE_HEADER = 'x-callback-signature';
+
+const DEFAULT_QR_EXPIRY_MINUTES = 30;
+const DEFAULT_VA_EXPIRY_MINUTES = 24 * 60;
+
+const getSecret = () => process.env.PAYMENT_GATEWAY_SECRET || '';
+
+const expiryFrom = (defaultMinutes: number) =>
+  new Date(Date.now() + (Number(process.env.PAYMENT_EXPIRY_MINUTES) || defaultMinutes) * 60 * 1000).toISOString();
+
+/**
+ * HMAC-SHA256 (hex) of a callback body
+ */
+export const signPayload = (payload: Buffer | string, secret = getSecret()): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+/**
+ * Check a callback signature in constant time
+ */
+export const verifySignature = (payload: Buffer, signature: unknown, secret = getSecret()): boolean => {
+  if (!secret || typeof signature !== 'string') return false;
+  const expected = Buffer.from(signPayload(payload, secret));
+  const actual = Buffer.from(signature.trim().toLowerCase());
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const readSignedJson = (rawBody: Buffer, headers: CallbackHeaders, secret?: string): Record<string, unknown> | null => {
+  if (!verifySignature(rawBody, headers[SIGNATURE_HEADER], secret)) return null;
+  try {
+    const body = JSON.parse(rawBody.toString('utf8'));
+    return body && typeof body === 'object' ? body as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+};
+
+// Gateway statuses (SUCCEEDED, PAID, settlement...) in our terms
+const toPaymentStatus = (status: unknown): PaymentStatus => {
+  const value = String(status || '').toUpperCase();
+  if (['SUCCEEDED', 'COMPLETED', 'PAID', 'SETTLEMENT', 'SUCCESS'].includes(value)) return 'paid';
+  if (['EXPIRED', 'EXPIRE'].includes(value)) return 'expired';
+  if (['FAILED', 'FAILURE', 'DENY', 'CANCEL', 'CANCELLED'].includes(value)) return 'failed';
+  return 'pending';
+};
+
+// Call the gateway API with the API key as basic auth username
+const callGateway = async (path: string, body: Record<string, unknown>): Promise<Record<string, unknown>> => {
+  const baseUrl = process.env.PAYMENT_GATEWAY_URL;
+  const apiKey = process.env.PAYMENT_GATEWAY_API_KEY;
+  if (!baseUrl || !apiKey) {
+    throw new Error('PAYMENT_GATEWAY_URL and PAYMENT_GATEWAY_API_KEY must be set');
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Basic ${Buffer.from(`${apiKey}:`).toString('base64')}`,
+      // The gateway returns the existing payment when a request is retried
+      'Idempotency-Key': String(body.reference_id || body.external_id)
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({})) as Record<string, unknown>;
+  if (!response.ok) {
+    throw new Error(`Payment gateway error ${response.status}: ${data.message || response.statusText}`);
+  }
+  return data;
+};
+
+/**
+ * Dynamic QRIS codes from the gateway's QR code API
+ */
+export const createQrisProvider = (): PaymentProvider => ({
+  name: 'qris',
+  method: 'QRIS',
+  createPayment: async (request) => {
+    const data = await callGateway('/qr_codes', {
+      reference_id: request.reference,
+      type: 'DYNAMIC',
+      currency: 'IDR',
+      amount: request.amount,
+      expires_at: expiryFrom(DEFAULT_QR_EXPIRY_MINUTES)
+    });
+
+    return {
+      provider: 'qris',
+      method: 'QRIS',
+      provider_reference: String(data.id),
+      qr_string: String(data.qr_string),
+      expires_at: data.expires_at ? String(data.expires_at) : null
+    };
+  },
+  parseCallback: (rawBody, headers) => {
+    const body = readSignedJson(rawBody, headers);
+    const data = body?.data as Record<string, unknown> | undefined;
+    if (!data?.reference_id) return null;
+
+    return {
+      reference: String(data.reference_id),
+      status: toPaymentStatus(data.status),
+      amount: Number(data.amount),
+      transaction_id: String(data.payment_id || data.id),
+      paid_at: data.created ? String(data.created) : null
+    };
+  }
+});
+
+/**
+ * Single-use bank virtual accounts from the gateway's virtual account API;
+ * PAYMENT_VA_BANK picks the bank
+ */
+export const createVirtualAccountProvider = (): PaymentProvider => ({
+  name: 'virtual_account',
+  method: 'VIRTUAL_ACCOUNT',
+  createPayment: async (request) => {
+    const bank = process.env.PAYMENT_VA_BANK || 'BSI';
+    const data = await callGateway('/virtual_accounts', {
+      external_id: request.reference,
+      bank_code: bank,
+      name: (request.customer_name || process.env.MOSQUE_NAME || 'Masjid').slice(0, 50),
+      expected_amount: request.amount,
+      is_single_use: true,
+      is_closed: true,
+      expiration_date: expiryFrom(DEFAULT_VA_EXPIRY_MINUTES)
+    });
+
+    return {
+      provider: 'virtual_account',
+      method: 'VIRTUAL_ACCOUNT',
+      provider_reference: String(data.id),
+      va_number: String(data.account_number),
+      va_bank: String(data.bank_code || bank),
+      expires_at: data.expiration_date ? String(data.expiration_date) : null
+    };
+  },
+  parseCallback: (rawBody, headers) => {
+    const body = readSignedJson(rawBody, headers);
+    if (!body?.external_id) return null;
+
+    return {
+      reference: String(body.external_id),
+      // Virtual account callbacks are only sent for payments
+      status: body.status ? toPaymentStatus(body.status) : 'paid',
+      amount: Number(body.amount),
+      transaction_id: String(body.payment_id || body.id),
+      paid_at: body.transaction_timestamp ? String(body.transaction_timestamp) : null
+    };
+  }
+});
+
+// EMV QR fields: two-digit tag, two-digit length, value
+const emvField = (tag: string, value: string) => `${tag}${String(value.length).padStart(2, '0')}${value}`;
+
+// CRC-16/CCITT-FALSE, as required for the QRIS checksum
+const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(payload, 'utf8')) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+/**
+ * A dynamic QRIS (EMVCo merchant-presented) payload with the amount and
+ * reference filled in
+ */
+export const buildQrisPayload = (options: {
+  merchantId: string;
+  merchantName: string;
+  city: string;
+  amount: number;
+  reference: string;
+}): string => {
+  const payload = [
+    emvField('00', '01'),
+    emvField('01', '12'),
+    emvField('26', emvField('00', 'ID.CO.QRIS.WWW') + emvField('01', options.merchantId) + emvField('02', options.reference)),
+    // 8661: religious organizations
+    emvField('52', '8661'),
+    emvField('53', '360'),
+    emvField('54', String(Math.round(options.amount))),
+    emvField('58', 'ID'),
+    emvField('59', options.merchantName.slice(0, 25)),
+    emvField('60', options.city.slice(0, 15))
+  ].join('') + '6304';
+
+  return payload + crc16(payload);
+};
+
+/**
+ * Local gateway: QRIS payloads are built here and payments are settled with
+ * signMockCallback, so the whole callback path can run without a gateway
+ */
+export const createMockProvider = (): PaymentProvider => ({
+  name: 'mock',
+  method: 'QRIS',
+  createPayment: async (request) => ({
+    provider: 'mock',
+    method: 'QRIS',
+    provider_reference: `MOCK-${crypto.randomBytes(6).toString('hex').toUpperCase()}`,
+    qr_string: buildQrisPayload({
+      merchantId: process.env.MERCHANT_ID || 'MASJEED_001',
+      merchantName: process.env.MOSQUE_NAME || 'Masjid',
+      city: process.env.MOSQUE_CITY || 'Jakarta',
+      amount: request.amount,
+      reference: request.reference
+    }),
+    expires_at: expiryFrom(DEFAULT_QR_EXPIRY_MINUTES)
+  }),
+  parseCallback: (rawBody, headers) => {
+    const body = readSignedJson(rawBody, headers);
+    if (!body?.reference) return null;
+
+    return {
+      reference: String(body.reference),
+      status: toPaymentStatus(body.status),
+      amount: Number(body.amount),
+      transaction_id: String(body.transaction_id),
+      paid_at: body.paid_at ? String(body.paid_at) : null
+    };
+  }
+});
+
+/**
+ * A signed callback as the mock gateway would send it
+ */
+export const signMockCallback = (notification: PaymentNotification): { rawBody: Buffer; headers: CallbackHeaders } => {
+  if (!getSecret()) {
+    throw new Error('PAYMENT_GATEWAY_SECRET must be set to sign mock callbacks');
+  }
+  const rawBody = Buffer.from(JSON.stringify(notification));
+  return { rawBody, headers: { [SIGNATURE_HEADER]: signPayload(rawBody) } };
+};
+
+const factories = new Map<string, ProviderFactory>([
+  ['qris', createQrisProvider],
+  ['virtual_account', createVirtualAccountProvider],
+  ['mock', createMockProvider]
+]);
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Make another gateway available to PAYMENT_PROVIDER
+ */
+export const registerPaymentProvider = (name: string, factory: ProviderFactory): void => {
+  factories.set(name, factory);
+  providers.delete(name);
+};
+
+/**
+ * The payment provider with a name, or the configured one. The mock gateway
+ * is only available outside production and when it is the configured one, so
+ * its callbacks can't complete donations anywhere else.
+ */
+export const getPaymentProvider = (name?: string): PaymentProvider => {
+  const configured = process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'mock');
+  const providerName = name || configured;
+  const mockDisabled = providerName === 'mock' && (process.env.NODE_ENV === 'production' || configured !== 'mock');
+  const factory = mockDisabled ? undefined : factories.get(providerName);
+  if (!factory) {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${providerName}`);
+  }
+
+  let provider = providers.get(providerName);
+  if (!provider) {
+    provider = factory();
+    providers.set(providerName, provider);
+  }
+  return provider;
+};
+
+/**
+ * QR code image (PNG data URL) for a QRIS payload
+ */
+export const paymentQrCode = (qrString: string): Promise<string> =>
+  QRCode.toDataURL(qrString, { errorCorrectionLevel: 'M', margin: 2, width: 360 });
@@ -0,0 +1,203 @@
+/**
+ * Minimal PDF writer
+ *
+ * Draws text, lines and rectangles with the standard Helvetica fonts, which
+ * every PDF reader ships, so no font files need embedding. Coordinates are in
+ * points from the top-left corner of the page; text is positioned by its
+ * baseline.
+ */
+
+export type PdfColor = [number, number, number];
+
+export type PdfElement =
+  | {
+    type: 'text';
+    x: number;
+    y: number;
+    text: string;
+    size?: number;
+    bold?: boolean;
+    align?: 'left' | 'center' | 'right';
+    color?: PdfColor;
+  }
+  | {
+    type: 'line';
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    width?: number;
+    color?: PdfColor;
+  }
+  | {
+    type: 'rect';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fill?: PdfColor;
+    stroke?: PdfColor;
+  };
+
+export interface PdfDocument {
+  title?: string;
+  author?: string;
+  // Page size in points, A4 portrait by default
+  width?: number;
+  height?: number;
+  pages: PdfElement[][];
+}
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Glyph widths (per 1000 units) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Standard fonts use WinAnsi encoding; anything outside Latin-1 becomes '?'
+const toLatin1 = (text: string): string => {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+};
+
+/**
+ * Width of a string in points
+ */
+export const textWidth = (text: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of toLatin1(text)) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+};
+
+/**
+ * Shorten a string with an ellipsis so it fits a width
+ */
+export const fitText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (textWidth(text, size, bold) <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+const escapeString = (text: string): string => {
+  return toLatin1(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+};
+
+const formatNumber = (value: number): string => {
+  return Number(value.toFixed(2)).toString();
+};
+
+const formatColor = (color: PdfColor): string => {
+  return color.map(channel => formatNumber(channel / 255)).join(' ');
+};
+
+// Content stream operators for one page
+const renderPage = (elements: PdfElement[], pageHeight: number): string => {
+  const ops: string[] = [];
+  const flipY = (y: number) => formatNumber(pageHeight - y);
+
+  for (const element of elements) {
+    if (element.type === 'text') {
+      const size = element.size || 10;
+      const width = textWidth(element.text, size, element.bold);
+      const x = element.align === 'center'
+        ? element.x - width / 2
+        : element.align === 'right' ? element.x - width : element.x;
+      ops.push(
+        'BT',
+        `${formatColor(element.color || [0, 0, 0])} rg`,
+        `/${element.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf`,
+        `${formatNumber(x)} ${flipY(element.y)} Td`,
+        `(${escapeString(element.text)}) Tj`,
+        'ET'
+      );
+    } else if (element.type === 'line') {
+      ops.push(
+        `${formatColor(element.color || [0, 0, 0])} RG`,
+        `${formatNumber(element.width || 0.5)} w`,
+        `${formatNumber(element.x1)} ${flipY(element.y1)} m`,
+        `${formatNumber(element.x2)} ${flipY(element.y2)} l`,
+        'S'
+      );
+    } else {
+      const rect = `${formatNumber(element.x)} ${flipY(element.y + element.height)} ` +
+        `${formatNumber(element.width)} ${formatNumber(element.height)} re`;
+      if (element.fill && element.stroke) {
+        ops.push(`${formatColor(element.fill)} rg`, `${formatColor(element.stroke)} RG`, rect, 'B');
+      } else if (element.fill) {
+        ops.push(`${formatColor(element.fill)} rg`, rect, 'f');
+      } else {
+        ops.push(`${formatColor(element.stroke || [0, 0, 0])} RG`, rect, 'S');
+      }
+    }
+  }
+
+  return ops.join('\n');
+};
+
+/**
+ * Serialize a document to PDF bytes
+ */
+export const buildPdf = (doc: PdfDocument): Buffer => {
+  const width = doc.width || A4.width;
+  const height = doc.height || A4.height;
+  const pages = doc.pages.length > 0 ? doc.pages : [[]];
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a
+  // page object and a content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Producer (Masjeed)${doc.title ? ` /Title (${escapeString(doc.title)})` : ''}` +
+    `${doc.author ? ` /Author (${escapeString(doc.author)})` : ''} >>`;
+
+  pages.forEach((elements, index) => {
+    const pageId = pageIds[index];
+    const content = renderPage(elements, height);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(width)} ${formatNumber(height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
@@ -0,0 +1,292 @@
+/**
+ * Donation pledges
+ *
+ * A pledge is a member's commitment to give a fixed amount every week, month
+ * or year. On each due date the pledge scheduler creates the instalment: a
+ * pending donation with its own payment, linked to the pledge by pledge_id
+ * and due_date. Unpaid instalments are reminded a few days later and count
+ * as arrears until they are paid or the pledge is cancelled.
+ */
+import { supabaseAdmin } from './supabase.js';
+import { sendPushNotification } from './webPush.js';
+import { getMosqueSettings, getMosqueToday } from './prayerSchedule.js';
+import { shiftDate } from './hijri.js';
+import { createDonationPayment, donationReference } from './donationPayments.js';
+
+export const PLEDGE_FREQUENCIES = ['weekly', 'monthly', 'yearly'] as const;
+export const PLEDGE_DONATION_TYPES = ['Infaq', 'Sedekah', 'Zakat Mal', 'Wakaf', 'Operasional'];
+
+export type PledgeFrequency = typeof PLEDGE_FREQUENCIES[number];
+export type PledgeStatus = 'active' | 'paused' | 'cancelled' | 'ended';
+
+export interface Pledge {
+  id: string;
+  donor_id: string;
+  donation_type: string;
+  amount: number;
+  frequency: PledgeFrequency;
+  start_date: string;
+  end_date: string | null;
+  description: string | null;
+  is_anonymous: boolean;
+  status: PledgeStatus;
+  next_instalment: number;
+  next_due_date: string;
+}
+
+export interface PledgeSummary {
+  paid_count: number;
+  paid_amount: number;
+  arrears_count: number;
+  arrears_amount: number;
+}
+
+// Reminders for an unpaid instalment, in days after its due date
+export const REMINDER_AFTER_DAYS = [3, 7];
+
+// Instalments missed while the scheduler was down are created a few at a time
+const MAX_INSTALMENTS_PER_RUN = 12;
+
+export const FREQUENCY_LABELS: Record<PledgeFrequency, string> = {
+  weekly: 'mingguan',
+  monthly: 'bulanan',
+  yearly: 'tahunan'
+};
+
+/**
+ * Due date of the instalment with the given index (0 for the first). Monthly
+ * and yearly pledges keep the start date's day, or the month's last day when
+ * the month is shorter.
+ */
+export const pledgeDueDate = (startDate: string, frequency: PledgeFrequency, index: number): string => {
+  if (frequency === 'weekly') {
+    return shiftDate(startDate, index * 7);
+  }
+
+  const [year, month, day] = startDate.split('-').map(Number);
+  const monthIndex = month - 1 + (frequency === 'monthly' ? index : index * 12);
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+/**
+ * Index of the first instalment due on or after a date
+ */
+export const firstInstalmentFrom = (pledge: Pick<Pledge, 'start_date' | 'frequency' | 'next_instalment'>, date: string): number => {
+  let index = pledge.next_instalment;
+  while (pledgeDueDate(pledge.start_date, pledge.frequency, index) < date) {
+    index++;
+  }
+  return index;
+};
+
+/**
+ * Paid instalments and arrears (unpaid instalments that are due) of a pledge
+ */
+export const summarizeInstalments = (
+  instalments: { status: string; amount: number; due_date: string | null }[],
+  today: string
+): PledgeSummary => {
+  const paid = instalments.filter(instalment => instalment.status === 'Completed');
+  const arrears = instalments.filter(instalment =>
+    ['Pending', 'Failed'].includes(instalment.status) && instalment.due_date && instalment.due_date <= today
+  );
+
+  return {
+    paid_count: paid.length,
+    paid_amount: paid.reduce((sum, instalment) => sum + Number(instalment.amount), 0),
+    arrears_count: arrears.length,
+    arrears_amount: arrears.reduce((sum, instalment) => sum + Number(instalment.amount), 0)
+  };
+};
+
+const formatRupiah = (amount: number) => `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+
+// Create the instalment for one due date; returns null when it already exists
+const createInstalment = async (pledge: Pledge, dueDate: string): Promise<Record<string, unknown> | null> => {
+  const reference = donationReference();
+
+  const { data: instalment, error } = await supabaseAdmin
+    .from('donations')
+    .insert({
+      donor_id: pledge.donor_id,
+      donation_type: pledge.donation_type,
+      amount: pledge.amount,
+      description: pledge.description,
+      is_anonymous: pledge.is_anonymous,
+      pledge_id: pledge.id,
+      due_date: dueDate,
+      reference_number: reference,
+      status: 'Pending'
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Already created by another run
+    if (error.code === '23505') return null;
+    throw new Error(error.message);
+  }
+
+  // Without a gateway the instalment waits; the member gets a payment when paying it
+  let paymentColumns: Record<string, unknown> = {};
+  try {
+    paymentColumns = await createDonationPayment(
+      { reference_number: reference, amount: Number(pledge.amount), donation_type: pledge.donation_type }
+    );
+    await supabaseAdmin.from('donations').update(paymentColumns).eq('id', instalment.id);
+  } catch (gatewayError) {
+    console.error('Create instalment payment error:', gatewayError);
+  }
+
+  // Log instalment creation
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      user_id: null,
+      action: 'CREATE',
+      resource_type: 'DONATION',
+      resource_id: instalment.id,
+      details: { pledge_id: pledge.id, due_date: dueDate, amount: pledge.amount, reference }
+    });
+
+  try {
+    await sendPushNotification({
+      title: `🤲 ${pledge.donation_type} ${FREQUENCY_LABELS[pledge.frequency]} jatuh tempo`,
+      body: `${formatRupiah(pledge.amount)} untuk ${dueDate}. Ketuk untuk membayar dengan QRIS.`,
+      url: '/pledges',
+      tag: `pledge-${pledge.id}`
+    }, { userIds: [pledge.donor_id] });
+  } catch (pushError) {
+    console.error('Pledge instalment notification error:', pushError);
+  }
+
+  return { ...instalment, ...paymentColumns };
+};
+
+/**
+ * Create the instalments of a pledge that are due by today; returns the
+ * instalments created. The pledge is ended after its last instalment.
+ */
+export const generatePledgeInstalments = async (pledge: Pledge, today: string): Promise<Record<string, unknown>[]> => {
+  const created: Record<string, unknown>[] = [];
+  let current = pledge;
+
+  while (current.status === 'active' && current.next_due_date <= today && created.length < MAX_INSTALMENTS_PER_RUN) {
+    const dueDate = current.next_due_date;
+    if (current.end_date && dueDate > current.end_date) break;
+
+    // The unique (pledge_id, due_date) index makes the insert the claim: a
+    // duplicate means another run created it, and nothing is sent twice
+    const instalment = await createInstalment(current, dueDate);
+    if (instalment) created.push(instalment);
+
+    // Advance the pledge only once its instalment exists, so a failed run is
+    // picked up again by the next one
+    const nextInstalment = current.next_instalment + 1;
+    const { data: claimed, error } = await supabaseAdmin
+      .from('donation_pledges')
+      .update({
+        next_instalment: nextInstalment,
+        next_due_date: pledgeDueDate(current.start_date, current.frequency, nextInstalment),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', current.id)
+      .eq('status', 'active')
+      .eq('next_instalment', current.next_instalment)
+      .select('*');
+
+    if (error) throw new Error(error.message);
+    // Advanced by a concurrent run
+    if (!claimed || claimed.length === 0) break;
+    current = claimed[0];
+  }
+
+  if (current.status === 'active' && current.end_date && current.next_due_date > current.end_date) {
+    await supabaseAdmin
+      .from('donation_pledges')
+      .update({ status: 'ended', updated_at: new Date().toISOString() })
+      .eq('id', current.id)
+      .eq('status', 'active');
+  }
+
+  return created;
+};
+
+/**
+ * Create the instalments due on every active pledge
+ */
+export const generateDueInstalments = async (): Promise<number> => {
+  const today = getMosqueToday(await getMosqueSettings());
+
+  const { data: pledges, error } = await supabaseAdmin
+    .from('donation_pledges')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_due_date', today);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  let created = 0;
+  for (const pledge of pledges || []) {
+    try {
+      created += (await generatePledgeInstalments(pledge, today)).length;
+    } catch (pledgeError) {
+      // One pledge failing doesn't hold up the others
+      console.error(`Pledge ${pledge.id} instalment error:`, pledgeError);
+    }
+  }
+
+  return created;
+};
+
+/**
+ * Remind members of instalments still unpaid a few days after their due
+ * date; returns the number of reminders sent
+ */
+export const remindUnpaidInstalments = async (): Promise<number> => {
+  const today = getMosqueToday(await getMosqueSettings());
+  let reminded = 0;
+
+  for (const [level, days] of REMINDER_AFTER_DAYS.entries()) {
+    const { data: unpaid, error } = await supabaseAdmin
+      .from('donations')
+      .select('id, donor_id, amount, donation_type, due_date')
+      .not('pledge_id', 'is', null)
+      .in('status', ['Pending', 'Failed'])
+      .eq('reminder_count', level)
+      .lte('due_date', shiftDate(today, -days));
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    for (const instalment of unpaid || []) {
+      // Claim the reminder so it is sent once
+      const { data: claimed } = await supabaseAdmin
+        .from('donations')
+        .update({ reminder_count: level + 1, last_reminded_at: new Date().toISOString() })
+        .eq('id', instalment.id)
+        .eq('reminder_count', level)
+        .select('id');
+
+      if (!claimed || claimed.length === 0) continue;
+      reminded++;
+
+      try {
+        await sendPushNotification({
+          title: `⏰ Pengingat ${instalment.donation_type}`,
+          body: `${formatRupiah(Number(instalment.amount))} untuk ${instalment.due_date} belum dibayar.`,
+          url: '/pledges',
+          tag: `instalment-${instalment.id}`
+        }, { userIds: [instalment.donor_id] });
+      } catch (pushError) {
+        console.error('Instalment reminder error:', pushError);
+      }
+    }
+  }
+
+  return reminded;
+};
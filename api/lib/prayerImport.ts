@@ -0,0 +1,198 @@
+/**
+ * Validation for bulk prayer schedule imports
+ *
+ * Accepts rows from CSV or JSON, including the column names used in the
+ * jadwal sholat spreadsheets published by Kemenag (Tanggal, Subuh, Dzuhur, ...).
+ */
+import { parseCsv, detectDelimiter } from './csv.js';
+import { OVERRIDABLE_PRAYERS } from './prayerSchedule.js';
+
+export interface ImportRow {
+  prayer_date: string;
+  fajr: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+  hijri_date: string | null;
+}
+
+export interface ImportRowError {
+  row: number;
+  field?: string;
+  error: string;
+}
+
+export const MAX_IMPORT_ROWS = 400;
+
+// Column aliases mapped to prayer_schedules columns
+const COLUMN_ALIASES: Record<string, keyof ImportRow> = {
+  prayer_date: 'prayer_date',
+  date: 'prayer_date',
+  tanggal: 'prayer_date',
+  fajr: 'fajr',
+  subuh: 'fajr',
+  shubuh: 'fajr',
+  dhuhr: 'dhuhr',
+  dzuhur: 'dhuhr',
+  zuhur: 'dhuhr',
+  duhur: 'dhuhr',
+  asr: 'asr',
+  ashar: 'asr',
+  asar: 'asr',
+  maghrib: 'maghrib',
+  magrib: 'maghrib',
+  isha: 'isha',
+  isya: 'isha',
+  hijri_date: 'hijri_date',
+  hijri: 'hijri_date',
+  hijriah: 'hijri_date',
+  hijriyah: 'hijri_date'
+};
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Normalize a date to YYYY-MM-DD; accepts YYYY-MM-DD and DD/MM/YYYY (or DD-MM-YYYY)
+ */
+const parseDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    if (!match) {
+      return null;
+    }
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Normalize a clock time to HH:MM; accepts H:MM, HH:MM:SS and HH.MM
+ */
+const parseTime = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?$/);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/**
+ * Convert CSV text into raw records keyed by header
+ */
+export const csvToRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text, detectDelimiter(text));
+  if (!header) {
+    return [];
+  }
+  return rows.map(cells => Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])));
+};
+
+/**
+ * Validate and normalize raw import records. Row numbers in errors are
+ * 1-based data rows (CSV header excluded).
+ */
+export const validateImportRows = (records: Record<string, unknown>[]): {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+} => {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const seenDates = new Map<string, number>();
+
+  if (records.length === 0) {
+    errors.push({ row: 0, error: 'No rows to import' });
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: 0, error: `Too many rows. Maximum is ${MAX_IMPORT_ROWS} per import` });
+    return { rows, errors };
+  }
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 1;
+    const rowErrors: ImportRowError[] = [];
+    const values: Partial<Record<keyof ImportRow, string>> = {};
+
+    if (!record || typeof record !== 'object') {
+      errors.push({ row: rowNumber, error: 'Row must be an object' });
+      return;
+    }
+
+    for (const [key, value] of Object.entries(record)) {
+      const column = COLUMN_ALIASES[normalizeKey(key)];
+      if (column && value !== null && value !== undefined && String(value).trim() !== '') {
+        values[column] = String(value);
+      }
+    }
+
+    const row: ImportRow = {
+      prayer_date: '',
+      fajr: null,
+      dhuhr: null,
+      asr: null,
+      maghrib: null,
+      isha: null,
+      hijri_date: values.hijri_date?.trim() || null
+    };
+
+    if (!values.prayer_date) {
+      rowErrors.push({ row: rowNumber, field: 'prayer_date', error: 'Date is required' });
+    } else {
+      const date = parseDate(values.prayer_date);
+      if (!date) {
+        rowErrors.push({ row: rowNumber, field: 'prayer_date', error: `Invalid date "${values.prayer_date}"` });
+      } else if (seenDates.has(date)) {
+        rowErrors.push({ row: rowNumber, field: 'prayer_date', error: `Duplicate date, already on row ${seenDates.get(date)}` });
+      } else {
+        seenDates.set(date, rowNumber);
+        row.prayer_date = date;
+      }
+    }
+
+    for (const prayer of OVERRIDABLE_PRAYERS) {
+      const value = values[prayer as keyof ImportRow];
+      if (!value) {
+        continue;
+      }
+      const time = parseTime(value);
+      if (!time) {
+        rowErrors.push({ row: rowNumber, field: prayer, error: `Invalid time "${value}"` });
+      } else {
+        row[prayer as keyof ImportRow] = time;
+      }
+    }
+
+    if (!OVERRIDABLE_PRAYERS.some(prayer => values[prayer as keyof ImportRow])) {
+      rowErrors.push({ row: rowNumber, error: 'At least one prayer time is required' });
+    }
+
+    if (row.hijri_date && row.hijri_date.length > 20) {
+      rowErrors.push({ row: rowNumber, field: 'hijri_date', error: 'Hijri date must be at most 20 characters' });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      rows.push(row);
+    }
+  });
+
+  return { rows, errors };
+};
@@ -0,0 +1,96 @@
+/**
+ * Adhan and iqamah reminders
+ *
+ * Works out when each subscriber should be reminded, from their per-prayer
+ * preferences and the resolved prayer schedule of the day.
+ */
+import { toUtcDate } from './prayerTimes.js';
+import { IqamahPrayer, IQAMAH_PRAYERS } from './iqamah.js';
+import { ResolvedPrayerSchedule } from './prayerSchedule.js';
+
+export type ReminderKind = 'adhan' | 'iqamah';
+
+export interface PrayerReminderPreference {
+  user_id: string;
+  prayer: IqamahPrayer;
+  adhan_minutes: number | null;
+  iqamah_minutes: number | null;
+  is_muted: boolean;
+}
+
+export interface ReminderSlot {
+  user_id: string;
+  prayer_date: string;
+  prayer: IqamahPrayer;
+  kind: ReminderKind;
+  minutes: number;
+  // Adhan or iqamah time (HH:MM)
+  time: string;
+  remind_at: Date;
+}
+
+export const MAX_ADHAN_REMINDER_MINUTES = 120;
+export const MAX_IQAMAH_REMINDER_MINUTES = 60;
+
+export const PRAYER_LABELS: Record<IqamahPrayer, string> = {
+  fajr: 'Subuh',
+  dhuhr: 'Dzuhur',
+  asr: 'Ashar',
+  maghrib: 'Maghrib',
+  isha: 'Isya'
+};
+
+/**
+ * Every reminder a set of preferences produces for one day
+ */
+export const getReminderSlots = (
+  schedule: ResolvedPrayerSchedule,
+  preferences: PrayerReminderPreference[],
+  timezone: string
+): ReminderSlot[] => {
+  const slots: ReminderSlot[] = [];
+
+  for (const preference of preferences) {
+    if (preference.is_muted || !IQAMAH_PRAYERS.includes(preference.prayer)) continue;
+
+    const moments: [ReminderKind, string | null, number | null][] = [
+      ['adhan', schedule[preference.prayer], preference.adhan_minutes],
+      ['iqamah', schedule.iqamah[preference.prayer], preference.iqamah_minutes]
+    ];
+
+    for (const [kind, time, minutes] of moments) {
+      if (!time || minutes === null || minutes === undefined) continue;
+
+      const at = toUtcDate(schedule.prayer_date, time, timezone);
+      slots.push({
+        user_id: preference.user_id,
+        prayer_date: schedule.prayer_date,
+        prayer: preference.prayer,
+        kind,
+        minutes,
+        time,
+        remind_at: new Date(at.getTime() - minutes * 60 * 1000)
+      });
+    }
+  }
+
+  return slots;
+};
+
+/**
+ * Notification text for a reminder
+ */
+export const describeReminder = (
+  slot: Pick<ReminderSlot, 'prayer' | 'kind' | 'minutes' | 'time'>,
+  isFriday = false
+): { title: string; body: string } => {
+  const prayer = slot.prayer === 'dhuhr' && isFriday ? 'Jumat' : PRAYER_LABELS[slot.prayer];
+  const moment = slot.kind === 'adhan' ? 'Adzan' : 'Iqamah';
+
+  return {
+    title: slot.minutes > 0
+      ? `${moment} ${prayer} ${slot.minutes} menit lagi`
+      : `Waktunya ${moment} ${prayer}`,
+    body: `${moment} ${prayer} pukul ${slot.time}`
+  };
+};
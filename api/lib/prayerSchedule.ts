@@ -0,0 +1,252 @@
+/**
+ * Prayer schedule resolution
+ *
+ * Combines computed prayer times for the mosque location with the rows an
+ * Admin/Imam entered in prayer_schedules, which act as manual overrides.
+ */
+import { supabaseAdmin } from './supabase.js';
+import {
+  calculatePrayerTimes,
+  getLocalDate,
+  CALCULATION_METHODS,
+  ASR_MADHABS,
+  PRAYER_NAMES,
+  CalculationMethod,
+  AsrMadhab,
+  PrayerName
+} from './prayerTimes.js';
+import {
+  resolveIqamah,
+  resolveJumuah,
+  isFriday,
+  IqamahRule,
+  IqamahPrayer,
+  JumuahSchedule,
+  ResolvedJumuah
+} from './iqamah.js';
+import { toHijri, HijriDate, MAX_HIJRI_OFFSET } from './hijri.js';
+import { resolveRamadanDay, RamadanDay, RamadanNight } from './ramadan.js';
+
+export type TimeSource = 'manual' | 'calculated';
+
+export interface MosqueSettings {
+  id: string | null;
+  name: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  calculation_method: CalculationMethod;
+  asr_madhab: AsrMadhab;
+  hijri_offset: number;
+  imsak_minutes: number;
+  tarawih_offset_minutes: number;
+}
+
+export type PrayerScheduleRow = {
+  id: string;
+  prayer_date: string;
+  hijri_date?: string | null;
+} & Partial<Record<PrayerName, string | null>>;
+
+export interface ResolvedPrayerSchedule {
+  id: string | null;
+  prayer_date: string;
+  fajr: string | null;
+  sunrise: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+  hijri_date: string | null;
+  hijri: HijriDate;
+  sources: Record<PrayerName, TimeSource>;
+  iqamah: Record<IqamahPrayer, string | null>;
+  // Only set on Fridays
+  jumuah: ResolvedJumuah | null;
+  // Only set during Ramadan and on its eve
+  ramadan: RamadanDay | null;
+  calculation: {
+    method: CalculationMethod;
+    asr_madhab: AsrMadhab;
+  };
+}
+
+// Times that can be overridden by a stored prayer_schedules row
+export const OVERRIDABLE_PRAYERS: PrayerName[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+const DEFAULT_SETTINGS: MosqueSettings = {
+  id: null,
+  name: process.env.MOSQUE_NAME || 'Masjid',
+  latitude: parseFloat(process.env.MOSQUE_LATITUDE || '-6.2088'),
+  longitude: parseFloat(process.env.MOSQUE_LONGITUDE || '106.8456'),
+  timezone: process.env.MOSQUE_TIMEZONE || 'Asia/Jakarta',
+  calculation_method: (process.env.PRAYER_CALCULATION_METHOD as CalculationMethod) || 'KEMENAG',
+  asr_madhab: (process.env.PRAYER_ASR_MADHAB as AsrMadhab) || 'shafi',
+  hijri_offset: parseInt(process.env.HIJRI_OFFSET || '0'),
+  imsak_minutes: 10,
+  tarawih_offset_minutes: 20
+};
+
+/**
+ * Load the mosque settings row, falling back to environment defaults
+ */
+export const getMosqueSettings = async (): Promise<MosqueSettings> => {
+  const { data, error } = await supabaseAdmin
+    .from('mosque_settings')
+    .select('*')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Get mosque settings error:', error);
+  }
+
+  if (!data) {
+    return DEFAULT_SETTINGS;
+  }
+
+  return {
+    ...DEFAULT_SETTINGS,
+    ...data,
+    latitude: Number(data.latitude),
+    longitude: Number(data.longitude),
+    calculation_method: CALCULATION_METHODS[data.calculation_method as CalculationMethod]
+      ? data.calculation_method
+      : DEFAULT_SETTINGS.calculation_method,
+    asr_madhab: ASR_MADHABS[data.asr_madhab as AsrMadhab] ? data.asr_madhab : DEFAULT_SETTINGS.asr_madhab,
+    hijri_offset: Math.max(-MAX_HIJRI_OFFSET, Math.min(MAX_HIJRI_OFFSET, Number(data.hijri_offset) || 0)),
+    imsak_minutes: Number(data.imsak_minutes ?? DEFAULT_SETTINGS.imsak_minutes),
+    tarawih_offset_minutes: Number(data.tarawih_offset_minutes ?? DEFAULT_SETTINGS.tarawih_offset_minutes)
+  };
+};
+
+/**
+ * Today's date in the mosque timezone
+ */
+export const getMosqueToday = (settings: MosqueSettings): string => {
+  return getLocalDate(settings.timezone);
+};
+
+// Stored TIME values come back as HH:MM:SS
+const normalizeTime = (time: string | null | undefined): string | null => {
+  return time ? time.slice(0, 5) : null;
+};
+
+/**
+ * List every date (YYYY-MM-DD) between two dates inclusive
+ */
+export const listDates = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  while (cursor <= end) {
+    dates.push(cursor.toISOString().split('T')[0]);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+};
+
+export interface ResolveDayExtras {
+  iqamahRules?: IqamahRule[];
+  jumuah?: JumuahSchedule | null;
+  ramadanNight?: RamadanNight | null;
+}
+
+/**
+ * Merge a computed day with its stored override row (if any)
+ */
+export const resolveDay = (
+  date: string,
+  settings: MosqueSettings,
+  row?: PrayerScheduleRow | null,
+  extras: ResolveDayExtras = {}
+): ResolvedPrayerSchedule => {
+  const computed = calculatePrayerTimes(date, {
+    latitude: settings.latitude,
+    longitude: settings.longitude,
+    timezone: settings.timezone,
+    method: settings.calculation_method,
+    asrMadhab: settings.asr_madhab
+  });
+
+  const times = {} as Record<PrayerName, string | null>;
+  const sources = {} as Record<PrayerName, TimeSource>;
+
+  for (const prayer of PRAYER_NAMES) {
+    const manual = OVERRIDABLE_PRAYERS.includes(prayer) ? normalizeTime(row?.[prayer]) : null;
+    times[prayer] = manual || computed[prayer];
+    sources[prayer] = manual ? 'manual' : 'calculated';
+  }
+
+  const hijri = toHijri(date, settings.hijri_offset);
+
+  return {
+    id: row?.id || null,
+    prayer_date: date,
+    ...times,
+    // A stored hijri_date still overrides the computed one
+    hijri_date: row?.hijri_date || hijri.formatted,
+    hijri,
+    sources,
+    iqamah: resolveIqamah(date, times, extras.iqamahRules || []),
+    jumuah: isFriday(date) ? resolveJumuah(times.dhuhr, extras.jumuah) : null,
+    ramadan: resolveRamadanDay(date, hijri, times, settings, extras.ramadanNight),
+    calculation: {
+      method: settings.calculation_method,
+      asr_madhab: settings.asr_madhab
+    }
+  };
+};
+
+/**
+ * Resolve the prayer schedule for every date in a range
+ */
+export const resolveSchedules = async (
+  startDate: string,
+  endDate: string,
+  settings?: MosqueSettings
+): Promise<ResolvedPrayerSchedule[]> => {
+  const mosqueSettings = settings || await getMosqueSettings();
+
+  const [schedulesResult, iqamahResult, jumuahResult, nightsResult] = await Promise.all([
+    supabaseAdmin
+      .from('prayer_schedules')
+      .select('*')
+      .gte('prayer_date', startDate)
+      .lte('prayer_date', endDate)
+      .order('prayer_date', { ascending: true }),
+    // Default rules plus ranged rules overlapping the requested range
+    supabaseAdmin
+      .from('iqamah_rules')
+      .select('*')
+      .or(`start_date.is.null,and(start_date.lte.${endDate},end_date.gte.${startDate})`),
+    supabaseAdmin
+      .from('jumuah_schedules')
+      .select('*')
+      .gte('jumuah_date', startDate)
+      .lte('jumuah_date', endDate),
+    supabaseAdmin
+      .from('ramadan_nights')
+      .select('*')
+      .gte('night_date', startDate)
+      .lte('night_date', endDate)
+  ]);
+
+  const error = schedulesResult.error || iqamahResult.error || jumuahResult.error || nightsResult.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rowsByDate = new Map<string, PrayerScheduleRow>((schedulesResult.data || []).map(row => [row.prayer_date, row]));
+  const jumuahByDate = new Map<string, JumuahSchedule>((jumuahResult.data || []).map(row => [row.jumuah_date, row]));
+  const nightsByDate = new Map<string, RamadanNight>((nightsResult.data || []).map(row => [row.night_date, row]));
+  const iqamahRules = (iqamahResult.data || []) as IqamahRule[];
+
+  return listDates(startDate, endDate).map(date => resolveDay(date, mosqueSettings, rowsByDate.get(date), {
+    iqamahRules,
+    jumuah: jumuahByDate.get(date),
+    ramadanNight: nightsByDate.get(date)
+  }));
+};
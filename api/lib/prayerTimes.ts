@@ -0,0 +1,229 @@
+/**
+ * Astronomical prayer time calculation
+ *
+ * Based on the sun position formulas used by most published jadwal sholat
+ * (see praytimes.org). All times are returned as local "HH:MM" strings for
+ * the given IANA timezone.
+ */
+
+export type CalculationMethod = 'KEMENAG' | 'MWL' | 'ISNA' | 'UMM_AL_QURA' | 'EGYPTIAN';
+export type AsrMadhab = 'shafi' | 'hanafi';
+export type PrayerName = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+export const PRAYER_NAMES: PrayerName[] = ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+interface MethodParams {
+  label: string;
+  fajrAngle: number;
+  // Isha is either a sun depression angle or a fixed interval after maghrib
+  ishaAngle?: number;
+  ishaMinutes?: number;
+  // Safety margin (ihtiyat) added to each time, subtracted from sunrise
+  ihtiyat: number;
+}
+
+export const CALCULATION_METHODS: Record<CalculationMethod, MethodParams> = {
+  KEMENAG: { label: 'Kementerian Agama RI', fajrAngle: 20, ishaAngle: 18, ihtiyat: 2 },
+  MWL: { label: 'Muslim World League', fajrAngle: 18, ishaAngle: 17, ihtiyat: 0 },
+  ISNA: { label: 'Islamic Society of North America', fajrAngle: 15, ishaAngle: 15, ihtiyat: 0 },
+  UMM_AL_QURA: { label: 'Umm al-Qura, Makkah', fajrAngle: 18.5, ishaMinutes: 90, ihtiyat: 0 },
+  EGYPTIAN: { label: 'Egyptian General Authority of Survey', fajrAngle: 19.5, ishaAngle: 17.5, ihtiyat: 0 }
+};
+
+export const ASR_MADHABS: Record<AsrMadhab, { label: string; shadowFactor: number }> = {
+  shafi: { label: "Syafi'i, Maliki, Hanbali", shadowFactor: 1 },
+  hanafi: { label: 'Hanafi', shadowFactor: 2 }
+};
+
+export interface CalculationOptions {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  method: CalculationMethod;
+  asrMadhab: AsrMadhab;
+}
+
+export type PrayerTimesResult = Record<PrayerName, string | null>;
+
+// Degree based trigonometry helpers
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+const sin = (d: number) => Math.sin(dtr(d));
+const cos = (d: number) => Math.cos(dtr(d));
+const tan = (d: number) => Math.tan(dtr(d));
+const arcsin = (x: number) => rtd(Math.asin(x));
+const arccos = (x: number) => rtd(Math.acos(x));
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+const arccot = (x: number) => rtd(Math.atan(1 / x));
+const fix = (a: number, b: number) => {
+  const value = a - b * Math.floor(a / b);
+  return value < 0 ? value + b : value;
+};
+const fixAngle = (a: number) => fix(a, 360);
+const fixHour = (a: number) => fix(a, 24);
+
+/**
+ * Julian date at 00:00 UTC for a Gregorian calendar date
+ */
+const julianDate = (year: number, month: number, day: number): number => {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+};
+
+/**
+ * Sun declination and equation of time for a julian date
+ */
+const sunPosition = (jd: number) => {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * sin(g) + 0.02 * sin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  const equation = q / 15 - fixHour(ra);
+  const declination = arcsin(sin(e) * sin(l));
+
+  return { declination, equation };
+};
+
+/**
+ * Offset of an IANA timezone from UTC in hours at the given instant
+ */
+export const getTimezoneOffset = (timeZone: string, date: Date = new Date()): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+
+  return (asUTC - instant) / 3600000;
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) in an IANA timezone
+ */
+export const getLocalDate = (timeZone: string, date: Date = new Date()): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+};
+
+/**
+ * Clock time (HH:MM) in an IANA timezone
+ */
+export const getLocalTime = (timeZone: string, date: Date = new Date()): string => {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(date);
+};
+
+/**
+ * Instant for a local date (YYYY-MM-DD) and clock time (HH:MM) in an IANA timezone
+ */
+export const toUtcDate = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  const offset = getTimezoneOffset(timeZone, new Date(guess));
+  return new Date(guess - offset * 3600000);
+};
+
+const formatTime = (hours: number): string | null => {
+  if (!Number.isFinite(hours)) {
+    return null;
+  }
+  const totalMinutes = Math.round(fixHour(hours) * 60) % (24 * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+/**
+ * Calculate the prayer times for a single date (YYYY-MM-DD)
+ */
+export const calculatePrayerTimes = (date: string, options: CalculationOptions): PrayerTimesResult => {
+  const params = CALCULATION_METHODS[options.method];
+  if (!params) {
+    throw new Error(`Unknown calculation method: ${options.method}`);
+  }
+  const asrFactor = ASR_MADHABS[options.asrMadhab]?.shadowFactor ?? 1;
+
+  const [year, month, day] = date.split('-').map(Number);
+  const { latitude, longitude } = options;
+  const jd = julianDate(year, month, day) - longitude / (15 * 24);
+
+  // Use local noon of the requested date to pick the right DST offset
+  const timezoneOffset = getTimezoneOffset(options.timezone, new Date(Date.UTC(year, month - 1, day, 12)));
+
+  const midDay = (t: number) => fixHour(12 - sunPosition(jd + t).equation);
+
+  const sunAngleTime = (angle: number, t: number, ccw = false) => {
+    const { declination } = sunPosition(jd + t);
+    const noon = midDay(t);
+    const hourAngle = arccos((-sin(angle) - sin(declination) * sin(latitude)) / (cos(declination) * cos(latitude))) / 15;
+    return noon + (ccw ? -hourAngle : hourAngle);
+  };
+
+  const asrTime = (factor: number, t: number) => {
+    const { declination } = sunPosition(jd + t);
+    const angle = -arccot(factor + tan(Math.abs(latitude - declination)));
+    return sunAngleTime(angle, t);
+  };
+
+  // The sun's position is taken at a typical hour for each time, as a day
+  // portion; refining it moves the results by well under a minute
+  const portion = (hours: number) => hours / 24;
+  const raw = {
+    fajr: sunAngleTime(params.fajrAngle, portion(5), true),
+    sunrise: sunAngleTime(0.833, portion(6), true),
+    dhuhr: midDay(portion(12)),
+    asr: asrTime(asrFactor, portion(13)),
+    sunset: sunAngleTime(0.833, portion(18)),
+    isha: params.ishaAngle !== undefined ? sunAngleTime(params.ishaAngle, portion(18)) : NaN
+  };
+
+  // Fall back to a night fraction when the sun never reaches the angle
+  // (only relevant far from the equator)
+  const night = fixHour(raw.sunrise - raw.sunset);
+  if (!Number.isFinite(raw.fajr)) {
+    raw.fajr = raw.sunrise - (params.fajrAngle / 60) * night;
+  }
+  if (params.ishaMinutes !== undefined) {
+    raw.isha = raw.sunset + params.ishaMinutes / 60;
+  } else if (!Number.isFinite(raw.isha)) {
+    raw.isha = raw.sunset + ((params.ishaAngle ?? 18) / 60) * night;
+  }
+
+  const toLocal = (hours: number, margin = 0) => formatTime(hours + timezoneOffset - longitude / 15 + margin / 60);
+  const ihtiyat = params.ihtiyat;
+
+  return {
+    fajr: toLocal(raw.fajr, ihtiyat),
+    sunrise: toLocal(raw.sunrise, -ihtiyat),
+    dhuhr: toLocal(raw.dhuhr, ihtiyat),
+    asr: toLocal(raw.asr, ihtiyat),
+    maghrib: toLocal(raw.sunset, ihtiyat),
+    isha: toLocal(raw.isha, ihtiyat)
+  };
+};
@@ -0,0 +1,130 @@
+/**
+ * Ramadan schedule
+ *
+ * Imsak, iftar and tarawih times for the days of Ramadan, plus the imam and
+ * penceramah assigned to each night of tarawih. A tarawih night is keyed by
+ * the Gregorian evening it is prayed, so night 1 is the eve of 1 Ramadan.
+ */
+import { fromHijri, toHijri, shiftDate, HijriDate } from './hijri.js';
+import { addMinutes } from './iqamah.js';
+
+export const RAMADAN_MONTH = 9;
+
+export interface RamadanSettings {
+  imsak_minutes: number;
+  tarawih_offset_minutes: number;
+  hijri_offset: number;
+}
+
+export interface RamadanNight {
+  id: string;
+  night_date: string;
+  tarawih_time: string | null;
+  imam_name: string | null;
+  penceramah_name: string | null;
+  theme: string | null;
+  notes: string | null;
+}
+
+export interface ResolvedTarawih {
+  night: number;
+  night_date: string;
+  time: string | null;
+  imam_name: string | null;
+  penceramah_name: string | null;
+  theme: string | null;
+  notes: string | null;
+}
+
+export interface RamadanDay {
+  // Day of fasting, null on the eve of Ramadan
+  day: number | null;
+  imsak: string | null;
+  iftar: string | null;
+  // Tarawih prayed on the evening of this date, if any
+  tarawih: ResolvedTarawih | null;
+}
+
+export interface RamadanRange {
+  hijri_year: number;
+  start_date: string;
+  end_date: string;
+  days: number;
+}
+
+/**
+ * First and last Gregorian day of Ramadan in a Hijri year
+ */
+export const getRamadanRange = (hijriYear: number, offset = 0): RamadanRange | null => {
+  const startDate = fromHijri(hijriYear, RAMADAN_MONTH, 1, offset);
+  const nextMonth = fromHijri(hijriYear, RAMADAN_MONTH + 1, 1, offset);
+  if (!startDate || !nextMonth) {
+    return null;
+  }
+
+  const endDate = shiftDate(nextMonth, -1);
+  return {
+    hijri_year: hijriYear,
+    start_date: startDate,
+    end_date: endDate,
+    days: toHijri(endDate, offset).day
+  };
+};
+
+/**
+ * The Ramadan a date falls in, or the next one once it has passed
+ */
+export const getCurrentOrNextRamadan = (date: string, offset = 0): RamadanRange | null => {
+  const hijri = toHijri(date, offset);
+  return getRamadanRange(hijri.month > RAMADAN_MONTH ? hijri.year + 1 : hijri.year, offset);
+};
+
+/**
+ * Tarawih night number prayed on the evening of a date, or null outside Ramadan
+ */
+export const getTarawihNight = (date: string, offset = 0): number | null => {
+  const tomorrow = toHijri(shiftDate(date, 1), offset);
+  return tomorrow.month === RAMADAN_MONTH ? tomorrow.day : null;
+};
+
+// Stored TIME values come back as HH:MM:SS
+const normalizeTime = (time: string | null | undefined): string | null => {
+  return time ? time.slice(0, 5) : null;
+};
+
+/**
+ * Ramadan details for a date, or null when the date has neither a fast nor a
+ * tarawih night
+ */
+export const resolveRamadanDay = (
+  date: string,
+  hijri: HijriDate,
+  times: { fajr: string | null; maghrib: string | null; isha: string | null },
+  settings: RamadanSettings,
+  night?: RamadanNight | null
+): RamadanDay | null => {
+  const fasting = hijri.month === RAMADAN_MONTH;
+  const nightNumber = getTarawihNight(date, settings.hijri_offset);
+
+  if (!fasting && !nightNumber) {
+    return null;
+  }
+
+  return {
+    day: fasting ? hijri.day : null,
+    imsak: fasting && times.fajr ? addMinutes(times.fajr, -settings.imsak_minutes) : null,
+    iftar: fasting ? times.maghrib : null,
+    tarawih: nightNumber
+      ? {
+        night: nightNumber,
+        night_date: date,
+        time: normalizeTime(night?.tarawih_time) ||
+          (times.isha ? addMinutes(times.isha, settings.tarawih_offset_minutes) : null),
+        imam_name: night?.imam_name || null,
+        penceramah_name: night?.penceramah_name || null,
+        theme: night?.theme || null,
+        notes: night?.notes || null
+      }
+      : null
+  };
+};
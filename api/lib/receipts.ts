@@ -0,0 +1,634 @@
+/**
+ * Donation receipts (kuitansi)
+ *
+ * A completed donation gets a numbered receipt, and a donor can get one
+ * receipt summing up a past year. Receipts keep what they certified when
+ * issued and are voided, not changed, when a donation stops being completed.
+ * The PDF carries a QR code with a signed link to the public verify page, so
+ * anyone handed a receipt can check it was issued by the mosque.
+ */
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { supabaseAdmin } from './supabase.js';
+import { getMosqueSettings, getMosqueToday, MosqueSettings } from './prayerSchedule.js';
+import { toUtcDate } from './prayerTimes.js';
+import { getSigningSecret } from './secrets.js';
+import { buildPdf, textWidth, fitText, A4, PdfElement, PdfColor } from './pdf.js';
+
+export type ReceiptKind = 'donation' | 'annual';
+
+export interface ReceiptDonation {
+  id: string;
+  donation_type: string;
+  amount: number;
+  reference_number: string;
+  completed_at: string;
+}
+
+export interface DonationRow {
+  id: string;
+  donor_id: string | null;
+  status: string;
+  amount: number;
+  donation_type: string;
+  reference_number: string;
+  completed_at?: string | null;
+  description?: string | null;
+  campaign_id?: string | null;
+}
+
+export interface Receipt {
+  id: string;
+  receipt_number: string;
+  kind: ReceiptKind;
+  donation_id: string | null;
+  donor_id: string | null;
+  period_year: number | null;
+  donor_name: string;
+  amount: number;
+  details: {
+    donation_type?: string;
+    reference_number?: string;
+    completed_at?: string;
+    description?: string | null;
+    campaign_title?: string | null;
+    donations?: ReceiptDonation[];
+  };
+  issued_at: string;
+  is_void: boolean;
+  void_reason: string | null;
+  voided_at: string | null;
+}
+
+const ONES = ['', 'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan', 'sembilan', 'sepuluh', 'sebelas'];
+
+const SCALES: [number, string][] = [
+  [1e12, 'triliun'],
+  [1e9, 'miliar'],
+  [1e6, 'juta'],
+  [1e3, 'ribu']
+];
+
+const spellOut = (n: number): string => {
+  if (n < 12) return ONES[n];
+  if (n < 20) return `${ONES[n - 10]} belas`;
+  if (n < 100) return `${ONES[Math.floor(n / 10)]} puluh ${spellOut(n % 10)}`;
+  if (n < 200) return `seratus ${spellOut(n - 100)}`;
+  if (n < 1000) return `${ONES[Math.floor(n / 100)]} ratus ${spellOut(n % 100)}`;
+  if (n < 2000) return `seribu ${spellOut(n - 1000)}`;
+
+  for (const [scale, word] of SCALES) {
+    if (n >= scale) {
+      return `${spellOut(Math.floor(n / scale))} ${word} ${spellOut(n % scale)}`;
+    }
+  }
+  return '';
+};
+
+/**
+ * A whole rupiah amount in Indonesian words, e.g. 1250000 is
+ * "satu juta dua ratus lima puluh ribu"
+ */
+export const terbilang = (amount: number): string => {
+  const n = Math.round(Math.abs(amount));
+  if (n === 0) return 'nol';
+  return spellOut(n).replace(/\s+/g, ' ').trim();
+};
+
+const sign = (receiptNumber: string) => {
+  const secret = getSigningSecret('RECEIPT_SECRET');
+  return crypto.createHmac('sha256', secret).update(`receipt:${receiptNumber}`).digest('base64url');
+};
+
+/**
+ * Whether a signature from a receipt's QR code belongs to the receipt number
+ */
+export const verifyReceiptSignature = (receiptNumber: string, signature: string): boolean => {
+  const expected = Buffer.from(sign(receiptNumber));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Public page that verifies a receipt, encoded in its QR code
+ */
+export const receiptVerifyUrl = (receiptNumber: string): string => {
+  const appUrl = process.env.APP_URL || 'http://localhost:5173';
+  return `${appUrl}/receipts/verify/${encodeURIComponent(receiptNumber)}?sig=${sign(receiptNumber)}`;
+};
+
+// Receipt numbers run per year of issue, e.g. KW-2026-000042
+const nextReceiptNumber = async (year: number): Promise<string> => {
+  const { data, error } = await supabaseAdmin.rpc('next_receipt_number', { receipt_year: year });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return `KW-${year}-${String(data).padStart(6, '0')}`;
+};
+
+const getDonorName = async (donorId: string | null): Promise<string> => {
+  if (!donorId) return 'Hamba Allah';
+
+  const { data: donor } = await supabaseAdmin
+    .from('users')
+    .select('display_name')
+    .eq('id', donorId)
+    .single();
+
+  return donor?.display_name || 'Hamba Allah';
+};
+
+const findValidReceipt = async (column: string, value: string | number, extra?: Record<string, string | number>) => {
+  let query = supabaseAdmin
+    .from('donation_receipts')
+    .select('*')
+    .eq(column, value)
+    .eq('is_void', false);
+
+  for (const [key, extraValue] of Object.entries(extra || {})) {
+    query = query.eq(key, extraValue);
+  }
+
+  const { data } = await query.maybeSingle();
+  return data as Receipt | null;
+};
+
+// Insert a receipt; when another request issued it first, that one is returned
+const insertReceipt = async (
+  receipt: Omit<Receipt, 'id' | 'receipt_number' | 'issued_at' | 'is_void' | 'void_reason' | 'voided_at'>,
+  year: number,
+  findExisting: () => Promise<Receipt | null>
+): Promise<Receipt> => {
+  const { data, error } = await supabaseAdmin
+    .from('donation_receipts')
+    .insert({ ...receipt, receipt_number: await nextReceiptNumber(year) })
+    .select('*')
+    .single();
+
+  if (error) {
+    const existing = error.code === '23505' ? await findExisting() : null;
+    if (existing) return existing;
+    throw new Error(error.message);
+  }
+
+  return data as Receipt;
+};
+
+/**
+ * The receipt of a completed donation, issued on first use
+ */
+export const issueDonationReceipt = async (donation: DonationRow): Promise<Receipt> => {
+  const existing = await findValidReceipt('donation_id', donation.id, { kind: 'donation' });
+  if (existing) return existing;
+
+  if (donation.status !== 'Completed') {
+    throw new Error('Only completed donations get a receipt');
+  }
+
+  const { data: campaign } = donation.campaign_id
+    ? await supabaseAdmin.from('donation_campaigns').select('title').eq('id', donation.campaign_id).single()
+    : { data: null };
+
+  const completedAt = donation.completed_at || new Date().toISOString();
+  const settings = await getMosqueSettings();
+
+  const receipt = await insertReceipt({
+    kind: 'donation',
+    donation_id: donation.id,
+    donor_id: donation.donor_id,
+    period_year: null,
+    donor_name: await getDonorName(donation.donor_id),
+    amount: Number(donation.amount),
+    details: {
+      donation_type: donation.donation_type,
+      reference_number: donation.reference_number,
+      completed_at: completedAt,
+      description: donation.description || null,
+      campaign_title: campaign?.title || null
+    }
+  }, Number(getMosqueToday(settings).slice(0, 4)), () => findValidReceipt('donation_id', donation.id, { kind: 'donation' }));
+
+  // Log receipt issue
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      user_id: null,
+      action: 'CREATE',
+      resource_type: 'DONATION_RECEIPT',
+      resource_id: receipt.id,
+      details: { receipt_number: receipt.receipt_number, donation_id: donation.id, amount: receipt.amount }
+    });
+
+  return receipt;
+};
+
+/**
+ * A donor's receipt for all their completed donations in a past year, or
+ * null when they made none. The year is counted in the mosque's time zone.
+ */
+export const issueAnnualReceipt = async (donorId: string, year: number): Promise<Receipt | null> => {
+  const existing = await findValidReceipt('donor_id', donorId, { kind: 'annual', period_year: year });
+  if (existing) return existing;
+
+  const settings = await getMosqueSettings();
+  const { data: donations, error } = await supabaseAdmin
+    .from('donations')
+    .select('id, donation_type, amount, reference_number, completed_at')
+    .eq('donor_id', donorId)
+    .eq('status', 'Completed')
+    .gte('completed_at', toUtcDate(`${year}-01-01`, '00:00', settings.timezone).toISOString())
+    .lt('completed_at', toUtcDate(`${year + 1}-01-01`, '00:00', settings.timezone).toISOString())
+    .order('completed_at', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (!donations || donations.length === 0) {
+    return null;
+  }
+
+  const receipt = await insertReceipt({
+    kind: 'annual',
+    donation_id: null,
+    donor_id: donorId,
+    period_year: year,
+    donor_name: await getDonorName(donorId),
+    amount: donations.reduce((sum, donation) => sum + Number(donation.amount), 0),
+    details: {
+      donations: donations.map(donation => ({ ...donation, amount: Number(donation.amount) }))
+    }
+  }, Number(getMosqueToday(settings).slice(0, 4)), () => findValidReceipt('donor_id', donorId, { kind: 'annual', period_year: year }));
+
+  // Log receipt issue
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      user_id: null,
+      action: 'CREATE',
+      resource_type: 'DONATION_RECEIPT',
+      resource_id: receipt.id,
+      details: { receipt_number: receipt.receipt_number, period_year: year, donations: donations.length, amount: receipt.amount }
+    });
+
+  return receipt;
+};
+
+/**
+ * Void the receipts that certify a donation that is no longer completed: its
+ * own receipt and the annual receipt of its year, which is issued again
+ * without it on the next download. Returns the voided receipt numbers.
+ */
+export const voidDonationReceipts = async (donation: Pick<DonationRow, 'id' | 'donor_id'>, reason: string): Promise<string[]> => {
+  const receipts: Receipt[] = [];
+
+  const own = await findValidReceipt('donation_id', donation.id, { kind: 'donation' });
+  if (own) receipts.push(own);
+
+  if (donation.donor_id) {
+    const { data: annual } = await supabaseAdmin
+      .from('donation_receipts')
+      .select('*')
+      .eq('donor_id', donation.donor_id)
+      .eq('kind', 'annual')
+      .eq('is_void', false);
+
+    receipts.push(...(annual || []).filter((receipt: Receipt) =>
+      (receipt.details.donations || []).some(covered => covered.id === donation.id)
+    ));
+  }
+
+  if (receipts.length === 0) {
+    return [];
+  }
+
+  const { data: voided, error } = await supabaseAdmin
+    .from('donation_receipts')
+    .update({ is_void: true, void_reason: reason, voided_at: new Date().toISOString() })
+    .in('id', receipts.map(receipt => receipt.id))
+    .eq('is_void', false)
+    .select('receipt_number');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (voided || []).map(receipt => receipt.receipt_number);
+};
+
+const HEADER_COLOR: PdfColor = [4, 120, 87];
+const MUTED_COLOR: PdfColor = [75, 85, 99];
+const BORDER_COLOR: PdfColor = [209, 213, 219];
+const STRIPE_COLOR: PdfColor = [236, 253, 245];
+
+const MARGIN = 48;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+
+const formatRupiah = (amount: number) => `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+
+const formatDate = (value: string, timeZone: string) => {
+  return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric', timeZone });
+};
+
+const capitalizeWords = (text: string) => text.replace(/\b\w/g, char => char.toUpperCase());
+
+// Break text into lines no wider than maxWidth
+const wrapText = (text: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Mosque name, address and phone above a rule; returns the y below it
+const drawLetterhead = (elements: PdfElement[], settings: MosqueSettings): number => {
+  const contact = [process.env.MOSQUE_ADDRESS, process.env.MOSQUE_PHONE && `Telp. ${process.env.MOSQUE_PHONE}`]
+    .filter(Boolean)
+    .join(' - ');
+
+  elements.push({ type: 'text', x: A4.width / 2, y: 60, text: settings.name, size: 18, bold: true, align: 'center', color: HEADER_COLOR });
+  let y = 60;
+  if (contact) {
+    y += 16;
+    elements.push({ type: 'text', x: A4.width / 2, y, text: fitText(contact, CONTENT_WIDTH, 9), size: 9, align: 'center', color: MUTED_COLOR });
+  }
+  y += 12;
+  elements.push(
+    { type: 'line', x1: MARGIN, y1: y, x2: A4.width - MARGIN, y2: y, width: 2, color: HEADER_COLOR },
+    { type: 'line', x1: MARGIN, y1: y + 3, x2: A4.width - MARGIN, y2: y + 3, width: 0.5, color: HEADER_COLOR }
+  );
+  return y + 3;
+};
+
+// QR code as filled squares, one rectangle per run of dark modules in a row
+const drawQrCode = (elements: PdfElement[], text: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleSize = size / modules.size;
+
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) col++;
+      elements.push({
+        type: 'rect',
+        x: x + start * moduleSize,
+        y: y + row * moduleSize,
+        width: (col - start) * moduleSize,
+        // Overlap the next row slightly so readers don't render hairline gaps
+        height: moduleSize + 0.1,
+        fill: [0, 0, 0]
+      });
+    }
+  }
+};
+
+// Verification QR on the left, date and signatory on the right
+const drawFooter = (elements: PdfElement[], receipt: Receipt, settings: MosqueSettings, top: number) => {
+  const qrSize = 96;
+  drawQrCode(elements, receiptVerifyUrl(receipt.receipt_number), MARGIN, top, qrSize);
+  elements.push(
+    { type: 'text', x: MARGIN + qrSize + 12, y: top + 36, text: 'Pindai untuk memeriksa', size: 8, color: MUTED_COLOR },
+    { type: 'text', x: MARGIN + qrSize + 12, y: top + 47, text: 'keaslian kuitansi ini.', size: 8, color: MUTED_COLOR }
+  );
+
+  const right = A4.width - MARGIN;
+  elements.push(
+    { type: 'text', x: right, y: top + 10, text: formatDate(receipt.issued_at, settings.timezone), size: 10, align: 'right' },
+    { type: 'text', x: right, y: top + 24, text: `Pengurus ${settings.name}`, size: 10, align: 'right' },
+    { type: 'text', x: right, y: top + 84, text: 'Bendahara', size: 10, bold: true, align: 'right' }
+  );
+
+  elements.push({
+    type: 'text',
+    x: A4.width / 2,
+    y: top + qrSize + 28,
+    text: 'Kuitansi ini diterbitkan secara elektronik dan sah tanpa tanda tangan basah.',
+    size: 8,
+    align: 'center',
+    color: MUTED_COLOR
+  });
+};
+
+// Label/value rows; long values wrap under their label. Returns the y below them.
+const drawFields = (elements: PdfElement[], top: number, fields: [string, string, boolean?][]): number => {
+  const labelWidth = 130;
+  let y = top;
+  for (const [label, value, bold] of fields) {
+    elements.push(
+      { type: 'text', x: MARGIN, y, text: label, size: 11, color: MUTED_COLOR },
+      { type: 'text', x: MARGIN + labelWidth - 10, y, text: ':', size: 11, color: MUTED_COLOR }
+    );
+    for (const line of wrapText(value, CONTENT_WIDTH - labelWidth, 11, bold)) {
+      elements.push({ type: 'text', x: MARGIN + labelWidth, y, text: line, size: 11, bold });
+      y += 15;
+    }
+    y += 7;
+  }
+  return y;
+};
+
+// Amount in figures and words, boxed
+const drawAmount = (elements: PdfElement[], top: number, amount: number): number => {
+  const words = wrapText(`Terbilang: ${capitalizeWords(terbilang(amount))} Rupiah`, CONTENT_WIDTH - 24, 10);
+  const height = 36 + words.length * 13;
+  elements.push(
+    { type: 'rect', x: MARGIN, y: top, width: CONTENT_WIDTH, height, fill: STRIPE_COLOR, stroke: HEADER_COLOR },
+    { type: 'text', x: MARGIN + 12, y: top + 24, text: formatRupiah(amount), size: 16, bold: true, color: HEADER_COLOR }
+  );
+  words.forEach((line, index) => {
+    elements.push({ type: 'text', x: MARGIN + 12, y: top + 42 + index * 13, text: line, size: 10 });
+  });
+  return top + height;
+};
+
+const drawTitle = (elements: PdfElement[], top: number, title: string, receipt: Receipt) => {
+  elements.push(
+    { type: 'text', x: A4.width / 2, y: top + 32, text: title, size: 14, bold: true, align: 'center' },
+    { type: 'text', x: A4.width / 2, y: top + 48, text: `No. ${receipt.receipt_number}`, size: 10, align: 'center', color: MUTED_COLOR }
+  );
+  return top + 76;
+};
+
+const ZAKAT_TYPES = ['Zakat Mal', 'Zakat Fitrah'];
+
+const zakatNote = () => {
+  const registration = process.env.RECEIPT_ZAKAT_REGISTRATION;
+  return registration ? `Zakat diterima oleh ${registration}.` : null;
+};
+
+const buildDonationPdf = (receipt: Receipt, settings: MosqueSettings): PdfElement[] => {
+  const elements: PdfElement[] = [];
+  const { details } = receipt;
+
+  let y = drawTitle(elements, drawLetterhead(elements, settings), 'KUITANSI DONASI', receipt);
+
+  const purpose = [details.donation_type, details.campaign_title, details.description].filter(Boolean).join(' - ');
+  y = drawFields(elements, y, [
+    ['Telah terima dari', receipt.donor_name, true],
+    ['Untuk pembayaran', purpose],
+    ['No. referensi', details.reference_number || '-'],
+    ['Tanggal diterima', details.completed_at ? formatDate(details.completed_at, settings.timezone) : '-']
+  ]);
+
+  y = drawAmount(elements, y + 4, receipt.amount) + 20;
+
+  const note = ZAKAT_TYPES.includes(details.donation_type || '') ? zakatNote() : null;
+  if (note) {
+    elements.push({ type: 'text', x: MARGIN, y, text: fitText(note, CONTENT_WIDTH, 9), size: 9, color: MUTED_COLOR });
+    y += 16;
+  }
+  elements.push({ type: 'text', x: MARGIN, y, text: 'Jazakumullahu khairan. Semoga Allah menerima amal Anda.', size: 10, color: MUTED_COLOR });
+
+  drawFooter(elements, receipt, settings, y + 28);
+  return elements;
+};
+
+const ROW_HEIGHT = 19;
+const ANNUAL_COLUMNS = [
+  { label: 'No.', width: 32 },
+  { label: 'Tanggal', width: 110 },
+  { label: 'Jenis', width: 100 },
+  { label: 'No. referensi', width: 155 },
+  { label: 'Jumlah', width: CONTENT_WIDTH - 397 }
+];
+
+const drawTableHeader = (elements: PdfElement[], top: number) => {
+  elements.push({ type: 'rect', x: MARGIN, y: top, width: CONTENT_WIDTH, height: ROW_HEIGHT, fill: HEADER_COLOR });
+  let x = MARGIN;
+  for (const column of ANNUAL_COLUMNS) {
+    elements.push({ type: 'text', x: x + 4, y: top + 13, text: column.label, size: 9, bold: true, color: [255, 255, 255] });
+    x += column.width;
+  }
+};
+
+const drawTableRow = (elements: PdfElement[], top: number, cells: string[], striped: boolean) => {
+  if (striped) {
+    elements.push({ type: 'rect', x: MARGIN, y: top, width: CONTENT_WIDTH, height: ROW_HEIGHT, fill: STRIPE_COLOR });
+  }
+  let x = MARGIN;
+  cells.forEach((cell, index) => {
+    const column = ANNUAL_COLUMNS[index];
+    const last = index === ANNUAL_COLUMNS.length - 1;
+    elements.push({
+      type: 'text',
+      x: last ? x + column.width - 4 : x + 4,
+      y: top + 13,
+      text: fitText(cell, column.width - 8, 9),
+      size: 9,
+      align: last ? 'right' : 'left'
+    });
+    x += column.width;
+  });
+  elements.push({ type: 'line', x1: MARGIN, y1: top + ROW_HEIGHT, x2: MARGIN + CONTENT_WIDTH, y2: top + ROW_HEIGHT, color: BORDER_COLOR });
+};
+
+const buildAnnualPdf = (receipt: Receipt, settings: MosqueSettings): PdfElement[][] => {
+  const donations = receipt.details.donations || [];
+  const pages: PdfElement[][] = [];
+  let elements: PdfElement[] = [];
+  pages.push(elements);
+
+  let y = drawTitle(elements, drawLetterhead(elements, settings), `REKAPITULASI DONASI TAHUN ${receipt.period_year}`, receipt);
+  y = drawFields(elements, y, [
+    ['Telah terima dari', receipt.donor_name, true],
+    ['Periode', `1 Januari - 31 Desember ${receipt.period_year}`],
+    ['Jumlah transaksi', `${donations.length} donasi`]
+  ]);
+
+  // Rows continue on new pages, leaving room for the totals and footer on the last
+  const pageBottom = A4.height - 60;
+  drawTableHeader(elements, y);
+  y += ROW_HEIGHT;
+  donations.forEach((donation, index) => {
+    if (y + ROW_HEIGHT > pageBottom) {
+      elements = [];
+      pages.push(elements);
+      y = 60;
+      drawTableHeader(elements, y);
+      y += ROW_HEIGHT;
+    }
+    drawTableRow(elements, y, [
+      String(index + 1),
+      formatDate(donation.completed_at, settings.timezone),
+      donation.donation_type,
+      donation.reference_number,
+      formatRupiah(donation.amount)
+    ], index % 2 === 1);
+    y += ROW_HEIGHT;
+  });
+
+  const totals = new Map<string, number>();
+  for (const donation of donations) {
+    totals.set(donation.donation_type, (totals.get(donation.donation_type) || 0) + donation.amount);
+  }
+
+  // Totals, amount box and footer need about this much room
+  const closingHeight = 90 + totals.size * 14 + 60 + 170;
+  if (y + closingHeight > A4.height - 30) {
+    elements = [];
+    pages.push(elements);
+    y = 40;
+  }
+
+  y += 20;
+  elements.push({ type: 'text', x: MARGIN, y, text: 'Rincian per jenis donasi:', size: 10, bold: true });
+  for (const [type, total] of totals) {
+    y += 14;
+    elements.push(
+      { type: 'text', x: MARGIN + 12, y, text: type, size: 10 },
+      { type: 'text', x: A4.width - MARGIN, y, text: formatRupiah(total), size: 10, align: 'right' }
+    );
+  }
+
+  y = drawAmount(elements, y + 16, receipt.amount) + 20;
+
+  const note = [...totals.keys()].some(type => ZAKAT_TYPES.includes(type)) ? zakatNote() : null;
+  if (note) {
+    elements.push({ type: 'text', x: MARGIN, y, text: fitText(note, CONTENT_WIDTH, 9), size: 9, color: MUTED_COLOR });
+    y += 16;
+  }
+
+  drawFooter(elements, receipt, settings, y + 12);
+
+  if (pages.length > 1) {
+    pages.forEach((page, index) => {
+      page.push({
+        type: 'text',
+        x: A4.width - MARGIN,
+        y: A4.height - 24,
+        text: `${receipt.receipt_number} - halaman ${index + 1} dari ${pages.length}`,
+        size: 8,
+        align: 'right',
+        color: MUTED_COLOR
+      });
+    });
+  }
+
+  return pages;
+};
+
+/**
+ * Render a receipt as PDF
+ */
+export const buildReceiptPdf = async (receipt: Receipt): Promise<Buffer> => {
+  const settings = await getMosqueSettings();
+  return buildPdf({
+    title: `Kuitansi ${receipt.receipt_number}`,
+    author: settings.name,
+    pages: receipt.kind === 'annual' ? buildAnnualPdf(receipt, settings) : [buildDonationPdf(receipt, settings)]
+  });
+};
@@ -0,0 +1,268 @@
+/**
+ * Recurrence rules (RFC 5545 RRULE subset)
+ *
+ * Supports FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (with ordinals for
+ * monthly rules, e.g. 1FR or -1FR), BYMONTHDAY, COUNT and UNTIL. Rules are
+ * expanded into local calendar dates (YYYY-MM-DD); the time of day is decided
+ * by the event, so "every Thursday after maghrib" is FREQ=WEEKLY;BYDAY=TH
+ * anchored to maghrib.
+ */
+import { shiftDate } from './hijri.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceWeekday {
+  // 0 = Sunday ... 6 = Saturday
+  weekday: number;
+  // Nth weekday of the month; negative counts from the end
+  ordinal: number | null;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  count: number | null;
+  until: string | null;
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+
+// Stop runaway expansion of very long or malformed series
+const MAX_ITERATIONS = 5000;
+
+const toUtcMidnight = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const getWeekday = (date: string) => toUtcMidnight(date).getUTCDay();
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const formatDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix). Throws on
+ * anything outside the supported subset so bad rules are rejected on save.
+ */
+export const parseRRule = (value: string): RecurrenceRule => {
+  const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 1, byDay: [], byMonthDay: [], count: null, until: null };
+  let hasFreq = false;
+
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  for (const part of parts) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const val = rawValue.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(val)) {
+          throw new Error(`Unsupported FREQ: ${val}. Use DAILY, WEEKLY or MONTHLY`);
+        }
+        rule.freq = val as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(val);
+        if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+          throw new Error('INTERVAL must be a whole number between 1 and 52');
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(item => {
+          const match = item.match(/^([+-]?[1-5])?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value: ${item}`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : null };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = val.split(',').map(item => {
+          const day = Number(item);
+          if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+            throw new Error(`Invalid BYMONTHDAY value: ${item}`);
+          }
+          return day;
+        });
+        break;
+      case 'COUNT': {
+        const count = Number(val);
+        if (!Number.isInteger(count) || count < 1 || count > 1000) {
+          throw new Error('COUNT must be a whole number between 1 and 1000');
+        }
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const match = val.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+        if (!match) {
+          throw new Error('UNTIL must be a date like 20261231');
+        }
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'WKST':
+        break;
+      default:
+        throw new Error(`Unsupported rule part: ${key}`);
+    }
+  }
+
+  if (!hasFreq) {
+    throw new Error('FREQ is required');
+  }
+  if (rule.count && rule.until) {
+    throw new Error('Use either COUNT or UNTIL, not both');
+  }
+  if (rule.freq !== 'MONTHLY' && (rule.byMonthDay.length > 0 || rule.byDay.some(day => day.ordinal !== null))) {
+    throw new Error('BYMONTHDAY and numbered BYDAY values are only supported for FREQ=MONTHLY');
+  }
+
+  return rule;
+};
+
+/**
+ * Format a rule back to its canonical RRULE string
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+};
+
+// Dates of one month matching a monthly rule
+const monthlyDates = (rule: RecurrenceRule, year: number, month: number, startDate: string): string[] => {
+  const lastDay = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  if (rule.byMonthDay.length > 0) {
+    for (const day of rule.byMonthDay) {
+      const resolved = day > 0 ? day : lastDay + day + 1;
+      if (resolved >= 1 && resolved <= lastDay) days.add(resolved);
+    }
+  }
+
+  for (const { weekday, ordinal } of rule.byDay) {
+    const matches: number[] = [];
+    for (let day = 1; day <= lastDay; day++) {
+      if (getWeekday(formatDate(year, month, day)) === weekday) matches.push(day);
+    }
+    if (ordinal === null) {
+      matches.forEach(day => days.add(day));
+    } else {
+      const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (day) days.add(day);
+    }
+  }
+
+  // Without BYDAY/BYMONTHDAY a monthly rule repeats on the start's day of month
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+    const startDay = Number(startDate.slice(8, 10));
+    if (startDay <= lastDay) days.add(startDay);
+  }
+
+  return [...days].sort((a, b) => a - b).map(day => formatDate(year, month, day));
+};
+
+/**
+ * Expand a rule into the dates between rangeStart and rangeEnd (inclusive).
+ * The series starts on startDate; COUNT is counted from there.
+ */
+export const expandRRule = (rule: RecurrenceRule, startDate: string, rangeStart: string, rangeEnd: string): string[] => {
+  const dates: string[] = [];
+  const lastDate = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd;
+  let produced = 0;
+
+  // Feed each candidate in order; returns false once the series is finished
+  const accept = (date: string): boolean => {
+    if (date < startDate) return true;
+    if (date > lastDate) return false;
+    produced++;
+    if (rule.count && produced > rule.count) return false;
+    if (date >= rangeStart) dates.push(date);
+    return true;
+  };
+
+  if (rule.freq === 'DAILY') {
+    for (let i = 0, date = startDate; i < MAX_ITERATIONS; i++, date = shiftDate(date, rule.interval)) {
+      if (!accept(date)) break;
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    const weekdays = rule.byDay.length > 0
+      ? [...new Set(rule.byDay.map(day => day.weekday))]
+      : [getWeekday(startDate)];
+    // Weeks start on Monday
+    const weekStart = shiftDate(startDate, -((getWeekday(startDate) + 6) % 7));
+    const ordered = weekdays.map(weekday => (weekday + 6) % 7).sort((a, b) => a - b);
+
+    outer:
+    for (let i = 0, week = weekStart; i < MAX_ITERATIONS; i++, week = shiftDate(week, 7 * rule.interval)) {
+      for (const offset of ordered) {
+        if (!accept(shiftDate(week, offset))) break outer;
+      }
+    }
+  } else {
+    let year = Number(startDate.slice(0, 4));
+    let month = Number(startDate.slice(5, 7));
+
+    outer:
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      if (formatDate(year, month, 1) > lastDate) break;
+      for (const date of monthlyDates(rule, year, month, startDate)) {
+        if (!accept(date)) break outer;
+      }
+      month += rule.interval;
+      while (month > 12) {
+        month -= 12;
+        year++;
+      }
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Whether a date is an occurrence of a series
+ */
+export const isOccurrence = (rule: RecurrenceRule, startDate: string, date: string): boolean =>
+  expandRRule(rule, startDate, date, date).length === 1;
+
+/**
+ * Short Indonesian description, e.g. "Setiap Kamis" or "Jumat pertama setiap bulan"
+ */
+export const describeRRule = (rule: RecurrenceRule): string => {
+  const ordinals: Record<number, string> = { 1: 'pertama', 2: 'kedua', 3: 'ketiga', 4: 'keempat', 5: 'kelima', [-1]: 'terakhir' };
+  const every = rule.interval > 1 ? `Setiap ${rule.interval} ` : 'Setiap ';
+
+  if (rule.freq === 'DAILY') {
+    return rule.interval > 1 ? `${every}hari` : 'Setiap hari';
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const days = rule.byDay.map(day => WEEKDAY_NAMES[day.weekday]).join(', ');
+    return rule.interval > 1 ? `${every}minggu${days ? ` (${days})` : ''}` : `Setiap ${days || 'minggu'}`;
+  }
+
+  const parts = [
+    ...rule.byDay.map(day => day.ordinal === null
+      ? `setiap ${WEEKDAY_NAMES[day.weekday]}`
+      : `${WEEKDAY_NAMES[day.weekday]} ${ordinals[day.ordinal] || `ke-${day.ordinal}`}`),
+    ...rule.byMonthDay.map(day => day > 0 ? `tanggal ${day}` : 'hari terakhir')
+  ];
+  const period = rule.interval > 1 ? `setiap ${rule.interval} bulan` : 'setiap bulan';
+  const description = parts.length > 0 ? `${parts.join(', ')} ${period}` : period;
+  return description.charAt(0).toUpperCase() + description.slice(1);
+};
@@ -0,0 +1,18 @@
+/**
+ * Signing secrets
+ *
+ * Signed links and tokens use a secret of their own, falling back to
+ * JWT_SECRET. With neither set there is no key to trust, so signing and
+ * verifying throw rather than use a default anyone could read in the source.
+ */
+
+/**
+ * The secret in an environment variable, or JWT_SECRET
+ */
+export const getSigningSecret = (name: string): string => {
+  const secret = process.env[name] || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(`${name} or JWT_SECRET must be set`);
+  }
+  return secret;
+};
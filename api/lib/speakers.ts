@@ -0,0 +1,228 @@
+/**
+ * Speakers
+ *
+ * The speaker directory behind events.speaker. Free-text names are matched to
+ * speakers by their normalized form (see normalize_speaker_name in migration
+ * 018), so "Ust. Abdul Somad, Lc." and "ustadz abdul somad" are the same
+ * person. Events keep the speaker's name in events.speaker for display.
+ */
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { supabaseAdmin } from './supabase.js';
+import { detectMimeType } from './attachments.js';
+import { expandOccurrences, RecurringEvent } from './eventOccurrences.js';
+import { MosqueSettings } from './prayerSchedule.js';
+import { toUtcDate } from './prayerTimes.js';
+import { shiftDate } from './hijri.js';
+
+const HONORIFICS = /^((al )?(ustadzah|ustazah|ustadz|ustaz|ustad|ust|kh|k h|hj|h|drs|dr|prof) )+/;
+const DEGREES = / (lc|ma|phd)$/;
+
+const PHOTO_SIZE = 600;
+// Refuse images that would take too much memory to decode
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export interface SpeakerEvent {
+  event_id: string;
+  occurrence_date: string | null;
+  title: string;
+  type: string;
+  starts_at: string;
+  location: string;
+  is_recurring: boolean;
+}
+
+/**
+ * Comparable form of a speaker name; must match normalize_speaker_name in SQL
+ */
+export const normalizeSpeakerName = (name: string): string =>
+  name
+    .split(',')[0]
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(HONORIFICS, '')
+    .replace(DEGREES, '');
+
+/**
+ * URL slug for a speaker, e.g. "abdul-somad"
+ */
+export const speakerSlug = (name: string): string =>
+  normalizeSpeakerName(name).replace(/ /g, '-') || 'pemateri';
+
+/**
+ * Active speaker a free-text name refers to, by normalized name or alias
+ */
+export const findSpeakerByName = async (name: string): Promise<{ id: string; name: string } | null> => {
+  const key = normalizeSpeakerName(name);
+  if (!key) return null;
+
+  const { data } = await supabaseAdmin
+    .from('speakers')
+    .select('id, name')
+    .eq('is_active', true)
+    .or(`name_key.eq."${key}",aliases.cs.{"${key}"}`)
+    .limit(1);
+
+  return data?.[0] || null;
+};
+
+/**
+ * Speaker fields for an event or occurrence from a request body. speaker_id
+ * links a speaker (and sets the name); a free-text speaker is linked when it
+ * matches a speaker. Only fields present in the body are returned.
+ */
+export const resolveEventSpeaker = async (
+  body: { speaker?: string | null; speaker_id?: string | null }
+): Promise<{ fields: { speaker?: string | null; speaker_id?: string | null }; error?: string }> => {
+  if (body.speaker_id) {
+    const { data: speaker } = await supabaseAdmin
+      .from('speakers')
+      .select('id, name')
+      .eq('id', body.speaker_id)
+      .eq('is_active', true)
+      .single();
+
+    if (!speaker) {
+      return { fields: {}, error: 'Speaker not found' };
+    }
+    return { fields: { speaker_id: speaker.id, speaker: speaker.name } };
+  }
+
+  if (body.speaker === undefined) {
+    return { fields: body.speaker_id === null ? { speaker_id: null } : {} };
+  }
+
+  const name = body.speaker?.trim() || null;
+  const match = name && body.speaker_id !== null ? await findSpeakerByName(name) : null;
+  return {
+    fields: match
+      ? { speaker_id: match.id, speaker: match.name }
+      : { speaker_id: null, speaker: name }
+  };
+};
+
+/**
+ * Square WebP photo from an uploaded JPEG, PNG or WebP image
+ */
+export const createSpeakerPhoto = async (body: Buffer): Promise<{ body?: Buffer; error?: string }> => {
+  const mimeType = detectMimeType(body);
+  if (!mimeType || !mimeType.startsWith('image/')) {
+    return { error: 'Photo must be a JPEG, PNG or WebP image' };
+  }
+
+  try {
+    const photo = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(PHOTO_SIZE, PHOTO_SIZE, { fit: 'cover', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    return { body: photo };
+  } catch {
+    return { error: 'Image could not be read' };
+  }
+};
+
+/**
+ * Storage key for a new speaker photo; every upload gets a new key so the
+ * photo URL can be cached forever
+ */
+export const speakerPhotoKey = (speakerId: string): string =>
+  `speakers/${speakerId}/photo-${crypto.randomBytes(6).toString('hex')}.webp`;
+
+/**
+ * Public URL of a speaker's photo
+ */
+export const speakerPhotoUrl = (speaker: { id: string; photo_key: string | null }): string | null =>
+  speaker.photo_key
+    ? `/api/speakers/${speaker.id}/photo?v=${speaker.photo_key.split('/').pop()?.replace('.webp', '')}`
+    : null;
+
+/**
+ * Events and occurrences a speaker speaks at between two local dates
+ * (inclusive), sorted by start time. Occurrences count when the series is the
+ * speaker's and no override names someone else, or when an override of
+ * another series names the speaker.
+ */
+export const listSpeakerEvents = async (
+  speakerId: string,
+  rangeStart: string,
+  rangeEnd: string,
+  settings: MosqueSettings
+): Promise<SpeakerEvent[]> => {
+  const startUtc = toUtcDate(rangeStart, '00:00', settings.timezone).toISOString();
+  const endUtc = toUtcDate(shiftDate(rangeEnd, 1), '00:00', settings.timezone).toISOString();
+
+  const [oneOffResult, seriesResult, overridesResult] = await Promise.all([
+    supabaseAdmin
+      .from('events')
+      .select('id, title, type, event_datetime, location')
+      .eq('speaker_id', speakerId)
+      .is('recurrence_rule', null)
+      .gte('event_datetime', startUtc)
+      .lt('event_datetime', endUtc),
+    supabaseAdmin
+      .from('events')
+      .select('id')
+      .eq('speaker_id', speakerId)
+      .not('recurrence_rule', 'is', null)
+      .lt('event_datetime', endUtc),
+    supabaseAdmin
+      .from('event_occurrence_overrides')
+      .select('event_id')
+      .eq('speaker_id', speakerId)
+      .gte('occurrence_date', rangeStart)
+      .lte('occurrence_date', rangeEnd)
+  ]);
+
+  const error = oneOffResult.error || seriesResult.error || overridesResult.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const seriesIds = [...new Set([
+    ...(seriesResult.data || []).map(event => event.id),
+    ...(overridesResult.data || []).map(override => override.event_id)
+  ])];
+
+  let series: (RecurringEvent & { title: string; type: string })[] = [];
+  if (seriesIds.length > 0) {
+    const { data, error: seriesError } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .in('id', seriesIds);
+    if (seriesError) {
+      throw new Error(seriesError.message);
+    }
+    series = data || [];
+  }
+
+  const occurrences = await expandOccurrences(series, rangeStart, rangeEnd, settings);
+
+  const items: SpeakerEvent[] = [
+    ...(oneOffResult.data || []).map(event => ({
+      event_id: event.id,
+      occurrence_date: null,
+      title: event.title,
+      type: event.type,
+      starts_at: event.event_datetime,
+      location: event.location,
+      is_recurring: false
+    })),
+    ...series.flatMap(event =>
+      (occurrences.get(event.id) || [])
+        .filter(occurrence => occurrence.speaker_id === speakerId)
+        .map(occurrence => ({
+          event_id: event.id,
+          occurrence_date: occurrence.occurrence_date,
+          title: event.title,
+          type: event.type,
+          starts_at: occurrence.starts_at,
+          location: occurrence.location,
+          is_recurring: true
+        }))
+    )
+  ];
+
+  return items.sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at));
+};
@@ -0,0 +1,125 @@
+/**
+ * File storage adapters
+ *
+ * Uploaded files go through a StorageAdapter so the backend can be swapped
+ * per environment. STORAGE_DRIVER picks the adapter: "local" (the default,
+ * for development) writes under STORAGE_LOCAL_DIR, "supabase" uses the
+ * STORAGE_BUCKET bucket in Supabase Storage. Other adapters can be added
+ * with registerStorageAdapter.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { supabaseAdmin } from './supabase.js';
+
+export interface StorageAdapter {
+  name: string;
+  put: (key: string, body: Buffer, contentType: string) => Promise<void>;
+  /** Returns null when the file does not exist */
+  get: (key: string) => Promise<Buffer | null>;
+  delete: (key: string) => Promise<void>;
+}
+
+type StorageFactory = () => StorageAdapter;
+
+// Keys are generated by the server, but never let one escape the storage root
+const assertSafeKey = (key: string) => {
+  if (!/^[a-zA-Z0-9/_.-]+$/.test(key) || key.split('/').some(part => part === '..' || part === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+/**
+ * Store files on the local filesystem
+ */
+export const createLocalStorage = (root = process.env.STORAGE_LOCAL_DIR || 'uploads'): StorageAdapter => {
+  const baseDir = path.resolve(root);
+  const resolveKey = (key: string) => {
+    assertSafeKey(key);
+    return path.join(baseDir, key);
+  };
+
+  return {
+    name: 'local',
+    put: async (key, body) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+    get: async (key) => {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    delete: async (key) => {
+      await fs.rm(resolveKey(key), { force: true });
+    }
+  };
+};
+
+/**
+ * Store files in a Supabase Storage bucket
+ */
+export const createSupabaseStorage = (bucket = process.env.STORAGE_BUCKET || 'attachments'): StorageAdapter => ({
+  name: 'supabase',
+  put: async (key, body, contentType) => {
+    assertSafeKey(key);
+    const { error } = await supabaseAdmin.storage
+      .from(bucket)
+      .upload(key, body, { contentType, upsert: true });
+    if (error) throw new Error(error.message);
+  },
+  get: async (key) => {
+    assertSafeKey(key);
+    const { data, error } = await supabaseAdmin.storage
+      .from(bucket)
+      .download(key);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  },
+  delete: async (key) => {
+    assertSafeKey(key);
+    const { error } = await supabaseAdmin.storage
+      .from(bucket)
+      .remove([key]);
+    if (error) throw new Error(error.message);
+  }
+});
+
+const factories = new Map<string, StorageFactory>([
+  ['local', () => createLocalStorage()],
+  ['supabase', () => createSupabaseStorage()]
+]);
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Make another storage backend available to STORAGE_DRIVER
+ */
+export const registerStorageAdapter = (name: string, factory: StorageFactory): void => {
+  factories.set(name, factory);
+};
+
+/**
+ * The configured storage adapter
+ */
+export const getStorage = (): StorageAdapter => {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+    const factory = factories.get(driver);
+    if (!factory) {
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+    }
+    storage = factory();
+  }
+  return storage;
+};
+
+/**
+ * Replace the storage adapter, e.g. to point at a different backend at runtime
+ */
+export const setStorage = (adapter: StorageAdapter): void => {
+  storage = adapter;
+};
@@ -0,0 +1,254 @@
+/**
+ * Web Push delivery
+ *
+ * Sends VAPID-signed, encrypted (aes128gcm) push messages to the subscriptions
+ * stored in push_subscriptions. Endpoints the push service reports as gone
+ * (404/410) are pruned, and every attempt can be recorded per announcement in
+ * notification_deliveries.
+ */
+import webpush from 'web-push';
+import { supabaseAdmin } from './supabase.js';
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+  icon?: string;
+  requireInteraction?: boolean;
+  data?: Record<string, unknown>;
+}
+
+export interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  failure_count: number;
+}
+
+export interface PushTarget {
+  // Limit delivery to these users; omit to send to every subscription
+  userIds?: string[];
+  // Record deliveries against this announcement
+  announcementId?: string;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  // Seconds the push service keeps the message for an offline device
+  ttl?: number;
+}
+
+export interface PushResult {
+  sent: number;
+  failed: number;
+  expired: number;
+}
+
+type DeliveryStatus = 'sent' | 'failed' | 'expired';
+
+// Concurrent requests per batch so large audiences don't open hundreds of sockets
+const BATCH_SIZE = 50;
+
+// Subscriptions that keep failing with other errors are dropped after this many
+const MAX_FAILURES = 5;
+
+let vapidConfigured: boolean | undefined;
+
+/**
+ * Whether VAPID keys are set; sending is a no-op without them
+ */
+export const isPushConfigured = (): boolean => {
+  if (vapidConfigured === undefined) {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    vapidConfigured = Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+    if (vapidConfigured) {
+      webpush.setVapidDetails(VAPID_SUBJECT || 'mailto:admin@masjeed.app', VAPID_PUBLIC_KEY!, VAPID_PRIVATE_KEY!);
+    } else {
+      console.warn('VAPID keys are not configured; push notifications are disabled');
+    }
+  }
+  return vapidConfigured;
+};
+
+/**
+ * Public VAPID key the browser needs to subscribe
+ */
+export const getVapidPublicKey = (): string | null => {
+  return isPushConfigured() ? process.env.VAPID_PUBLIC_KEY! : null;
+};
+
+/**
+ * Whether a subscription endpoint can be used. Push services are reached over
+ * HTTPS; plain HTTP is accepted outside production for local mock endpoints.
+ */
+export const isValidPushEndpoint = (endpoint: string): boolean => {
+  if (!URL.canParse(endpoint)) return false;
+  const { protocol } = new URL(endpoint);
+  return protocol === 'https:' || (protocol === 'http:' && process.env.NODE_ENV !== 'production');
+};
+
+// The outcome of a push service response status
+const toDeliveryStatus = (statusCode: number): DeliveryStatus => {
+  // The subscription has expired or been revoked
+  if (statusCode === 404 || statusCode === 410) return 'expired';
+  return statusCode >= 200 && statusCode < 300 ? 'sent' : 'failed';
+};
+
+const deliver = async (
+  subscription: PushSubscriptionRow,
+  payload: string,
+  target: PushTarget
+): Promise<{ status: DeliveryStatus; statusCode: number | null; error: string | null }> => {
+  const pushSubscription = { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } };
+  const options = { TTL: target.ttl ?? 24 * 60 * 60, urgency: target.urgency || 'normal' } as const;
+
+  try {
+    // web-push only speaks HTTPS, so local mock endpoints get the same request by fetch
+    if (new URL(subscription.endpoint).protocol === 'http:') {
+      const request = webpush.generateRequestDetails(pushSubscription, payload, options);
+      const response = await fetch(request.endpoint, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body
+      });
+      const status = toDeliveryStatus(response.status);
+      return { status, statusCode: response.status, error: status === 'sent' ? null : await response.text() };
+    }
+
+    const response = await webpush.sendNotification(pushSubscription, payload, options);
+    return { status: 'sent', statusCode: response.statusCode, error: null };
+  } catch (error) {
+    if (error instanceof webpush.WebPushError) {
+      return { status: toDeliveryStatus(error.statusCode), statusCode: error.statusCode, error: error.body || error.message };
+    }
+    return { status: 'failed', statusCode: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Send a payload to a list of subscriptions, pruning expired endpoints and
+ * recording deliveries
+ */
+export const sendToSubscriptions = async (
+  subscriptions: PushSubscriptionRow[],
+  payload: PushPayload,
+  target: PushTarget = {}
+): Promise<PushResult> => {
+  const result: PushResult = { sent: 0, failed: 0, expired: 0 };
+  if (!isPushConfigured() || subscriptions.length === 0) {
+    return result;
+  }
+
+  const body = JSON.stringify({
+    title: payload.title,
+    body: payload.body,
+    icon: payload.icon,
+    tag: payload.tag,
+    requireInteraction: payload.requireInteraction,
+    // The service worker opens data.url when the notification is clicked
+    data: { ...payload.data, url: payload.url || '/' }
+  });
+
+  for (let start = 0; start < subscriptions.length; start += BATCH_SIZE) {
+    const batch = subscriptions.slice(start, start + BATCH_SIZE);
+    const outcomes = await Promise.all(batch.map(subscription => deliver(subscription, body, target)));
+
+    const now = new Date().toISOString();
+    const expiredIds: string[] = [];
+    const deliveredIds: string[] = [];
+    const deliveries = outcomes.map((outcome, index) => {
+      const subscription = batch[index];
+      result[outcome.status]++;
+
+      if (outcome.status === 'expired') {
+        expiredIds.push(subscription.id);
+      } else if (outcome.status === 'sent') {
+        deliveredIds.push(subscription.id);
+      }
+
+      return {
+        announcement_id: target.announcementId || null,
+        // Expired subscriptions are deleted below, so don't reference them
+        subscription_id: outcome.status === 'expired' ? null : subscription.id,
+        user_id: subscription.user_id,
+        status: outcome.status,
+        status_code: outcome.statusCode,
+        error: outcome.error ? outcome.error.slice(0, 500) : null,
+        created_at: now
+      };
+    });
+
+    const failing = outcomes
+      .map((outcome, index) => ({ outcome, subscription: batch[index] }))
+      .filter(({ outcome }) => outcome.status === 'failed');
+
+    // Too many consecutive failures: treat like an expired endpoint
+    for (const { subscription } of failing) {
+      if (subscription.failure_count + 1 >= MAX_FAILURES) {
+        expiredIds.push(subscription.id);
+      } else {
+        await supabaseAdmin
+          .from('push_subscriptions')
+          .update({ failure_count: subscription.failure_count + 1, updated_at: now })
+          .eq('id', subscription.id);
+      }
+    }
+
+    if (deliveredIds.length > 0) {
+      await supabaseAdmin
+        .from('push_subscriptions')
+        .update({ last_success_at: now, failure_count: 0 })
+        .in('id', deliveredIds);
+    }
+
+    if (target.announcementId) {
+      const { error } = await supabaseAdmin
+        .from('notification_deliveries')
+        .insert(deliveries);
+      if (error) {
+        console.error('Record notification deliveries error:', error);
+      }
+    }
+
+    if (expiredIds.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('push_subscriptions')
+        .delete()
+        .in('id', expiredIds);
+      if (error) {
+        console.error('Prune push subscriptions error:', error);
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Send a notification to every subscription, or to the subscriptions of the
+ * given users
+ */
+export const sendPushNotification = async (payload: PushPayload, target: PushTarget = {}): Promise<PushResult> => {
+  if (!isPushConfigured()) {
+    return { sent: 0, failed: 0, expired: 0 };
+  }
+
+  if (target.userIds && target.userIds.length === 0) {
+    return { sent: 0, failed: 0, expired: 0 };
+  }
+
+  let query = supabaseAdmin
+    .from('push_subscriptions')
+    .select('id, user_id, endpoint, p256dh, auth, failure_count');
+
+  if (target.userIds) {
+    query = query.in('user_id', target.userIds);
+  }
+
+  const { data: subscriptions, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return sendToSubscriptions((subscriptions || []) as PushSubscriptionRow[], payload, target);
+};
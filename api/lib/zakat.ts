@@ -0,0 +1,295 @@
+/**
+ * Zakat calculation
+ *
+ * Zakat mal on gold, silver, savings, trade goods and income (zakat profesi)
+ * and zakat fitrah per household member, following the BAZNAS guidance: a
+ * nisab of 85 g gold (595 g silver for silver), a rate of 2.5% and 2.5 kg of
+ * rice per person for fitrah. Prices come from the zakat_prices table kept by
+ * the mosque administrators.
+ */
+import { supabaseAdmin } from './supabase.js';
+
+export const ZAKAT_RATE = 0.025;
+export const GOLD_NISAB_GRAMS = 85;
+export const SILVER_NISAB_GRAMS = 595;
+export const FITRAH_RICE_KG = 2.5;
+
+export const PRICE_COMMODITIES = ['gold', 'silver', 'rice'] as const;
+export const ZAKAT_TYPES = ['mal', 'fitrah'] as const;
+
+export type Commodity = typeof PRICE_COMMODITIES[number];
+export type ZakatType = typeof ZAKAT_TYPES[number];
+
+// Prices older than this are reported with the result
+const STALE_PRICE_DAYS = 30;
+const MAX_AMOUNT = 1e13;
+const MAX_HOUSEHOLD_MEMBERS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ZakatPrice {
+  commodity: Commodity;
+  // Per gram for gold and silver, per kg for rice
+  price: number;
+  effective_date: string;
+}
+
+export type ZakatPrices = Partial<Record<Commodity, ZakatPrice>>;
+
+export interface ZakatComponent {
+  kind: 'gold' | 'silver' | 'savings' | 'trade' | 'income' | 'fitrah';
+  label: string;
+  wealth: number;
+  nisab: number;
+  is_due: boolean;
+  zakat: number;
+  note?: string;
+}
+
+export interface ZakatResult {
+  type: ZakatType;
+  donation_type: 'Zakat Mal' | 'Zakat Fitrah';
+  // Validated inputs, as kept with the donation
+  inputs: Record<string, unknown>;
+  prices: ZakatPrices;
+  components: ZakatComponent[];
+  total: number;
+  warnings: string[];
+}
+
+const LABELS: Record<ZakatComponent['kind'], string> = {
+  gold: 'Emas',
+  silver: 'Perak',
+  savings: 'Tabungan',
+  trade: 'Perdagangan',
+  income: 'Penghasilan',
+  fitrah: 'Zakat Fitrah'
+};
+
+/**
+ * The price of each commodity in effect on a date
+ */
+export const getZakatPrices = async (date: string): Promise<ZakatPrices> => {
+  const results = await Promise.all(PRICE_COMMODITIES.map(commodity =>
+    supabaseAdmin
+      .from('zakat_prices')
+      .select('commodity, price, effective_date')
+      .eq('commodity', commodity)
+      .lte('effective_date', date)
+      .order('effective_date', { ascending: false })
+      .limit(1)
+  ));
+
+  const prices: ZakatPrices = {};
+  for (const { data, error } of results) {
+    if (error) {
+      throw new Error(error.message);
+    }
+    const row = data?.[0];
+    if (row) {
+      prices[row.commodity as Commodity] = { commodity: row.commodity, price: Number(row.price), effective_date: row.effective_date };
+    }
+  }
+
+  return prices;
+};
+
+// A non-negative amount (rupiah or grams); missing values count as zero
+const readAmount = (source: Record<string, unknown>, field: string, path = field): { value: number; error?: string } => {
+  const raw = source[field];
+  if (raw === undefined || raw === null || raw === '') {
+    return { value: 0 };
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || value > MAX_AMOUNT) {
+    return { value: 0, error: `${path} must be a non-negative number` };
+  }
+  return { value };
+};
+
+const readSection = (source: Record<string, unknown>, field: string): Record<string, unknown> | null => {
+  const section = source[field];
+  return section && typeof section === 'object' && !Array.isArray(section) ? section as Record<string, unknown> : null;
+};
+
+/**
+ * Zakat mal: each kind of wealth is compared with its own nisab. Wealth held
+ * for less than a year (haul) owes nothing yet, except income, which is paid
+ * when received.
+ */
+const calculateMal = (input: Record<string, unknown>, prices: ZakatPrices): { result?: Omit<ZakatResult, 'warnings'>; error?: string } => {
+  const haulComplete = input.haul_complete !== false;
+  const inputs: Record<string, unknown> = { haul_complete: haulComplete };
+  const components: ZakatComponent[] = [];
+  const needed = new Set<Commodity>();
+
+  const gold = readAmount(input, 'gold_grams');
+  const silver = readAmount(input, 'silver_grams');
+  const savings = readAmount(input, 'savings');
+  const debts = readAmount(input, 'debts');
+  const trade = readSection(input, 'trade');
+  const income = readSection(input, 'income');
+
+  const error = gold.error || silver.error || savings.error || debts.error;
+  if (error) {
+    return { error };
+  }
+
+  if (gold.value > 0 || savings.value > 0 || trade || income) needed.add('gold');
+  if (silver.value > 0) needed.add('silver');
+
+  if (needed.size === 0) {
+    return { error: 'Enter at least one of gold_grams, silver_grams, savings, trade or income' };
+  }
+
+  for (const commodity of needed) {
+    if (!prices[commodity]) {
+      return { error: `The ${commodity} price has not been set` };
+    }
+  }
+
+  const goldNisab = needed.has('gold') ? Math.ceil(GOLD_NISAB_GRAMS * (prices.gold as ZakatPrice).price) : 0;
+
+  // Wealth held for a year at or above its nisab owes 2.5%
+  const addComponent = (kind: ZakatComponent['kind'], wealth: number, nisab: number, requiresHaul: boolean) => {
+    const reachesNisab = wealth >= nisab && wealth > 0;
+    const isDue = reachesNisab && (!requiresHaul || haulComplete);
+    components.push({
+      kind,
+      label: LABELS[kind],
+      wealth: Math.ceil(wealth),
+      nisab,
+      is_due: isDue,
+      zakat: isDue ? Math.ceil(wealth * ZAKAT_RATE) : 0,
+      ...(reachesNisab && !isDue ? { note: 'Belum mencapai haul (satu tahun)' } : {})
+    });
+  };
+
+  if (gold.value > 0) {
+    inputs.gold_grams = gold.value;
+    addComponent('gold', gold.value * (prices.gold as ZakatPrice).price, goldNisab, true);
+  }
+
+  if (silver.value > 0) {
+    inputs.silver_grams = silver.value;
+    const silverPrice = (prices.silver as ZakatPrice).price;
+    addComponent('silver', silver.value * silverPrice, Math.ceil(SILVER_NISAB_GRAMS * silverPrice), true);
+  }
+
+  if (savings.value > 0) {
+    // Debts due are paid from savings first
+    inputs.savings = savings.value;
+    inputs.debts = debts.value;
+    addComponent('savings', Math.max(0, savings.value - debts.value), goldNisab, true);
+  }
+
+  if (trade) {
+    // Trade goods at current selling value plus cash and collectable receivables, less short-term debts
+    const values: Record<string, number> = {};
+    for (const field of ['inventory', 'cash', 'receivables', 'debts']) {
+      const { value, error: fieldError } = readAmount(trade, field, `trade.${field}`);
+      if (fieldError) {
+        return { error: fieldError };
+      }
+      values[field] = value;
+    }
+    inputs.trade = values;
+    addComponent('trade', Math.max(0, values.inventory + values.cash + values.receivables - values.debts), goldNisab, true);
+  }
+
+  if (income) {
+    // Monthly income against a twelfth of the yearly nisab
+    const values: Record<string, number> = {};
+    for (const field of ['monthly_income', 'other_income', 'deductions']) {
+      const { value, error: fieldError } = readAmount(income, field, `income.${field}`);
+      if (fieldError) {
+        return { error: fieldError };
+      }
+      values[field] = value;
+    }
+    if (values.monthly_income <= 0) {
+      return { error: 'income.monthly_income must be greater than zero' };
+    }
+    inputs.income = values;
+    addComponent('income', Math.max(0, values.monthly_income + values.other_income - values.deductions), Math.ceil(goldNisab / 12), false);
+  }
+
+  const used: ZakatPrices = {};
+  for (const commodity of needed) {
+    used[commodity] = prices[commodity];
+  }
+
+  return {
+    result: {
+      type: 'mal',
+      donation_type: 'Zakat Mal',
+      inputs,
+      prices: used,
+      components,
+      total: components.reduce((sum, component) => sum + component.zakat, 0)
+    }
+  };
+};
+
+/**
+ * Zakat fitrah: 2.5 kg of rice per household member at the local rice price
+ */
+const calculateFitrah = (input: Record<string, unknown>, prices: ZakatPrices): { result?: Omit<ZakatResult, 'warnings'>; error?: string } => {
+  const members = Number(input.household_members ?? 1);
+  if (!Number.isInteger(members) || members < 1 || members > MAX_HOUSEHOLD_MEMBERS) {
+    return { error: `household_members must be between 1 and ${MAX_HOUSEHOLD_MEMBERS}` };
+  }
+  if (!prices.rice) {
+    return { error: 'The rice price has not been set' };
+  }
+
+  const perPerson = Math.ceil(FITRAH_RICE_KG * prices.rice.price);
+
+  return {
+    result: {
+      type: 'fitrah',
+      donation_type: 'Zakat Fitrah',
+      inputs: { household_members: members },
+      prices: { rice: prices.rice },
+      components: [{
+        kind: 'fitrah',
+        label: LABELS.fitrah,
+        wealth: 0,
+        nisab: 0,
+        is_due: true,
+        zakat: perPerson * members,
+        note: `${members} × ${FITRAH_RICE_KG} kg beras (Rp ${perPerson.toLocaleString('id-ID')} per orang)`
+      }],
+      total: perPerson * members
+    }
+  };
+};
+
+/**
+ * Validate a calculation request ({type, ...inputs}) and calculate the zakat
+ * due with the given prices; date is the day of the calculation
+ */
+export const calculateZakat = (
+  input: unknown,
+  prices: ZakatPrices,
+  date: string
+): { result?: ZakatResult; error?: string } => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'The calculation must be an object' };
+  }
+
+  const body = input as Record<string, unknown>;
+  if (!ZAKAT_TYPES.includes(body.type as ZakatType)) {
+    return { error: `type must be one of: ${ZAKAT_TYPES.join(', ')}` };
+  }
+
+  const { result, error } = body.type === 'fitrah' ? calculateFitrah(body, prices) : calculateMal(body, prices);
+  if (error || !result) {
+    return { error };
+  }
+
+  const warnings = Object.values(result.prices)
+    .filter((price): price is ZakatPrice => Boolean(price) && Date.parse(date) - Date.parse((price as ZakatPrice).effective_date) > STALE_PRICE_DAYS * DAY_MS)
+    .map(price => `The ${price.commodity} price was last updated on ${price.effective_date}`);
+
+  return { result: { ...result, warnings } };
+};
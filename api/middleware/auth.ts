@@ -27,6 +27,38 @@ export const verifyToken = (token: string): any => {
   }
 };
 
+/**
+ * Load an active user with their role, or null if there is none
+ */
+export const loadActiveUser = async (userId: string): Promise<Express.User | null> => {
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select(`
+      id,
+      email,
+      display_name,
+      user_roles!inner(
+        role_name,
+        is_active
+      )
+    `)
+    .eq('id', userId)
+    .eq('is_active', true)
+    .eq('user_roles.is_active', true)
+    .single();
+
+  if (error || !user) {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    display_name: user.display_name,
+    role: user.user_roles[0]?.role_name || 'Jamaah'
+  };
+};
+
 /**
  * Authentication middleware
  */
@@ -47,33 +79,14 @@ export const authenticateToken = async (
     const decoded = verifyToken(token);
     
     // Get user details from database
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .select(`
-        id,
-        email,
-        display_name,
-        user_roles!inner(
-          role_name,
-          is_active
-        )
-      `)
-      .eq('id', decoded.userId)
-      .eq('is_active', true)
-      .eq('user_roles.is_active', true)
-      .single();
-
-    if (error || !user) {
+    const user = await loadActiveUser(decoded.userId);
+
+    if (!user) {
       res.status(401).json({ success: false, error: 'Invalid user' });
       return;
     }
 
-    req.user = {
-      id: user.id,
-      email: user.email,
-      display_name: user.display_name,
-      role: user.user_roles[0]?.role_name || 'Jamaah'
-    };
+    req.user = user;
 
     next();
   } catch (error) {
@@ -118,29 +131,10 @@ export const optionalAuth = async (
     if (token) {
       const decoded = verifyToken(token);
       
-      const { data: user } = await supabaseAdmin
-        .from('users')
-        .select(`
-          id,
-          email,
-          display_name,
-          user_roles!inner(
-            role_name,
-            is_active
-          )
-        `)
-        .eq('id', decoded.userId)
-        .eq('is_active', true)
-        .eq('user_roles.is_active', true)
-        .single();
+      const user = await loadActiveUser(decoded.userId);
 
       if (user) {
-        req.user = {
-          id: user.id,
-          email: user.email,
-          display_name: user.display_name,
-          role: user.user_roles[0]?.role_name || 'Jamaah'
-        };
+        req.user = user;
       }
     }
 
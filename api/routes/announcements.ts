@@ -1,51 +1,167 @@
 /**
  * Announcements API routes
  */
-import { Router, Request, Response } from 'express';
-import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
+import express, { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import multer from 'multer';
+import { authenticateToken, authorizeRoles, optionalAuth, loadActiveUser } from '../middleware/auth.js';
 import { supabaseAdmin } from '../lib/supabase.js';
+import { getVapidPublicKey, isValidPushEndpoint, PushResult } from '../lib/webPush.js';
+import { createMockDevice, getMockMessages, isMockPushEnabled, receiveMockPush } from '../lib/mockPush.js';
+import {
+  notifyAnnouncement,
+  parseAudience,
+  isTargeted,
+  loadAudienceViewer,
+  audienceFilter,
+  isInAudience,
+  resolveAudienceUserIds,
+  recordRead,
+  recordAcknowledgement,
+  getReceipts,
+  AnnouncementReceipt,
+  AUDIENCE_COLUMNS
+} from '../lib/announcements.js';
+import { renderMarkdown } from '../lib/markdown.js';
+import { getStorage } from '../lib/storage.js';
+import {
+  validateAttachment,
+  createThumbnail,
+  attachmentKey,
+  attachmentUrl,
+  sanitizeFileName,
+  verifyAttachmentSignature,
+  AttachmentVariant,
+  MAX_ATTACHMENTS,
+  MAX_UPLOAD_BYTES
+} from '../lib/attachments.js';
 
 const router = Router();
 
-// Send push notification (helper function)
-const sendPushNotification = async (title: string, body: string, targetUsers?: string[]) => {
-  try {
-    // This is a placeholder for push notification implementation
-    // In production, you would integrate with Web Push API or Firebase Cloud Messaging
-    console.log('Push notification:', { title, body, targetUsers });
-    
-    // Example implementation with web-push library:
-    // const webpush = require('web-push');
-    // const payload = JSON.stringify({ title, body });
-    // 
-    // if (targetUsers) {
-    //   // Send to specific users
-    //   for (const userId of targetUsers) {
-    //     const { data: subscriptions } = await supabaseAdmin
-    //       .from('push_subscriptions')
-    //       .select('*')
-    //       .eq('user_id', userId);
-    //     
-    //     for (const sub of subscriptions || []) {
-    //       await webpush.sendNotification(sub.subscription, payload);
-    //     }
-    //   }
-    // } else {
-    //   // Send to all subscribed users
-    //   const { data: subscriptions } = await supabaseAdmin
-    //     .from('push_subscriptions')
-    //     .select('*');
-    //   
-    //   for (const sub of subscriptions || []) {
-    //     await webpush.sendNotification(sub.subscription, payload);
-    //   }
-    // }
-    
-    return { success: true };
-  } catch (error) {
-    console.error('Push notification error:', error);
-    return { success: false, error };
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+
+const ATTACHMENT_COLUMNS = 'id, file_name, mime_type, size_bytes, thumbnail_key, thumbnail_width, thumbnail_height, created_at';
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }
+});
+
+// Parse a single multipart upload in the "file" field; upload errors are the client's
+const uploadFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `File is too large. Maximum is ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`
+        : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+// Parse an optional ISO date-time field; null clears it
+const parseDateTime = (value: unknown): { value?: string | null; error?: boolean } => {
+  if (value === undefined) return {};
+  if (value === null || value === '') return { value: null };
+  const time = Date.parse(String(value));
+  return Number.isNaN(time) ? { error: true } : { value: new Date(time).toISOString() };
+};
+
+// Check that a targeted event exists
+const eventExists = async (eventId: string): Promise<boolean> => {
+  const { data } = await supabaseAdmin
+    .from('events')
+    .select('id')
+    .eq('id', eventId)
+    .maybeSingle();
+  return Boolean(data);
+};
+
+// Load an announcement if the requester may see it: staff see everything,
+// members only published, unexpired announcements meant for them
+const findVisibleAnnouncement = async (req: Request, id: string) => {
+  const { data: announcement, error } = await supabaseAdmin
+    .from('announcements')
+    .select(`
+      *,
+      users!created_by(
+        display_name
+      ),
+      announcement_attachments(${ATTACHMENT_COLUMNS})
+    `)
+    .eq('id', id)
+    .single();
+
+  if (error || !announcement) {
+    return null;
+  }
+
+  if (req.user && STAFF_ROLES.includes(req.user.role)) {
+    return announcement;
+  }
+
+  const isExpired = announcement.expires_at && new Date(announcement.expires_at) <= new Date();
+  if (!announcement.is_published || isExpired) {
+    return null;
   }
+
+  if (isTargeted(announcement)) {
+    const viewer = req.user ? await loadAudienceViewer(req.user) : null;
+    if (!isInAudience(announcement, viewer)) {
+      return null;
+    }
+  }
+
+  return announcement;
+};
+
+// Shape an announcement for the response: render its Markdown, give its
+// attachments signed URLs, and only show staff who it is targeted at
+const presentAnnouncement = (announcement: Record<string, unknown>, isStaff: boolean, viewerId: string | null) => {
+  const presented: Record<string, unknown> = {
+    ...announcement,
+    content_html: renderMarkdown(String(announcement.content || ''))
+  };
+
+  if (!isStaff) {
+    for (const column of AUDIENCE_COLUMNS.split(', ')) {
+      delete presented[column];
+    }
+  }
+
+  if (Array.isArray(announcement.announcement_attachments)) {
+    presented.attachments = announcement.announcement_attachments.map(presentAttachment(String(announcement.id), viewerId));
+    delete presented.announcement_attachments;
+  }
+
+  return presented;
+};
+
+// Remove attachment files from storage; a failure only leaves an orphaned file
+const removeStoredFiles = async (attachments: { storage_key: string; thumbnail_key: string | null }[]) => {
+  const storage = getStorage();
+  const keys = attachments.flatMap(attachment => [attachment.storage_key, attachment.thumbnail_key]);
+  await Promise.all(keys.filter(Boolean).map(async key => {
+    try {
+      await storage.delete(key as string);
+    } catch (error) {
+      console.error('Delete stored attachment error:', error);
+    }
+  }));
+};
+
+// Replace storage keys with URLs signed for the reader
+const presentAttachment = (announcementId: string, viewerId: string | null) => (attachment: Record<string, unknown>) => {
+  const { thumbnail_key, ...rest } = attachment;
+  return {
+    ...rest,
+    url: attachmentUrl(announcementId, String(attachment.id), 'file', viewerId),
+    thumbnail_url: thumbnail_key ? attachmentUrl(announcementId, String(attachment.id), 'thumbnail', viewerId) : null
+  };
 };
 
 // Get announcements (public with optional auth)
@@ -56,8 +172,10 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
       offset = 0, 
       category, 
       priority, 
-      is_published = 'true' 
+      is_published = 'true',
+      include_expired = 'false'
     } = req.query;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
 
     let query = supabaseAdmin
       .from('announcements')
@@ -69,11 +187,20 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
         priority,
         is_published,
         published_at,
+        publish_at,
+        expires_at,
+        archived_at,
+        is_targeted,
+        audience_roles,
+        audience_skills,
+        audience_event_id,
+        audience_user_ids,
         created_at,
         updated_at,
         users!created_by(
           display_name
-        )
+        ),
+        announcement_attachments(${ATTACHMENT_COLUMNS})
       `)
       .order('priority', { ascending: false })
       .order('created_at', { ascending: false });
@@ -94,10 +221,21 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
     }
 
     // Only show published announcements for public access
-    if (!req.user || !['Admin', 'Imam', 'Pengurus'].includes(req.user?.role || '')) {
+    if (!isStaff) {
       query = query.eq('is_published', true);
     }
 
+    // Hide expired announcements unless staff explicitly ask for them
+    if (!(isStaff && include_expired === 'true')) {
+      query = query.or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+    }
+
+    // Members only see announcements targeted at them
+    if (!isStaff) {
+      const viewer = req.user ? await loadAudienceViewer(req.user) : null;
+      query = query.or(audienceFilter(viewer));
+    }
+
     query = query.range(Number(offset), Number(offset) + Number(limit) - 1);
 
     const { data: announcements, error } = await query;
@@ -106,7 +244,20 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
       return res.status(400).json({ success: false, error: error.message });
     }
 
-    res.json({ success: true, data: announcements });
+    // Signed-in readers see whether they have read and acknowledged urgent announcements
+    const urgentIds = announcements
+      .filter(announcement => announcement.priority === 'urgent')
+      .map(announcement => announcement.id);
+    const receipts = req.user ? await getReceipts(urgentIds, req.user.id) : new Map<string, AnnouncementReceipt>();
+    const data = announcements.map(announcement => ({
+      ...presentAnnouncement(announcement, isStaff, req.user?.id ?? null),
+      receipt: receipts.get(announcement.id) || null
+    }));
+
+    // The feed differs per reader, so caches must not share it
+    res.set('Cache-Control', 'private');
+    res.vary('Authorization');
+    res.json({ success: true, data });
   } catch (error) {
     console.error('Get announcements error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -116,32 +267,24 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
 // Get announcement by ID (public with optional auth)
 router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const announcement = await findVisibleAnnouncement(req, req.params.id);
 
-    const { data: announcement, error } = await supabaseAdmin
-      .from('announcements')
-      .select(`
-        *,
-        users!created_by(
-          display_name
-        )
-      `)
-      .eq('id', id)
-      .single();
-
-    if (error) {
+    if (!announcement) {
       return res.status(404).json({ success: false, error: 'Announcement not found' });
     }
 
-    // Check if announcement is published
-    if (!announcement.is_published) {
-      // Only allow admin/imam/pengurus to view unpublished announcements
-      if (!req.user || !['Admin', 'Imam', 'Pengurus'].includes(req.user.role)) {
-        return res.status(404).json({ success: false, error: 'Announcement not found' });
-      }
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    // Opening an urgent announcement counts as reading it
+    let receipt: AnnouncementReceipt | null = null;
+    if (req.user && announcement.is_published && announcement.priority === 'urgent') {
+      await recordRead(announcement.id, req.user.id);
+      receipt = (await getReceipts([announcement.id], req.user.id)).get(announcement.id) || null;
     }
 
-    res.json({ success: true, data: announcement });
+    res.set('Cache-Control', 'private');
+    res.vary('Authorization');
+    res.json({ success: true, data: { ...presentAnnouncement(announcement, isStaff, req.user?.id ?? null), receipt } });
   } catch (error) {
     console.error('Get announcement error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -157,7 +300,9 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
       category = 'General',
       priority = 'normal',
       is_published = false,
-      send_notification = false
+      send_notification = false,
+      publish_at,
+      expires_at
     } = req.body;
 
     // Validate required fields
@@ -186,18 +331,45 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
       });
     }
 
-    const insertData: any = {
+    const publishAt = parseDateTime(publish_at);
+    const expiresAt = parseDateTime(expires_at);
+    if (publishAt.error || expiresAt.error) {
+      return res.status(400).json({ success: false, error: 'publish_at and expires_at must be ISO date-times' });
+    }
+
+    const now = new Date();
+    if (expiresAt.value && new Date(expiresAt.value) <= (publishAt.value ? new Date(publishAt.value) : now)) {
+      return res.status(400).json({ success: false, error: 'expires_at must be after the publish time' });
+    }
+
+    const { audience, error: audienceError } = parseAudience(req.body);
+    if (audienceError) {
+      return res.status(400).json({ success: false, error: audienceError });
+    }
+    if (audience.audience_event_id && !(await eventExists(audience.audience_event_id))) {
+      return res.status(400).json({ success: false, error: 'Target event not found' });
+    }
+
+    // A future publish_at schedules the announcement; the scheduler publishes it
+    const isScheduled = Boolean(publishAt.value && new Date(publishAt.value) > now);
+    const publishNow = Boolean(is_published) && !isScheduled;
+
+    const insertData: Record<string, unknown> = {
       title: title.trim(),
       content: content.trim(),
       category,
       priority,
       created_by: req.user?.id,
-      is_published
+      is_published: publishNow,
+      publish_at: publishAt.value || null,
+      expires_at: expiresAt.value || null,
+      send_notification: Boolean(send_notification),
+      ...audience
     };
 
     // Set published_at if publishing immediately
-    if (is_published) {
-      insertData.published_at = new Date().toISOString();
+    if (publishNow) {
+      insertData.published_at = now.toISOString();
     }
 
     const { data: announcement, error } = await supabaseAdmin
@@ -215,12 +387,11 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
       return res.status(400).json({ success: false, error: error.message });
     }
 
-    // Send push notification if requested and announcement is published
-    if (send_notification && is_published) {
-      await sendPushNotification(
-        `📢 ${title}`,
-        content.length > 100 ? content.substring(0, 100) + '...' : content
-      );
+    // Send push notification if requested and announcement is published;
+    // scheduled announcements are notified when they go live
+    let notification: PushResult | null = null;
+    if (send_notification && publishNow) {
+      notification = await notifyAnnouncement(announcement);
     }
 
     // Log announcement creation
@@ -235,12 +406,16 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
           title,
           category,
           priority,
-          is_published,
-          send_notification
+          is_published: publishNow,
+          publish_at: insertData.publish_at,
+          expires_at: insertData.expires_at,
+          audience,
+          send_notification,
+          notification
         }
       });
 
-    res.status(201).json({ success: true, data: announcement });
+    res.status(201).json({ success: true, data: presentAnnouncement(announcement, true, req.user?.id ?? null), notification });
   } catch (error) {
     console.error('Create announcement error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -257,7 +432,9 @@ router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'
       category,
       priority,
       is_published,
-      send_notification = false
+      send_notification = false,
+      publish_at,
+      expires_at
     } = req.body;
 
     // Check if announcement exists
@@ -272,7 +449,7 @@ router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'
     }
 
     // Prepare update data
-    const updateData: any = {
+    const updateData: Record<string, unknown> = {
       updated_at: new Date().toISOString()
     };
 
@@ -306,15 +483,59 @@ router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'
       updateData.priority = priority;
     }
 
+    const publishAt = parseDateTime(publish_at);
+    const expiresAt = parseDateTime(expires_at);
+    if (publishAt.error || expiresAt.error) {
+      return res.status(400).json({ success: false, error: 'publish_at and expires_at must be ISO date-times' });
+    }
+
+    const now = new Date();
+    const nextPublishAt = publishAt.value !== undefined ? publishAt.value : existingAnnouncement.publish_at;
+    const nextExpiresAt = expiresAt.value !== undefined ? expiresAt.value : existingAnnouncement.expires_at;
+    if (nextExpiresAt && expiresAt.value !== undefined &&
+        new Date(nextExpiresAt) <= (nextPublishAt ? new Date(nextPublishAt) : now)) {
+      return res.status(400).json({ success: false, error: 'expires_at must be after the publish time' });
+    }
+
+    const { audience, error: audienceError } = parseAudience(req.body);
+    if (audienceError) {
+      return res.status(400).json({ success: false, error: audienceError });
+    }
+    if (audience.audience_event_id && !(await eventExists(audience.audience_event_id))) {
+      return res.status(400).json({ success: false, error: 'Target event not found' });
+    }
+    Object.assign(updateData, audience);
+
+    if (publishAt.value !== undefined) {
+      updateData.publish_at = publishAt.value;
+    }
+    if (expiresAt.value !== undefined) {
+      updateData.expires_at = expiresAt.value;
+      // Extending an archived announcement brings it back
+      if (!expiresAt.value || new Date(expiresAt.value) > now) {
+        updateData.archived_at = null;
+      }
+    }
+
+    // Rescheduling an unpublished announcement into the future keeps it unpublished
+    const isScheduled = Boolean(nextPublishAt && new Date(nextPublishAt) > now);
+
     if (is_published !== undefined) {
-      updateData.is_published = is_published;
+      updateData.is_published = Boolean(is_published) && !(isScheduled && !existingAnnouncement.is_published);
       // Set published_at when publishing
-      if (is_published && !existingAnnouncement.is_published) {
-        updateData.published_at = new Date().toISOString();
+      if (updateData.is_published && !existingAnnouncement.is_published) {
+        updateData.published_at = now.toISOString();
+      }
+      // Unpublishing drops a past publish time, or the scheduler would publish it again
+      if (!is_published && !isScheduled) {
+        updateData.publish_at = null;
       }
     }
 
-
+    // A scheduled announcement remembers to notify when the scheduler publishes it
+    if (send_notification && isScheduled && !existingAnnouncement.is_published) {
+      updateData.send_notification = true;
+    }
 
     const { data: announcement, error } = await supabaseAdmin
       .from('announcements')
@@ -332,14 +553,11 @@ router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'
       return res.status(400).json({ success: false, error: error.message });
     }
 
-    // Send push notification if requested and announcement is published
+    // Send push notification if requested and announcement is published;
+    // an explicit request on update sends it again
+    let notification: PushResult | null = null;
     if (send_notification && announcement.is_published) {
-      await sendPushNotification(
-        `📢 ${announcement.title}`,
-        announcement.content.length > 100 ? 
-          announcement.content.substring(0, 100) + '...' : 
-          announcement.content
-      );
+      notification = await notifyAnnouncement(announcement, true);
     }
 
     // Log announcement update
@@ -352,11 +570,12 @@ router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'
         resource_id: announcement.id,
         details: {
           updated_fields: Object.keys(updateData),
-          send_notification
+          send_notification,
+          notification
         }
       });
 
-    res.json({ success: true, data: announcement });
+    res.json({ success: true, data: presentAnnouncement(announcement, true, req.user?.id ?? null), notification });
   } catch (error) {
     console.error('Update announcement error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -371,7 +590,7 @@ router.delete('/:id', authenticateToken, authorizeRoles('Admin'), async (req: Re
     // Check if announcement exists
     const { data: existingAnnouncement, error: findError } = await supabaseAdmin
       .from('announcements')
-      .select('*')
+      .select(`*, announcement_attachments(storage_key, thumbnail_key)`)
       .eq('id', id)
       .single();
 
@@ -388,6 +607,9 @@ router.delete('/:id', authenticateToken, authorizeRoles('Admin'), async (req: Re
       return res.status(400).json({ success: false, error: error.message });
     }
 
+    // The rows go with the announcement; the files have to be removed separately
+    await removeStoredFiles(existingAnnouncement.announcement_attachments || []);
+
     // Log announcement deletion
     await supabaseAdmin
       .from('audit_logs')
@@ -428,39 +650,533 @@ router.get('/meta/categories', async (req: Request, res: Response) => {
   }
 });
 
+// Get the VAPID public key for subscribing (public)
+router.get('/push/public-key', async (req: Request, res: Response) => {
+  try {
+    const publicKey = getVapidPublicKey();
+    if (!publicKey) {
+      return res.status(503).json({ success: false, error: 'Push notifications are not configured' });
+    }
+
+    res.json({ success: true, data: { publicKey } });
+  } catch (error) {
+    console.error('Get VAPID public key error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Subscribe to push notifications
+// Accepts { subscription } or the PushSubscription JSON itself; one row per device
 router.post('/subscribe', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { subscription } = req.body;
+    const subscription = req.body.subscription || req.body;
     const userId = req.user?.id;
 
-    if (!subscription || !subscription.endpoint) {
+    if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
       return res.status(400).json({
         success: false,
         error: 'Invalid subscription data'
       });
     }
 
-    // Store subscription in database (you'll need to create this table)
-    // const { error } = await supabaseAdmin
-    //   .from('push_subscriptions')
-    //   .upsert({
-    //     user_id: userId,
-    //     subscription: subscription,
-    //     created_at: new Date().toISOString()
-    //   }, {
-    //     onConflict: 'user_id'
-    //   });
+    if (!isValidPushEndpoint(subscription.endpoint)) {
+      return res.status(400).json({ success: false, error: 'Invalid subscription endpoint' });
+    }
+
+    // The endpoint is unique per device; re-subscribing moves it to the current user
+    const { data: saved, error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .upsert({
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: req.get('user-agent')?.slice(0, 500) || null,
+        failure_count: 0,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'endpoint'
+      })
+      .select('id, endpoint, created_at')
+      .single();
 
-    // if (error) {
-    //   return res.status(400).json({ success: false, error: error.message });
-    // }
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
 
-    res.json({ success: true, message: 'Subscription saved successfully' });
+    res.json({ success: true, data: saved, message: 'Subscription saved successfully' });
   } catch (error) {
     console.error('Subscribe error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
+// Unsubscribe a device from push notifications
+router.post('/unsubscribe', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { endpoint } = req.body;
+
+    if (!endpoint) {
+      return res.status(400).json({ success: false, error: 'Endpoint is required' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', endpoint)
+      .eq('user_id', req.user?.id);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({ success: true, message: 'Subscription removed successfully' });
+  } catch (error) {
+    console.error('Unsubscribe error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Subscribe a mock device of the local mock push service (development only)
+// Notifications sent to it can be read back with GET /push/mock-devices/:id
+router.post('/push/mock-devices', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!isMockPushEnabled()) {
+      return res.status(404).json({ success: false, error: 'Mock push service is not enabled' });
+    }
+
+    const device = createMockDevice();
+    const apiUrl = process.env.API_URL || `${req.protocol}://${req.get('host')}`;
+    const endpoint = `${apiUrl}/api/announcements/push/mock-devices/${device.id}`;
+
+    const { data: saved, error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .insert({
+        user_id: req.user?.id,
+        endpoint,
+        p256dh: device.p256dh,
+        auth: device.auth,
+        user_agent: 'mock-push-device'
+      })
+      .select('id, endpoint, created_at')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.status(201).json({ success: true, data: { ...saved, device_id: device.id } });
+  } catch (error) {
+    console.error('Create mock push device error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Mock push service endpoint: receives encrypted push messages (development only)
+// Devices the server no longer knows, e.g. after a restart, answer 410 Gone
+router.post('/push/mock-devices/:id', express.raw({ type: '*/*', limit: '8kb' }), async (req: Request, res: Response) => {
+  try {
+    if (!isMockPushEnabled()) {
+      return res.status(404).json({ success: false, error: 'Mock push service is not enabled' });
+    }
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ success: false, error: 'Missing push message' });
+    }
+
+    let received;
+    try {
+      received = receiveMockPush(req.params.id, req.body, req.headers);
+    } catch (decryptError) {
+      console.error('Mock push decrypt error:', decryptError);
+      return res.status(400).json({ success: false, error: 'Push message could not be decrypted' });
+    }
+
+    if (!received) {
+      return res.status(410).json({ success: false, error: 'Push subscription has expired' });
+    }
+
+    res.status(201).end();
+  } catch (error) {
+    console.error('Mock push receive error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get the notifications a mock device received, newest first (development only)
+router.get('/push/mock-devices/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const messages = isMockPushEnabled() ? getMockMessages(req.params.id) : null;
+    if (!messages) {
+      return res.status(404).json({ success: false, error: 'Mock device not found' });
+    }
+
+    res.json({ success: true, data: messages });
+  } catch (error) {
+    console.error('Get mock push messages error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get push delivery results for an announcement (Admin/Imam/Pengurus only)
+router.get('/:id/deliveries', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.query;
+
+    let query = supabaseAdmin
+      .from('notification_deliveries')
+      .select('id, user_id, subscription_id, status, status_code, error, created_at')
+      .eq('announcement_id', id)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const summary = { total: deliveries.length, sent: 0, failed: 0, expired: 0 };
+    for (const delivery of deliveries) {
+      summary[delivery.status as 'sent' | 'failed' | 'expired']++;
+    }
+
+    res.json({ success: true, data: { summary, deliveries } });
+  } catch (error) {
+    console.error('Get announcement deliveries error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Mark an urgent announcement as read (authenticated)
+router.post('/:id/read', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const announcement = await findVisibleAnnouncement(req, req.params.id);
+
+    if (!announcement || !announcement.is_published) {
+      return res.status(404).json({ success: false, error: 'Announcement not found' });
+    }
+
+    if (announcement.priority !== 'urgent') {
+      return res.status(400).json({ success: false, error: 'Read receipts are only kept for urgent announcements' });
+    }
+
+    const userId = req.user?.id as string;
+    await recordRead(announcement.id, userId);
+    const receipt = (await getReceipts([announcement.id], userId)).get(announcement.id);
+
+    res.json({ success: true, data: receipt });
+  } catch (error) {
+    console.error('Mark announcement read error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Acknowledge an urgent announcement (authenticated)
+router.post('/:id/acknowledge', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const announcement = await findVisibleAnnouncement(req, req.params.id);
+
+    if (!announcement || !announcement.is_published) {
+      return res.status(404).json({ success: false, error: 'Announcement not found' });
+    }
+
+    if (announcement.priority !== 'urgent') {
+      return res.status(400).json({ success: false, error: 'Only urgent announcements can be acknowledged' });
+    }
+
+    const receipt = await recordAcknowledgement(announcement.id, req.user?.id as string);
+
+    res.json({ success: true, data: receipt, message: 'Announcement acknowledged' });
+  } catch (error) {
+    console.error('Acknowledge announcement error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get read and acknowledgement status for an announcement (Admin/Imam/Pengurus only)
+// Lists the audience members who have not read it yet
+router.get('/:id/receipts', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { limit = 50, offset = 0 } = req.query;
+
+    const { data: announcement, error: findError } = await supabaseAdmin
+      .from('announcements')
+      .select(`id, priority, is_published, ${AUDIENCE_COLUMNS}`)
+      .eq('id', id)
+      .single();
+
+    if (findError || !announcement) {
+      return res.status(404).json({ success: false, error: 'Announcement not found' });
+    }
+
+    const { data: receipts, error } = await supabaseAdmin
+      .from('announcement_receipts')
+      .select(`
+        user_id,
+        read_at,
+        acknowledged_at,
+        users!user_id(
+          display_name
+        )
+      `)
+      .eq('announcement_id', id)
+      .order('read_at', { ascending: true });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Everyone active is the audience of an untargeted announcement
+    const audienceIds = await resolveAudienceUserIds(announcement);
+    let audienceQuery = supabaseAdmin
+      .from('users')
+      .select('id, display_name, email')
+      .eq('is_active', true)
+      .order('display_name', { ascending: true });
+
+    if (audienceIds) {
+      audienceQuery = audienceQuery.in('id', audienceIds);
+    }
+
+    const { data: audience, error: audienceError } = await audienceQuery;
+
+    if (audienceError) {
+      return res.status(400).json({ success: false, error: audienceError.message });
+    }
+
+    const readers = new Set(receipts.map(receipt => receipt.user_id));
+    const unread = audience.filter(member => !readers.has(member.id));
+
+    const summary = {
+      audience: audience.length,
+      read: receipts.length,
+      acknowledged: receipts.filter(receipt => receipt.acknowledged_at).length,
+      unread: unread.length
+    };
+
+    res.json({
+      success: true,
+      data: {
+        summary,
+        receipts,
+        unread: unread.slice(Number(offset), Number(offset) + Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Get announcement receipts error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Upload an image or PDF attachment (Admin/Imam/Pengurus only)
+// Send multipart/form-data with the file in the "file" field
+router.post(
+  '/:id/attachments',
+  authenticateToken,
+  authorizeRoles('Admin', 'Imam', 'Pengurus'),
+  uploadFile,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const file = req.file;
+
+      if (!file) {
+        return res.status(400).json({ success: false, error: 'A file is required in the "file" field' });
+      }
+
+      const { data: announcement, error: findError } = await supabaseAdmin
+        .from('announcements')
+        .select('id, announcement_attachments(count)')
+        .eq('id', id)
+        .single();
+
+      if (findError || !announcement) {
+        return res.status(404).json({ success: false, error: 'Announcement not found' });
+      }
+
+      const [{ count = 0 } = {}] = announcement.announcement_attachments as { count?: number }[];
+      if (count >= MAX_ATTACHMENTS) {
+        return res.status(400).json({ success: false, error: `An announcement can have at most ${MAX_ATTACHMENTS} attachments` });
+      }
+
+      const { mimeType, error: validationError } = validateAttachment(file.buffer, file.mimetype);
+      if (!mimeType) {
+        return res.status(400).json({ success: false, error: validationError });
+      }
+
+      let thumbnail;
+      try {
+        thumbnail = await createThumbnail(file.buffer, mimeType);
+      } catch (thumbnailError) {
+        console.error('Create attachment thumbnail error:', thumbnailError);
+        return res.status(400).json({ success: false, error: 'Image could not be read' });
+      }
+
+      const attachmentId = crypto.randomUUID();
+      const storage = getStorage();
+      const storageKey = attachmentKey(id, attachmentId, 'file', mimeType);
+      const thumbnailKey = thumbnail ? attachmentKey(id, attachmentId, 'thumbnail', mimeType) : null;
+
+      await storage.put(storageKey, file.buffer, mimeType);
+      if (thumbnail && thumbnailKey) {
+        await storage.put(thumbnailKey, thumbnail.body, 'image/webp');
+      }
+
+      const { data: attachment, error } = await supabaseAdmin
+        .from('announcement_attachments')
+        .insert({
+          id: attachmentId,
+          announcement_id: id,
+          file_name: sanitizeFileName(file.originalname),
+          mime_type: mimeType,
+          size_bytes: file.size,
+          storage_key: storageKey,
+          thumbnail_key: thumbnailKey,
+          thumbnail_width: thumbnail?.width ?? null,
+          thumbnail_height: thumbnail?.height ?? null,
+          uploaded_by: req.user?.id
+        })
+        .select(ATTACHMENT_COLUMNS)
+        .single();
+
+      if (error) {
+        // Don't leave orphaned files behind
+        await Promise.all([storageKey, thumbnailKey].filter(Boolean).map(key => storage.delete(key as string)));
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      // Log attachment upload
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: req.user?.id,
+          action: 'CREATE',
+          resource_type: 'ANNOUNCEMENT_ATTACHMENT',
+          resource_id: attachmentId,
+          details: {
+            announcement_id: id,
+            file_name: attachment.file_name,
+            mime_type: mimeType,
+            size_bytes: file.size
+          }
+        });
+
+      res.status(201).json({ success: true, data: presentAttachment(id, req.user?.id ?? null)(attachment) });
+    } catch (error) {
+      console.error('Upload announcement attachment error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// Download an attachment or its thumbnail (signed URL)
+// The URLs come from the announcement responses; the signature stands in for
+// auth and names the reader, who must still be able to see the announcement
+router.get('/:id/attachments/:attachmentId/:variant', async (req: Request, res: Response) => {
+  try {
+    const { id, attachmentId } = req.params;
+    const variant = req.params.variant as AttachmentVariant;
+    const viewerId = req.query.viewer ? String(req.query.viewer) : null;
+    const expires = Number(req.query.expires);
+
+    if (variant !== 'file' && variant !== 'thumbnail') {
+      return res.status(404).json({ success: false, error: 'Attachment not found' });
+    }
+
+    if (!verifyAttachmentSignature(attachmentId, variant, viewerId, expires, String(req.query.sig || ''))) {
+      return res.status(403).json({ success: false, error: 'Invalid or expired attachment link' });
+    }
+
+    if (viewerId) {
+      req.user = await loadActiveUser(viewerId) ?? undefined;
+      if (!req.user) {
+        return res.status(403).json({ success: false, error: 'Invalid or expired attachment link' });
+      }
+    }
+
+    if (!await findVisibleAnnouncement(req, id)) {
+      return res.status(404).json({ success: false, error: 'Attachment not found' });
+    }
+
+    const { data: attachment, error } = await supabaseAdmin
+      .from('announcement_attachments')
+      .select('file_name, mime_type, storage_key, thumbnail_key')
+      .eq('id', attachmentId)
+      .eq('announcement_id', id)
+      .single();
+
+    const key = variant === 'thumbnail' ? attachment?.thumbnail_key : attachment?.storage_key;
+    if (error || !attachment || !key) {
+      return res.status(404).json({ success: false, error: 'Attachment not found' });
+    }
+
+    const body = await getStorage().get(key);
+    if (!body) {
+      return res.status(404).json({ success: false, error: 'Attachment not found' });
+    }
+
+    // Stored files never change, so browsers and the service worker can keep
+    // them for as long as the link is valid
+    res.set({
+      'Content-Type': variant === 'thumbnail' ? 'image/webp' : attachment.mime_type,
+      'Content-Length': String(body.length),
+      'Cache-Control': `private, max-age=${Math.max(0, expires - Math.floor(Date.now() / 1000))}, immutable`,
+      'Content-Disposition': `inline; filename="${attachment.file_name}"; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Get announcement attachment error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete an attachment (Admin/Imam/Pengurus only)
+router.delete('/:id/attachments/:attachmentId', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const { data: attachment, error } = await supabaseAdmin
+      .from('announcement_attachments')
+      .delete()
+      .eq('id', attachmentId)
+      .eq('announcement_id', id)
+      .select('file_name, storage_key, thumbnail_key')
+      .maybeSingle();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    if (!attachment) {
+      return res.status(404).json({ success: false, error: 'Attachment not found' });
+    }
+
+    await removeStoredFiles([attachment]);
+
+    // Log attachment deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'ANNOUNCEMENT_ATTACHMENT',
+        resource_id: attachmentId,
+        details: {
+          announcement_id: id,
+          file_name: attachment.file_name
+        }
+      });
+
+    res.json({ success: true, message: 'Attachment deleted successfully' });
+  } catch (error) {
+    console.error('Delete announcement attachment error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,109 @@
+/**
+ * Islamic calendar API routes
+ */
+import { Router, Request, Response } from 'express';
+import { toHijri, fromHijri, getIslamicDates, HIJRI_MONTHS, IslamicDateKey } from '../lib/hijri.js';
+import { getMosqueSettings, getMosqueToday } from '../lib/prayerSchedule.js';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Convert between Gregorian and Hijri dates (public)
+// ?date=YYYY-MM-DD converts to Hijri; ?hijri_year=&hijri_month=&hijri_day= converts back
+router.get('/hijri', async (req: Request, res: Response) => {
+  try {
+    const { date, hijri_year, hijri_month, hijri_day } = req.query;
+    const settings = await getMosqueSettings();
+
+    if (hijri_year || hijri_month || hijri_day) {
+      const year = Number(hijri_year);
+      const month = Number(hijri_month);
+      const day = Number(hijri_day);
+
+      if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12 ||
+          !Number.isInteger(day) || day < 1 || day > 30) {
+        return res.status(400).json({ success: false, error: 'Invalid Hijri date' });
+      }
+
+      const gregorian = fromHijri(year, month, day, settings.hijri_offset);
+      if (!gregorian) {
+        return res.status(404).json({ success: false, error: 'Hijri date does not exist' });
+      }
+
+      return res.json({
+        success: true,
+        data: { date: gregorian, hijri: toHijri(gregorian, settings.hijri_offset), offset: settings.hijri_offset }
+      });
+    }
+
+    const gregorian = date ? String(date) : getMosqueToday(settings);
+    if (!DATE_PATTERN.test(gregorian)) {
+      return res.status(400).json({ success: false, error: 'Invalid date. Use YYYY-MM-DD' });
+    }
+
+    res.json({
+      success: true,
+      data: { date: gregorian, hijri: toHijri(gregorian, settings.hijri_offset), offset: settings.hijri_offset }
+    });
+  } catch (error) {
+    console.error('Convert hijri date error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get upcoming Islamic dates (public)
+router.get('/islamic-dates', async (req: Request, res: Response) => {
+  try {
+    const { from, to, types, limit = 10 } = req.query;
+    const settings = await getMosqueSettings();
+
+    const startDate = from ? String(from) : getMosqueToday(settings);
+    if (!DATE_PATTERN.test(startDate) || (to && !DATE_PATTERN.test(String(to)))) {
+      return res.status(400).json({ success: false, error: 'Invalid date. Use YYYY-MM-DD' });
+    }
+
+    // Default window is one year ahead
+    let endDate = to ? String(to) : '';
+    if (!endDate) {
+      const end = new Date(`${startDate}T00:00:00Z`);
+      end.setUTCFullYear(end.getUTCFullYear() + 1);
+      endDate = end.toISOString().split('T')[0];
+    }
+
+    if (endDate < startDate) {
+      return res.status(400).json({ success: false, error: 'to must be after from' });
+    }
+
+    let dates = getIslamicDates(startDate, endDate, settings.hijri_offset);
+
+    // Filter by observance type, e.g. ?types=ramadan_start,idul_fitri
+    if (types) {
+      const wanted = String(types).split(',').map(type => type.trim()) as IslamicDateKey[];
+      dates = dates.filter(item => wanted.includes(item.key));
+    }
+
+    res.json({
+      success: true,
+      data: dates.slice(0, Math.min(Math.max(Number(limit) || 10, 1), 100))
+    });
+  } catch (error) {
+    console.error('Get islamic dates error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get Hijri month names (public)
+router.get('/meta/months', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: HIJRI_MONTHS.map((name, index) => ({ value: index + 1, label: name }))
+    });
+  } catch (error) {
+    console.error('Get hijri months error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
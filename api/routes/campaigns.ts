@@ -0,0 +1,547 @@
+/**
+ * Donation campaigns API routes
+ */
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { getStorage } from '../lib/storage.js';
+import { getMosqueSettings, getMosqueToday } from '../lib/prayerSchedule.js';
+import {
+  campaignSlug,
+  campaignStateAfterChange,
+  presentCampaign,
+  createCampaignCover,
+  campaignCoverKey
+} from '../lib/campaigns.js';
+
+const router = Router();
+
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DONATION_TYPES = ['Infaq', 'Sedekah', 'Zakat Fitrah', 'Zakat Mal', 'Wakaf', 'Operasional'];
+const STATUSES = ['Active', 'Completed', 'Closed'];
+
+const MAX_TARGET = 1e12;
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+const RECENT_DONORS = 10;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_COVER_BYTES, files: 1 }
+});
+
+// Parse a single multipart upload in the "cover" field; upload errors are the client's
+const uploadCover = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('cover')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Cover image is too large. Maximum is ${MAX_COVER_BYTES / (1024 * 1024)} MB`
+        : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+// Validate the editable fields of a request body; only fields present are
+// returned. A deadline already in the past may be sent back unchanged.
+const parseCampaignFields = (body: Record<string, unknown>, today: string, currentDeadline: string | null = null) => {
+  const fields: Record<string, unknown> = {};
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title || title.length > 200) {
+      return { fields, error: 'title must be 1 to 200 characters' };
+    }
+    fields.title = title;
+  }
+
+  for (const field of ['description', 'beneficiary_description']) {
+    if (body[field] !== undefined) {
+      const value = body[field];
+      fields[field] = typeof value === 'string' && value.trim() ? value.trim() : null;
+    }
+  }
+
+  if (body.donation_type !== undefined) {
+    if (!DONATION_TYPES.includes(body.donation_type as string)) {
+      return { fields, error: `donation_type must be one of: ${DONATION_TYPES.join(', ')}` };
+    }
+    fields.donation_type = body.donation_type;
+  }
+
+  if (body.target_amount !== undefined) {
+    const target = Number(body.target_amount);
+    if (!Number.isFinite(target) || target <= 0 || target > MAX_TARGET) {
+      return { fields, error: 'target_amount must be a positive amount' };
+    }
+    fields.target_amount = target;
+  }
+
+  if (body.deadline !== undefined) {
+    if (body.deadline !== null && (typeof body.deadline !== 'string' || !DATE_PATTERN.test(body.deadline) || Number.isNaN(Date.parse(body.deadline)))) {
+      return { fields, error: 'deadline must be a date (YYYY-MM-DD) or null' };
+    }
+    if (body.deadline && (body.deadline as string) < today && body.deadline !== currentDeadline) {
+      return { fields, error: 'deadline cannot be in the past' };
+    }
+    fields.deadline = body.deadline || null;
+  }
+
+  return { fields };
+};
+
+// First free slug for a title: "renovasi-masjid", then "renovasi-masjid-2", ...
+const uniqueSlug = async (title: string, exceptId?: string): Promise<string> => {
+  const base = campaignSlug(title);
+  const { data } = await supabaseAdmin
+    .from('donation_campaigns')
+    .select('id, slug')
+    .like('slug', `${base}%`);
+
+  const taken = new Set((data || []).filter(campaign => campaign.id !== exceptId).map(campaign => campaign.slug));
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+};
+
+// Get donation campaigns with their totals (public)
+// status: Active (default), Completed, Closed or All
+router.get('/', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { status = 'Active', limit = 10, offset = 0 } = req.query;
+
+    if (status !== 'All' && !STATUSES.includes(status as string)) {
+      return res.status(400).json({ success: false, error: `status must be one of: ${STATUSES.join(', ')}, All` });
+    }
+
+    let query = supabaseAdmin
+      .from('donation_campaigns')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at', { ascending: false });
+
+    if (status !== 'All') {
+      query = query.eq('status', status);
+    }
+
+    query = query.range(Number(offset), Number(offset) + Number(limit) - 1);
+
+    const { data: campaigns, error } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const today = getMosqueToday(await getMosqueSettings());
+    res.json({ success: true, data: (campaigns || []).map(campaign => presentCampaign(campaign, today)) });
+  } catch (error) {
+    console.error('Get donation campaigns error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a campaign by ID or slug, with its most recent named donors (public with optional auth)
+router.get('/:idOrSlug', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { idOrSlug } = req.params;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    const { data: campaign, error } = await supabaseAdmin
+      .from('donation_campaigns')
+      .select('*')
+      .eq(UUID_PATTERN.test(idOrSlug) ? 'id' : 'slug', idOrSlug)
+      .single();
+
+    if (error || !campaign || (!campaign.is_active && !isStaff)) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    // Anonymous donations count towards the totals but are never listed
+    const { data: donations, error: donorsError } = await supabaseAdmin
+      .from('donations')
+      .select(`
+        amount,
+        completed_at,
+        users!donor_id(
+          display_name
+        )
+      `)
+      .eq('campaign_id', campaign.id)
+      .eq('status', 'Completed')
+      .eq('is_anonymous', false)
+      .order('completed_at', { ascending: false })
+      .limit(RECENT_DONORS);
+
+    if (donorsError) {
+      return res.status(400).json({ success: false, error: donorsError.message });
+    }
+
+    const recentDonors = (donations || []).map(donation => {
+      const donor = donation.users as unknown as { display_name: string | null } | null;
+      return {
+        name: donor?.display_name || 'Hamba Allah',
+        amount: Number(donation.amount),
+        donated_at: donation.completed_at
+      };
+    });
+
+    const today = getMosqueToday(await getMosqueSettings());
+    res.json({ success: true, data: { ...presentCampaign(campaign, today), recent_donors: recentDonors } });
+  } catch (error) {
+    console.error('Get donation campaign error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create campaign (Admin/Imam/Pengurus only)
+router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    if (!req.body.title || req.body.target_amount === undefined) {
+      return res.status(400).json({ success: false, error: 'Missing required fields: title, target_amount' });
+    }
+
+    const today = getMosqueToday(await getMosqueSettings());
+    const { fields, error: validationError } = parseCampaignFields(req.body, today);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: campaign, error } = await supabaseAdmin
+      .from('donation_campaigns')
+      .insert({
+        ...fields,
+        slug: await uniqueSlug(String(fields.title)),
+        created_by: req.user?.id
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log creation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'DONATION_CAMPAIGN',
+        resource_id: campaign.id,
+        details: { title: campaign.title, target_amount: campaign.target_amount, deadline: campaign.deadline }
+      });
+
+    res.status(201).json({ success: true, data: presentCampaign(campaign, today) });
+  } catch (error) {
+    console.error('Create donation campaign error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update campaign (Admin/Imam/Pengurus only)
+// A new target or deadline reopens a closed or completed campaign that is
+// short of the target and not past the deadline, so extending a campaign is
+// an update of its deadline or target
+router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const today = getMosqueToday(await getMosqueSettings());
+
+    const { data: existing, error: findError } = await supabaseAdmin
+      .from('donation_campaigns')
+      .select('*')
+      .eq('id', id)
+      .eq('is_active', true)
+      .single();
+
+    if (findError || !existing) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    const { fields, error: validationError } = parseCampaignFields(req.body, today, existing.deadline);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (fields.title !== undefined && fields.title !== existing.title) {
+      fields.slug = await uniqueSlug(String(fields.title), id);
+    }
+
+    const extended = (fields.target_amount !== undefined && Number(fields.target_amount) !== Number(existing.target_amount))
+      || (fields.deadline !== undefined && fields.deadline !== existing.deadline);
+    const state = extended ? campaignStateAfterChange({ ...existing, ...fields }, today) : null;
+
+    const { data: campaign, error } = await supabaseAdmin
+      .from('donation_campaigns')
+      .update({ ...fields, ...state, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'DONATION_CAMPAIGN',
+        resource_id: id,
+        details: {
+          updated_fields: Object.keys(fields),
+          ...(state && state.status !== existing.status ? { status: { from: existing.status, to: state.status } } : {})
+        }
+      });
+
+    res.json({ success: true, data: presentCampaign(campaign, today) });
+  } catch (error) {
+    console.error('Update donation campaign error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Close a campaign to new donations (Admin/Imam/Pengurus only)
+router.post('/:id/close', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const now = new Date().toISOString();
+
+    const { data: closed, error } = await supabaseAdmin
+      .from('donation_campaigns')
+      .update({ status: 'Closed', closed_reason: 'manual', closed_at: now, updated_at: now })
+      .eq('id', id)
+      .eq('is_active', true)
+      .eq('status', 'Active')
+      .select('*');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!closed || closed.length === 0) {
+      const { data: existing } = await supabaseAdmin
+        .from('donation_campaigns')
+        .select('status')
+        .eq('id', id)
+        .eq('is_active', true)
+        .single();
+
+      return existing
+        ? res.status(409).json({ success: false, error: `Campaign is already ${existing.status.toLowerCase()}` })
+        : res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    // Log closing
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CLOSE',
+        resource_type: 'DONATION_CAMPAIGN',
+        resource_id: id,
+        details: { title: closed[0].title, reason: 'manual', total_raised: closed[0].total_raised }
+      });
+
+    const today = getMosqueToday(await getMosqueSettings());
+    res.json({ success: true, data: presentCampaign(closed[0], today) });
+  } catch (error) {
+    console.error('Close donation campaign error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete campaign (Admin/Imam/Pengurus only)
+router.delete('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Soft delete; donations keep their campaign_id
+    const { data: removed, error } = await supabaseAdmin
+      .from('donation_campaigns')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('is_active', true)
+      .select('id');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'DONATION_CAMPAIGN',
+        resource_id: id
+      });
+
+    res.json({ success: true, message: 'Campaign deleted successfully' });
+  } catch (error) {
+    console.error('Delete donation campaign error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Upload a campaign cover image (Admin/Imam/Pengurus only)
+// Send multipart/form-data with a JPEG, PNG or WebP image in the "cover" field
+router.post(
+  '/:id/cover',
+  authenticateToken,
+  authorizeRoles('Admin', 'Imam', 'Pengurus'),
+  uploadCover,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.file) {
+        return res.status(400).json({ success: false, error: 'An image is required in the "cover" field' });
+      }
+
+      const { data: existing, error: findError } = await supabaseAdmin
+        .from('donation_campaigns')
+        .select('id, cover_image_key')
+        .eq('id', id)
+        .eq('is_active', true)
+        .single();
+
+      if (findError || !existing) {
+        return res.status(404).json({ success: false, error: 'Campaign not found' });
+      }
+
+      const { body, error: coverError } = await createCampaignCover(req.file.buffer);
+      if (!body) {
+        return res.status(400).json({ success: false, error: coverError });
+      }
+
+      const storage = getStorage();
+      const coverKey = campaignCoverKey(id);
+      await storage.put(coverKey, body, 'image/webp');
+
+      const { data: campaign, error } = await supabaseAdmin
+        .from('donation_campaigns')
+        .update({ cover_image_key: coverKey, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('*')
+        .single();
+
+      if (error) {
+        // Don't leave orphaned files behind
+        await storage.delete(coverKey);
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      if (existing.cover_image_key) {
+        await storage.delete(existing.cover_image_key);
+      }
+
+      // Log cover upload
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: req.user?.id,
+          action: 'UPDATE',
+          resource_type: 'DONATION_CAMPAIGN',
+          resource_id: id,
+          details: { updated_fields: ['cover_image'] }
+        });
+
+      const today = getMosqueToday(await getMosqueSettings());
+      res.json({ success: true, data: presentCampaign(campaign, today) });
+    } catch (error) {
+      console.error('Upload campaign cover error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// Get a campaign's cover image (public)
+router.get('/:id/cover', async (req: Request, res: Response) => {
+  try {
+    const { data: campaign } = await supabaseAdmin
+      .from('donation_campaigns')
+      .select('cover_image_key')
+      .eq('id', req.params.id)
+      .single();
+
+    const body = campaign?.cover_image_key ? await getStorage().get(campaign.cover_image_key) : null;
+    if (!body) {
+      return res.status(404).json({ success: false, error: 'Cover image not found' });
+    }
+
+    // Every upload has a new URL, so the cover can be cached forever
+    res.set({
+      'Content-Type': 'image/webp',
+      'Content-Length': String(body.length),
+      'Cache-Control': 'public, max-age=31536000, immutable'
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Get campaign cover error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Remove a campaign's cover image (Admin/Imam/Pengurus only)
+router.delete('/:id/cover', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: existing, error: findError } = await supabaseAdmin
+      .from('donation_campaigns')
+      .select('id, cover_image_key')
+      .eq('id', id)
+      .single();
+
+    if (findError || !existing) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('donation_campaigns')
+      .update({ cover_image_key: null, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (existing.cover_image_key) {
+      await getStorage().delete(existing.cover_image_key);
+    }
+
+    // Log cover removal
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'DONATION_CAMPAIGN_COVER',
+        resource_id: id
+      });
+
+    res.json({ success: true, message: 'Cover image removed successfully' });
+  } catch (error) {
+    console.error('Delete campaign cover error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
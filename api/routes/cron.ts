@@ -0,0 +1,88 @@
+/**
+ * Scheduled job API routes
+ *
+ * The local server runs the background jobs on timers (api/server.ts), but a
+ * serverless deploy has no long-running process. There, a cron service calls
+ * GET /api/cron/:job with `Authorization: Bearer <CRON_SECRET>`, and each call
+ * runs one tick of the job; vercel.json schedules them on Vercel Cron. Every
+ * job is safe to run from several places at once.
+ */
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { isPushConfigured } from '../lib/webPush.js';
+import { runPrayerReminders } from '../jobs/prayerReminders.js';
+import { runAnnouncementSchedule } from '../jobs/announcementSchedule.js';
+import { expireWaitlistOffers } from '../lib/eventWaitlist.js';
+import { closeExpiredCampaigns } from '../lib/campaigns.js';
+import { generateDueInstalments, remindUnpaidInstalments } from '../lib/pledges.js';
+
+const router = Router();
+
+interface CronJob {
+  run: () => Promise<unknown>;
+  // Jobs that are not enabled answer 503 instead of running
+  isEnabled?: () => boolean;
+}
+
+const JOBS: Record<string, CronJob> = {
+  'prayer-reminders': {
+    run: async () => ({ sent: await runPrayerReminders() }),
+    isEnabled: isPushConfigured
+  },
+  announcements: {
+    run: () => runAnnouncementSchedule()
+  },
+  'event-waitlist': {
+    run: async () => ({ expired: await expireWaitlistOffers() })
+  },
+  campaigns: {
+    run: async () => ({ closed: await closeExpiredCampaigns() })
+  },
+  pledges: {
+    run: async () => ({
+      created: await generateDueInstalments(),
+      reminded: await remindUnpaidInstalments()
+    })
+  }
+};
+
+// Only the cron service, which knows CRON_SECRET, may run jobs
+const authenticateCron = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    res.status(503).json({ success: false, error: 'Scheduled jobs are not configured' });
+    return;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.authorization || '');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    res.status(401).json({ success: false, error: 'Invalid cron secret' });
+    return;
+  }
+
+  next();
+};
+
+// Run one tick of a scheduled job (cron service only)
+router.get('/:job', authenticateCron, async (req: Request, res: Response) => {
+  const job = Object.prototype.hasOwnProperty.call(JOBS, req.params.job) ? JOBS[req.params.job] : null;
+
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
+  if (job.isEnabled && !job.isEnabled()) {
+    return res.status(503).json({ success: false, error: 'Job is not configured' });
+  }
+
+  try {
+    const data = await job.run();
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error(`Cron job ${req.params.job} error:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,87 +2,34 @@
  * Donations API routes
  */
 import { Router, Request, Response } from 'express';
-import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
+import { authenticateToken, authorizeRoles } from '../middleware/auth.js';
 import { supabaseAdmin } from '../lib/supabase.js';
+import { getMosqueSettings, getMosqueToday } from '../lib/prayerSchedule.js';
+import {
+  calculateZakat,
+  getZakatPrices,
+  PRICE_COMMODITIES,
+  GOLD_NISAB_GRAMS,
+  SILVER_NISAB_GRAMS,
+  FITRAH_RICE_KG,
+  ZAKAT_RATE,
+  Commodity
+} from '../lib/zakat.js';
+import {
+  createDonationPayment,
+  donationReference,
+  getPaymentDetails,
+  needsNewPayment,
+  processPaymentCallback,
+  renewDonationPayment
+} from '../lib/donationPayments.js';
+import { getPaymentProvider, signMockCallback, PaymentStatus } from '../lib/payments.js';
+import { buildReceiptPdf, issueDonationReceipt, voidDonationReceipts } from '../lib/receipts.js';
 import crypto from 'crypto';
 
 const router = Router();
 
-// Generate QR code data for payment
-const generateQRCode = (amount: number, donationType: string, reference: string) => {
-  // This is a simplified QR code data structure
-  // In production, you would integrate with actual payment gateway QR codes
-  const qrData = {
-    merchant_id: process.env.MERCHANT_ID || 'MASJEED_001',
-    amount: amount,
-    currency: 'IDR',
-    reference: reference,
-    description: `${donationType} - ${reference}`,
-    callback_url: `${process.env.API_URL}/api/donations/callback`
-  };
-  
-  return Buffer.from(JSON.stringify(qrData)).toString('base64');
-};
-
-// Get donation campaigns (public)
-router.get('/campaigns', optionalAuth, async (req: Request, res: Response) => {
-  try {
-    const { status = 'Active', limit = 10, offset = 0 } = req.query;
-    
-    let query = supabaseAdmin
-      .from('donations')
-      .select(`
-        id,
-        donation_type,
-        amount,
-        target_amount,
-        description,
-        status,
-        created_at,
-        updated_at
-      `)
-      .eq('is_campaign', true)
-      .eq('is_active', true)
-      .order('created_at', { ascending: false });
-
-    if (status !== 'All') {
-      query = query.eq('status', status);
-    }
-
-    query = query.range(Number(offset), Number(offset) + Number(limit) - 1);
-
-    const { data: campaigns, error } = await query;
-
-    if (error) {
-      return res.status(400).json({ success: false, error: error.message });
-    }
-
-    // Calculate total raised for each campaign
-    const campaignsWithTotals = await Promise.all(
-      campaigns?.map(async (campaign) => {
-        const { data: donations } = await supabaseAdmin
-          .from('donations')
-          .select('amount')
-          .eq('campaign_id', campaign.id)
-          .eq('status', 'Completed');
-
-        const totalRaised = donations?.reduce((sum, d) => sum + d.amount, 0) || 0;
-        const progress = campaign.target_amount ? (totalRaised / campaign.target_amount) * 100 : 0;
-
-        return {
-          ...campaign,
-          total_raised: totalRaised,
-          progress: Math.min(progress, 100)
-        };
-      }) || []
-    );
-
-    res.json({ success: true, data: campaignsWithTotals });
-  } catch (error) {
-    console.error('Get donation campaigns error:', error);
-    res.status(500).json({ success: false, error: 'Internal server error' });
-  }
-});
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 // Get donation statistics (Admin/Imam/Pengurus only)
 router.get('/stats', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
@@ -146,16 +93,186 @@ router.get('/stats', authenticateToken, authorizeRoles('Admin', 'Imam', 'Penguru
   }
 });
 
+// Get the zakat prices in effect and the nisab they give (public)
+router.get('/zakat/prices', async (req: Request, res: Response) => {
+  try {
+    const { date } = req.query;
+
+    if (date && !DATE_PATTERN.test(String(date))) {
+      return res.status(400).json({ success: false, error: 'date must be YYYY-MM-DD' });
+    }
+
+    const day = date ? String(date) : getMosqueToday(await getMosqueSettings());
+    const prices = await getZakatPrices(day);
+
+    res.json({
+      success: true,
+      data: {
+        date: day,
+        prices,
+        rate: ZAKAT_RATE,
+        nisab: {
+          gold_grams: GOLD_NISAB_GRAMS,
+          silver_grams: SILVER_NISAB_GRAMS,
+          gold_value: prices.gold ? Math.ceil(GOLD_NISAB_GRAMS * prices.gold.price) : null,
+          silver_value: prices.silver ? Math.ceil(SILVER_NISAB_GRAMS * prices.silver.price) : null
+        },
+        fitrah: {
+          rice_kg: FITRAH_RICE_KG,
+          amount_per_person: prices.rice ? Math.ceil(FITRAH_RICE_KG * prices.rice.price) : null
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get zakat prices error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Set the price of gold, silver (per gram) or rice (per kg) from a date (Admin/Imam/Pengurus only)
+// Setting a price again for the same date replaces it
+router.post('/zakat/prices', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { commodity, price, effective_date, source } = req.body;
+
+    if (!PRICE_COMMODITIES.includes(commodity)) {
+      return res.status(400).json({ success: false, error: `commodity must be one of: ${PRICE_COMMODITIES.join(', ')}` });
+    }
+
+    if (!Number.isFinite(Number(price)) || Number(price) <= 0) {
+      return res.status(400).json({ success: false, error: 'price must be a positive number' });
+    }
+
+    if (effective_date && !DATE_PATTERN.test(String(effective_date))) {
+      return res.status(400).json({ success: false, error: 'effective_date must be YYYY-MM-DD' });
+    }
+
+    const { data: zakatPrice, error } = await supabaseAdmin
+      .from('zakat_prices')
+      .upsert({
+        commodity: commodity as Commodity,
+        price: Number(price),
+        effective_date: effective_date || getMosqueToday(await getMosqueSettings()),
+        source: typeof source === 'string' && source.trim() ? source.trim() : null,
+        created_by: req.user?.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'commodity,effective_date' })
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log price change
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'ZAKAT_PRICE',
+        resource_id: zakatPrice.id,
+        details: { commodity, price: zakatPrice.price, effective_date: zakatPrice.effective_date }
+      });
+
+    res.json({ success: true, data: zakatPrice });
+  } catch (error) {
+    console.error('Set zakat price error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Calculate zakat mal or zakat fitrah (public)
+// The returned donation can be sent as is to POST /api/donations
+router.post('/zakat/calculate', async (req: Request, res: Response) => {
+  try {
+    const today = getMosqueToday(await getMosqueSettings());
+    const { result, error } = calculateZakat(req.body, await getZakatPrices(today), today);
+
+    if (error || !result) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        donation: result.total > 0
+          ? {
+            donation_type: result.donation_type,
+            amount: result.total,
+            zakat_calculation: { type: result.type, ...result.inputs }
+          }
+          : null
+      }
+    });
+  } catch (error) {
+    console.error('Calculate zakat error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Create donation/zakat (authenticated users)
+// Zakat can be paid from a calculation: zakat_calculation holds its inputs, it
+// is calculated again and kept with the donation, and amount defaults to the
+// zakat due
 router.post('/', authenticateToken, async (req: Request, res: Response) => {
   try {
     const {
-      donation_type,
-      amount,
       description,
       is_anonymous = false,
       campaign_id = null
     } = req.body;
+    let { amount, donation_type } = req.body;
+
+    // Campaign donations default to the campaign's donation type
+    if (campaign_id) {
+      const { data: campaign } = await supabaseAdmin
+        .from('donation_campaigns')
+        .select('id, status, deadline, donation_type')
+        .eq('id', campaign_id)
+        .eq('is_active', true)
+        .single();
+
+      if (!campaign) {
+        return res.status(404).json({ success: false, error: 'Campaign not found' });
+      }
+
+      // The deadline is checked too, in case the scheduler has not closed the campaign yet
+      if (campaign.status !== 'Active' || (campaign.deadline && campaign.deadline < getMosqueToday(await getMosqueSettings()))) {
+        return res.status(400).json({ success: false, error: 'This campaign is no longer accepting donations' });
+      }
+
+      donation_type = donation_type || campaign.donation_type;
+    }
+
+    let zakatCalculation = null;
+    if (req.body.zakat_calculation) {
+      const today = getMosqueToday(await getMosqueSettings());
+      const { result, error: zakatError } = calculateZakat(req.body.zakat_calculation, await getZakatPrices(today), today);
+
+      if (zakatError || !result) {
+        return res.status(400).json({ success: false, error: zakatError });
+      }
+
+      if (donation_type !== result.donation_type) {
+        return res.status(400).json({ success: false, error: `A ${result.type} calculation must be paid as ${result.donation_type}` });
+      }
+
+      if (result.total <= 0 && !amount) {
+        return res.status(400).json({ success: false, error: 'No zakat is due for this calculation' });
+      }
+
+      amount = amount || result.total;
+      zakatCalculation = {
+        type: result.type,
+        inputs: result.inputs,
+        prices: result.prices,
+        components: result.components,
+        total: result.total,
+        calculated_on: today
+      };
+    }
 
     // Validate required fields
     if (!donation_type || !amount || amount <= 0) {
@@ -175,10 +292,19 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
     }
 
     // Generate unique reference
-    const reference = `DON-${Date.now()}-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
-    
-    // Generate QR code data
-    const qrCodeData = generateQRCode(amount, donation_type, reference);
+    const reference = donationReference();
+
+    // Create the payment (QRIS code or virtual account) at the gateway
+    let paymentColumns;
+    try {
+      paymentColumns = await createDonationPayment(
+        { reference_number: reference, amount: Number(amount), donation_type },
+        req.user?.display_name
+      );
+    } catch (gatewayError) {
+      console.error('Create donation payment error:', gatewayError);
+      return res.status(502).json({ success: false, error: 'Payment gateway unavailable, please try again' });
+    }
 
     const { data: donation, error } = await supabaseAdmin
       .from('donations')
@@ -190,9 +316,9 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
         is_anonymous,
         campaign_id,
         reference_number: reference,
-        qr_code_data: qrCodeData,
+        ...paymentColumns,
         status: 'Pending',
-        payment_method: 'QR_CODE'
+        zakat_calculation: zakatCalculation
       })
       .select('*')
       .single();
@@ -213,11 +339,13 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
           donation_type,
           amount,
           reference: reference,
-          is_anonymous
+          is_anonymous,
+          campaign_id,
+          zakat_total: zakatCalculation?.total
         }
       });
 
-    res.status(201).json({ success: true, data: donation });
+    res.status(201).json({ success: true, data: { ...donation, payment: await getPaymentDetails(donation) } });
   } catch (error) {
     console.error('Create donation error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -248,7 +376,28 @@ router.get('/my-donations', authenticateToken, async (req: Request, res: Respons
       return res.status(400).json({ success: false, error: error.message });
     }
 
-    res.json({ success: true, data: donations });
+    const completedIds = (donations || [])
+      .filter(donation => donation.status === 'Completed')
+      .map(donation => donation.id);
+    const { data: receipts } = completedIds.length > 0
+      ? await supabaseAdmin
+        .from('donation_receipts')
+        .select('donation_id, receipt_number')
+        .in('donation_id', completedIds)
+        .eq('kind', 'donation')
+        .eq('is_void', false)
+      : { data: [] };
+
+    // Completed donations without a receipt yet get one on first download
+    const receiptNumbers = new Map((receipts || []).map(receipt => [receipt.donation_id, receipt.receipt_number]));
+    res.json({
+      success: true,
+      data: (donations || []).map(donation => ({
+        ...donation,
+        receipt_number: receiptNumbers.get(donation.id) || null,
+        receipt_url: donation.status === 'Completed' ? `/api/donations/${donation.id}/receipt` : null
+      }))
+    });
   } catch (error) {
     console.error('Get user donations error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -308,7 +457,124 @@ router.get('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
   }
 });
 
+// Get how to pay a donation: QRIS image or virtual account (donor or Admin/Imam/Pengurus)
+router.get('/:id/payment', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { data: donation } = await supabaseAdmin
+      .from('donations')
+      .select('*')
+      .eq('id', req.params.id)
+      .single();
+
+    const isStaff = Boolean(req.user && ['Admin', 'Imam', 'Pengurus'].includes(req.user.role));
+    if (!donation || (donation.donor_id !== req.user?.id && !isStaff)) {
+      return res.status(404).json({ success: false, error: 'Donation not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        status: donation.status,
+        ...await getPaymentDetails(donation)
+      }
+    });
+  } catch (error) {
+    console.error('Get donation payment error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a new payment for an unpaid donation whose payment failed or expired (donor only)
+// Pledge instalments are paid this way when their reminder comes after the QR code expired
+router.post('/:id/payment', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { data: donation } = await supabaseAdmin
+      .from('donations')
+      .select('*')
+      .eq('id', req.params.id)
+      .eq('donor_id', req.user?.id)
+      .single();
+
+    if (!donation) {
+      return res.status(404).json({ success: false, error: 'Donation not found' });
+    }
+
+    if (!['Pending', 'Failed'].includes(donation.status)) {
+      return res.status(409).json({ success: false, error: `Donation is already ${donation.status.toLowerCase()}` });
+    }
+
+    if (!needsNewPayment(donation)) {
+      return res.status(409).json({ success: false, error: 'The current payment can still be used' });
+    }
+
+    let renewed;
+    try {
+      renewed = await renewDonationPayment(donation, req.user?.display_name);
+    } catch (gatewayError) {
+      console.error('Renew donation payment error:', gatewayError);
+      return res.status(502).json({ success: false, error: 'Payment gateway unavailable, please try again' });
+    }
+
+    if (!renewed) {
+      return res.status(409).json({ success: false, error: 'Donation is no longer awaiting payment' });
+    }
+
+    // Log payment renewal
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'DONATION',
+        resource_id: donation.id,
+        details: { renewed_payment: true, previous_reference: donation.reference_number, reference: renewed.reference_number }
+      });
+
+    res.json({
+      success: true,
+      data: {
+        status: renewed.status,
+        ...await getPaymentDetails(renewed)
+      }
+    });
+  } catch (error) {
+    console.error('Renew donation payment error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Download the receipt of a completed donation as PDF (donor or Admin/Imam/Pengurus)
+router.get('/:id/receipt', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { data: donation } = await supabaseAdmin
+      .from('donations')
+      .select('*')
+      .eq('id', req.params.id)
+      .single();
+
+    const isStaff = Boolean(req.user && ['Admin', 'Imam', 'Pengurus'].includes(req.user.role));
+    if (!donation || (donation.donor_id !== req.user?.id && !isStaff)) {
+      return res.status(404).json({ success: false, error: 'Donation not found' });
+    }
+
+    if (donation.status !== 'Completed') {
+      return res.status(409).json({ success: false, error: 'Receipts are issued once the donation is completed' });
+    }
+
+    const receipt = await issueDonationReceipt(donation);
+    const pdf = await buildReceiptPdf(receipt);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="kuitansi-${receipt.receipt_number}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Get donation receipt error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Update donation status (Admin/Imam/Pengurus only)
+// Completing a donation issues its receipt; moving it away from completed voids it
 router.put('/:id/status', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -335,6 +601,16 @@ router.put('/:id/status', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pe
       updateData.admin_notes = notes.trim();
     }
 
+    const { data: existing } = await supabaseAdmin
+      .from('donations')
+      .select('status')
+      .eq('id', id)
+      .single();
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Donation not found' });
+    }
+
     const { data: donation, error } = await supabaseAdmin
       .from('donations')
       .update(updateData)
@@ -346,6 +622,18 @@ router.put('/:id/status', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pe
       return res.status(400).json({ success: false, error: error.message });
     }
 
+    let voidedReceipts: string[] = [];
+    if (existing.status === 'Completed' && status !== 'Completed') {
+      voidedReceipts = await voidDonationReceipts(donation, notes?.trim() || `Donation status changed to ${status}`);
+    } else if (status === 'Completed') {
+      try {
+        await issueDonationReceipt(donation);
+      } catch (receiptError) {
+        // The receipt is issued on download instead
+        console.error('Issue donation receipt error:', receiptError);
+      }
+    }
+
     // Log status update
     await supabaseAdmin
       .from('audit_logs')
@@ -355,9 +643,10 @@ router.put('/:id/status', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pe
         resource_type: 'DONATION',
         resource_id: donation.id,
         details: {
-          old_status: 'previous_status', // You might want to fetch this
+          old_status: existing.status,
           new_status: status,
-          notes
+          notes,
+          voided_receipts: voidedReceipts
         }
       });
 
@@ -369,67 +658,56 @@ router.put('/:id/status', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pe
 });
 
 // Payment callback (webhook from payment gateway)
-router.post('/callback', async (req: Request, res: Response) => {
+// Signed with PAYMENT_GATEWAY_SECRET; /callback/:provider for gateways other than PAYMENT_PROVIDER
+router.post(['/callback', '/callback/:provider'], async (req: Request, res: Response) => {
   try {
-    const { reference, status, transaction_id, amount } = req.body;
+    const rawBody = req.rawBody || Buffer.from(JSON.stringify(req.body || {}));
+    const outcome = await processPaymentCallback(req.params.provider, rawBody, req.headers);
 
-    // Verify the callback (implement signature verification in production)
-    // const isValid = verifyPaymentSignature(req.body, req.headers);
-    // if (!isValid) {
-    //   return res.status(400).json({ success: false, error: 'Invalid signature' });
-    // }
-
-    // Find donation by reference
-    const { data: donation, error: findError } = await supabaseAdmin
-      .from('donations')
-      .select('*')
-      .eq('reference_number', reference)
-      .single();
+    res.status(outcome.status).json(outcome.body);
+  } catch (error) {
+    console.error('Payment callback error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
 
-    if (findError || !donation) {
-      return res.status(404).json({ success: false, error: 'Donation not found' });
+// Settle a payment through the mock gateway (development only)
+// Sends a signed callback for the reference, paid in full unless amount or status say otherwise
+router.post('/mock-gateway/pay', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (process.env.NODE_ENV === 'production' || getPaymentProvider().name !== 'mock') {
+      return res.status(404).json({ success: false, error: 'Mock gateway is not enabled' });
     }
 
-    // Update donation status
-    const updateData: any = {
-      status: status === 'success' ? 'Completed' : 'Failed',
-      transaction_id,
-      updated_at: new Date().toISOString()
-    };
-
-    if (status === 'success') {
-      updateData.completed_at = new Date().toISOString();
+    if (!process.env.PAYMENT_GATEWAY_SECRET) {
+      return res.status(503).json({ success: false, error: 'Set PAYMENT_GATEWAY_SECRET to sign mock payments' });
     }
 
-    const { error: updateError } = await supabaseAdmin
+    const { reference, amount, status = 'paid', transaction_id } = req.body;
+
+    const { data: donation } = await supabaseAdmin
       .from('donations')
-      .update(updateData)
-      .eq('id', donation.id);
+      .select('amount, provider_reference')
+      .eq('reference_number', reference)
+      .single();
 
-    if (updateError) {
-      console.error('Update donation error:', updateError);
-      return res.status(500).json({ success: false, error: 'Update failed' });
+    if (!donation) {
+      return res.status(404).json({ success: false, error: 'Donation not found' });
     }
 
-    // Log payment callback
-    await supabaseAdmin
-      .from('audit_logs')
-      .insert({
-        user_id: donation.donor_id,
-        action: 'PAYMENT_CALLBACK',
-        resource_type: 'DONATION',
-        resource_id: donation.id,
-        details: {
-          reference,
-          status,
-          transaction_id,
-          amount
-        }
-      });
+    const { rawBody, headers } = signMockCallback({
+      reference: String(reference),
+      status: status as PaymentStatus,
+      amount: amount !== undefined ? Number(amount) : Number(donation.amount),
+      // Reuse a transaction_id to replay a callback
+      transaction_id: transaction_id ? String(transaction_id) : `${donation.provider_reference}-${crypto.randomBytes(3).toString('hex')}`,
+      paid_at: new Date().toISOString()
+    });
+    const outcome = await processPaymentCallback('mock', rawBody, headers);
 
-    res.json({ success: true, message: 'Payment processed' });
+    res.status(outcome.status).json(outcome.body);
   } catch (error) {
-    console.error('Payment callback error:', error);
+    console.error('Mock gateway payment error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
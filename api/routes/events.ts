@@ -2,119 +2,1247 @@
  * Events API routes
  */
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
 import { supabaseAdmin } from '../lib/supabase.js';
+import { getMosqueSettings, getMosqueToday, listDates, MosqueSettings } from '../lib/prayerSchedule.js';
+import { getLocalDate, toUtcDate } from '../lib/prayerTimes.js';
+import { toHijri, shiftDate } from '../lib/hijri.js';
+import {
+  parseRecurrence,
+  isRecurring,
+  describeRecurrence,
+  expandOccurrences,
+  findOccurrence,
+  EventOccurrence,
+  RecurringEvent,
+  MAX_OCCURRENCE_RANGE_DAYS
+} from '../lib/eventOccurrences.js';
+import {
+  SPOT_STATUSES,
+  registerForSlot,
+  getWaitlistPosition,
+  loadWaitlistSlot,
+  promoteWaitlist,
+  promoteEventWaitlists
+} from '../lib/eventWaitlist.js';
+import {
+  createTicketToken,
+  parseTicketToken,
+  ticketQrCode,
+  summarizeAttendance
+} from '../lib/eventAttendance.js';
+import { buildCalendar, ICalCalendar } from '../lib/ical.js';
+import {
+  toICalEvent,
+  generateCalendarToken,
+  CalendarEvent,
+  EVENT_TYPE_LABELS
+} from '../lib/eventCalendar.js';
+import { resolveEventSpeaker } from '../lib/speakers.js';
+import { findEventBookingConflicts } from '../lib/facilityBookings.js';
 
 const router = Router();
 
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Occurrences listed when no end date is given
+const DEFAULT_OCCURRENCE_DAYS = 90;
+const MAX_UPCOMING_OCCURRENCES = 10;
+
+const EVENT_TYPES = ['kajian', 'jumat', 'pengajian'];
+
+// Calendar feeds keep recent events (so cancellations reach subscribers) and the months ahead
+const CALENDAR_PAST_DAYS = 30;
+const CALENDAR_FUTURE_DAYS = 180;
+
+// Hijri date of the event day in the mosque timezone
+const getEventHijriDate = (eventDatetime: string, settings: MosqueSettings) => {
+  return toHijri(getLocalDate(settings.timezone, new Date(eventDatetime)), settings.hijri_offset).formatted;
+};
+
+// A recurring event as seen on one of its dates
+const toOccurrenceItem = <T extends RecurringEvent>(event: T, occurrence: EventOccurrence) => ({
+  ...event,
+  event_datetime: occurrence.starts_at,
+  speaker: occurrence.speaker,
+  speaker_id: occurrence.speaker_id,
+  location: occurrence.location,
+  capacity: occurrence.capacity,
+  occurrence_date: occurrence.occurrence_date,
+  occurrence_notes: occurrence.notes,
+  is_cancelled: occurrence.is_cancelled,
+  is_recurring: true,
+  recurrence_description: describeRecurrence(event)
+});
+
+// Validate a from/to local date range; to defaults to DEFAULT_OCCURRENCE_DAYS after from
+const parseDateRange = (from: unknown, to: unknown, today: string): { start: string; end: string; error?: string } => {
+  const start = from ? String(from) : today;
+  const end = to ? String(to) : shiftDate(start, DEFAULT_OCCURRENCE_DAYS);
+
+  if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end)) {
+    return { start, end, error: 'from and to must be dates (YYYY-MM-DD)' };
+  }
+  if (end < start || listDates(start, end).length > MAX_OCCURRENCE_RANGE_DAYS) {
+    return { start, end, error: `Date range must be between 1 and ${MAX_OCCURRENCE_RANGE_DAYS} days` };
+  }
+
+  return { start, end };
+};
+
+// Send an iCalendar document; downloads are attachments, feeds are served inline
+const sendCalendar = (res: Response, calendar: ICalCalendar, filename?: string) => {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', filename ? `attachment; filename="${filename}.ics"` : 'inline');
+  res.send(buildCalendar(calendar));
+};
+
+// Public URL of a member's private calendar feed
+const calendarFeedUrl = (req: Request, token: string) =>
+  `${process.env.API_URL || `${req.protocol}://${req.get('host')}`}/api/events/calendar/users/${token}.ics`;
+
+// Ticket for a confirmed registration, with its QR code
+const presentTicket = async (
+  registration: { id: string; event_id: string; occurrence_date: string | null; status: string; checked_in_at: string | null },
+  event: { title: string },
+  startsAt: string,
+  location: string
+) => {
+  const token = createTicketToken(registration.id);
+  return {
+    registration_id: registration.id,
+    event_id: registration.event_id,
+    occurrence_date: registration.occurrence_date,
+    title: event.title,
+    starts_at: startsAt,
+    location,
+    status: registration.status,
+    checked_in_at: registration.checked_in_at,
+    token,
+    qr_code: await ticketQrCode(token)
+  };
+};
+
+// Spots taken and waitlist length per event, keyed by "eventId:date". With a
+// range the counts are per occurrence of recurring events; without one they
+// are for one-off events.
+const countRegistrations = async (eventIds: string[], range?: { start: string; end: string }) => {
+  const counts = new Map<string, { registration_count: number; waitlist_count: number }>();
+  if (eventIds.length === 0) return counts;
+
+  let query = supabaseAdmin
+    .from('event_registrations')
+    .select('event_id, occurrence_date, status')
+    .in('event_id', eventIds)
+    .neq('status', 'cancelled');
+  query = range
+    ? query.gte('occurrence_date', range.start).lte('occurrence_date', range.end)
+    : query.is('occurrence_date', null);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  for (const registration of data || []) {
+    const key = `${registration.event_id}:${registration.occurrence_date || ''}`;
+    const count = counts.get(key) || { registration_count: 0, waitlist_count: 0 };
+    if (registration.status === 'waitlisted') {
+      count.waitlist_count++;
+    } else if (SPOT_STATUSES.includes(registration.status)) {
+      count.registration_count++;
+    }
+    counts.set(key, count);
+  }
+  return counts;
+};
+
+const NO_REGISTRATIONS = { registration_count: 0, waitlist_count: 0 };
+
+// waitlist_confirmation_hours is 1 to 168 hours, or null for the server default
+const isValidConfirmationHours = (value: unknown) =>
+  value === null || (Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 168);
+
+// Offer spots opened by a change; failures are logged rather than failing the change
+const fillOpenSpots = async (eventId: string, occurrenceDate: string | null) => {
+  try {
+    const slot = await loadWaitlistSlot(eventId, occurrenceDate);
+    if (slot) await promoteWaitlist(slot);
+  } catch (error) {
+    console.error('Waitlist promotion error:', error);
+  }
+};
+
+// Spots taken and waitlist length from a list of registrations
+const summarizeRegistrations = (registrations: { status: string }[]) => ({
+  registration_count: registrations.filter(r => SPOT_STATUSES.includes(r.status)).length,
+  waitlist_count: registrations.filter(r => r.status === 'waitlisted').length
+});
+
 // Get events (public with optional auth for registration status)
+// Recurring events are listed once per occurrence between from and to
 router.get('/', optionalAuth, async (req: Request, res: Response) => {
   try {
-    const { type, status, upcoming, limit = 20, offset = 0 } = req.query;
-    
+    const { type, upcoming, from, to, limit = 20, offset = 0 } = req.query;
+    const settings = await getMosqueSettings();
+
+    const range = parseDateRange(from, to, getMosqueToday(settings));
+    if (range.error) {
+      return res.status(400).json({ success: false, error: range.error });
+    }
+
+    const pageStart = Number(offset);
+    const pageEnd = Number(offset) + Number(limit);
+    const now = new Date().toISOString();
+    const rangeEndUtc = toUtcDate(shiftDate(range.end, 1), '00:00', settings.timezone).toISOString();
+
+    let query = supabaseAdmin
+      .from('events')
+      .select('*')
+      .is('recurrence_rule', null)
+      .order('event_datetime', { ascending: true });
+
+    let seriesQuery = supabaseAdmin
+      .from('events')
+      .select('*')
+      .not('recurrence_rule', 'is', null)
+      .lt('event_datetime', rangeEndUtc);
+
+    // Filter by event type
+    if (type) {
+      query = query.eq('type', type);
+      seriesQuery = seriesQuery.eq('type', type);
+    }
+
+    // Filter upcoming events
+    if (upcoming === 'true') {
+      query = query.gte('event_datetime', now);
+    }
+
+    // An explicit range also applies to one-off events
+    if (from) {
+      query = query.gte('event_datetime', toUtcDate(range.start, '00:00', settings.timezone).toISOString());
+    }
+    if (to) {
+      query = query.lt('event_datetime', rangeEndUtc);
+    }
+
+    // Pagination: the page can hold at most offset + limit one-off events
+    query = query.range(0, pageEnd - 1);
+
+    const [{ data: events, error }, { data: series, error: seriesError }] = await Promise.all([query, seriesQuery]);
+
+    if (error || seriesError) {
+      return res.status(400).json({ success: false, error: (error || seriesError)?.message });
+    }
+
+    const occurrences = await expandOccurrences(series || [], range.start, range.end, settings);
+
+    const oneOffItems = (events || []).map(event => ({
+      ...event,
+      occurrence_date: null as string | null,
+      is_recurring: false
+    }));
+    const occurrenceItems = (series || []).flatMap(event => (occurrences.get(event.id) || [])
+      .filter(occurrence => upcoming !== 'true' || occurrence.starts_at >= now)
+      .map(occurrence => toOccurrenceItem(event, occurrence)));
+
+    const page = [...oneOffItems, ...occurrenceItems]
+      .sort((a, b) => Date.parse(a.event_datetime) - Date.parse(b.event_datetime))
+      .slice(pageStart, pageEnd);
+
+    // Registration counts of the events and occurrences on this page
+    const pageOccurrences = page.filter(item => item.occurrence_date);
+    const occurrenceDates = pageOccurrences.map(item => item.occurrence_date as string).sort();
+    const [oneOffCounts, occurrenceCounts] = await Promise.all([
+      countRegistrations(page.filter(item => !item.occurrence_date).map(item => item.id)),
+      countRegistrations(
+        [...new Set(pageOccurrences.map(item => item.id))],
+        { start: occurrenceDates[0], end: occurrenceDates[occurrenceDates.length - 1] }
+      )
+    ]);
+
+    // If user is authenticated, check their registration status
+    let registrations: { event_id: string; occurrence_date: string | null; status: string }[] = [];
+    if (req.user?.id && page.length > 0) {
+      const { data } = await supabaseAdmin
+        .from('event_registrations')
+        .select('event_id, occurrence_date, status')
+        .eq('user_id', req.user.id)
+        .in('event_id', [...new Set(page.map(item => item.id))]);
+      registrations = data || [];
+    }
+
+    const eventsWithRegistration = page.map(item => ({
+      ...item,
+      ...((item.occurrence_date ? occurrenceCounts : oneOffCounts).get(`${item.id}:${item.occurrence_date || ''}`) || NO_REGISTRATIONS),
+      hijri_date: getEventHijriDate(item.event_datetime, settings),
+      ...(req.user?.id && {
+        user_registration: registrations.find(r =>
+          r.event_id === item.id && (r.occurrence_date || null) === item.occurrence_date
+        ) || null
+      })
+    }));
+
+    res.json({ success: true, data: eventsWithRegistration });
+  } catch (error) {
+    console.error('Get events error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Subscribable calendar of events (public), e.g. /calendar.ics?type=kajian,jumat
+router.get('/calendar.ics', async (req: Request, res: Response) => {
+  try {
+    const types = req.query.type ? String(req.query.type).split(',').map(type => type.trim()) : [];
+
+    const invalidType = types.find(type => !EVENT_TYPES.includes(type));
+    if (invalidType) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid type: ${invalidType}. Must be one of: ${EVENT_TYPES.join(', ')}`
+      });
+    }
+
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+    const start = shiftDate(today, -CALENDAR_PAST_DAYS);
+    const end = shiftDate(today, CALENDAR_FUTURE_DAYS);
+    const endUtc = toUtcDate(shiftDate(end, 1), '00:00', settings.timezone).toISOString();
+
+    let query = supabaseAdmin
+      .from('events')
+      .select('*')
+      .is('recurrence_rule', null)
+      .gte('event_datetime', toUtcDate(start, '00:00', settings.timezone).toISOString())
+      .lt('event_datetime', endUtc);
+
+    let seriesQuery = supabaseAdmin
+      .from('events')
+      .select('*')
+      .not('recurrence_rule', 'is', null)
+      .lt('event_datetime', endUtc);
+
+    if (types.length > 0) {
+      query = query.in('type', types);
+      seriesQuery = seriesQuery.in('type', types);
+    }
+
+    const [{ data: events, error }, { data: series, error: seriesError }] = await Promise.all([query, seriesQuery]);
+
+    if (error || seriesError) {
+      return res.status(400).json({ success: false, error: (error || seriesError)?.message });
+    }
+
+    const occurrences = await expandOccurrences(series || [], start, end, settings, { includeCancelled: true });
+    const label = types.length > 0 ? types.map(type => EVENT_TYPE_LABELS[type]).join(', ') : 'Kegiatan';
+
+    sendCalendar(res, {
+      name: `${label} ${settings.name}`,
+      timezone: settings.timezone,
+      refreshMinutes: 60,
+      events: [
+        ...(events || []).map((event: CalendarEvent) => toICalEvent(event)),
+        ...(series || []).flatMap((event: CalendarEvent) =>
+          (occurrences.get(event.id) || []).map(occurrence => toICalEvent(event, occurrence))
+        )
+      ]
+    });
+  } catch (error) {
+    console.error('Get events calendar error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get my private calendar feed URL, creating its token on first use (authenticated users)
+router.get('/calendar/token', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id as string;
+
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('calendar_token')
+      .eq('id', userId)
+      .single();
+
+    if (error || !user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    let token = user.calendar_token;
+    if (!token) {
+      // Only the first concurrent request sets the token; the others read it back
+      await supabaseAdmin
+        .from('users')
+        .update({ calendar_token: generateCalendarToken() })
+        .eq('id', userId)
+        .is('calendar_token', null);
+
+      const { data: updated } = await supabaseAdmin
+        .from('users')
+        .select('calendar_token')
+        .eq('id', userId)
+        .single();
+      token = updated?.calendar_token;
+    }
+
+    res.set('Cache-Control', 'private, no-store');
+    res.json({ success: true, data: { url: calendarFeedUrl(req, token) } });
+  } catch (error) {
+    console.error('Get calendar token error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Replace my private calendar feed URL; the old URL stops working (authenticated users)
+router.post('/calendar/token', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const token = generateCalendarToken();
+
+    const { error } = await supabaseAdmin
+      .from('users')
+      .update({ calendar_token: token })
+      .eq('id', req.user?.id as string);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log rotation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'CALENDAR_TOKEN',
+        resource_id: req.user?.id,
+        details: { action: 'rotated' }
+      });
+
+    res.set('Cache-Control', 'private, no-store');
+    res.json({ success: true, data: { url: calendarFeedUrl(req, token) } });
+  } catch (error) {
+    console.error('Rotate calendar token error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Private calendar of the events a member registered for (authenticated by the URL token)
+router.get('/calendar/users/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('id, display_name')
+      .eq('calendar_token', token)
+      .single();
+
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'Calendar not found' });
+    }
+
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+    const start = shiftDate(today, -CALENDAR_PAST_DAYS);
+
+    const { data: registrations, error } = await supabaseAdmin
+      .from('event_registrations')
+      .select('event_id, occurrence_date, status, events(*)')
+      .eq('user_id', user.id)
+      .neq('status', 'cancelled');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const rows = (registrations || []).map(registration => ({
+      ...registration,
+      event: registration.events as unknown as CalendarEvent | null
+    }));
+
+    // Occurrences of recurring events are expanded in one pass
+    const recurringRows = rows.filter(row => row.event && row.occurrence_date && row.occurrence_date >= start);
+    const dates = recurringRows.map(row => row.occurrence_date as string).sort();
+    const seriesEvents = [...new Map(recurringRows.map(row => [row.event_id, row.event as CalendarEvent])).values()];
+    const occurrences = dates.length > 0
+      ? await expandOccurrences(seriesEvents, dates[0], dates[dates.length - 1], settings, { includeCancelled: true })
+      : new Map<string, EventOccurrence[]>();
+
+    const startUtc = toUtcDate(start, '00:00', settings.timezone).getTime();
+    const events = rows.flatMap(row => {
+      if (!row.event) return [];
+      // A place on the waitlist is not a confirmed spot yet
+      const options = { tentative: ['waitlisted', 'offered'].includes(row.status) };
+
+      if (!row.occurrence_date) {
+        return Date.parse(row.event.event_datetime) >= startUtc ? [toICalEvent(row.event, null, options)] : [];
+      }
+
+      const occurrence = (occurrences.get(row.event_id) || []).find(item => item.occurrence_date === row.occurrence_date);
+      return occurrence ? [toICalEvent(row.event, occurrence, options)] : [];
+    });
+
+    res.set('Cache-Control', 'private');
+    sendCalendar(res, {
+      name: `Kegiatan Saya - ${settings.name}`,
+      timezone: settings.timezone,
+      refreshMinutes: 60,
+      events
+    });
+  } catch (error) {
+    console.error('Get user calendar error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get my tickets for upcoming events (authenticated users)
+router.get('/tickets', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+
+    const { data: registrations, error } = await supabaseAdmin
+      .from('event_registrations')
+      .select('id, event_id, occurrence_date, status, checked_in_at, events(*)')
+      .eq('user_id', req.user?.id as string)
+      .in('status', ['registered', 'attended']);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const tickets = [];
+    for (const registration of registrations || []) {
+      const event = registration.events as unknown as RecurringEvent & { title: string } | null;
+      if (!event) continue;
+
+      let startsAt = event.event_datetime;
+      let location = event.location;
+      if (registration.occurrence_date) {
+        if (registration.occurrence_date < today) continue;
+        const occurrence = await findOccurrence(event, registration.occurrence_date, settings);
+        if (!occurrence || occurrence.is_cancelled) continue;
+        startsAt = occurrence.starts_at;
+        location = occurrence.location;
+      } else if (getLocalDate(settings.timezone, new Date(event.event_datetime)) < today) {
+        continue;
+      }
+
+      tickets.push(await presentTicket(registration, event, startsAt, location));
+    }
+
+    tickets.sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at));
+
+    res.set('Cache-Control', 'private');
+    res.json({ success: true, data: tickets });
+  } catch (error) {
+    console.error('Get tickets error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a member's attendance history (the member themselves or Admin/Imam/Pengurus)
+router.get('/attendance/members/:userId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { limit = 50, offset = 0 } = req.query;
+
+    if (req.user?.id !== userId && !STAFF_ROLES.includes(req.user?.role as string)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+
+    const { data: registrations, error } = await supabaseAdmin
+      .from('event_registrations')
+      .select('id, event_id, occurrence_date, status, registered_at, checked_in_at, check_in_method, events(id, title, type, event_datetime, location)')
+      .eq('user_id', userId)
+      .order('registered_at', { ascending: false });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const history = (registrations || []).map(registration => {
+      const event = registration.events as unknown as { event_datetime: string } | null;
+      const eventDate = registration.occurrence_date
+        || (event ? getLocalDate(settings.timezone, new Date(event.event_datetime)) : today);
+      return { ...registration, event_date: eventDate, is_past: eventDate < today };
+    });
+
+    // Only past events can be missed
+    const past = history.filter(item => item.is_past);
+
+    res.json({
+      success: true,
+      data: {
+        user_id: userId,
+        summary: {
+          ...summarizeAttendance(past, true),
+          upcoming: history.filter(item => !item.is_past && ['registered', 'offered'].includes(item.status)).length
+        },
+        history: history.slice(Number(offset), Number(offset) + Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Get member attendance error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get single event
+// For a recurring event, ?date= returns that occurrence; otherwise the series
+// is returned with its upcoming occurrences
+router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const date = req.query.date ? String(req.query.date) : null;
+
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ success: false, error: 'date must be a date (YYYY-MM-DD)' });
+    }
+
+    const { data: event, error } = await supabaseAdmin
+      .from('events')
+      .select(`
+        *,
+        event_registrations(
+          id,
+          user_id,
+          status,
+          occurrence_date,
+          registered_at,
+          users!event_registrations_user_id_fkey(
+            display_name,
+            avatar_url
+          )
+        )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    const settings = await getMosqueSettings();
+
+    if (isRecurring(event) && date) {
+      const occurrence = await findOccurrence(event, date, settings);
+      if (!occurrence) {
+        return res.status(404).json({ success: false, error: 'Occurrence not found' });
+      }
+
+      const registrations = (event.event_registrations || []).filter(
+        (r: { occurrence_date: string | null }) => r.occurrence_date === date
+      );
+
+      return res.json({
+        success: true,
+        data: {
+          ...toOccurrenceItem(event, occurrence),
+          event_registrations: registrations,
+          hijri_date: getEventHijriDate(occurrence.starts_at, settings),
+          user_registration: registrations.find((r: { user_id: string }) => r.user_id === req.user?.id) || null,
+          ...summarizeRegistrations(registrations)
+        }
+      });
+    }
+
+    // Check user registration status if authenticated
+    let userRegistration = null;
+    if (req.user?.id && !isRecurring(event)) {
+      const registration = event.event_registrations?.find(
+        (r: any) => r.user_id === req.user?.id
+      );
+      userRegistration = registration || null;
+    }
+
+    let upcomingOccurrences: EventOccurrence[] | undefined;
+    if (isRecurring(event)) {
+      const today = getMosqueToday(settings);
+      const occurrences = await expandOccurrences([event], today, shiftDate(today, DEFAULT_OCCURRENCE_DAYS), settings);
+      upcomingOccurrences = (occurrences.get(event.id) || []).slice(0, MAX_UPCOMING_OCCURRENCES);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...event,
+        hijri_date: getEventHijriDate(event.event_datetime, settings),
+        user_registration: userRegistration,
+        ...summarizeRegistrations(event.event_registrations || []),
+        is_recurring: isRecurring(event),
+        ...(upcomingOccurrences && {
+          recurrence_description: describeRecurrence(event),
+          upcoming_occurrences: upcomingOccurrences
+        })
+      }
+    });
+  } catch (error) {
+    console.error('Get event error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get occurrences of a recurring event (public), including cancelled ones
+router.get('/:id/occurrences', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const settings = await getMosqueSettings();
+
+    const range = parseDateRange(req.query.from, req.query.to, getMosqueToday(settings));
+    if (range.error) {
+      return res.status(400).json({ success: false, error: range.error });
+    }
+
+    const { data: event, error } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    if (!isRecurring(event)) {
+      return res.status(400).json({ success: false, error: 'Event is not recurring' });
+    }
+
+    const occurrences = await expandOccurrences([event], range.start, range.end, settings, { includeCancelled: true });
+    const counts = await countRegistrations([event.id], range);
+
+    res.json({
+      success: true,
+      data: {
+        event_id: event.id,
+        recurrence_rule: event.recurrence_rule,
+        recurrence_description: describeRecurrence(event),
+        from: range.start,
+        to: range.end,
+        occurrences: (occurrences.get(event.id) || []).map(occurrence => ({
+          ...occurrence,
+          hijri_date: getEventHijriDate(occurrence.starts_at, settings),
+          ...(counts.get(`${event.id}:${occurrence.occurrence_date}`) || NO_REGISTRATIONS)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get event occurrences error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Override or cancel one occurrence of a recurring event (Admin/Imam/Pengurus only)
+router.put('/:id/occurrences/:date', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id, date } = req.params;
+    const { is_cancelled, starts_at, location, capacity, notes } = req.body;
+
+    if (!DATE_PATTERN.test(date)) {
+      return res.status(400).json({ success: false, error: 'date must be a date (YYYY-MM-DD)' });
+    }
+
+    if (starts_at && Number.isNaN(Date.parse(starts_at))) {
+      return res.status(400).json({ success: false, error: 'starts_at must be a valid date and time' });
+    }
+
+    if (capacity !== undefined && capacity !== null && (!Number.isInteger(Number(capacity)) || Number(capacity) < 1)) {
+      return res.status(400).json({ success: false, error: 'capacity must be a positive whole number' });
+    }
+
+    const { data: event, error: eventError } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (eventError || !event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    if (!isRecurring(event)) {
+      return res.status(400).json({ success: false, error: 'Event is not recurring' });
+    }
+
+    if (!await findOccurrence(event, date)) {
+      return res.status(404).json({ success: false, error: 'Occurrence not found' });
+    }
+
+    const { fields: speakerFields, error: speakerError } = await resolveEventSpeaker(req.body);
+    if (speakerError) {
+      return res.status(400).json({ success: false, error: speakerError });
+    }
+
+    const { data: override, error } = await supabaseAdmin
+      .from('event_occurrence_overrides')
+      .upsert({
+        event_id: id,
+        occurrence_date: date,
+        is_cancelled: Boolean(is_cancelled),
+        starts_at: starts_at ? new Date(starts_at).toISOString() : null,
+        speaker: speakerFields.speaker || null,
+        speaker_id: speakerFields.speaker_id || null,
+        location: location?.trim() || null,
+        capacity: capacity ? Number(capacity) : null,
+        notes: notes?.trim() || null,
+        created_by: req.user?.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'event_id,occurrence_date' })
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log override
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: is_cancelled ? 'CANCEL' : 'UPDATE',
+        resource_type: 'EVENT_OCCURRENCE',
+        resource_id: id,
+        details: { occurrence_date: date, updated_fields: Object.keys(req.body) }
+      });
+
+    if (!override.is_cancelled) {
+      await fillOpenSpots(id, date);
+    }
+
+    res.json({ success: true, data: override });
+  } catch (error) {
+    console.error('Update event occurrence error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Restore an occurrence to the series defaults (Admin/Imam/Pengurus only)
+router.delete('/:id/occurrences/:date', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id, date } = req.params;
+
+    if (!DATE_PATTERN.test(date)) {
+      return res.status(400).json({ success: false, error: 'date must be a date (YYYY-MM-DD)' });
+    }
+
+    const { data: removed, error } = await supabaseAdmin
+      .from('event_occurrence_overrides')
+      .delete()
+      .eq('event_id', id)
+      .eq('occurrence_date', date)
+      .select('id');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'Occurrence override not found' });
+    }
+
+    // Log restore
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'EVENT_OCCURRENCE',
+        resource_id: id,
+        details: { occurrence_date: date }
+      });
+
+    await fillOpenSpots(id, date);
+
+    res.json({ success: true, message: 'Occurrence restored successfully' });
+  } catch (error) {
+    console.error('Restore event occurrence error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Download an event as .ics (public)
+// Recurring events give one occurrence with ?date=, or their upcoming occurrences
+router.get('/:id/calendar.ics', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const date = req.query.date ? String(req.query.date) : null;
+
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ success: false, error: 'date must be a date (YYYY-MM-DD)' });
+    }
+
+    const { data: event, error } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    const settings = await getMosqueSettings();
+    let occurrences: EventOccurrence[] | null = null;
+
+    if (isRecurring(event)) {
+      if (date) {
+        const occurrence = await findOccurrence(event, date, settings);
+        if (!occurrence) {
+          return res.status(404).json({ success: false, error: 'Occurrence not found' });
+        }
+        occurrences = [occurrence];
+      } else {
+        const today = getMosqueToday(settings);
+        const expanded = await expandOccurrences([event], today, shiftDate(today, CALENDAR_FUTURE_DAYS), settings, { includeCancelled: true });
+        occurrences = expanded.get(event.id) || [];
+      }
+    }
+
+    const slug = String(event.title).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'kegiatan';
+
+    sendCalendar(res, {
+      name: event.title,
+      timezone: settings.timezone,
+      events: occurrences
+        ? occurrences.map(occurrence => toICalEvent(event, occurrence))
+        : [toICalEvent(event)]
+    }, `${slug}${date ? `-${date}` : ''}`);
+  } catch (error) {
+    console.error('Download event calendar error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get my ticket for an event or occurrence (authenticated users)
+router.get('/:id/ticket', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const date = req.query.date ? String(req.query.date) : null;
+
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ success: false, error: 'date must be a date (YYYY-MM-DD)' });
+    }
+
+    const { data: event, error: eventError } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (eventError || !event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
     let query = supabaseAdmin
+      .from('event_registrations')
+      .select('id, event_id, occurrence_date, status, checked_in_at')
+      .eq('event_id', id)
+      .eq('user_id', req.user?.id as string);
+    query = date ? query.eq('occurrence_date', date) : query.is('occurrence_date', null);
+
+    const { data: registration } = await query.single();
+
+    if (!registration) {
+      return res.status(404).json({ success: false, error: 'Registration not found' });
+    }
+
+    if (!['registered', 'attended'].includes(registration.status)) {
+      return res.status(400).json({ success: false, error: 'Only confirmed registrations have a ticket' });
+    }
+
+    let startsAt = event.event_datetime;
+    let location = event.location;
+    if (date) {
+      const occurrence = await findOccurrence(event, date);
+      if (occurrence) {
+        startsAt = occurrence.starts_at;
+        location = occurrence.location;
+      }
+    }
+
+    res.set('Cache-Control', 'private');
+    res.json({ success: true, data: await presentTicket(registration, event, startsAt, location) });
+  } catch (error) {
+    console.error('Get ticket error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Check in an attendee by ticket, or a walk-in (Admin/Imam/Pengurus only)
+// Walk-ins are members ({ walk_in: { user_id } }) or guests ({ walk_in: { name } })
+router.post('/:id/check-in', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { ticket, walk_in, occurrence_date } = req.body;
+    const now = new Date().toISOString();
+
+    if (!ticket && !walk_in) {
+      return res.status(400).json({ success: false, error: 'Provide a ticket or walk_in attendee' });
+    }
+
+    if (occurrence_date && !DATE_PATTERN.test(String(occurrence_date))) {
+      return res.status(400).json({ success: false, error: 'occurrence_date must be a date (YYYY-MM-DD)' });
+    }
+
+    const { data: event, error: eventError } = await supabaseAdmin
       .from('events')
-      .select(`
-        *,
-        event_registrations(count)
-      `)
-      .order('event_datetime', { ascending: true });
+      .select('*')
+      .eq('id', id)
+      .single();
 
-    // Filter by event type
-    if (type) {
-      query = query.eq('type', type);
+    if (eventError || !event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
     }
 
-    // Filter upcoming events
-    if (upcoming === 'true') {
-      const now = new Date().toISOString();
-      query = query.gte('event_datetime', now);
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+
+    if (ticket) {
+      const registrationId = parseTicketToken(String(ticket));
+      if (!registrationId) {
+        return res.status(400).json({ success: false, error: 'Invalid ticket' });
+      }
+
+      const { data: registration } = await supabaseAdmin
+        .from('event_registrations')
+        .select('id, event_id, user_id, occurrence_date, status, checked_in_at, users!event_registrations_user_id_fkey(display_name, avatar_url)')
+        .eq('id', registrationId)
+        .single();
+
+      if (!registration) {
+        return res.status(404).json({ success: false, error: 'Registration not found' });
+      }
+
+      if (registration.event_id !== id) {
+        return res.status(400).json({ success: false, error: 'Ticket is for a different event' });
+      }
+
+      // Tickets are only valid on the day of the event or occurrence
+      const eventDate = registration.occurrence_date || getLocalDate(settings.timezone, new Date(event.event_datetime));
+      if (eventDate !== today) {
+        return res.status(400).json({ success: false, error: `Ticket is for ${eventDate}`, data: registration });
+      }
+
+      if (registration.status === 'attended') {
+        return res.status(409).json({ success: false, error: 'Already checked in', data: registration });
+      }
+
+      if (registration.status !== 'registered') {
+        return res.status(400).json({ success: false, error: 'Registration is not confirmed', data: registration });
+      }
+
+      // Only one scan can mark the registration
+      const { data: checkedIn, error } = await supabaseAdmin
+        .from('event_registrations')
+        .update({ status: 'attended', checked_in_at: now, checked_in_by: req.user?.id, check_in_method: 'ticket' })
+        .eq('id', registration.id)
+        .eq('status', 'registered')
+        .select('id, event_id, user_id, occurrence_date, status, checked_in_at, check_in_method, users!event_registrations_user_id_fkey(display_name, avatar_url)');
+
+      if (error) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      if (!checkedIn || checkedIn.length === 0) {
+        return res.status(409).json({ success: false, error: 'Already checked in', data: registration });
+      }
+
+      // Log check-in
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: req.user?.id,
+          action: 'CHECK_IN',
+          resource_type: 'EVENT_REGISTRATION',
+          resource_id: registration.id,
+          details: { event_id: id, occurrence_date: registration.occurrence_date, method: 'ticket' }
+        });
+
+      return res.json({ success: true, data: checkedIn[0] });
     }
 
-    // Pagination
-    query = query.range(Number(offset), Number(offset) + Number(limit) - 1);
+    // Walk-in: recurring events check in to an occurrence, today's by default
+    const userId = walk_in.user_id ? String(walk_in.user_id) : null;
+    const name = typeof walk_in.name === 'string' ? walk_in.name.trim() : '';
 
-    const { data: events, error } = await query;
+    if (!userId && !name) {
+      return res.status(400).json({ success: false, error: 'walk_in needs a user_id or name' });
+    }
 
-    if (error) {
-      return res.status(400).json({ success: false, error: error.message });
+    let occurrenceDate: string | null = null;
+    if (isRecurring(event)) {
+      occurrenceDate = occurrence_date ? String(occurrence_date) : today;
+      const occurrence = await findOccurrence(event, occurrenceDate, settings);
+      if (!occurrence || occurrence.is_cancelled) {
+        return res.status(404).json({ success: false, error: 'Occurrence not found' });
+      }
     }
 
-    // If user is authenticated, check their registration status
-    let eventsWithRegistration = events;
-    if (req.user?.id) {
-      const eventIds = events?.map(e => e.id) || [];
-      const { data: registrations } = await supabaseAdmin
+    let checkedIn;
+    if (userId) {
+      // A member who registered but has no ticket with them is checked in manually
+      let existingQuery = supabaseAdmin
         .from('event_registrations')
-        .select('event_id, status')
-        .eq('user_id', req.user.id)
-        .in('event_id', eventIds);
+        .select('id, status')
+        .eq('event_id', id)
+        .eq('user_id', userId);
+      existingQuery = occurrenceDate ? existingQuery.eq('occurrence_date', occurrenceDate) : existingQuery.is('occurrence_date', null);
+      const { data: existing } = await existingQuery.single();
 
-      eventsWithRegistration = events?.map(event => ({
-        ...event,
-        user_registration: registrations?.find(r => r.event_id === event.id) || null,
-        registration_count: event.event_registrations?.[0]?.count || 0
-      }));
+      if (existing?.status === 'attended') {
+        return res.status(409).json({ success: false, error: 'Already checked in' });
+      }
+
+      const checkIn = {
+        status: 'attended',
+        checked_in_at: now,
+        checked_in_by: req.user?.id,
+        check_in_method: existing ? 'manual' : 'walk_in'
+      };
+
+      const { data, error } = existing
+        ? await supabaseAdmin
+          .from('event_registrations')
+          .update(checkIn)
+          .eq('id', existing.id)
+          .neq('status', 'attended')
+          .select('*')
+          .single()
+        : await supabaseAdmin
+          .from('event_registrations')
+          .insert({ event_id: id, user_id: userId, occurrence_date: occurrenceDate, ...checkIn })
+          .select('*')
+          .single();
+
+      if (error) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      checkedIn = data;
     } else {
-      eventsWithRegistration = events?.map(event => ({
-        ...event,
-        registration_count: event.event_registrations?.[0]?.count || 0
-      }));
+      const { data, error } = await supabaseAdmin
+        .from('event_registrations')
+        .insert({
+          event_id: id,
+          user_id: null,
+          walk_in_name: name.substring(0, 100),
+          occurrence_date: occurrenceDate,
+          status: 'attended',
+          checked_in_at: now,
+          checked_in_by: req.user?.id,
+          check_in_method: 'walk_in'
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      checkedIn = data;
     }
 
-    res.json({ success: true, data: eventsWithRegistration });
+    // Log check-in
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CHECK_IN',
+        resource_type: 'EVENT_REGISTRATION',
+        resource_id: checkedIn.id,
+        details: { event_id: id, occurrence_date: occurrenceDate, method: checkedIn.check_in_method }
+      });
+
+    res.status(201).json({ success: true, data: checkedIn });
   } catch (error) {
-    console.error('Get events error:', error);
+    console.error('Event check-in error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
-// Get single event
-router.get('/:id', optionalAuth, async (req: Request, res: Response) => {
+// Get attendance report for an event (Admin/Imam/Pengurus only)
+// Recurring events report one occurrence with ?date=, or a total per occurrence
+router.get('/:id/attendance', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const date = req.query.date ? String(req.query.date) : null;
 
-    const { data: event, error } = await supabaseAdmin
+    if (date && !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ success: false, error: 'date must be a date (YYYY-MM-DD)' });
+    }
+
+    const { data: event, error: eventError } = await supabaseAdmin
       .from('events')
-      .select(`
-        *,
-        event_registrations(
-          id,
-          user_id,
-          status,
-          registered_at,
-          users(
-            display_name,
-            avatar_url
-          )
-        )
-      `)
+      .select('*')
       .eq('id', id)
       .single();
 
-    if (error) {
+    if (eventError || !event) {
       return res.status(404).json({ success: false, error: 'Event not found' });
     }
 
-    // Check user registration status if authenticated
-    let userRegistration = null;
-    if (req.user?.id) {
-      const registration = event.event_registrations?.find(
-        (r: any) => r.user_id === req.user?.id
-      );
-      userRegistration = registration || null;
+    let query = supabaseAdmin
+      .from('event_registrations')
+      .select('id, user_id, walk_in_name, occurrence_date, status, registered_at, checked_in_at, check_in_method, users!event_registrations_user_id_fkey(display_name, avatar_url)')
+      .eq('event_id', id)
+      .order('checked_in_at', { ascending: true });
+    if (date) {
+      query = query.eq('occurrence_date', date);
+    } else if (!isRecurring(event)) {
+      query = query.is('occurrence_date', null);
+    }
+
+    const { data: registrations, error } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+    const list = registrations || [];
+
+    if (isRecurring(event) && !date) {
+      const byDate = new Map<string, typeof list>();
+      list.forEach(registration => {
+        const key = registration.occurrence_date as string;
+        byDate.set(key, [...(byDate.get(key) || []), registration]);
+      });
+
+      const occurrences = [...byDate.entries()]
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([occurrenceDate, items]) => ({
+          occurrence_date: occurrenceDate,
+          summary: summarizeAttendance(items, occurrenceDate <= today)
+        }));
+
+      return res.json({
+        success: true,
+        data: {
+          event_id: id,
+          summary: summarizeAttendance(list.filter(r => (r.occurrence_date as string) <= today), true),
+          occurrences
+        }
+      });
     }
 
+    const hasStarted = new Date(event.event_datetime) <= new Date() && (!date || date <= today);
+
     res.json({
       success: true,
       data: {
-        ...event,
-        user_registration: userRegistration,
-        registration_count: event.event_registrations?.length || 0
+        event_id: id,
+        occurrence_date: date,
+        summary: summarizeAttendance(list, hasStarted),
+        attendees: list.filter(r => r.status === 'attended'),
+        no_shows: hasStarted ? list.filter(r => r.status === 'registered') : []
       }
     });
   } catch (error) {
-    console.error('Get event error:', error);
+    console.error('Get attendance error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
@@ -129,7 +1257,7 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
       event_datetime,
       location,
       capacity,
-      speaker
+      waitlist_confirmation_hours
     } = req.body;
 
     // Validate required fields
@@ -149,16 +1277,54 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
       });
     }
 
+    const { recurrence, error: recurrenceError } = parseRecurrence(req.body);
+    if (recurrenceError) {
+      return res.status(400).json({ success: false, error: recurrenceError });
+    }
+
+    if (recurrence.recurrence_anchor && !recurrence.recurrence_rule) {
+      return res.status(400).json({ success: false, error: 'recurrence_anchor requires a recurrence_rule' });
+    }
+
+    if (waitlist_confirmation_hours !== undefined && !isValidConfirmationHours(waitlist_confirmation_hours)) {
+      return res.status(400).json({ success: false, error: 'waitlist_confirmation_hours must be between 1 and 168' });
+    }
+
+    const { fields: speakerFields, error: speakerError } = await resolveEventSpeaker(req.body);
+    if (speakerError) {
+      return res.status(400).json({ success: false, error: speakerError });
+    }
+
+    // The ID is chosen here so the new series can be expanded for the conflict check
+    const eventId = crypto.randomUUID();
+    const conflicts = await findEventBookingConflicts({
+      id: eventId,
+      title,
+      type,
+      event_datetime,
+      location,
+      speaker: null,
+      capacity: null,
+      ...recurrence
+    });
+    if (conflicts.length > 0) {
+      return res.status(409).json({ success: false, error: 'The location is booked at that time', data: { conflicts } });
+    }
+
     const { data: event, error } = await supabaseAdmin
       .from('events')
       .insert({
+        id: eventId,
         title: title.trim(),
         description: description?.trim() || null,
         type,
         event_datetime,
         location: location.trim(),
         capacity: capacity || null,
-        speaker: speaker?.trim() || null,
+        speaker: speakerFields.speaker || null,
+        speaker_id: speakerFields.speaker_id || null,
+        ...recurrence,
+        waitlist_confirmation_hours: waitlist_confirmation_hours ? Number(waitlist_confirmation_hours) : null,
         created_by: req.user?.id
       })
       .select('*')
@@ -176,7 +1342,7 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'),
         action: 'CREATE',
         resource_type: 'EVENT',
         resource_id: event.id,
-        details: { title, type, event_datetime }
+        details: { title, type, event_datetime, recurrence_rule: recurrence.recurrence_rule || null }
       });
 
     res.status(201).json({ success: true, data: event });
@@ -194,6 +1360,42 @@ router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'
     delete updateData.id;
     delete updateData.created_by;
     delete updateData.created_at;
+
+    const { recurrence, error: recurrenceError } = parseRecurrence(req.body);
+    if (recurrenceError) {
+      return res.status(400).json({ success: false, error: recurrenceError });
+    }
+    Object.assign(updateData, recurrence);
+
+    // A free-text speaker is linked to the directory when it matches
+    const { fields: speakerFields, error: speakerError } = await resolveEventSpeaker(req.body);
+    if (speakerError) {
+      return res.status(400).json({ success: false, error: speakerError });
+    }
+    Object.assign(updateData, speakerFields);
+
+    if (updateData.waitlist_confirmation_hours !== undefined && !isValidConfirmationHours(updateData.waitlist_confirmation_hours)) {
+      return res.status(400).json({ success: false, error: 'waitlist_confirmation_hours must be between 1 and 168' });
+    }
+
+    // Moving the event in time or place must not land it on an approved facility booking
+    const schedulingFields = ['event_datetime', 'location', 'type', 'recurrence_rule', 'recurrence_anchor', 'recurrence_offset_minutes'];
+    if (schedulingFields.some(field => updateData[field] !== undefined)) {
+      const { data: existing } = await supabaseAdmin
+        .from('events')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Event not found' });
+      }
+
+      const conflicts = await findEventBookingConflicts({ ...existing, ...updateData });
+      if (conflicts.length > 0) {
+        return res.status(409).json({ success: false, error: 'The location is booked at that time', data: { conflicts } });
+      }
+    }
     
     updateData.updated_at = new Date().toISOString();
 
@@ -219,6 +1421,15 @@ router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'
         details: { updated_fields: Object.keys(req.body) }
       });
 
+    // A larger capacity opens spots for the waitlist
+    if (req.body.capacity !== undefined) {
+      try {
+        await promoteEventWaitlists(event.id);
+      } catch (promotionError) {
+        console.error('Waitlist promotion error:', promotionError);
+      }
+    }
+
     res.json({ success: true, data: event });
   } catch (error) {
     console.error('Update event error:', error);
@@ -231,6 +1442,7 @@ router.post('/:id/register', authenticateToken, async (req: Request, res: Respon
   try {
     const { id } = req.params;
     const userId = req.user?.id;
+    const { occurrence_date } = req.body || {};
 
     // Check if event exists
     const { data: event, error: eventError } = await supabaseAdmin
@@ -243,49 +1455,55 @@ router.post('/:id/register', authenticateToken, async (req: Request, res: Respon
       return res.status(404).json({ success: false, error: 'Event not found' });
     }
 
-    // Check if event is full (if capacity is set)
-    if (event.capacity) {
-      const { count } = await supabaseAdmin
-        .from('event_registrations')
-        .select('*', { count: 'exact', head: true })
-        .eq('event_id', id);
-
-      if (count && count >= event.capacity) {
+    // Registrations for a recurring event are per occurrence
+    let occurrenceDate: string | null = null;
+    let capacity = event.capacity;
+    if (isRecurring(event)) {
+      if (!occurrence_date || !DATE_PATTERN.test(String(occurrence_date))) {
         return res.status(400).json({
           success: false,
-          error: 'Event is full'
+          error: 'occurrence_date (YYYY-MM-DD) is required for recurring events'
         });
       }
+
+      const occurrence = await findOccurrence(event, String(occurrence_date));
+      if (!occurrence) {
+        return res.status(404).json({ success: false, error: 'Occurrence not found' });
+      }
+      if (occurrence.is_cancelled) {
+        return res.status(400).json({ success: false, error: 'This occurrence has been cancelled' });
+      }
+
+      occurrenceDate = occurrence.occurrence_date;
+      capacity = occurrence.capacity;
     }
 
     // Check if user is already registered
-    const { data: existingRegistration } = await supabaseAdmin
+    let existingQuery = supabaseAdmin
       .from('event_registrations')
       .select('*')
       .eq('event_id', id)
-      .eq('user_id', userId)
-      .single();
+      .eq('user_id', userId);
+    existingQuery = occurrenceDate ? existingQuery.eq('occurrence_date', occurrenceDate) : existingQuery.is('occurrence_date', null);
+
+    const { data: existingRegistration } = await existingQuery.single();
 
     if (existingRegistration) {
       return res.status(400).json({
         success: false,
-        error: 'Already registered for this event'
+        error: existingRegistration.status === 'waitlisted'
+          ? 'Already on the waitlist for this event'
+          : 'Already registered for this event'
       });
     }
 
-    // Create registration
-    const { data: registration, error } = await supabaseAdmin
-      .from('event_registrations')
-      .insert({
-        event_id: id,
-        user_id: userId
-      })
-      .select('*')
-      .single();
+    // Join the waitlist once the event is full (if capacity is set)
+    const registration = await registerForSlot(id, userId as string, occurrenceDate, capacity);
 
-    if (error) {
-      return res.status(400).json({ success: false, error: error.message });
+    if (!registration) {
+      return res.status(400).json({ success: false, error: 'Already registered for this event' });
     }
+    const isFull = registration.status === 'waitlisted';
 
     // Log registration
     await supabaseAdmin
@@ -295,8 +1513,17 @@ router.post('/:id/register', authenticateToken, async (req: Request, res: Respon
         action: 'CREATE',
         resource_type: 'EVENT_REGISTRATION',
         resource_id: registration.id,
-        details: { event_id: id, event_title: event.title }
+        details: { event_id: id, event_title: event.title, occurrence_date: occurrenceDate, status: registration.status }
+      });
+
+    if (isFull) {
+      const position = await getWaitlistPosition(id, occurrenceDate, registration.registered_at);
+      return res.status(201).json({
+        success: true,
+        data: { ...registration, waitlist_position: position },
+        message: 'Event is full; you have been added to the waitlist'
       });
+    }
 
     res.status(201).json({ success: true, data: registration });
   } catch (error) {
@@ -305,22 +1532,101 @@ router.post('/:id/register', authenticateToken, async (req: Request, res: Respon
   }
 });
 
+// Confirm a spot offered from the waitlist (authenticated users)
+router.post('/:id/register/confirm', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id as string;
+    const occurrenceDate = req.body?.occurrence_date ? String(req.body.occurrence_date) : null;
+
+    if (occurrenceDate && !DATE_PATTERN.test(occurrenceDate)) {
+      return res.status(400).json({ success: false, error: 'occurrence_date must be a date (YYYY-MM-DD)' });
+    }
+
+    // Only an offer still within its window can be taken
+    let claim = supabaseAdmin
+      .from('event_registrations')
+      .update({ status: 'registered', offer_expires_at: null })
+      .eq('event_id', id)
+      .eq('user_id', userId)
+      .eq('status', 'offered')
+      .gt('offer_expires_at', new Date().toISOString());
+    claim = occurrenceDate ? claim.eq('occurrence_date', occurrenceDate) : claim.is('occurrence_date', null);
+
+    const { data: confirmed, error } = await claim.select('*');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!confirmed || confirmed.length === 0) {
+      let lookup = supabaseAdmin
+        .from('event_registrations')
+        .select('status')
+        .eq('event_id', id)
+        .eq('user_id', userId);
+      lookup = occurrenceDate ? lookup.eq('occurrence_date', occurrenceDate) : lookup.is('occurrence_date', null);
+      const { data: registration } = await lookup.single();
+
+      if (!registration) {
+        return res.status(404).json({ success: false, error: 'Registration not found' });
+      }
+      const reasons: Record<string, string> = {
+        registered: 'Registration is already confirmed',
+        attended: 'Registration is already confirmed',
+        waitlisted: 'No spot has been offered yet'
+      };
+      return res.status(400).json({ success: false, error: reasons[registration.status] || 'The offer has expired' });
+    }
+
+    // Log confirmation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: userId,
+        action: 'CONFIRM',
+        resource_type: 'EVENT_REGISTRATION',
+        resource_id: confirmed[0].id,
+        details: { event_id: id, occurrence_date: occurrenceDate }
+      });
+
+    res.json({ success: true, data: confirmed[0] });
+  } catch (error) {
+    console.error('Confirm registration error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Cancel event registration (authenticated users)
+// Registrations for a recurring event are cancelled per occurrence with ?date=
 router.delete('/:id/register', authenticateToken, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const userId = req.user?.id;
+    const occurrenceDate = req.query.date ? String(req.query.date) : null;
 
-    const { error } = await supabaseAdmin
+    if (occurrenceDate && !DATE_PATTERN.test(occurrenceDate)) {
+      return res.status(400).json({ success: false, error: 'date must be a date (YYYY-MM-DD)' });
+    }
+
+    let query = supabaseAdmin
       .from('event_registrations')
       .delete()
       .eq('event_id', id)
       .eq('user_id', userId);
+    query = occurrenceDate ? query.eq('occurrence_date', occurrenceDate) : query.is('occurrence_date', null);
+
+    const { data: removed, error } = await query.select('status');
 
     if (error) {
       return res.status(400).json({ success: false, error: error.message });
     }
 
+    // A freed spot goes to the next person on the waitlist
+    if (removed?.some(registration => SPOT_STATUSES.includes(registration.status))) {
+      await fillOpenSpots(id, occurrenceDate);
+    }
+
     // Log cancellation
     await supabaseAdmin
       .from('audit_logs')
@@ -328,7 +1634,7 @@ router.delete('/:id/register', authenticateToken, async (req: Request, res: Resp
         user_id: userId,
         action: 'DELETE',
         resource_type: 'EVENT_REGISTRATION',
-        details: { event_id: id, action: 'cancelled_registration' }
+        details: { event_id: id, occurrence_date: occurrenceDate, action: 'cancelled_registration' }
       });
 
     res.json({ success: true, message: 'Registration cancelled successfully' });
@@ -0,0 +1,726 @@
+/**
+ * Facilities API routes
+ */
+import { Router, Request, Response } from 'express';
+import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { sendPushNotification } from '../lib/webPush.js';
+import { getMosqueSettings, getMosqueToday, listDates } from '../lib/prayerSchedule.js';
+import { toUtcDate } from '../lib/prayerTimes.js';
+import { shiftDate } from '../lib/hijri.js';
+import {
+  findConflicts,
+  listEventsAtLocations,
+  normalizeLocation,
+  parseBookingTimes,
+  BOOKING_STATUSES,
+  BookingStatus
+} from '../lib/facilityBookings.js';
+
+const router = Router();
+
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FACILITY_TYPES = ['room', 'vehicle', 'equipment'];
+
+// Calendar: one week by default, at most two months per request
+const DEFAULT_CALENDAR_DAYS = 7;
+const MAX_CALENDAR_DAYS = 62;
+
+const BOOKING_COLUMNS = `
+  id,
+  facility_id,
+  user_id,
+  purpose,
+  starts_at,
+  ends_at,
+  attendees,
+  contact_phone,
+  notes,
+  status,
+  reviewed_by,
+  reviewed_at,
+  review_notes,
+  created_at,
+  updated_at,
+  facilities(id, name, type, location, buffer_minutes),
+  users!facility_bookings_user_id_fkey(id, display_name)
+`;
+
+// Validate the editable fields of a facility; only fields present are returned
+const parseFacilityFields = (body: Record<string, unknown>) => {
+  const fields: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+      return { fields, error: 'name must be 1 to 100 characters' };
+    }
+    fields.name = name;
+  }
+
+  if (body.type !== undefined) {
+    if (!FACILITY_TYPES.includes(String(body.type))) {
+      return { fields, error: `type must be one of: ${FACILITY_TYPES.join(', ')}` };
+    }
+    fields.type = body.type;
+  }
+
+  for (const column of ['description', 'location'] as const) {
+    if (body[column] !== undefined) {
+      fields[column] = typeof body[column] === 'string' && (body[column] as string).trim() ? (body[column] as string).trim() : null;
+    }
+  }
+
+  if (body.capacity !== undefined) {
+    if (body.capacity !== null && (!Number.isInteger(Number(body.capacity)) || Number(body.capacity) < 1)) {
+      return { fields, error: 'capacity must be a positive whole number' };
+    }
+    fields.capacity = body.capacity === null ? null : Number(body.capacity);
+  }
+
+  if (body.buffer_minutes !== undefined) {
+    const buffer = Number(body.buffer_minutes);
+    if (!Number.isInteger(buffer) || buffer < 0 || buffer > 240) {
+      return { fields, error: 'buffer_minutes must be between 0 and 240' };
+    }
+    fields.buffer_minutes = buffer;
+  }
+
+  if (body.requires_approval !== undefined) {
+    fields.requires_approval = Boolean(body.requires_approval);
+  }
+
+  return { fields };
+};
+
+// Load a booking with its facility; null when it does not exist
+const loadBooking = async (bookingId: string) => {
+  const { data } = await supabaseAdmin
+    .from('facility_bookings')
+    .select(BOOKING_COLUMNS)
+    .eq('id', bookingId)
+    .single();
+  return data;
+};
+
+// Tell the requester about a decision on their booking
+const notifyRequester = async (
+  booking: { id: string; user_id: string; purpose: string; starts_at: string },
+  facilityName: string,
+  status: BookingStatus
+) => {
+  const date = new Date(booking.starts_at).toLocaleString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: (await getMosqueSettings()).timezone
+  });
+
+  try {
+    await sendPushNotification({
+      title: status === 'approved' ? `✅ Peminjaman disetujui: ${facilityName}` : `❌ Peminjaman ditolak: ${facilityName}`,
+      body: `${booking.purpose} – ${date}`,
+      url: '/facilities',
+      tag: `facility-booking-${booking.id}`
+    }, { userIds: [booking.user_id] });
+  } catch (pushError) {
+    console.error('Facility booking notification error:', pushError);
+  }
+};
+
+// Get facilities (public with optional auth)
+router.get('/', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    let query = supabaseAdmin
+      .from('facilities')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (!(isStaff && req.query.include_inactive === 'true')) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data: facilities, error } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({ success: true, data: facilities || [] });
+  } catch (error) {
+    console.error('Get facilities error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create facility (Admin/Imam/Pengurus only)
+router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    if (!req.body.name) {
+      return res.status(400).json({ success: false, error: 'Missing required field: name' });
+    }
+
+    const { fields, error: validationError } = parseFacilityFields(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: facility, error } = await supabaseAdmin
+      .from('facilities')
+      .insert({ ...fields, created_by: req.user?.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log creation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'FACILITY',
+        resource_id: facility.id,
+        details: { name: facility.name, type: facility.type, location: facility.location }
+      });
+
+    res.status(201).json({ success: true, data: facility });
+  } catch (error) {
+    console.error('Create facility error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Calendar of bookings and events per facility (public with optional auth)
+// ?from=&to= (YYYY-MM-DD, default the coming week), optional ?facility_id=.
+// Everyone sees approved bookings; members also see their own requests and
+// staff see every pending request.
+router.get('/calendar', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { facility_id } = req.query;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+    const settings = await getMosqueSettings();
+
+    const start = req.query.from ? String(req.query.from) : getMosqueToday(settings);
+    const end = req.query.to ? String(req.query.to) : shiftDate(start, DEFAULT_CALENDAR_DAYS - 1);
+
+    if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end)) {
+      return res.status(400).json({ success: false, error: 'from and to must be dates (YYYY-MM-DD)' });
+    }
+    if (end < start || listDates(start, end).length > MAX_CALENDAR_DAYS) {
+      return res.status(400).json({ success: false, error: `Date range must be between 1 and ${MAX_CALENDAR_DAYS} days` });
+    }
+
+    const from = toUtcDate(start, '00:00', settings.timezone);
+    const to = toUtcDate(shiftDate(end, 1), '00:00', settings.timezone);
+
+    let facilitiesQuery = supabaseAdmin
+      .from('facilities')
+      .select('id, name, type, location')
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+    if (facility_id) {
+      facilitiesQuery = facilitiesQuery.eq('id', String(facility_id));
+    }
+
+    const { data: facilities, error: facilitiesError } = await facilitiesQuery;
+    if (facilitiesError) {
+      return res.status(400).json({ success: false, error: facilitiesError.message });
+    }
+
+    const facilityList = facilities || [];
+    if (facilityList.length === 0) {
+      return res.json({ success: true, data: { from: start, to: end, facilities: [], items: [] } });
+    }
+
+    let bookingsQuery = supabaseAdmin
+      .from('facility_bookings')
+      .select('id, facility_id, user_id, purpose, starts_at, ends_at, status')
+      .in('facility_id', facilityList.map(facility => facility.id))
+      .lt('starts_at', to.toISOString())
+      .gt('ends_at', from.toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (isStaff) {
+      bookingsQuery = bookingsQuery.in('status', ['pending', 'approved']);
+    } else if (req.user) {
+      bookingsQuery = bookingsQuery.or(`status.eq.approved,and(status.eq.pending,user_id.eq.${req.user.id})`);
+    } else {
+      bookingsQuery = bookingsQuery.eq('status', 'approved');
+    }
+
+    const [{ data: bookings, error: bookingsError }, events] = await Promise.all([
+      bookingsQuery,
+      listEventsAtLocations(facilityList.map(facility => facility.location || ''), from, to, settings)
+    ]);
+
+    if (bookingsError) {
+      return res.status(400).json({ success: false, error: bookingsError.message });
+    }
+
+    const items = [
+      ...(bookings || []).map(booking => ({
+        type: 'booking',
+        id: booking.id,
+        facility_id: booking.facility_id,
+        title: booking.purpose,
+        starts_at: booking.starts_at,
+        ends_at: booking.ends_at,
+        status: booking.status,
+        is_mine: booking.user_id === req.user?.id
+      })),
+      // An event blocks every facility at its location
+      ...events.flatMap(event => facilityList
+        .filter(facility => normalizeLocation(facility.location) === normalizeLocation(event.location))
+        .map(facility => ({
+          type: 'event',
+          id: event.event_id,
+          facility_id: facility.id,
+          title: event.title,
+          starts_at: event.starts_at,
+          ends_at: event.ends_at,
+          occurrence_date: event.occurrence_date
+        })))
+    ].sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at));
+
+    res.json({ success: true, data: { from: start, to: end, facilities: facilityList, items } });
+  } catch (error) {
+    console.error('Get facility calendar error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get bookings (authenticated users)
+// Members get their own; staff can add ?scope=all with ?status= and ?facility_id=
+router.get('/bookings', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { scope, status, facility_id, limit = 50, offset = 0 } = req.query;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    let query = supabaseAdmin
+      .from('facility_bookings')
+      .select(BOOKING_COLUMNS, { count: 'exact' })
+      .order('starts_at', { ascending: status === 'pending' })
+      .range(Number(offset), Number(offset) + Number(limit) - 1);
+
+    if (!(isStaff && scope === 'all')) {
+      query = query.eq('user_id', req.user?.id as string);
+    }
+
+    if (status) {
+      if (!BOOKING_STATUSES.includes(status as BookingStatus)) {
+        return res.status(400).json({ success: false, error: `status must be one of: ${BOOKING_STATUSES.join(', ')}` });
+      }
+      query = query.eq('status', String(status));
+    }
+
+    if (facility_id) {
+      query = query.eq('facility_id', String(facility_id));
+    }
+
+    const { data: bookings, error, count } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        bookings: bookings || [],
+        pagination: {
+          total: count || 0,
+          limit: Number(limit),
+          offset: Number(offset)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get facility bookings error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a booking with its current conflicts (requester or Admin/Imam/Pengurus)
+router.get('/bookings/:bookingId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const booking = await loadBooking(req.params.bookingId);
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    if (!booking || (!isStaff && booking.user_id !== req.user?.id)) {
+      return res.status(404).json({ success: false, error: 'Booking not found' });
+    }
+
+    const facility = booking.facilities as unknown as { id: string; name: string; location: string | null; buffer_minutes: number };
+    const conflicts = ['pending', 'approved'].includes(booking.status)
+      ? await findConflicts(facility, new Date(booking.starts_at), new Date(booking.ends_at), { excludeBookingId: booking.id })
+      : [];
+
+    res.json({ success: true, data: { ...booking, conflicts } });
+  } catch (error) {
+    console.error('Get facility booking error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Approve a booking request (Admin/Imam/Pengurus only)
+// Refused with 409 while it clashes with an approved booking or an event
+router.post('/bookings/:bookingId/approve', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { bookingId } = req.params;
+    const booking = await loadBooking(bookingId);
+
+    if (!booking) {
+      return res.status(404).json({ success: false, error: 'Booking not found' });
+    }
+
+    if (booking.status !== 'pending') {
+      return res.status(400).json({ success: false, error: `Booking is already ${booking.status}` });
+    }
+
+    const facility = booking.facilities as unknown as { id: string; name: string; location: string | null; buffer_minutes: number };
+    const conflicts = await findConflicts(facility, new Date(booking.starts_at), new Date(booking.ends_at), { excludeBookingId: bookingId });
+    const blocking = conflicts.filter(conflict => conflict.blocking);
+
+    if (blocking.length > 0) {
+      return res.status(409).json({ success: false, error: 'Booking conflicts with other bookings or events', data: { conflicts: blocking } });
+    }
+
+    // Only a pending booking can be approved; the exclusion constraint
+    // catches two overlapping bookings approved at the same time
+    const { data: approved, error } = await supabaseAdmin
+      .from('facility_bookings')
+      .update({
+        status: 'approved',
+        reviewed_by: req.user?.id,
+        reviewed_at: new Date().toISOString(),
+        review_notes: req.body?.review_notes?.trim() || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', bookingId)
+      .eq('status', 'pending')
+      .select('id, user_id, purpose, starts_at, status');
+
+    if (error) {
+      if (error.code === '23P01') {
+        return res.status(409).json({ success: false, error: 'Booking conflicts with another approved booking' });
+      }
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!approved || approved.length === 0) {
+      return res.status(409).json({ success: false, error: 'Booking was changed by someone else' });
+    }
+
+    // Log approval
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'APPROVE',
+        resource_type: 'FACILITY_BOOKING',
+        resource_id: bookingId,
+        details: {
+          facility_id: booking.facility_id,
+          starts_at: booking.starts_at,
+          ends_at: booking.ends_at,
+          pending_conflicts: conflicts.map(conflict => conflict.id)
+        }
+      });
+
+    await notifyRequester(approved[0], facility.name, 'approved');
+
+    res.json({
+      success: true,
+      data: {
+        ...booking,
+        ...approved[0],
+        // Overlapping requests that can no longer be approved
+        conflicts
+      }
+    });
+  } catch (error) {
+    console.error('Approve facility booking error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Reject a booking request (Admin/Imam/Pengurus only)
+router.post('/bookings/:bookingId/reject', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { bookingId } = req.params;
+    const reviewNotes = req.body?.review_notes?.trim() || null;
+
+    const { data: rejected, error } = await supabaseAdmin
+      .from('facility_bookings')
+      .update({
+        status: 'rejected',
+        reviewed_by: req.user?.id,
+        reviewed_at: new Date().toISOString(),
+        review_notes: reviewNotes,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', bookingId)
+      .eq('status', 'pending')
+      .select('id, user_id, purpose, starts_at, status, facility_id, facilities(name)');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!rejected || rejected.length === 0) {
+      return res.status(400).json({ success: false, error: 'Only pending bookings can be rejected' });
+    }
+
+    // Log rejection
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'REJECT',
+        resource_type: 'FACILITY_BOOKING',
+        resource_id: bookingId,
+        details: { facility_id: rejected[0].facility_id, review_notes: reviewNotes }
+      });
+
+    const facilityName = (rejected[0].facilities as unknown as { name: string } | null)?.name || 'Fasilitas';
+    await notifyRequester(rejected[0], facilityName, 'rejected');
+
+    res.json({ success: true, data: rejected[0] });
+  } catch (error) {
+    console.error('Reject facility booking error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Cancel a booking (requester or Admin/Imam/Pengurus)
+router.post('/bookings/:bookingId/cancel', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { bookingId } = req.params;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    let query = supabaseAdmin
+      .from('facility_bookings')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', bookingId)
+      .in('status', ['pending', 'approved']);
+
+    if (!isStaff) {
+      query = query.eq('user_id', req.user?.id as string);
+    }
+
+    const { data: cancelled, error } = await query.select('id, facility_id, status');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!cancelled || cancelled.length === 0) {
+      return res.status(404).json({ success: false, error: 'No active booking found' });
+    }
+
+    // Log cancellation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CANCEL',
+        resource_type: 'FACILITY_BOOKING',
+        resource_id: bookingId,
+        details: { facility_id: cancelled[0].facility_id }
+      });
+
+    res.json({ success: true, data: cancelled[0] });
+  } catch (error) {
+    console.error('Cancel facility booking error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update facility (Admin/Imam/Pengurus only)
+router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { fields, error: validationError } = parseFacilityFields(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+    if (req.body.is_active !== undefined) {
+      fields.is_active = Boolean(req.body.is_active);
+    }
+
+    const { data: facility, error } = await supabaseAdmin
+      .from('facilities')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error || !facility) {
+      return res.status(error?.code === 'PGRST116' ? 404 : 400).json({
+        success: false,
+        error: error?.code === 'PGRST116' ? 'Facility not found' : error?.message
+      });
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'FACILITY',
+        resource_id: id,
+        details: { updated_fields: Object.keys(req.body) }
+      });
+
+    res.json({ success: true, data: facility });
+  } catch (error) {
+    console.error('Update facility error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete facility (Admin/Imam/Pengurus only)
+router.delete('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Soft delete; past bookings stay for the records
+    const { data: removed, error } = await supabaseAdmin
+      .from('facilities')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'Facility not found' });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'FACILITY',
+        resource_id: id
+      });
+
+    res.json({ success: true, message: 'Facility deleted successfully' });
+  } catch (error) {
+    console.error('Delete facility error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Request a booking (authenticated users)
+// Refused with 409 when it clashes with an approved booking or an event;
+// overlapping pending requests are returned as warnings. Facilities that
+// don't require approval are booked immediately.
+router.post('/:id/bookings', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { purpose, starts_at, ends_at, attendees, contact_phone, notes } = req.body;
+
+    if (!purpose || typeof purpose !== 'string' || !purpose.trim()) {
+      return res.status(400).json({ success: false, error: 'Missing required field: purpose' });
+    }
+
+    const { start, end, error: timeError } = parseBookingTimes(starts_at, ends_at);
+    if (!start || !end) {
+      return res.status(400).json({ success: false, error: timeError });
+    }
+    if (start.getTime() < Date.now()) {
+      return res.status(400).json({ success: false, error: 'Bookings must start in the future' });
+    }
+
+    if (attendees !== undefined && attendees !== null && (!Number.isInteger(Number(attendees)) || Number(attendees) < 1)) {
+      return res.status(400).json({ success: false, error: 'attendees must be a positive whole number' });
+    }
+
+    const { data: facility } = await supabaseAdmin
+      .from('facilities')
+      .select('*')
+      .eq('id', id)
+      .eq('is_active', true)
+      .single();
+
+    if (!facility) {
+      return res.status(404).json({ success: false, error: 'Facility not found' });
+    }
+
+    if (facility.capacity && attendees && Number(attendees) > facility.capacity) {
+      return res.status(400).json({ success: false, error: `${facility.name} holds at most ${facility.capacity} people` });
+    }
+
+    const conflicts = await findConflicts(facility, start, end);
+    const blocking = conflicts.filter(conflict => conflict.blocking);
+
+    if (blocking.length > 0) {
+      return res.status(409).json({ success: false, error: 'The facility is not available at that time', data: { conflicts: blocking } });
+    }
+
+    // Free facilities without approval are confirmed straight away
+    const autoApprove = !facility.requires_approval && conflicts.length === 0;
+
+    const { data: booking, error } = await supabaseAdmin
+      .from('facility_bookings')
+      .insert({
+        facility_id: id,
+        user_id: req.user?.id,
+        purpose: purpose.trim(),
+        starts_at: start.toISOString(),
+        ends_at: end.toISOString(),
+        attendees: attendees ? Number(attendees) : null,
+        contact_phone: contact_phone?.trim() || null,
+        notes: notes?.trim() || null,
+        status: autoApprove ? 'approved' : 'pending'
+      })
+      .select(BOOKING_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23P01') {
+        return res.status(409).json({ success: false, error: 'The facility is not available at that time' });
+      }
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log request
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'FACILITY_BOOKING',
+        resource_id: booking.id,
+        details: {
+          facility_id: id,
+          starts_at: booking.starts_at,
+          ends_at: booking.ends_at,
+          status: booking.status,
+          pending_conflicts: conflicts.map(conflict => conflict.id)
+        }
+      });
+
+    res.status(201).json({ success: true, data: { ...booking, conflicts } });
+  } catch (error) {
+    console.error('Create facility booking error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
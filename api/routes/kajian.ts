@@ -0,0 +1,882 @@
+/**
+ * Kajian series API routes
+ */
+import { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import multer from 'multer';
+import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { getStorage } from '../lib/storage.js';
+import { renderMarkdown } from '../lib/markdown.js';
+import { sendPushNotification } from '../lib/webPush.js';
+import { isRecurring, findOccurrence } from '../lib/eventOccurrences.js';
+import { getMosqueSettings } from '../lib/prayerSchedule.js';
+import { validateAttachment, sanitizeFileName, ATTACHMENT_TYPES, MAX_UPLOAD_BYTES } from '../lib/attachments.js';
+import {
+  resolveSessionTimes,
+  getSeriesProgress,
+  isValidMaterialUrl,
+  materialKey,
+  KajianSession,
+  MaterialKind,
+  MATERIAL_KINDS
+} from '../lib/kajian.js';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SERIES_STATUSES = ['planned', 'ongoing', 'completed'];
+
+const SERIES_COLUMNS = `
+  id,
+  title,
+  description,
+  kitab_title,
+  kitab_author,
+  speaker_id,
+  event_id,
+  status,
+  is_active,
+  created_at,
+  updated_at,
+  speakers(id, name, slug)
+`;
+const MATERIAL_COLUMNS = 'id, kind, title, url, storage_key, file_name, mime_type, size_bytes, created_at';
+const SESSION_COLUMNS = `
+  id,
+  series_id,
+  session_number,
+  title,
+  chapter,
+  event_id,
+  occurrence_date,
+  notes,
+  created_at,
+  updated_at,
+  kajian_session_materials(${MATERIAL_COLUMNS})
+`;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }
+});
+
+// Parse an optional multipart upload in the "file" field; JSON bodies pass through
+const uploadFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `File is too large. Maximum is ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`
+        : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+// Materials as returned by the API; uploaded files get a download URL
+const presentMaterial = (material: Record<string, unknown>) => {
+  const { storage_key, ...rest } = material;
+  return {
+    ...rest,
+    url: storage_key ? `/api/kajian/materials/${material.id}/file` : material.url
+  };
+};
+
+// Sessions in order, with their start time, rendered notes and materials
+const presentSessions = (sessions: Record<string, unknown>[], times: Map<string, string>, attendedIds?: string[]) =>
+  sessions
+    .sort((a, b) => Number(a.session_number) - Number(b.session_number))
+    .map(({ kajian_session_materials, ...session }) => ({
+      ...session,
+      starts_at: times.get(String(session.id)) || null,
+      notes_html: session.notes ? renderMarkdown(String(session.notes)) : null,
+      materials: ((kajian_session_materials || []) as Record<string, unknown>[]).map(presentMaterial),
+      ...(attendedIds ? { attended: attendedIds.includes(String(session.id)) } : {})
+    }));
+
+// Validate the editable fields of a series; only fields present are returned
+const parseSeriesFields = (body: Record<string, unknown>) => {
+  const fields: Record<string, unknown> = {};
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title || title.length > 200) {
+      return { fields, error: 'title must be 1 to 200 characters' };
+    }
+    fields.title = title;
+  }
+
+  for (const column of ['description', 'kitab_title', 'kitab_author'] as const) {
+    if (body[column] !== undefined) {
+      fields[column] = typeof body[column] === 'string' && (body[column] as string).trim() ? (body[column] as string).trim() : null;
+    }
+  }
+
+  if (body.status !== undefined) {
+    if (!SERIES_STATUSES.includes(String(body.status))) {
+      return { fields, error: `status must be one of: ${SERIES_STATUSES.join(', ')}` };
+    }
+    fields.status = body.status;
+  }
+
+  for (const column of ['speaker_id', 'event_id'] as const) {
+    if (body[column] !== undefined) {
+      fields[column] = body[column] || null;
+    }
+  }
+
+  return { fields };
+};
+
+// Check the event (and occurrence) a session is held at
+const validateSessionEvent = async (eventId: string | null, occurrenceDate: string | null) => {
+  if (!eventId) {
+    return occurrenceDate ? 'occurrence_date requires an event_id' : null;
+  }
+  if (occurrenceDate && !DATE_PATTERN.test(occurrenceDate)) {
+    return 'occurrence_date must be a date (YYYY-MM-DD)';
+  }
+
+  const { data: event } = await supabaseAdmin
+    .from('events')
+    .select('*')
+    .eq('id', eventId)
+    .single();
+
+  if (!event) {
+    return 'Event not found';
+  }
+  if (!isRecurring(event)) {
+    return occurrenceDate ? 'occurrence_date is only for recurring events' : null;
+  }
+  if (!occurrenceDate) {
+    return 'occurrence_date (YYYY-MM-DD) is required for recurring events';
+  }
+  return await findOccurrence(event, occurrenceDate) ? null : 'The event does not take place on occurrence_date';
+};
+
+// Load a series' sessions with start times
+const loadSessions = async (seriesIds: string[]) => {
+  const { data: sessions, error } = await supabaseAdmin
+    .from('kajian_sessions')
+    .select(SESSION_COLUMNS)
+    .in('series_id', seriesIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const list = (sessions || []) as unknown as (KajianSession & Record<string, unknown>)[];
+  return { sessions: list, times: await resolveSessionTimes(list, await getMosqueSettings()) };
+};
+
+// Get kajian series (public with optional auth)
+router.get('/series', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { status, speaker_id, limit = 20, offset = 0 } = req.query;
+
+    let query = supabaseAdmin
+      .from('kajian_series')
+      .select(`${SERIES_COLUMNS}, kajian_sessions(count), kajian_series_followers(count)`, { count: 'exact' })
+      .eq('is_active', true)
+      .order('updated_at', { ascending: false })
+      .range(Number(offset), Number(offset) + Number(limit) - 1);
+
+    if (status) {
+      query = query.eq('status', String(status));
+    }
+
+    if (speaker_id) {
+      query = query.eq('speaker_id', String(speaker_id));
+    }
+
+    const { data: series, error, count } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    let following = new Set<string>();
+    if (req.user && series && series.length > 0) {
+      const { data: follows } = await supabaseAdmin
+        .from('kajian_series_followers')
+        .select('series_id')
+        .eq('user_id', req.user.id)
+        .in('series_id', series.map(item => item.id));
+      following = new Set((follows || []).map(follow => follow.series_id));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        series: (series || []).map(({ kajian_sessions, kajian_series_followers, ...item }) => ({
+          ...item,
+          session_count: (kajian_sessions as { count?: number }[])[0]?.count || 0,
+          follower_count: (kajian_series_followers as { count?: number }[])[0]?.count || 0,
+          ...(req.user ? { is_following: following.has(item.id) } : {})
+        })),
+        pagination: {
+          total: count || 0,
+          limit: Number(limit),
+          offset: Number(offset)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get kajian series error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get the series I follow, with my attendance progress (authenticated users)
+router.get('/series/following', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id as string;
+
+    const { data: follows, error } = await supabaseAdmin
+      .from('kajian_series_followers')
+      .select(`created_at, kajian_series!inner(${SERIES_COLUMNS})`)
+      .eq('user_id', userId)
+      .eq('kajian_series.is_active', true)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const series = (follows || []).map(follow => follow.kajian_series as unknown as { id: string });
+    if (series.length === 0) {
+      return res.json({ success: true, data: [] });
+    }
+
+    const { sessions, times } = await loadSessions(series.map(item => item.id));
+
+    const data = await Promise.all(series.map(async item => {
+      const seriesSessions = sessions.filter(session => session.series_id === item.id);
+      const progress = await getSeriesProgress(userId, seriesSessions, times);
+      const now = Date.now();
+      const nextSession = seriesSessions
+        .filter(session => times.has(session.id) && Date.parse(times.get(session.id) as string) > now)
+        .sort((a, b) => Date.parse(times.get(a.id) as string) - Date.parse(times.get(b.id) as string))[0];
+
+      return {
+        ...item,
+        progress,
+        next_session: nextSession
+          ? { id: nextSession.id, session_number: nextSession.session_number, title: nextSession.title, starts_at: times.get(nextSession.id) }
+          : null
+      };
+    }));
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Get followed kajian series error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a series with its sessions (public with optional auth)
+// Signed-in members also get their follow status and attendance progress
+router.get('/series/:id', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: series, error } = await supabaseAdmin
+      .from('kajian_series')
+      .select(SERIES_COLUMNS)
+      .eq('id', id)
+      .eq('is_active', true)
+      .single();
+
+    if (error || !series) {
+      return res.status(404).json({ success: false, error: 'Series not found' });
+    }
+
+    const { sessions, times } = await loadSessions([id]);
+
+    if (!req.user) {
+      return res.json({ success: true, data: { ...series, sessions: presentSessions(sessions, times) } });
+    }
+
+    const [progress, { data: follow }] = await Promise.all([
+      getSeriesProgress(req.user.id, sessions, times),
+      supabaseAdmin
+        .from('kajian_series_followers')
+        .select('series_id')
+        .eq('series_id', id)
+        .eq('user_id', req.user.id)
+        .maybeSingle()
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...series,
+        is_following: Boolean(follow),
+        progress,
+        sessions: presentSessions(sessions, times, progress.attended_session_ids)
+      }
+    });
+  } catch (error) {
+    console.error('Get kajian series detail error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create series (Admin/Imam/Pengurus only)
+router.post('/series', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    if (!req.body.title) {
+      return res.status(400).json({ success: false, error: 'Missing required field: title' });
+    }
+
+    const { fields, error: validationError } = parseSeriesFields(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: series, error } = await supabaseAdmin
+      .from('kajian_series')
+      .insert({ ...fields, created_by: req.user?.id })
+      .select(SERIES_COLUMNS)
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log creation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'KAJIAN_SERIES',
+        resource_id: series.id,
+        details: { title: series.title, kitab_title: series.kitab_title }
+      });
+
+    res.status(201).json({ success: true, data: series });
+  } catch (error) {
+    console.error('Create kajian series error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update series (Admin/Imam/Pengurus only)
+router.put('/series/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { fields, error: validationError } = parseSeriesFields(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: series, error } = await supabaseAdmin
+      .from('kajian_series')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(SERIES_COLUMNS)
+      .single();
+
+    if (error || !series) {
+      return res.status(error?.code === 'PGRST116' ? 404 : 400).json({
+        success: false,
+        error: error?.code === 'PGRST116' ? 'Series not found' : error?.message
+      });
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'KAJIAN_SERIES',
+        resource_id: id,
+        details: { updated_fields: Object.keys(req.body) }
+      });
+
+    res.json({ success: true, data: series });
+  } catch (error) {
+    console.error('Update kajian series error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete series (Admin/Imam/Pengurus only)
+router.delete('/series/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Soft delete; sessions and recordings stay for the archive
+    const { data: removed, error } = await supabaseAdmin
+      .from('kajian_series')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'Series not found' });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'KAJIAN_SERIES',
+        resource_id: id
+      });
+
+    res.json({ success: true, message: 'Series deleted successfully' });
+  } catch (error) {
+    console.error('Delete kajian series error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Follow a series (authenticated users)
+router.post('/series/:id/follow', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: series } = await supabaseAdmin
+      .from('kajian_series')
+      .select('id')
+      .eq('id', id)
+      .eq('is_active', true)
+      .single();
+
+    if (!series) {
+      return res.status(404).json({ success: false, error: 'Series not found' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('kajian_series_followers')
+      .upsert({ series_id: id, user_id: req.user?.id }, { onConflict: 'series_id,user_id', ignoreDuplicates: true });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({ success: true, message: 'Series followed' });
+  } catch (error) {
+    console.error('Follow kajian series error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Unfollow a series (authenticated users)
+router.delete('/series/:id/follow', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { error } = await supabaseAdmin
+      .from('kajian_series_followers')
+      .delete()
+      .eq('series_id', req.params.id)
+      .eq('user_id', req.user?.id as string);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({ success: true, message: 'Series unfollowed' });
+  } catch (error) {
+    console.error('Unfollow kajian series error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Add a session to a series (Admin/Imam/Pengurus only)
+// session_number defaults to the next number; event_id defaults to the series' event
+router.post('/series/:id/sessions', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { title, chapter, notes, session_number, occurrence_date } = req.body;
+
+    if (!title || typeof title !== 'string' || !title.trim()) {
+      return res.status(400).json({ success: false, error: 'Missing required field: title' });
+    }
+
+    if (session_number !== undefined && (!Number.isInteger(Number(session_number)) || Number(session_number) < 1)) {
+      return res.status(400).json({ success: false, error: 'session_number must be a positive whole number' });
+    }
+
+    const { data: series } = await supabaseAdmin
+      .from('kajian_series')
+      .select('id, event_id, kajian_sessions(session_number)')
+      .eq('id', id)
+      .single();
+
+    if (!series) {
+      return res.status(404).json({ success: false, error: 'Series not found' });
+    }
+
+    const eventId = req.body.event_id !== undefined ? req.body.event_id || null : series.event_id;
+    const eventError = await validateSessionEvent(eventId, occurrence_date || null);
+    if (eventError) {
+      return res.status(400).json({ success: false, error: eventError });
+    }
+
+    const numbers = (series.kajian_sessions as { session_number: number }[]).map(session => session.session_number);
+
+    const { data: session, error } = await supabaseAdmin
+      .from('kajian_sessions')
+      .insert({
+        series_id: id,
+        session_number: session_number ? Number(session_number) : Math.max(0, ...numbers) + 1,
+        title: title.trim(),
+        chapter: chapter?.trim() || null,
+        event_id: eventId,
+        occurrence_date: occurrence_date || null,
+        notes: notes?.trim() || null,
+        created_by: req.user?.id
+      })
+      .select(SESSION_COLUMNS)
+      .single();
+
+    if (error) {
+      const message = error.code === '23505' ? 'A session with this number already exists' : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+
+    // Log creation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'KAJIAN_SESSION',
+        resource_id: session.id,
+        details: { series_id: id, session_number: session.session_number }
+      });
+
+    const times = await resolveSessionTimes([session as unknown as KajianSession]);
+    res.status(201).json({ success: true, data: presentSessions([session], times)[0] });
+  } catch (error) {
+    console.error('Create kajian session error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update a session (Admin/Imam/Pengurus only)
+router.put('/sessions/:sessionId', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const { title, chapter, notes, session_number } = req.body;
+
+    const { data: existing } = await supabaseAdmin
+      .from('kajian_sessions')
+      .select('id, event_id, occurrence_date')
+      .eq('id', sessionId)
+      .single();
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+
+    const updateData: Record<string, unknown> = {};
+
+    if (title !== undefined) {
+      if (typeof title !== 'string' || !title.trim()) {
+        return res.status(400).json({ success: false, error: 'title must not be empty' });
+      }
+      updateData.title = title.trim();
+    }
+    if (chapter !== undefined) updateData.chapter = chapter?.trim() || null;
+    if (notes !== undefined) updateData.notes = notes?.trim() || null;
+
+    if (session_number !== undefined) {
+      if (!Number.isInteger(Number(session_number)) || Number(session_number) < 1) {
+        return res.status(400).json({ success: false, error: 'session_number must be a positive whole number' });
+      }
+      updateData.session_number = Number(session_number);
+    }
+
+    if (req.body.event_id !== undefined || req.body.occurrence_date !== undefined) {
+      const eventId = req.body.event_id !== undefined ? req.body.event_id || null : existing.event_id;
+      const occurrenceDate = req.body.occurrence_date !== undefined ? req.body.occurrence_date || null : existing.occurrence_date;
+      const eventError = await validateSessionEvent(eventId, occurrenceDate);
+      if (eventError) {
+        return res.status(400).json({ success: false, error: eventError });
+      }
+      updateData.event_id = eventId;
+      updateData.occurrence_date = occurrenceDate;
+    }
+
+    updateData.updated_at = new Date().toISOString();
+
+    const { data: session, error } = await supabaseAdmin
+      .from('kajian_sessions')
+      .update(updateData)
+      .eq('id', sessionId)
+      .select(SESSION_COLUMNS)
+      .single();
+
+    if (error) {
+      const message = error.code === '23505' ? 'A session with this number already exists' : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'KAJIAN_SESSION',
+        resource_id: sessionId,
+        details: { updated_fields: Object.keys(req.body) }
+      });
+
+    const times = await resolveSessionTimes([session as unknown as KajianSession]);
+    res.json({ success: true, data: presentSessions([session], times)[0] });
+  } catch (error) {
+    console.error('Update kajian session error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete a session and its materials (Admin/Imam/Pengurus only)
+router.delete('/sessions/:sessionId', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+
+    const { data: removed, error } = await supabaseAdmin
+      .from('kajian_sessions')
+      .delete()
+      .eq('id', sessionId)
+      .select('id, series_id, session_number, kajian_session_materials(storage_key)');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+
+    // Uploaded files are not removed by the cascade
+    const keys = (removed[0].kajian_session_materials as { storage_key: string | null }[] || [])
+      .map(material => material.storage_key)
+      .filter(Boolean) as string[];
+    await Promise.all(keys.map(key => getStorage().delete(key)));
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'KAJIAN_SESSION',
+        resource_id: sessionId,
+        details: { series_id: removed[0].series_id, session_number: removed[0].session_number }
+      });
+
+    res.json({ success: true, message: 'Session deleted successfully' });
+  } catch (error) {
+    console.error('Delete kajian session error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Add a recording link or upload slides to a session (Admin/Imam/Pengurus only)
+// Links: JSON { kind: "audio" | "video" | "link", title, url }. Slides:
+// multipart/form-data with a PDF or image in the "file" field and a title.
+// Followers of the series are notified.
+router.post(
+  '/sessions/:sessionId/materials',
+  authenticateToken,
+  authorizeRoles('Admin', 'Imam', 'Pengurus'),
+  uploadFile,
+  async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const file = req.file;
+      const kind = (file ? 'slides' : req.body.kind) as MaterialKind;
+      const url = typeof req.body.url === 'string' ? req.body.url.trim() : '';
+
+      if (!MATERIAL_KINDS.includes(kind)) {
+        return res.status(400).json({ success: false, error: `kind must be one of: ${MATERIAL_KINDS.join(', ')}` });
+      }
+
+      if (!file && (kind === 'slides' || !isValidMaterialUrl(url))) {
+        return res.status(400).json({
+          success: false,
+          error: kind === 'slides' ? 'Slides must be uploaded in the "file" field' : 'url must be an http(s) link'
+        });
+      }
+
+      const { data: session } = await supabaseAdmin
+        .from('kajian_sessions')
+        .select('id, series_id, session_number, title, kajian_series(title)')
+        .eq('id', sessionId)
+        .single();
+
+      if (!session) {
+        return res.status(404).json({ success: false, error: 'Session not found' });
+      }
+
+      const materialId = crypto.randomUUID();
+      let stored: { storage_key: string; file_name: string; mime_type: string; size_bytes: number } | null = null;
+
+      if (file) {
+        const { mimeType, error: validationError } = validateAttachment(file.buffer, file.mimetype);
+        if (!mimeType) {
+          return res.status(400).json({ success: false, error: validationError });
+        }
+
+        const storageKey = materialKey(session.series_id, sessionId, materialId, ATTACHMENT_TYPES[mimeType].extension);
+        await getStorage().put(storageKey, file.buffer, mimeType);
+        stored = {
+          storage_key: storageKey,
+          file_name: sanitizeFileName(file.originalname),
+          mime_type: mimeType,
+          size_bytes: file.size
+        };
+      }
+
+      const title = typeof req.body.title === 'string' && req.body.title.trim()
+        ? req.body.title.trim()
+        : stored?.file_name || session.title;
+
+      const { data: material, error } = await supabaseAdmin
+        .from('kajian_session_materials')
+        .insert({
+          id: materialId,
+          session_id: sessionId,
+          kind,
+          title,
+          url: stored ? null : url,
+          ...stored,
+          uploaded_by: req.user?.id
+        })
+        .select(MATERIAL_COLUMNS)
+        .single();
+
+      if (error) {
+        // Don't leave orphaned files behind
+        if (stored) {
+          await getStorage().delete(stored.storage_key);
+        }
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      // Log upload
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: req.user?.id,
+          action: 'CREATE',
+          resource_type: 'KAJIAN_MATERIAL',
+          resource_id: materialId,
+          details: { session_id: sessionId, kind, title }
+        });
+
+      const { data: followers } = await supabaseAdmin
+        .from('kajian_series_followers')
+        .select('user_id')
+        .eq('series_id', session.series_id);
+
+      if (followers && followers.length > 0) {
+        const seriesTitle = (session.kajian_series as unknown as { title: string } | null)?.title || 'Kajian';
+        try {
+          await sendPushNotification({
+            title: kind === 'slides' ? `📑 Materi baru: ${seriesTitle}` : `🎧 Rekaman baru: ${seriesTitle}`,
+            body: `Sesi ${session.session_number}: ${session.title}`,
+            url: `/kajian/${session.series_id}`,
+            tag: `kajian-material-${materialId}`
+          }, { userIds: followers.map(follower => follower.user_id), urgency: 'low' });
+        } catch (pushError) {
+          console.error('Kajian material notification error:', pushError);
+        }
+      }
+
+      res.status(201).json({ success: true, data: presentMaterial(material) });
+    } catch (error) {
+      console.error('Add kajian material error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// Download uploaded slides (public)
+router.get('/materials/:materialId/file', async (req: Request, res: Response) => {
+  try {
+    const { data: material } = await supabaseAdmin
+      .from('kajian_session_materials')
+      .select('file_name, mime_type, storage_key')
+      .eq('id', req.params.materialId)
+      .single();
+
+    const body = material?.storage_key ? await getStorage().get(material.storage_key) : null;
+    if (!material || !body) {
+      return res.status(404).json({ success: false, error: 'Material not found' });
+    }
+
+    // Stored files never change, so browsers and the service worker can keep them
+    res.set({
+      'Content-Type': material.mime_type,
+      'Content-Length': String(body.length),
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'Content-Disposition': `inline; filename="${material.file_name}"; filename*=UTF-8''${encodeURIComponent(material.file_name)}`
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Get kajian material error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete a material (Admin/Imam/Pengurus only)
+router.delete('/materials/:materialId', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { materialId } = req.params;
+
+    const { data: removed, error } = await supabaseAdmin
+      .from('kajian_session_materials')
+      .delete()
+      .eq('id', materialId)
+      .select('id, session_id, storage_key');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'Material not found' });
+    }
+
+    if (removed[0].storage_key) {
+      await getStorage().delete(removed[0].storage_key);
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'KAJIAN_MATERIAL',
+        resource_id: materialId,
+        details: { session_id: removed[0].session_id }
+      });
+
+    res.json({ success: true, message: 'Material deleted successfully' });
+  } catch (error) {
+    console.error('Delete kajian material error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,373 @@
+/**
+ * Donation pledges API routes
+ */
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { getMosqueSettings, getMosqueToday } from '../lib/prayerSchedule.js';
+import {
+  PLEDGE_FREQUENCIES,
+  PLEDGE_DONATION_TYPES,
+  PledgeFrequency,
+  pledgeDueDate,
+  firstInstalmentFrom,
+  generatePledgeInstalments,
+  summarizeInstalments
+} from '../lib/pledges.js';
+
+const router = Router();
+
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const MAX_AMOUNT = 1e10;
+
+const INSTALMENT_COLUMNS = 'id, amount, status, due_date, reference_number, payment_expires_at, completed_at, created_at';
+
+// Validate the fields a member sets on a pledge; only fields present are returned
+const parsePledgeFields = (body: Record<string, unknown>, today: string) => {
+  const fields: Record<string, unknown> = {};
+
+  if (body.donation_type !== undefined) {
+    if (!PLEDGE_DONATION_TYPES.includes(body.donation_type as string)) {
+      return { fields, error: `donation_type must be one of: ${PLEDGE_DONATION_TYPES.join(', ')}` };
+    }
+    fields.donation_type = body.donation_type;
+  }
+
+  if (body.amount !== undefined) {
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount) || amount <= 0 || amount > MAX_AMOUNT) {
+      return { fields, error: 'amount must be a positive amount' };
+    }
+    fields.amount = amount;
+  }
+
+  if (body.frequency !== undefined) {
+    if (!PLEDGE_FREQUENCIES.includes(body.frequency as PledgeFrequency)) {
+      return { fields, error: `frequency must be one of: ${PLEDGE_FREQUENCIES.join(', ')}` };
+    }
+    fields.frequency = body.frequency;
+  }
+
+  for (const field of ['start_date', 'end_date']) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null && field === 'end_date') {
+      fields.end_date = null;
+      continue;
+    }
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+      return { fields, error: `${field} must be a date (YYYY-MM-DD)` };
+    }
+    if (value < today) {
+      return { fields, error: `${field} cannot be in the past` };
+    }
+    fields[field] = value;
+  }
+
+  if (body.description !== undefined) {
+    fields.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (body.is_anonymous !== undefined) {
+    fields.is_anonymous = Boolean(body.is_anonymous);
+  }
+
+  return { fields };
+};
+
+// Get the current user's pledges with paid instalments and arrears (authenticated users)
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { data: pledges, error } = await supabaseAdmin
+      .from('donation_pledges')
+      .select('*')
+      .eq('donor_id', req.user?.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const pledgeIds = (pledges || []).map(pledge => pledge.id);
+    const { data: instalments, error: instalmentsError } = pledgeIds.length > 0
+      ? await supabaseAdmin
+        .from('donations')
+        .select('pledge_id, amount, status, due_date')
+        .in('pledge_id', pledgeIds)
+      : { data: [], error: null };
+
+    if (instalmentsError) {
+      return res.status(400).json({ success: false, error: instalmentsError.message });
+    }
+
+    const today = getMosqueToday(await getMosqueSettings());
+    const withSummaries = (pledges || []).map(pledge => ({
+      ...pledge,
+      ...summarizeInstalments((instalments || []).filter(instalment => instalment.pledge_id === pledge.id), today)
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        pledges: withSummaries,
+        arrears_count: withSummaries.reduce((sum, pledge) => sum + pledge.arrears_count, 0),
+        arrears_amount: withSummaries.reduce((sum, pledge) => sum + pledge.arrears_amount, 0)
+      }
+    });
+  } catch (error) {
+    console.error('Get pledges error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create pledge (authenticated users)
+// The first instalment is created right away when the pledge starts today
+router.post('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const today = getMosqueToday(await getMosqueSettings());
+    const { fields, error: validationError } = parsePledgeFields({ start_date: today, ...req.body }, today);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (!fields.amount) {
+      return res.status(400).json({ success: false, error: 'Missing required field: amount' });
+    }
+
+    if (fields.end_date && (fields.end_date as string) < (fields.start_date as string)) {
+      return res.status(400).json({ success: false, error: 'end_date must not be before start_date' });
+    }
+
+    const { data: pledge, error } = await supabaseAdmin
+      .from('donation_pledges')
+      .insert({
+        ...fields,
+        donor_id: req.user?.id,
+        next_instalment: 0,
+        next_due_date: fields.start_date
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log pledge creation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'DONATION_PLEDGE',
+        resource_id: pledge.id,
+        details: {
+          donation_type: pledge.donation_type,
+          amount: pledge.amount,
+          frequency: pledge.frequency,
+          start_date: pledge.start_date,
+          end_date: pledge.end_date
+        }
+      });
+
+    const instalments = await generatePledgeInstalments(pledge, today);
+
+    res.status(201).json({ success: true, data: { ...pledge, instalments } });
+  } catch (error) {
+    console.error('Create pledge error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a pledge with its instalments (owner or Admin/Imam/Pengurus)
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { data: pledge } = await supabaseAdmin
+      .from('donation_pledges')
+      .select('*')
+      .eq('id', req.params.id)
+      .single();
+
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+    if (!pledge || (pledge.donor_id !== req.user?.id && !isStaff)) {
+      return res.status(404).json({ success: false, error: 'Pledge not found' });
+    }
+
+    const { data: instalments, error } = await supabaseAdmin
+      .from('donations')
+      .select(INSTALMENT_COLUMNS)
+      .eq('pledge_id', pledge.id)
+      .order('due_date', { ascending: false });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const today = getMosqueToday(await getMosqueSettings());
+    res.json({
+      success: true,
+      data: {
+        ...pledge,
+        ...summarizeInstalments(instalments || [], today),
+        instalments: instalments || []
+      }
+    });
+  } catch (error) {
+    console.error('Get pledge error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update pledge (owner only)
+// amount and donation_type apply to instalments not yet created. status pauses
+// ("paused") or resumes ("active") the pledge; due dates passed while paused
+// are skipped, not owed.
+router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const today = getMosqueToday(await getMosqueSettings());
+
+    if (req.body.start_date !== undefined || req.body.frequency !== undefined) {
+      return res.status(400).json({ success: false, error: 'start_date and frequency cannot be changed; cancel the pledge and make a new one' });
+    }
+
+    const { fields, error: validationError } = parsePledgeFields(req.body, today);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('donation_pledges')
+      .select('*')
+      .eq('id', id)
+      .eq('donor_id', req.user?.id)
+      .single();
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Pledge not found' });
+    }
+
+    if (!['active', 'paused'].includes(existing.status)) {
+      return res.status(409).json({ success: false, error: `Pledge is already ${existing.status}` });
+    }
+
+    if (req.body.status !== undefined) {
+      if (!['active', 'paused'].includes(req.body.status)) {
+        return res.status(400).json({ success: false, error: 'status must be active or paused' });
+      }
+      fields.status = req.body.status;
+
+      if (existing.status === 'paused' && req.body.status === 'active') {
+        const nextInstalment = firstInstalmentFrom(existing, today);
+        fields.next_instalment = nextInstalment;
+        fields.next_due_date = pledgeDueDate(existing.start_date, existing.frequency, nextInstalment);
+      }
+    }
+
+    // Ending before the next due date ends the pledge now
+    const endDate = fields.end_date !== undefined ? fields.end_date as string | null : existing.end_date;
+    const nextDueDate = (fields.next_due_date as string | undefined) || existing.next_due_date;
+    if (endDate && endDate < existing.start_date) {
+      return res.status(400).json({ success: false, error: 'end_date must not be before start_date' });
+    }
+    if (endDate && endDate < nextDueDate) {
+      fields.status = 'ended';
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('donation_pledges')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('next_instalment', existing.next_instalment)
+      .select('*');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const pledge = updated?.[0];
+    if (!pledge) {
+      // The scheduler created an instalment in the meantime
+      return res.status(409).json({ success: false, error: 'Pledge changed, please try again' });
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'DONATION_PLEDGE',
+        resource_id: id,
+        details: { updated_fields: Object.keys(fields), status: pledge.status }
+      });
+
+    res.json({ success: true, data: pledge });
+  } catch (error) {
+    console.error('Update pledge error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Cancel pledge (owner or Admin/Imam/Pengurus)
+// Unpaid instalments are cancelled with it, so they no longer count as arrears
+router.post('/:id/cancel', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    const { data: existing } = await supabaseAdmin
+      .from('donation_pledges')
+      .select('id, donor_id, status')
+      .eq('id', id)
+      .single();
+
+    if (!existing || (existing.donor_id !== req.user?.id && !isStaff)) {
+      return res.status(404).json({ success: false, error: 'Pledge not found' });
+    }
+
+    const now = new Date().toISOString();
+    const { data: cancelled, error } = await supabaseAdmin
+      .from('donation_pledges')
+      .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+      .eq('id', id)
+      .in('status', ['active', 'paused'])
+      .select('*');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!cancelled || cancelled.length === 0) {
+      return res.status(409).json({ success: false, error: `Pledge is already ${existing.status}` });
+    }
+
+    // A payment that still arrives for one of these completes it anyway
+    const { data: instalments } = await supabaseAdmin
+      .from('donations')
+      .update({ status: 'Cancelled', updated_at: now })
+      .eq('pledge_id', id)
+      .in('status', ['Pending', 'Failed'])
+      .select('id');
+
+    // Log cancellation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CANCEL',
+        resource_type: 'DONATION_PLEDGE',
+        resource_id: id,
+        details: { cancelled_instalments: instalments?.length || 0, by_staff: existing.donor_id !== req.user?.id }
+      });
+
+    res.json({ success: true, data: cancelled[0] });
+  } catch (error) {
+    console.error('Cancel pledge error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
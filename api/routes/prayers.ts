@@ -1,44 +1,75 @@
 /**
  * Prayer schedules API routes
  */
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
 import { supabaseAdmin } from '../lib/supabase.js';
+import {
+  CALCULATION_METHODS,
+  ASR_MADHABS,
+  CalculationMethod,
+  AsrMadhab,
+  toUtcDate
+} from '../lib/prayerTimes.js';
+import {
+  getMosqueSettings,
+  getMosqueToday,
+  resolveSchedules,
+  OVERRIDABLE_PRAYERS,
+  ResolvedPrayerSchedule
+} from '../lib/prayerSchedule.js';
+import { csvToRecords, validateImportRows } from '../lib/prayerImport.js';
+import { IQAMAH_PRAYERS, IqamahPrayer, isFriday } from '../lib/iqamah.js';
+import { MAX_HIJRI_OFFSET } from '../lib/hijri.js';
+import { toCsv } from '../lib/csv.js';
+import { buildCalendar } from '../lib/ical.js';
+import { MAX_ADHAN_REMINDER_MINUTES, MAX_IQAMAH_REMINDER_MINUTES } from '../lib/prayerReminders.js';
 
 const router = Router();
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// First and last day (YYYY-MM-DD) of a calendar month
+const getMonthRange = (year: number, month: number) => {
+  const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
+  const endDate = new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+  return { startDate, endDate };
+};
+
 // Get prayer schedules (public)
+// Each day is computed from the mosque location; stored rows override individual times
 router.get('/', optionalAuth, async (req: Request, res: Response) => {
   try {
     const { date, month, year } = req.query;
-    let query = supabaseAdmin
-      .from('prayer_schedules')
-      .select('*')
-      .order('prayer_date', { ascending: true });
+    const settings = await getMosqueSettings();
+
+    let startDate: string;
+    let endDate: string;
 
     // Filter by specific date
     if (date) {
-      query = query.eq('prayer_date', date);
+      if (!DATE_PATTERN.test(String(date))) {
+        return res.status(400).json({ success: false, error: 'Invalid date. Use YYYY-MM-DD' });
+      }
+      startDate = endDate = String(date);
     }
     // Filter by month and year
     else if (month && year) {
-      const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
-      const endDate = new Date(Number(year), Number(month), 0).toISOString().split('T')[0];
-      query = query.gte('prayer_date', startDate).lte('prayer_date', endDate);
+      const monthNumber = Number(month);
+      const yearNumber = Number(year);
+      if (!Number.isInteger(monthNumber) || monthNumber < 1 || monthNumber > 12 || !Number.isInteger(yearNumber)) {
+        return res.status(400).json({ success: false, error: 'Invalid month or year' });
+      }
+      ({ startDate, endDate } = getMonthRange(yearNumber, monthNumber));
     }
     // Default to current month if no filters
     else {
-      const now = new Date();
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
-      const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString().split('T')[0];
-      query = query.gte('prayer_date', startOfMonth).lte('prayer_date', endOfMonth);
+      const [currentYear, currentMonth] = getMosqueToday(settings).split('-').map(Number);
+      ({ startDate, endDate } = getMonthRange(currentYear, currentMonth));
     }
 
-    const { data: schedules, error } = await query.limit(100);
-
-    if (error) {
-      return res.status(400).json({ success: false, error: error.message });
-    }
+    const schedules = await resolveSchedules(startDate, endDate, settings);
 
     res.json({ success: true, data: schedules });
   } catch (error) {
@@ -50,21 +81,864 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
 // Get today's prayer schedule
 router.get('/today', optionalAuth, async (req: Request, res: Response) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
-    
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+
+    const [schedule] = await resolveSchedules(today, today, settings);
+
+    res.json({ success: true, data: schedule || null });
+  } catch (error) {
+    console.error('Get today prayer schedule error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get available calculation methods and asr conventions (public)
+router.get('/methods', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        methods: Object.entries(CALCULATION_METHODS).map(([value, params]) => ({
+          value,
+          label: params.label,
+          fajr_angle: params.fajrAngle,
+          isha_angle: params.ishaAngle ?? null,
+          isha_minutes: params.ishaMinutes ?? null,
+          ihtiyat: params.ihtiyat
+        })),
+        asr_madhabs: Object.entries(ASR_MADHABS).map(([value, params]) => ({
+          value,
+          label: params.label
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get calculation methods error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get mosque location and calculation settings (public)
+router.get('/settings', async (req: Request, res: Response) => {
+  try {
+    const settings = await getMosqueSettings();
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Get prayer settings error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update mosque location and calculation settings (Admin/Imam only)
+router.put('/settings', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const {
+      name,
+      latitude,
+      longitude,
+      timezone,
+      calculation_method,
+      asr_madhab,
+      hijri_offset,
+      imsak_minutes,
+      tarawih_offset_minutes
+    } = req.body;
+
+    const updateData: Record<string, unknown> = {
+      updated_by: req.user?.id,
+      updated_at: new Date().toISOString()
+    };
+
+    if (name !== undefined) {
+      if (!name?.trim()) {
+        return res.status(400).json({ success: false, error: 'Name cannot be empty' });
+      }
+      updateData.name = name.trim();
+    }
+
+    if (latitude !== undefined) {
+      const value = Number(latitude);
+      if (!Number.isFinite(value) || value < -90 || value > 90) {
+        return res.status(400).json({ success: false, error: 'Latitude must be between -90 and 90' });
+      }
+      updateData.latitude = value;
+    }
+
+    if (longitude !== undefined) {
+      const value = Number(longitude);
+      if (!Number.isFinite(value) || value < -180 || value > 180) {
+        return res.status(400).json({ success: false, error: 'Longitude must be between -180 and 180' });
+      }
+      updateData.longitude = value;
+    }
+
+    if (timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        return res.status(400).json({ success: false, error: 'Invalid timezone' });
+      }
+      updateData.timezone = timezone;
+    }
+
+    if (calculation_method !== undefined) {
+      if (!CALCULATION_METHODS[calculation_method as CalculationMethod]) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid calculation method. Must be one of: ${Object.keys(CALCULATION_METHODS).join(', ')}`
+        });
+      }
+      updateData.calculation_method = calculation_method;
+    }
+
+    if (asr_madhab !== undefined) {
+      if (!ASR_MADHABS[asr_madhab as AsrMadhab]) {
+        return res.status(400).json({ success: false, error: 'Invalid asr madhab. Must be one of: shafi, hanafi' });
+      }
+      updateData.asr_madhab = asr_madhab;
+    }
+
+    if (hijri_offset !== undefined) {
+      const value = Number(hijri_offset);
+      if (!Number.isInteger(value) || Math.abs(value) > MAX_HIJRI_OFFSET) {
+        return res.status(400).json({
+          success: false,
+          error: `hijri_offset must be a whole number between -${MAX_HIJRI_OFFSET} and ${MAX_HIJRI_OFFSET}`
+        });
+      }
+      updateData.hijri_offset = value;
+    }
+
+    if (imsak_minutes !== undefined) {
+      const value = Number(imsak_minutes);
+      if (!Number.isInteger(value) || value < 0 || value > 60) {
+        return res.status(400).json({ success: false, error: 'imsak_minutes must be a whole number between 0 and 60' });
+      }
+      updateData.imsak_minutes = value;
+    }
+
+    if (tarawih_offset_minutes !== undefined) {
+      const value = Number(tarawih_offset_minutes);
+      if (!Number.isInteger(value) || value < 0 || value > 120) {
+        return res.status(400).json({
+          success: false,
+          error: 'tarawih_offset_minutes must be a whole number between 0 and 120'
+        });
+      }
+      updateData.tarawih_offset_minutes = value;
+    }
+
+    const current = await getMosqueSettings();
+
+    // Settings live in a single row; create it from the defaults on first save
+    const { data: settings, error } = current.id
+      ? await supabaseAdmin
+        .from('mosque_settings')
+        .update(updateData)
+        .eq('id', current.id)
+        .select('*')
+        .single()
+      : await supabaseAdmin
+        .from('mosque_settings')
+        .insert({
+          name: current.name,
+          latitude: current.latitude,
+          longitude: current.longitude,
+          timezone: current.timezone,
+          calculation_method: current.calculation_method,
+          asr_madhab: current.asr_madhab,
+          hijri_offset: current.hijri_offset,
+          imsak_minutes: current.imsak_minutes,
+          tarawih_offset_minutes: current.tarawih_offset_minutes,
+          ...updateData
+        })
+        .select('*')
+        .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log settings update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'MOSQUE_SETTINGS',
+        resource_id: settings.id,
+        details: { updated_fields: Object.keys(req.body) }
+      });
+
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Update prayer settings error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Export prayer schedules for a month or a whole year (public)
+router.get('/export', async (req: Request, res: Response) => {
+  try {
+    const { format = 'json', month, year } = req.query;
+    const settings = await getMosqueSettings();
+
+    if (!['csv', 'json', 'ics'].includes(String(format))) {
+      return res.status(400).json({ success: false, error: 'Invalid format. Must be one of: csv, json, ics' });
+    }
+
+    const [currentYear, currentMonth] = getMosqueToday(settings).split('-').map(Number);
+    const yearNumber = year ? Number(year) : currentYear;
+    if (!Number.isInteger(yearNumber) || yearNumber < 1900 || yearNumber > 2200) {
+      return res.status(400).json({ success: false, error: 'Invalid year' });
+    }
+
+    let startDate: string;
+    let endDate: string;
+    let period: string;
+
+    // Whole year when only the year is given
+    if (year && !month) {
+      startDate = `${yearNumber}-01-01`;
+      endDate = `${yearNumber}-12-31`;
+      period = String(yearNumber);
+    } else {
+      const monthNumber = month ? Number(month) : currentMonth;
+      if (!Number.isInteger(monthNumber) || monthNumber < 1 || monthNumber > 12) {
+        return res.status(400).json({ success: false, error: 'Invalid month' });
+      }
+      ({ startDate, endDate } = getMonthRange(yearNumber, monthNumber));
+      period = `${yearNumber}-${String(monthNumber).padStart(2, '0')}`;
+    }
+
+    const schedules = await resolveSchedules(startDate, endDate, settings);
+    const filename = `jadwal-sholat-${period}`;
+
+    if (format === 'csv') {
+      const columns: (keyof ResolvedPrayerSchedule)[] = [
+        'prayer_date', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha', 'hijri_date'
+      ];
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(toCsv(columns, schedules));
+    }
+
+    if (format === 'ics') {
+      const prayerLabels: Record<string, string> = {
+        fajr: 'Subuh',
+        dhuhr: 'Dzuhur',
+        asr: 'Ashar',
+        maghrib: 'Maghrib',
+        isha: 'Isya'
+      };
+
+      const events = schedules.flatMap(schedule =>
+        OVERRIDABLE_PRAYERS
+          .filter(prayer => schedule[prayer])
+          .map(prayer => {
+            const start = toUtcDate(schedule.prayer_date, schedule[prayer]!, settings.timezone);
+            return {
+              // Stable per date and prayer so re-imports update instead of duplicating
+              uid: `prayer-${schedule.prayer_date}-${prayer}@masjeed`,
+              start,
+              end: new Date(start.getTime() + 15 * 60 * 1000),
+              summary: `Sholat ${prayerLabels[prayer]}`,
+              location: settings.name,
+              categories: ['Sholat']
+            };
+          })
+      );
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.ics"`);
+      return res.send(buildCalendar({
+        name: `Jadwal Sholat ${settings.name}`,
+        timezone: settings.timezone,
+        refreshMinutes: 24 * 60,
+        events
+      }));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+    res.json({
+      success: true,
+      data: {
+        period,
+        start_date: startDate,
+        end_date: endDate,
+        timezone: settings.timezone,
+        schedules
+      }
+    });
+  } catch (error) {
+    console.error('Export prayer schedules error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Bulk import prayer schedules from CSV or JSON (Admin/Imam only)
+// CSV is sent as text/csv; JSON as { rows: [...] }. Add ?dry_run=true to only validate.
+router.post(
+  '/import',
+  authenticateToken,
+  authorizeRoles('Admin', 'Imam'),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }),
+  async (req: Request, res: Response) => {
+    try {
+      const dryRun = req.query.dry_run === 'true';
+      const isCsv = typeof req.body === 'string';
+
+      let records: Record<string, unknown>[];
+      if (isCsv) {
+        records = csvToRecords(req.body);
+      } else if (Array.isArray(req.body?.rows)) {
+        records = req.body.rows;
+      } else if (typeof req.body?.csv === 'string') {
+        records = csvToRecords(req.body.csv);
+      } else {
+        return res.status(400).json({
+          success: false,
+          error: 'Send CSV as text/csv or JSON as { rows: [...] }'
+        });
+      }
+
+      const { rows, errors } = validateImportRows(records);
+
+      // Nothing is written unless every row is valid
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Import validation failed',
+          data: { total_rows: records.length, valid_rows: rows.length, errors }
+        });
+      }
+
+      if (dryRun) {
+        return res.json({
+          success: true,
+          data: { total_rows: records.length, valid_rows: rows.length, errors: [], dry_run: true }
+        });
+      }
+
+      // A single upsert statement, so the whole batch commits or fails together
+      const { data: schedules, error } = await supabaseAdmin
+        .from('prayer_schedules')
+        .upsert(
+          rows.map(row => ({
+            ...row,
+            updated_by: req.user?.id,
+            updated_at: new Date().toISOString()
+          })),
+          { onConflict: 'prayer_date' }
+        )
+        .select('id, prayer_date');
+
+      if (error) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      const dates = rows.map(row => row.prayer_date).sort();
+
+      // Log import
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: req.user?.id,
+          action: 'IMPORT',
+          resource_type: 'PRAYER_SCHEDULE',
+          details: {
+            format: isCsv || typeof req.body?.csv === 'string' ? 'csv' : 'json',
+            row_count: rows.length,
+            first_date: dates[0],
+            last_date: dates[dates.length - 1]
+          }
+        });
+
+      res.json({
+        success: true,
+        data: {
+          total_rows: records.length,
+          imported: schedules?.length || 0,
+          first_date: dates[0],
+          last_date: dates[dates.length - 1]
+        }
+      });
+    } catch (error) {
+      console.error('Import prayer schedules error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// Validate iqamah rule fields; returns an error message or null
+const validateIqamahRule = (rule: Record<string, unknown>): string | null => {
+  if (!IQAMAH_PRAYERS.includes(rule.prayer as IqamahPrayer)) {
+    return `Invalid prayer. Must be one of: ${IQAMAH_PRAYERS.join(', ')}`;
+  }
+  if (rule.mode !== 'offset' && rule.mode !== 'fixed') {
+    return 'Invalid mode. Must be one of: offset, fixed';
+  }
+  if (rule.mode === 'offset') {
+    const minutes = Number(rule.offset_minutes);
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > 120) {
+      return 'offset_minutes must be a whole number between 0 and 120';
+    }
+  }
+  if (rule.mode === 'fixed' && !TIME_PATTERN.test(String(rule.fixed_time || ''))) {
+    return 'fixed_time must be in HH:MM format';
+  }
+  if (Boolean(rule.start_date) !== Boolean(rule.end_date)) {
+    return 'start_date and end_date must be given together';
+  }
+  if (rule.start_date) {
+    if (!DATE_PATTERN.test(String(rule.start_date)) || !DATE_PATTERN.test(String(rule.end_date))) {
+      return 'Invalid date range. Use YYYY-MM-DD';
+    }
+    if (String(rule.start_date) > String(rule.end_date)) {
+      return 'start_date must be before end_date';
+    }
+  }
+  return null;
+};
+
+// Get iqamah rules (public)
+router.get('/iqamah', async (req: Request, res: Response) => {
+  try {
+    const { data: rules, error } = await supabaseAdmin
+      .from('iqamah_rules')
+      .select('*')
+      .order('start_date', { ascending: true, nullsFirst: true })
+      .order('prayer', { ascending: true });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({ success: true, data: rules });
+  } catch (error) {
+    console.error('Get iqamah rules error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create iqamah rule (Admin/Imam only)
+router.post('/iqamah', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const {
+      prayer,
+      mode = 'offset',
+      offset_minutes,
+      fixed_time,
+      start_date,
+      end_date,
+      label
+    } = req.body;
+
+    const validationError = validateIqamahRule({ prayer, mode, offset_minutes, fixed_time, start_date, end_date });
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: rule, error } = await supabaseAdmin
+      .from('iqamah_rules')
+      .insert({
+        prayer,
+        mode,
+        offset_minutes: mode === 'offset' ? Number(offset_minutes) : null,
+        fixed_time: mode === 'fixed' ? fixed_time : null,
+        start_date: start_date || null,
+        end_date: end_date || null,
+        label: label?.trim() || null,
+        updated_by: req.user?.id
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log creation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'IQAMAH_RULE',
+        resource_id: rule.id,
+        details: { prayer, mode, start_date, end_date }
+      });
+
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Create iqamah rule error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update iqamah rule (Admin/Imam only)
+router.put('/iqamah/:id', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: existingRule, error: findError } = await supabaseAdmin
+      .from('iqamah_rules')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (findError || !existingRule) {
+      return res.status(404).json({ success: false, error: 'Iqamah rule not found' });
+    }
+
+    const merged = { ...existingRule };
+    for (const field of ['prayer', 'mode', 'offset_minutes', 'fixed_time', 'start_date', 'end_date', 'label']) {
+      if (req.body[field] !== undefined) {
+        merged[field] = req.body[field];
+      }
+    }
+
+    const validationError = validateIqamahRule(merged);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: rule, error } = await supabaseAdmin
+      .from('iqamah_rules')
+      .update({
+        prayer: merged.prayer,
+        mode: merged.mode,
+        offset_minutes: merged.mode === 'offset' ? Number(merged.offset_minutes) : null,
+        fixed_time: merged.mode === 'fixed' ? merged.fixed_time : null,
+        start_date: merged.start_date || null,
+        end_date: merged.end_date || null,
+        label: merged.label?.trim() || null,
+        updated_by: req.user?.id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'IQAMAH_RULE',
+        resource_id: id,
+        details: { updated_fields: Object.keys(req.body) }
+      });
+
+    res.json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Update iqamah rule error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete iqamah rule (Admin/Imam only)
+router.delete('/iqamah/:id', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('iqamah_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'IQAMAH_RULE',
+        resource_id: id
+      });
+
+    res.json({ success: true, message: 'Iqamah rule deleted successfully' });
+  } catch (error) {
+    console.error('Delete iqamah rule error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get upcoming jumu'ah schedules (public)
+router.get('/jumuah', async (req: Request, res: Response) => {
+  try {
+    const { from, limit = 4 } = req.query;
+    const settings = await getMosqueSettings();
+    const count = Math.min(Math.max(Number(limit) || 4, 1), 12);
+
+    if (from && !DATE_PATTERN.test(String(from))) {
+      return res.status(400).json({ success: false, error: 'Invalid from date. Use YYYY-MM-DD' });
+    }
+
+    // First Friday on or after the start date
+    const start = new Date(`${from || getMosqueToday(settings)}T00:00:00Z`);
+    start.setUTCDate(start.getUTCDate() + ((5 - start.getUTCDay() + 7) % 7));
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + (count - 1) * 7);
+
+    const schedules = await resolveSchedules(
+      start.toISOString().split('T')[0],
+      end.toISOString().split('T')[0],
+      settings
+    );
+
+    const fridays = schedules
+      .filter(schedule => schedule.jumuah)
+      .map(schedule => ({
+        jumuah_date: schedule.prayer_date,
+        dhuhr: schedule.dhuhr,
+        hijri_date: schedule.hijri_date,
+        ...schedule.jumuah
+      }));
+
+    res.json({ success: true, data: fridays });
+  } catch (error) {
+    console.error('Get jumuah schedules error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create or update the jumu'ah schedule for a Friday (Admin/Imam only)
+router.put('/jumuah/:date', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const { date } = req.params;
+    const {
+      khutbah_time,
+      khatib_name,
+      imam_name,
+      muadzin_name,
+      theme,
+      notes
+    } = req.body;
+
+    if (!DATE_PATTERN.test(date) || !isFriday(date)) {
+      return res.status(400).json({ success: false, error: 'Date must be a Friday in YYYY-MM-DD format' });
+    }
+
+    if (khutbah_time && !TIME_PATTERN.test(khutbah_time)) {
+      return res.status(400).json({ success: false, error: 'khutbah_time must be in HH:MM format' });
+    }
+
     const { data: schedule, error } = await supabaseAdmin
-      .from('prayer_schedules')
+      .from('jumuah_schedules')
+      .upsert({
+        jumuah_date: date,
+        khutbah_time: khutbah_time || null,
+        khatib_name: khatib_name?.trim() || null,
+        imam_name: imam_name?.trim() || null,
+        muadzin_name: muadzin_name?.trim() || null,
+        theme: theme?.trim() || null,
+        notes: notes?.trim() || null,
+        updated_by: req.user?.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'jumuah_date' })
       .select('*')
-      .eq('prayer_date', today)
       .single();
 
-    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+    if (error) {
       return res.status(400).json({ success: false, error: error.message });
     }
 
-    res.json({ success: true, data: schedule || null });
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'JUMUAH_SCHEDULE',
+        resource_id: schedule.id,
+        details: { jumuah_date: date, khatib_name, imam_name }
+      });
+
+    res.json({ success: true, data: schedule });
   } catch (error) {
-    console.error('Get today prayer schedule error:', error);
+    console.error('Update jumuah schedule error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete the jumu'ah schedule for a Friday (Admin/Imam only)
+router.delete('/jumuah/:date', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const { date } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('jumuah_schedules')
+      .delete()
+      .eq('jumuah_date', date);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'JUMUAH_SCHEDULE',
+        details: { jumuah_date: date }
+      });
+
+    res.json({ success: true, message: 'Jumuah schedule deleted successfully' });
+  } catch (error) {
+    console.error('Delete jumuah schedule error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get my adhan/iqamah reminder preferences
+router.get('/reminders', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    const [remindersResult, userResult, subscriptionsResult] = await Promise.all([
+      supabaseAdmin
+        .from('prayer_reminders')
+        .select('prayer, adhan_minutes, iqamah_minutes, is_muted')
+        .eq('user_id', userId),
+      supabaseAdmin
+        .from('users')
+        .select('reminders_paused_until')
+        .eq('id', userId)
+        .single(),
+      supabaseAdmin
+        .from('push_subscriptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+    ]);
+
+    const error = remindersResult.error || userResult.error || subscriptionsResult.error;
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Prayers without a row have no reminders yet
+    const prayers = IQAMAH_PRAYERS.map(prayer => ({
+      prayer,
+      adhan_minutes: null,
+      iqamah_minutes: null,
+      is_muted: false,
+      ...remindersResult.data.find(row => row.prayer === prayer)
+    }));
+
+    const pausedUntil = userResult.data.reminders_paused_until;
+
+    res.json({
+      success: true,
+      data: {
+        prayers,
+        paused_until: pausedUntil && new Date(pausedUntil) > new Date() ? pausedUntil : null,
+        devices: subscriptionsResult.count || 0
+      }
+    });
+  } catch (error) {
+    console.error('Get prayer reminders error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update my adhan/iqamah reminder preferences
+// { prayers: [{ prayer, adhan_minutes, iqamah_minutes, is_muted }], paused_until }
+router.put('/reminders', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const { prayers, paused_until } = req.body;
+
+    if (prayers !== undefined && !Array.isArray(prayers)) {
+      return res.status(400).json({ success: false, error: 'prayers must be an array' });
+    }
+
+    const validateMinutes = (value: unknown, max: number) =>
+      value === null || value === undefined || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max);
+
+    const rows = [];
+    for (const item of prayers || []) {
+      if (!IQAMAH_PRAYERS.includes(item?.prayer)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid prayer. Must be one of: ${IQAMAH_PRAYERS.join(', ')}`
+        });
+      }
+      if (!validateMinutes(item.adhan_minutes, MAX_ADHAN_REMINDER_MINUTES)) {
+        return res.status(400).json({
+          success: false,
+          error: `adhan_minutes must be a whole number between 0 and ${MAX_ADHAN_REMINDER_MINUTES}, or null`
+        });
+      }
+      if (!validateMinutes(item.iqamah_minutes, MAX_IQAMAH_REMINDER_MINUTES)) {
+        return res.status(400).json({
+          success: false,
+          error: `iqamah_minutes must be a whole number between 0 and ${MAX_IQAMAH_REMINDER_MINUTES}, or null`
+        });
+      }
+      rows.push({
+        user_id: userId,
+        prayer: item.prayer,
+        adhan_minutes: item.adhan_minutes ?? null,
+        iqamah_minutes: item.iqamah_minutes ?? null,
+        is_muted: Boolean(item.is_muted),
+        updated_at: new Date().toISOString()
+      });
+    }
+
+    if (paused_until !== undefined && paused_until !== null && Number.isNaN(Date.parse(paused_until))) {
+      return res.status(400).json({ success: false, error: 'paused_until must be an ISO date-time or null' });
+    }
+
+    if (rows.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('prayer_reminders')
+        .upsert(rows, { onConflict: 'user_id,prayer' });
+
+      if (error) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+    }
+
+    if (paused_until !== undefined) {
+      const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+          reminders_paused_until: paused_until ? new Date(paused_until).toISOString() : null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId);
+
+      if (error) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: userId,
+        action: 'UPDATE',
+        resource_type: 'PRAYER_REMINDERS',
+        details: { prayers: rows.map(row => row.prayer), paused_until }
+      });
+
+    res.json({ success: true, message: 'Reminder preferences updated successfully' });
+  } catch (error) {
+    console.error('Update prayer reminders error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
@@ -82,11 +956,11 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req:
       hijri_date
     } = req.body;
 
-    // Validate required fields
-    if (!prayer_date || !fajr || !dhuhr || !asr || !maghrib || !isha) {
+    // Stored times override the calculated ones, so only the changed times are required
+    if (!prayer_date || !OVERRIDABLE_PRAYERS.some(prayer => req.body[prayer])) {
       return res.status(400).json({
         success: false,
-        error: 'Missing required prayer times'
+        error: 'prayer_date and at least one prayer time are required'
       });
     }
 
@@ -108,11 +982,11 @@ router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req:
       .from('prayer_schedules')
       .insert({
         prayer_date,
-        fajr,
-        dhuhr,
-        asr,
-        maghrib,
-        isha,
+        fajr: fajr || null,
+        dhuhr: dhuhr || null,
+        asr: asr || null,
+        maghrib: maghrib || null,
+        isha: isha || null,
         hijri_date: hijri_date?.trim() || null,
         updated_by: req.user?.id
       })
@@ -0,0 +1,391 @@
+/**
+ * Ramadan schedule API routes
+ */
+import { Router, Request, Response } from 'express';
+import { authenticateToken, authorizeRoles } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import {
+  getMosqueSettings,
+  getMosqueToday,
+  resolveSchedules,
+  MosqueSettings
+} from '../lib/prayerSchedule.js';
+import { getRamadanRange, getCurrentOrNextRamadan, getTarawihNight, ResolvedTarawih } from '../lib/ramadan.js';
+import { shiftDate } from '../lib/hijri.js';
+import { buildPdf, fitText, A4, PdfElement, PdfColor } from '../lib/pdf.js';
+import { toCsv } from '../lib/csv.js';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+interface ImsakiyahDay {
+  day: number;
+  date: string;
+  hijri_date: string | null;
+  imsak: string | null;
+  fajr: string | null;
+  sunrise: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+}
+
+interface RamadanSchedule {
+  hijri_year: number;
+  start_date: string;
+  end_date: string;
+  days: ImsakiyahDay[];
+  nights: ResolvedTarawih[];
+  imsak_minutes: number;
+  tarawih_offset_minutes: number;
+}
+
+// Resolve the imsakiyah and tarawih nights of a Ramadan; defaults to the
+// current or next one. Returns null for an invalid Hijri year.
+const getRamadanSchedule = async (year: unknown, settings: MosqueSettings): Promise<RamadanSchedule | null> => {
+  const hijriYear = Number(year);
+  if (year && (!Number.isInteger(hijriYear) || hijriYear < 1300 || hijriYear > 1600)) {
+    return null;
+  }
+
+  const range = year
+    ? getRamadanRange(hijriYear, settings.hijri_offset)
+    : getCurrentOrNextRamadan(getMosqueToday(settings), settings.hijri_offset);
+  if (!range) {
+    return null;
+  }
+
+  // Start from the eve so the first night of tarawih is included
+  const schedules = await resolveSchedules(shiftDate(range.start_date, -1), range.end_date, settings);
+
+  return {
+    hijri_year: range.hijri_year,
+    start_date: range.start_date,
+    end_date: range.end_date,
+    days: schedules
+      .filter(schedule => schedule.ramadan?.day)
+      .map(schedule => ({
+        day: schedule.ramadan!.day!,
+        date: schedule.prayer_date,
+        hijri_date: schedule.hijri_date,
+        imsak: schedule.ramadan!.imsak,
+        fajr: schedule.fajr,
+        sunrise: schedule.sunrise,
+        dhuhr: schedule.dhuhr,
+        asr: schedule.asr,
+        maghrib: schedule.maghrib,
+        isha: schedule.isha
+      })),
+    nights: schedules
+      .map(schedule => schedule.ramadan?.tarawih)
+      .filter((night): night is ResolvedTarawih => Boolean(night)),
+    imsak_minutes: settings.imsak_minutes,
+    tarawih_offset_minutes: settings.tarawih_offset_minutes
+  };
+};
+
+const formatDay = (date: string) => {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+};
+
+interface TableColumn {
+  label: string;
+  width: number;
+  align?: 'left' | 'center';
+}
+
+const HEADER_COLOR: PdfColor = [4, 120, 87];
+const STRIPE_COLOR: PdfColor = [236, 253, 245];
+const BORDER_COLOR: PdfColor = [209, 213, 219];
+
+// Draw a striped table starting at top, returning the y below it
+const drawTable = (elements: PdfElement[], top: number, columns: TableColumn[], rows: string[][]): number => {
+  const left = 36;
+  const rowHeight = 19;
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+  elements.push({ type: 'rect', x: left, y: top, width: tableWidth, height: rowHeight, fill: HEADER_COLOR });
+  let x = left;
+  for (const column of columns) {
+    elements.push({
+      type: 'text',
+      x: column.align === 'left' ? x + 4 : x + column.width / 2,
+      y: top + 13,
+      text: column.label,
+      size: 9,
+      bold: true,
+      align: column.align === 'left' ? 'left' : 'center',
+      color: [255, 255, 255]
+    });
+    x += column.width;
+  }
+
+  rows.forEach((row, rowIndex) => {
+    const y = top + rowHeight * (rowIndex + 1);
+    if (rowIndex % 2 === 1) {
+      elements.push({ type: 'rect', x: left, y, width: tableWidth, height: rowHeight, fill: STRIPE_COLOR });
+    }
+    let cellX = left;
+    row.forEach((cell, columnIndex) => {
+      const column = columns[columnIndex];
+      elements.push({
+        type: 'text',
+        x: column.align === 'left' ? cellX + 4 : cellX + column.width / 2,
+        y: y + 13,
+        text: fitText(cell, column.width - 8, 9),
+        size: 9,
+        align: column.align === 'left' ? 'left' : 'center'
+      });
+      cellX += column.width;
+    });
+    elements.push({ type: 'line', x1: left, y1: y + rowHeight, x2: left + tableWidth, y2: y + rowHeight, color: BORDER_COLOR });
+  });
+
+  const bottom = top + rowHeight * (rows.length + 1);
+  elements.push({ type: 'rect', x: left, y: top, width: tableWidth, height: bottom - top, stroke: BORDER_COLOR });
+  return bottom;
+};
+
+// Title block shared by both pages
+const drawHeading = (elements: PdfElement[], title: string, subtitle: string) => {
+  elements.push(
+    { type: 'text', x: A4.width / 2, y: 56, text: title, size: 16, bold: true, align: 'center', color: HEADER_COLOR },
+    { type: 'text', x: A4.width / 2, y: 74, text: subtitle, size: 10, align: 'center', color: [75, 85, 99] }
+  );
+};
+
+const buildImsakiyahPdf = (schedule: RamadanSchedule, settings: MosqueSettings): Buffer => {
+  const subtitle = `${settings.name} - ${formatDay(schedule.start_date)} s.d. ${formatDay(schedule.end_date)}`;
+
+  const timesPage: PdfElement[] = [];
+  drawHeading(timesPage, `Jadwal Imsakiyah Ramadhan ${schedule.hijri_year} H`, subtitle);
+  const timesBottom = drawTable(
+    timesPage,
+    92,
+    [
+      { label: 'Ramadhan', width: 55 },
+      { label: 'Tanggal', width: 118, align: 'left' },
+      { label: 'Imsak', width: 50 },
+      { label: 'Subuh', width: 50 },
+      { label: 'Terbit', width: 50 },
+      { label: 'Dzuhur', width: 50 },
+      { label: 'Ashar', width: 50 },
+      { label: 'Maghrib', width: 50 },
+      { label: 'Isya', width: 50 }
+    ],
+    schedule.days.map(day => [
+      String(day.day),
+      formatDay(day.date),
+      day.imsak || '-',
+      day.fajr || '-',
+      day.sunrise || '-',
+      day.dhuhr || '-',
+      day.asr || '-',
+      day.maghrib || '-',
+      day.isha || '-'
+    ])
+  );
+  timesPage.push({
+    type: 'text',
+    x: 36,
+    y: timesBottom + 18,
+    text: `Imsak ${schedule.imsak_minutes} menit sebelum Subuh. Waktu berbuka puasa adalah waktu Maghrib. ` +
+      `Zona waktu ${settings.timezone}.`,
+    size: 8,
+    color: [107, 114, 128]
+  });
+
+  const nightsPage: PdfElement[] = [];
+  drawHeading(nightsPage, `Jadwal Tarawih Ramadhan ${schedule.hijri_year} H`, subtitle);
+  drawTable(
+    nightsPage,
+    92,
+    [
+      { label: 'Malam', width: 45 },
+      { label: 'Tanggal', width: 110, align: 'left' },
+      { label: 'Tarawih', width: 50 },
+      { label: 'Imam', width: 109, align: 'left' },
+      { label: 'Penceramah', width: 109, align: 'left' },
+      { label: 'Tema', width: 100, align: 'left' }
+    ],
+    schedule.nights.map(night => [
+      String(night.night),
+      formatDay(night.night_date),
+      night.time || '-',
+      night.imam_name || '-',
+      night.penceramah_name || '-',
+      night.theme || '-'
+    ])
+  );
+
+  return buildPdf({
+    title: `Jadwal Imsakiyah Ramadhan ${schedule.hijri_year} H`,
+    author: settings.name,
+    pages: [timesPage, nightsPage]
+  });
+};
+
+// Get the Ramadan schedule with imsakiyah and tarawih nights (public)
+// ?year= is the Hijri year; defaults to the current or next Ramadan
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const settings = await getMosqueSettings();
+    const schedule = await getRamadanSchedule(req.query.year, settings);
+
+    if (!schedule) {
+      return res.status(400).json({ success: false, error: 'Invalid Hijri year' });
+    }
+
+    res.json({ success: true, data: schedule });
+  } catch (error) {
+    console.error('Get ramadan schedule error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Download the 30-day imsakiyah as PDF, CSV or JSON (public)
+router.get('/imsakiyah', async (req: Request, res: Response) => {
+  try {
+    const { format = 'pdf', year } = req.query;
+
+    if (!['pdf', 'csv', 'json'].includes(String(format))) {
+      return res.status(400).json({ success: false, error: 'Invalid format. Must be one of: pdf, csv, json' });
+    }
+
+    const settings = await getMosqueSettings();
+    const schedule = await getRamadanSchedule(year, settings);
+
+    if (!schedule) {
+      return res.status(400).json({ success: false, error: 'Invalid Hijri year' });
+    }
+
+    const filename = `imsakiyah-ramadhan-${schedule.hijri_year}`;
+
+    if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      return res.send(buildImsakiyahPdf(schedule, settings));
+    }
+
+    if (format === 'csv') {
+      const columns: (keyof ImsakiyahDay)[] = [
+        'day', 'date', 'hijri_date', 'imsak', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'
+      ];
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(toCsv(columns, schedule.days));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+    res.json({ success: true, data: schedule });
+  } catch (error) {
+    console.error('Export imsakiyah error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Assign the imam and penceramah for a tarawih night (Admin/Imam only)
+// :date is the evening the tarawih is prayed
+router.put('/nights/:date', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const { date } = req.params;
+    const {
+      tarawih_time,
+      imam_name,
+      penceramah_name,
+      theme,
+      notes
+    } = req.body;
+
+    if (!DATE_PATTERN.test(date)) {
+      return res.status(400).json({ success: false, error: 'Invalid date. Use YYYY-MM-DD' });
+    }
+
+    const settings = await getMosqueSettings();
+    const night = getTarawihNight(date, settings.hijri_offset);
+    if (!night) {
+      return res.status(400).json({ success: false, error: 'Date is not a night of Ramadan' });
+    }
+
+    if (tarawih_time && !TIME_PATTERN.test(tarawih_time)) {
+      return res.status(400).json({ success: false, error: 'tarawih_time must be in HH:MM format' });
+    }
+
+    const { data: ramadanNight, error } = await supabaseAdmin
+      .from('ramadan_nights')
+      .upsert({
+        night_date: date,
+        tarawih_time: tarawih_time || null,
+        imam_name: imam_name?.trim() || null,
+        penceramah_name: penceramah_name?.trim() || null,
+        theme: theme?.trim() || null,
+        notes: notes?.trim() || null,
+        updated_by: req.user?.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'night_date' })
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'RAMADAN_NIGHT',
+        resource_id: ramadanNight.id,
+        details: { night_date: date, night, imam_name, penceramah_name }
+      });
+
+    res.json({ success: true, data: { ...ramadanNight, night } });
+  } catch (error) {
+    console.error('Update ramadan night error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Clear the assignments for a tarawih night (Admin/Imam only)
+router.delete('/nights/:date', authenticateToken, authorizeRoles('Admin', 'Imam'), async (req: Request, res: Response) => {
+  try {
+    const { date } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('ramadan_nights')
+      .delete()
+      .eq('night_date', date);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'RAMADAN_NIGHT',
+        details: { night_date: date }
+      });
+
+    res.json({ success: true, message: 'Ramadan night deleted successfully' });
+  } catch (error) {
+    console.error('Delete ramadan night error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
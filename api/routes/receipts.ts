@@ -0,0 +1,164 @@
+/**
+ * Donation receipts API routes
+ */
+import { Router, Request, Response } from 'express';
+import { authenticateToken, authorizeRoles } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { getMosqueSettings, getMosqueToday } from '../lib/prayerSchedule.js';
+import { buildReceiptPdf, issueAnnualReceipt, verifyReceiptSignature, Receipt } from '../lib/receipts.js';
+
+const router = Router();
+
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Get the current user's receipts (authenticated users)
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { data: receipts, error } = await supabaseAdmin
+      .from('donation_receipts')
+      .select('id, receipt_number, kind, donation_id, period_year, amount, issued_at, is_void, void_reason')
+      .eq('donor_id', req.user?.id)
+      .order('issued_at', { ascending: false });
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({ success: true, data: receipts });
+  } catch (error) {
+    console.error('Get receipts error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Download the annual receipt of a past year as PDF (authenticated users; Admin/Imam/Pengurus may pass donor_id)
+// Issued on first download
+router.get('/annual/:year', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const year = Number(req.params.year);
+    const currentYear = Number(getMosqueToday(await getMosqueSettings()).slice(0, 4));
+    if (!Number.isInteger(year) || year < 2000 || year >= currentYear) {
+      return res.status(400).json({ success: false, error: 'year must be a past year' });
+    }
+
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+    const donorId = req.query.donor_id && isStaff ? String(req.query.donor_id) : req.user?.id;
+    if (!donorId || !UUID_PATTERN.test(donorId)) {
+      return res.status(400).json({ success: false, error: 'Invalid donor_id' });
+    }
+
+    const receipt = await issueAnnualReceipt(donorId, year);
+    if (!receipt) {
+      return res.status(404).json({ success: false, error: `No completed donations in ${year}` });
+    }
+
+    const pdf = await buildReceiptPdf(receipt);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="kuitansi-${year}-${receipt.receipt_number}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Get annual receipt error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Verify a receipt from its QR code (public)
+// Answers only with the signature from the QR code, so receipt numbers can't be enumerated
+router.get('/verify/:number', async (req: Request, res: Response) => {
+  try {
+    const { number } = req.params;
+    const signature = typeof req.query.sig === 'string' ? req.query.sig : '';
+
+    if (!signature || !verifyReceiptSignature(number, signature)) {
+      return res.status(404).json({ success: false, error: 'Receipt not found' });
+    }
+
+    const { data: receipt } = await supabaseAdmin
+      .from('donation_receipts')
+      .select('*')
+      .eq('receipt_number', number)
+      .single();
+
+    if (!receipt) {
+      return res.status(404).json({ success: false, error: 'Receipt not found' });
+    }
+
+    const { details } = receipt as Receipt;
+    res.json({
+      success: true,
+      data: {
+        receipt_number: receipt.receipt_number,
+        kind: receipt.kind,
+        valid: !receipt.is_void,
+        donor_name: receipt.donor_name,
+        amount: receipt.amount,
+        period_year: receipt.period_year,
+        donation_type: details.donation_type || null,
+        reference_number: details.reference_number || null,
+        completed_at: details.completed_at || null,
+        donation_count: details.donations?.length ?? null,
+        issued_at: receipt.issued_at,
+        void_reason: receipt.void_reason,
+        voided_at: receipt.voided_at
+      }
+    });
+  } catch (error) {
+    console.error('Verify receipt error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Void a receipt issued in error (Admin/Imam/Pengurus only)
+// A donation receipt is issued again on its next download while the donation is completed
+router.post('/:number/void', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { number } = req.params;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!reason) {
+      return res.status(400).json({ success: false, error: 'Missing required field: reason' });
+    }
+
+    const { data: voided, error } = await supabaseAdmin
+      .from('donation_receipts')
+      .update({ is_void: true, void_reason: reason, voided_at: new Date().toISOString() })
+      .eq('receipt_number', number)
+      .eq('is_void', false)
+      .select('*');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!voided || voided.length === 0) {
+      const { data: existing } = await supabaseAdmin
+        .from('donation_receipts')
+        .select('id')
+        .eq('receipt_number', number)
+        .single();
+
+      return existing
+        ? res.status(409).json({ success: false, error: 'Receipt is already void' })
+        : res.status(404).json({ success: false, error: 'Receipt not found' });
+    }
+
+    // Log receipt void
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'VOID',
+        resource_type: 'DONATION_RECEIPT',
+        resource_id: voided[0].id,
+        details: { receipt_number: number, reason }
+      });
+
+    res.json({ success: true, data: voided[0] });
+  } catch (error) {
+    console.error('Void receipt error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
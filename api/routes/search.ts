@@ -0,0 +1,141 @@
+/**
+ * Search API routes
+ */
+import { Router, Request, Response } from 'express';
+import { optionalAuth } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { loadAudienceViewer } from '../lib/announcements.js';
+
+const router = Router();
+
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const SEARCH_TYPES = ['announcements', 'events', 'members'] as const;
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const MAX_LIMIT = 20;
+
+type SearchType = typeof SEARCH_TYPES[number];
+
+// ts_headline marks matches with <b>; the client highlights matches itself
+const plainSnippet = (snippet: string | null) => snippet ? snippet.replace(/<\/?b>/g, '') : null;
+
+// Search announcements, events and members (public with optional auth)
+// Members are only searched for signed-in users, by name only
+router.get('/', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    const limit = Math.min(Math.max(Number(req.query.limit) || 5, 1), MAX_LIMIT);
+    const requested = req.query.types
+      ? String(req.query.types).split(',').map(type => type.trim())
+      : [...SEARCH_TYPES];
+
+    if (q.length < MIN_QUERY_LENGTH || q.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Search query must be ${MIN_QUERY_LENGTH} to ${MAX_QUERY_LENGTH} characters`
+      });
+    }
+
+    const invalidType = requested.find(type => !SEARCH_TYPES.includes(type as SearchType));
+    if (invalidType) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid type: ${invalidType}. Must be one of: ${SEARCH_TYPES.join(', ')}`
+      });
+    }
+
+    // The member directory is for signed-in users only
+    const types = requested.filter(type => type !== 'members' || req.user) as SearchType[];
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    const searchAnnouncements = async () => {
+      const viewer = req.user ? await loadAudienceViewer(req.user) : null;
+      const { data, error } = await supabaseAdmin.rpc('search_announcements', {
+        search_query: q,
+        viewer_id: viewer?.id ?? null,
+        viewer_role: viewer?.role ?? null,
+        viewer_skills: viewer?.skills ?? [],
+        viewer_event_ids: viewer?.eventIds ?? [],
+        is_staff: isStaff,
+        max_results: limit
+      });
+      if (error) throw new Error(error.message);
+
+      return (data || []).map((row: Record<string, unknown>) => ({
+        type: 'announcement',
+        id: row.id,
+        title: row.title,
+        snippet: plainSnippet(row.snippet as string | null),
+        url: `/announcements/${row.id}`,
+        rank: row.rank,
+        category: row.category,
+        priority: row.priority,
+        published_at: row.published_at
+      }));
+    };
+
+    const searchEvents = async () => {
+      const { data, error } = await supabaseAdmin.rpc('search_events', {
+        search_query: q,
+        max_results: limit
+      });
+      if (error) throw new Error(error.message);
+
+      return (data || []).map((row: Record<string, unknown>) => ({
+        type: 'event',
+        id: row.id,
+        title: row.title,
+        snippet: plainSnippet(row.snippet as string | null),
+        url: `/events/${row.id}`,
+        rank: row.rank,
+        event_type: row.type,
+        speaker: row.speaker,
+        event_datetime: row.event_datetime
+      }));
+    };
+
+    const searchMembers = async () => {
+      const { data, error } = await supabaseAdmin.rpc('search_members', {
+        search_query: q,
+        max_results: limit
+      });
+      if (error) throw new Error(error.message);
+
+      return (data || []).map((row: Record<string, unknown>) => ({
+        type: 'member',
+        id: row.id,
+        title: row.display_name,
+        snippet: null,
+        url: `/directory/${row.id}`,
+        rank: row.rank,
+        profile_picture: row.profile_picture
+      }));
+    };
+
+    const searches: Record<SearchType, () => Promise<Record<string, unknown>[]>> = {
+      announcements: searchAnnouncements,
+      events: searchEvents,
+      members: searchMembers
+    };
+
+    const results = await Promise.all(types.map(type => searches[type]()));
+    const groups = types.map((type, index) => ({ type, results: results[index] }));
+
+    // Results depend on who is searching
+    res.set('Cache-Control', 'private');
+    res.vary('Authorization');
+    res.json({
+      success: true,
+      data: {
+        query: q,
+        total: results.reduce((sum, group) => sum + group.length, 0),
+        groups
+      }
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,611 @@
+/**
+ * Speakers API routes
+ */
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { getStorage } from '../lib/storage.js';
+import { getMosqueSettings, getMosqueToday } from '../lib/prayerSchedule.js';
+import { shiftDate } from '../lib/hijri.js';
+import {
+  normalizeSpeakerName,
+  speakerSlug,
+  createSpeakerPhoto,
+  speakerPhotoKey,
+  speakerPhotoUrl,
+  listSpeakerEvents
+} from '../lib/speakers.js';
+
+const router = Router();
+
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const PUBLIC_COLUMNS = 'id, name, slug, bio, photo_key, topics, is_active, created_at, updated_at';
+const STAFF_COLUMNS = `${PUBLIC_COLUMNS}, phone, email, aliases`;
+
+const MAX_TOPICS = 20;
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+// Speaker page: the past year and the coming three months
+const PAST_DAYS = 365;
+const UPCOMING_DAYS = 90;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_BYTES, files: 1 }
+});
+
+// Parse a single multipart upload in the "photo" field; upload errors are the client's
+const uploadPhoto = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('photo')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Photo is too large. Maximum is ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`
+        : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+// Speakers as returned by the API; the storage key is replaced by a URL
+const presentSpeaker = <T extends { id: string; photo_key: string | null }>(speaker: T) => {
+  const { photo_key, ...rest } = speaker;
+  return { ...rest, photo_url: speakerPhotoUrl({ id: speaker.id, photo_key }) };
+};
+
+// Validate the editable fields of a request body; only fields present are returned
+const parseSpeakerFields = (body: Record<string, unknown>) => {
+  const fields: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100 || !normalizeSpeakerName(name)) {
+      return { fields, error: 'name must be 1 to 100 characters' };
+    }
+    fields.name = name;
+  }
+
+  if (body.bio !== undefined) {
+    fields.bio = typeof body.bio === 'string' && body.bio.trim() ? body.bio.trim() : null;
+  }
+
+  if (body.topics !== undefined) {
+    // Accept a list or a comma-separated string
+    const list = Array.isArray(body.topics) ? body.topics : String(body.topics || '').split(',');
+    const topics = [...new Set(list.map(topic => String(topic).trim()).filter(Boolean))];
+    if (topics.length > MAX_TOPICS || topics.some(topic => topic.length > 50)) {
+      return { fields, error: `topics must be at most ${MAX_TOPICS} topics of up to 50 characters` };
+    }
+    fields.topics = topics;
+  }
+
+  if (body.phone !== undefined) {
+    const phone = typeof body.phone === 'string' ? body.phone.trim() : '';
+    if (phone && !/^\+?[0-9 -]{6,20}$/.test(phone)) {
+      return { fields, error: 'phone must be a phone number' };
+    }
+    fields.phone = phone || null;
+  }
+
+  if (body.email !== undefined) {
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    if (email && !EMAIL_PATTERN.test(email)) {
+      return { fields, error: 'email must be an email address' };
+    }
+    fields.email = email || null;
+  }
+
+  if (body.aliases !== undefined) {
+    if (!Array.isArray(body.aliases)) {
+      return { fields, error: 'aliases must be a list of names' };
+    }
+    fields.aliases = [...new Set(body.aliases.map(alias => normalizeSpeakerName(String(alias))).filter(Boolean))];
+  }
+
+  return { fields };
+};
+
+// First free slug for a name: "abdul-somad", then "abdul-somad-2", ...
+const uniqueSlug = async (name: string, exceptId?: string) => {
+  const base = speakerSlug(name);
+  const { data } = await supabaseAdmin
+    .from('speakers')
+    .select('id, slug')
+    .like('slug', `${base}%`);
+
+  const taken = new Set((data || []).filter(speaker => speaker.id !== exceptId).map(speaker => speaker.slug));
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+};
+
+// Link unlinked events whose free-text speaker matches the speaker's name or aliases
+const linkMatchingEvents = async (speaker: { id: string; name: string; aliases?: string[] }) => {
+  const { data, error } = await supabaseAdmin.rpc('link_speaker_names', {
+    target_speaker_id: speaker.id,
+    name_keys: [normalizeSpeakerName(speaker.name), ...(speaker.aliases || [])]
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return Number(data) || 0;
+};
+
+// Get speakers (public with optional auth)
+// Filter with ?q= (name) and ?topic=; staff can add ?include_inactive=true
+router.get('/', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { q, topic, include_inactive, limit = 50, offset = 0 } = req.query;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    let query = supabaseAdmin
+      .from('speakers')
+      .select(isStaff ? STAFF_COLUMNS : PUBLIC_COLUMNS, { count: 'exact' })
+      .order('name', { ascending: true })
+      .range(Number(offset), Number(offset) + Number(limit) - 1);
+
+    if (!(isStaff && include_inactive === 'true')) {
+      query = query.eq('is_active', true);
+    }
+
+    if (q) {
+      query = query.ilike('name', `%${String(q).replace(/[%_]/g, '')}%`);
+    }
+
+    if (topic) {
+      query = query.contains('topics', [String(topic)]);
+    }
+
+    const { data: speakers, error, count } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        speakers: (speakers as unknown as { id: string; photo_key: string | null }[] || []).map(presentSpeaker),
+        pagination: {
+          total: count || 0,
+          limit: Number(limit),
+          offset: Number(offset)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get speakers error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Free-text speaker names on events that are not linked to a speaker yet (Admin/Imam/Pengurus only)
+router.get('/unmatched', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await supabaseAdmin.rpc('unmatched_speaker_names');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    res.json({ success: true, data: data || [] });
+  } catch (error) {
+    console.error('Get unmatched speakers error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a speaker by ID or slug, with past and upcoming events (public with optional auth)
+router.get('/:idOrSlug', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { idOrSlug } = req.params;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    const { data: speaker, error } = await supabaseAdmin
+      .from('speakers')
+      .select(isStaff ? STAFF_COLUMNS : PUBLIC_COLUMNS)
+      .eq(UUID_PATTERN.test(idOrSlug) ? 'id' : 'slug', idOrSlug)
+      .single();
+
+    const found = speaker as unknown as { id: string; photo_key: string | null; is_active: boolean } | null;
+    if (error || !found || (!found.is_active && !isStaff)) {
+      return res.status(404).json({ success: false, error: 'Speaker not found' });
+    }
+
+    const settings = await getMosqueSettings();
+    const today = getMosqueToday(settings);
+    const [events, { data: series }] = await Promise.all([
+      listSpeakerEvents(found.id, shiftDate(today, -PAST_DAYS), shiftDate(today, UPCOMING_DAYS), settings),
+      supabaseAdmin
+        .from('kajian_series')
+        .select('id, title, kitab_title, status')
+        .eq('speaker_id', found.id)
+        .eq('is_active', true)
+        .order('updated_at', { ascending: false })
+    ]);
+    const now = Date.now();
+
+    res.json({
+      success: true,
+      data: {
+        ...presentSpeaker(found),
+        series: series || [],
+        upcoming_events: events.filter(event => Date.parse(event.starts_at) >= now),
+        past_events: events.filter(event => Date.parse(event.starts_at) < now).reverse()
+      }
+    });
+  } catch (error) {
+    console.error('Get speaker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create speaker (Admin/Imam/Pengurus only)
+// Existing events whose free-text speaker matches the name or aliases are linked
+router.post('/', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    if (!req.body.name) {
+      return res.status(400).json({ success: false, error: 'Missing required field: name' });
+    }
+
+    const { fields, error: validationError } = parseSpeakerFields(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: speaker, error } = await supabaseAdmin
+      .from('speakers')
+      .insert({
+        ...fields,
+        slug: await uniqueSlug(String(fields.name)),
+        created_by: req.user?.id
+      })
+      .select(STAFF_COLUMNS)
+      .single();
+
+    if (error) {
+      const message = error.code === '23505' ? 'A speaker with this name already exists' : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+
+    const linkedEvents = await linkMatchingEvents(speaker);
+
+    // Log creation
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'CREATE',
+        resource_type: 'SPEAKER',
+        resource_id: speaker.id,
+        details: { name: speaker.name, linked_events: linkedEvents }
+      });
+
+    res.status(201).json({ success: true, data: { ...presentSpeaker(speaker), linked_events: linkedEvents } });
+  } catch (error) {
+    console.error('Create speaker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Update speaker (Admin/Imam/Pengurus only)
+// A new name is copied to linked events; the old name stays matchable as an alias
+router.put('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { fields, error: validationError } = parseSpeakerFields(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: existing, error: findError } = await supabaseAdmin
+      .from('speakers')
+      .select('id, name, aliases')
+      .eq('id', id)
+      .single();
+
+    if (findError || !existing) {
+      return res.status(404).json({ success: false, error: 'Speaker not found' });
+    }
+
+    const renamed = fields.name !== undefined && fields.name !== existing.name;
+    if (renamed) {
+      const aliases = (fields.aliases as string[] | undefined) || existing.aliases || [];
+      const oldKey = normalizeSpeakerName(existing.name);
+      fields.aliases = aliases.includes(oldKey) ? aliases : [...aliases, oldKey];
+      fields.slug = await uniqueSlug(String(fields.name), id);
+    }
+    if (req.body.is_active !== undefined) {
+      fields.is_active = Boolean(req.body.is_active);
+    }
+
+    const { data: speaker, error } = await supabaseAdmin
+      .from('speakers')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(STAFF_COLUMNS)
+      .single();
+
+    if (error) {
+      const message = error.code === '23505' ? 'A speaker with this name already exists' : error.message;
+      return res.status(400).json({ success: false, error: message });
+    }
+
+    if (renamed) {
+      await Promise.all([
+        supabaseAdmin.from('events').update({ speaker: speaker.name, updated_at: speaker.updated_at }).eq('speaker_id', id),
+        supabaseAdmin.from('event_occurrence_overrides').update({ speaker: speaker.name, updated_at: speaker.updated_at }).eq('speaker_id', id)
+      ]);
+    }
+
+    const linkedEvents = speaker.is_active && (renamed || fields.aliases !== undefined)
+      ? await linkMatchingEvents(speaker)
+      : 0;
+
+    // Log update
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'SPEAKER',
+        resource_id: id,
+        details: { updated_fields: Object.keys(req.body), linked_events: linkedEvents }
+      });
+
+    res.json({ success: true, data: { ...presentSpeaker(speaker), linked_events: linkedEvents } });
+  } catch (error) {
+    console.error('Update speaker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Link free-text speaker names to a speaker (Admin/Imam/Pengurus only)
+// Body: { names: ["Ust. Abdul Shomad", ...] }, e.g. from GET /unmatched. The
+// names become aliases, so later events with these spellings are linked too.
+router.post('/:id/link', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { names } = req.body;
+
+    if (!Array.isArray(names) || names.length === 0) {
+      return res.status(400).json({ success: false, error: 'names must be a non-empty list' });
+    }
+
+    const { data: existing, error: findError } = await supabaseAdmin
+      .from('speakers')
+      .select('id, name, aliases')
+      .eq('id', id)
+      .eq('is_active', true)
+      .single();
+
+    if (findError || !existing) {
+      return res.status(404).json({ success: false, error: 'Speaker not found' });
+    }
+
+    const ownKey = normalizeSpeakerName(existing.name);
+    const keys = names.map(name => normalizeSpeakerName(String(name))).filter(key => key && key !== ownKey);
+    const aliases = [...new Set([...(existing.aliases || []), ...keys])];
+
+    const { data: speaker, error } = await supabaseAdmin
+      .from('speakers')
+      .update({ aliases, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(STAFF_COLUMNS)
+      .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const linkedEvents = await linkMatchingEvents(speaker);
+
+    // Log linking
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'UPDATE',
+        resource_type: 'SPEAKER',
+        resource_id: id,
+        details: { linked_names: names, linked_events: linkedEvents }
+      });
+
+    res.json({ success: true, data: { ...presentSpeaker(speaker), linked_events: linkedEvents } });
+  } catch (error) {
+    console.error('Link speaker names error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete speaker (Admin/Imam/Pengurus only)
+router.delete('/:id', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Soft delete; events keep the speaker's name
+    const { data: removed, error } = await supabaseAdmin
+      .from('speakers')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!removed || removed.length === 0) {
+      return res.status(404).json({ success: false, error: 'Speaker not found' });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'SPEAKER',
+        resource_id: id
+      });
+
+    res.json({ success: true, message: 'Speaker deleted successfully' });
+  } catch (error) {
+    console.error('Delete speaker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Upload a speaker photo (Admin/Imam/Pengurus only)
+// Send multipart/form-data with a JPEG, PNG or WebP image in the "photo" field
+router.post(
+  '/:id/photo',
+  authenticateToken,
+  authorizeRoles('Admin', 'Imam', 'Pengurus'),
+  uploadPhoto,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.file) {
+        return res.status(400).json({ success: false, error: 'An image is required in the "photo" field' });
+      }
+
+      const { data: existing, error: findError } = await supabaseAdmin
+        .from('speakers')
+        .select('id, photo_key')
+        .eq('id', id)
+        .single();
+
+      if (findError || !existing) {
+        return res.status(404).json({ success: false, error: 'Speaker not found' });
+      }
+
+      const { body, error: photoError } = await createSpeakerPhoto(req.file.buffer);
+      if (!body) {
+        return res.status(400).json({ success: false, error: photoError });
+      }
+
+      const storage = getStorage();
+      const photoKey = speakerPhotoKey(id);
+      await storage.put(photoKey, body, 'image/webp');
+
+      const { data: speaker, error } = await supabaseAdmin
+        .from('speakers')
+        .update({ photo_key: photoKey, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(STAFF_COLUMNS)
+        .single();
+
+      if (error) {
+        // Don't leave orphaned files behind
+        await storage.delete(photoKey);
+        return res.status(400).json({ success: false, error: error.message });
+      }
+
+      if (existing.photo_key) {
+        await storage.delete(existing.photo_key);
+      }
+
+      // Log photo upload
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: req.user?.id,
+          action: 'UPDATE',
+          resource_type: 'SPEAKER',
+          resource_id: id,
+          details: { updated_fields: ['photo'] }
+        });
+
+      res.json({ success: true, data: presentSpeaker(speaker) });
+    } catch (error) {
+      console.error('Upload speaker photo error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// Get a speaker's photo (public)
+router.get('/:id/photo', async (req: Request, res: Response) => {
+  try {
+    const { data: speaker } = await supabaseAdmin
+      .from('speakers')
+      .select('photo_key')
+      .eq('id', req.params.id)
+      .single();
+
+    const body = speaker?.photo_key ? await getStorage().get(speaker.photo_key) : null;
+    if (!body) {
+      return res.status(404).json({ success: false, error: 'Photo not found' });
+    }
+
+    // Every upload has a new URL, so the photo can be cached forever
+    res.set({
+      'Content-Type': 'image/webp',
+      'Content-Length': String(body.length),
+      'Cache-Control': 'public, max-age=31536000, immutable'
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('Get speaker photo error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Remove a speaker's photo (Admin/Imam/Pengurus only)
+router.delete('/:id/photo', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: existing, error: findError } = await supabaseAdmin
+      .from('speakers')
+      .select('id, photo_key')
+      .eq('id', id)
+      .single();
+
+    if (findError || !existing) {
+      return res.status(404).json({ success: false, error: 'Speaker not found' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('speakers')
+      .update({ photo_key: null, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (existing.photo_key) {
+      await getStorage().delete(existing.photo_key);
+    }
+
+    // Log photo removal
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'SPEAKER_PHOTO',
+        resource_id: id
+      });
+
+    res.json({ success: true, message: 'Photo removed successfully' });
+  } catch (error) {
+    console.error('Delete speaker photo error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,648 @@
+/**
+ * Event survey API routes
+ */
+import { Router, Request, Response } from 'express';
+import { authenticateToken, authorizeRoles, optionalAuth } from '../middleware/auth.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { isRecurring, findOccurrence, RecurringEvent } from '../lib/eventOccurrences.js';
+import { getMosqueSettings, MosqueSettings } from '../lib/prayerSchedule.js';
+import {
+  parseQuestions,
+  areQuestionsCompatible,
+  validateAnswers,
+  respondentKey,
+  getSurveyWindow,
+  getSurveyState,
+  summarizeResponses,
+  summarizeRatings,
+  SurveyQuestion,
+  SurveyAnswers
+} from '../lib/eventSurveys.js';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STAFF_ROLES = ['Admin', 'Imam', 'Pengurus'];
+const MAX_OPEN_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SURVEY_COLUMNS = 'id, event_id, title, description, questions, allow_anonymous, attendees_only, open_days, is_active, created_at, updated_at';
+
+type SurveyEvent = RecurringEvent & { title: string };
+
+// When the event, or its occurrence on a date, was held and by whom
+const resolveHeldEvent = async (event: SurveyEvent, date: unknown, settings?: MosqueSettings) => {
+  if (!isRecurring(event)) {
+    return { occurrenceDate: null, startsAt: event.event_datetime, speakerId: event.speaker_id ?? null };
+  }
+
+  if (!date || !DATE_PATTERN.test(String(date))) {
+    return { error: 'date (YYYY-MM-DD) is required for recurring events' };
+  }
+
+  const occurrence = await findOccurrence(event, String(date), settings);
+  if (!occurrence || occurrence.is_cancelled) {
+    return { error: 'Occurrence not found', status: 404 };
+  }
+
+  return { occurrenceDate: occurrence.occurrence_date, startsAt: occurrence.starts_at, speakerId: occurrence.speaker_id };
+};
+
+// Whether a member was checked in at the event or occurrence
+const hasAttended = async (eventId: string, occurrenceDate: string | null, userId: string) => {
+  let query = supabaseAdmin
+    .from('event_registrations')
+    .select('id')
+    .eq('event_id', eventId)
+    .eq('user_id', userId)
+    .eq('status', 'attended');
+
+  query = occurrenceDate ? query.eq('occurrence_date', occurrenceDate) : query.is('occurrence_date', null);
+
+  const { data } = await query.limit(1);
+  return Boolean(data && data.length > 0);
+};
+
+// Validate the editable fields of a survey; only fields present are returned
+const parseSurveyFields = (body: Record<string, unknown>) => {
+  const fields: Record<string, unknown> = {};
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    if (!title || title.length > 200) {
+      return { fields, error: 'title must be 1 to 200 characters' };
+    }
+    fields.title = title;
+  }
+
+  if (body.description !== undefined) {
+    fields.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (body.questions !== undefined) {
+    const { questions, error } = parseQuestions(body.questions);
+    if (error) {
+      return { fields, error };
+    }
+    fields.questions = questions;
+  }
+
+  for (const column of ['allow_anonymous', 'attendees_only', 'is_active'] as const) {
+    if (body[column] !== undefined) {
+      fields[column] = Boolean(body[column]);
+    }
+  }
+
+  if (body.open_days !== undefined) {
+    const days = Number(body.open_days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_OPEN_DAYS) {
+      return { fields, error: `open_days must be between 1 and ${MAX_OPEN_DAYS}` };
+    }
+    fields.open_days = days;
+  }
+
+  return { fields };
+};
+
+// Open surveys the current member attended and has not answered yet (authenticated users)
+router.get('/pending', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id as string;
+    const since = new Date(Date.now() - MAX_OPEN_DAYS * DAY_MS).toISOString();
+
+    const { data: registrations, error } = await supabaseAdmin
+      .from('event_registrations')
+      .select('event_id, occurrence_date')
+      .eq('user_id', userId)
+      .eq('status', 'attended')
+      .gte('checked_in_at', since);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const eventIds = [...new Set((registrations || []).map(registration => registration.event_id))];
+    if (eventIds.length === 0) {
+      return res.json({ success: true, data: [] });
+    }
+
+    const [{ data: surveys }, { data: events }] = await Promise.all([
+      supabaseAdmin.from('event_surveys').select(SURVEY_COLUMNS).in('event_id', eventIds).eq('is_active', true),
+      supabaseAdmin.from('events').select('*').in('id', eventIds)
+    ]);
+
+    const surveysByEvent = new Map((surveys || []).map(survey => [survey.event_id, survey]));
+    const eventsById = new Map(((events || []) as SurveyEvent[]).map(event => [event.id, event]));
+    const settings = await getMosqueSettings();
+    const now = new Date();
+
+    const candidates = [];
+    for (const registration of registrations || []) {
+      const survey = surveysByEvent.get(registration.event_id);
+      const event = eventsById.get(registration.event_id);
+      if (!survey || !event) continue;
+
+      const held = await resolveHeldEvent(event, registration.occurrence_date, settings);
+      if (!held.startsAt) continue;
+
+      const window = getSurveyWindow(held.startsAt, survey.open_days);
+      if (getSurveyState(window, now) !== 'open') continue;
+
+      candidates.push({
+        key: respondentKey(survey.id, userId, held.occurrenceDate),
+        survey: {
+          survey_id: survey.id,
+          event_id: event.id,
+          event_title: event.title,
+          occurrence_date: held.occurrenceDate,
+          title: survey.title,
+          starts_at: held.startsAt,
+          closes_at: window.closes_at
+        }
+      });
+    }
+
+    const { data: answered } = candidates.length > 0
+      ? await supabaseAdmin
+        .from('event_survey_responses')
+        .select('respondent_key')
+        .in('respondent_key', candidates.map(candidate => candidate.key))
+      : { data: [] };
+
+    const answeredKeys = new Set((answered || []).map(response => response.respondent_key));
+
+    res.json({
+      success: true,
+      data: candidates
+        .filter(candidate => !answeredKeys.has(candidate.key))
+        .map(candidate => candidate.survey)
+        .sort((a, b) => Date.parse(a.closes_at) - Date.parse(b.closes_at))
+    });
+  } catch (error) {
+    console.error('Get pending surveys error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get an event's survey, with whether the current member can still answer it (public)
+// Recurring events take the occurrence as ?date=
+router.get('/events/:eventId', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const isStaff = Boolean(req.user && STAFF_ROLES.includes(req.user.role));
+
+    const { data: survey } = await supabaseAdmin
+      .from('event_surveys')
+      .select(SURVEY_COLUMNS)
+      .eq('event_id', eventId)
+      .single();
+
+    if (!survey || (!survey.is_active && !isStaff)) {
+      return res.status(404).json({ success: false, error: 'Survey not found' });
+    }
+
+    const { data: event } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    // Without a date, recurring events only return the questions
+    const held = isRecurring(event) && !req.query.date ? null : await resolveHeldEvent(event, req.query.date);
+    if (held?.error) {
+      return res.status(held.status || 400).json({ success: false, error: held.error });
+    }
+
+    const window = held?.startsAt ? getSurveyWindow(held.startsAt, survey.open_days) : null;
+    let respondent = null;
+
+    if (req.user && held?.startsAt) {
+      const { data: existing } = await supabaseAdmin
+        .from('event_survey_responses')
+        .select('id')
+        .eq('survey_id', survey.id)
+        .eq('respondent_key', respondentKey(survey.id, req.user.id, held.occurrenceDate ?? null))
+        .maybeSingle();
+
+      respondent = {
+        has_responded: Boolean(existing),
+        has_attended: await hasAttended(eventId, held.occurrenceDate ?? null, req.user.id)
+      };
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...survey,
+        event: { id: event.id, title: event.title, speaker: event.speaker, location: event.location },
+        occurrence_date: held?.occurrenceDate ?? null,
+        starts_at: held?.startsAt ?? null,
+        opens_at: window?.opens_at ?? null,
+        closes_at: window?.closes_at ?? null,
+        state: window ? getSurveyState(window) : null,
+        ...(respondent ? { respondent } : {})
+      }
+    });
+  } catch (error) {
+    console.error('Get event survey error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create or update an event's survey (Admin/Imam/Pengurus only)
+// Questions answered already keep their type, scale and options
+router.put('/events/:eventId', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const { fields, error: fieldError } = parseSurveyFields(req.body);
+
+    if (fieldError) {
+      return res.status(400).json({ success: false, error: fieldError });
+    }
+
+    const { data: event } = await supabaseAdmin
+      .from('events')
+      .select('id')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('event_surveys')
+      .select('id, questions')
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    if (!existing && (!fields.title || !fields.questions)) {
+      return res.status(400).json({ success: false, error: 'Missing required fields: title, questions' });
+    }
+
+    if (existing && fields.questions) {
+      const { count } = await supabaseAdmin
+        .from('event_survey_responses')
+        .select('id', { count: 'exact', head: true })
+        .eq('survey_id', existing.id);
+
+      if (count && !areQuestionsCompatible(existing.questions as SurveyQuestion[], fields.questions as SurveyQuestion[])) {
+        return res.status(409).json({
+          success: false,
+          error: 'The survey has responses: existing questions cannot be removed or change type, scale or options'
+        });
+      }
+    }
+
+    const { data: survey, error } = existing
+      ? await supabaseAdmin
+        .from('event_surveys')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select(SURVEY_COLUMNS)
+        .single()
+      : await supabaseAdmin
+        .from('event_surveys')
+        .insert({ ...fields, event_id: eventId, created_by: req.user?.id })
+        .select(SURVEY_COLUMNS)
+        .single();
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log change
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: existing ? 'UPDATE' : 'CREATE',
+        resource_type: 'EVENT_SURVEY',
+        resource_id: survey.id,
+        details: { event_id: eventId, ...fields }
+      });
+
+    res.status(existing ? 200 : 201).json({ success: true, data: survey });
+  } catch (error) {
+    console.error('Save event survey error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Remove an event's survey (Admin/Imam/Pengurus only)
+// Responses are kept for the speaker's results
+router.delete('/events/:eventId', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { data: survey, error } = await supabaseAdmin
+      .from('event_surveys')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('event_id', req.params.eventId)
+      .select('id')
+      .single();
+
+    if (error || !survey) {
+      return res.status(404).json({ success: false, error: 'Survey not found' });
+    }
+
+    // Log deletion
+    await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        user_id: req.user?.id,
+        action: 'DELETE',
+        resource_type: 'EVENT_SURVEY',
+        resource_id: survey.id,
+        details: { event_id: req.params.eventId }
+      });
+
+    res.json({ success: true, message: 'Survey removed' });
+  } catch (error) {
+    console.error('Delete event survey error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Answer an event's survey (authenticated users)
+// Sending the same response again (e.g. from the offline queue) is not an error
+router.post('/events/:eventId/responses', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const { date, anonymous, answers: input } = req.body;
+    const userId = req.user?.id as string;
+
+    const { data: survey } = await supabaseAdmin
+      .from('event_surveys')
+      .select(SURVEY_COLUMNS)
+      .eq('event_id', eventId)
+      .eq('is_active', true)
+      .single();
+
+    if (!survey) {
+      return res.status(404).json({ success: false, error: 'Survey not found' });
+    }
+
+    const { data: event } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return res.status(404).json({ success: false, error: 'Event not found' });
+    }
+
+    const held = await resolveHeldEvent(event, date);
+    if (held.error || !held.startsAt) {
+      return res.status(held.status || 400).json({ success: false, error: held.error });
+    }
+
+    const key = respondentKey(survey.id, userId, held.occurrenceDate);
+    const { data: existing } = await supabaseAdmin
+      .from('event_survey_responses')
+      .select('id')
+      .eq('survey_id', survey.id)
+      .eq('respondent_key', key)
+      .maybeSingle();
+
+    if (existing) {
+      return res.json({ success: true, data: { already_submitted: true }, message: 'Response already recorded' });
+    }
+
+    const state = getSurveyState(getSurveyWindow(held.startsAt, survey.open_days));
+    if (state !== 'open') {
+      return res.status(400).json({
+        success: false,
+        error: state === 'upcoming' ? 'The survey opens when the event starts' : 'The survey is closed'
+      });
+    }
+
+    if (survey.attendees_only && !await hasAttended(eventId, held.occurrenceDate, userId)) {
+      return res.status(403).json({ success: false, error: 'Only attendees can answer this survey' });
+    }
+
+    const isAnonymous = Boolean(anonymous);
+    if (isAnonymous && !survey.allow_anonymous) {
+      return res.status(400).json({ success: false, error: 'This survey does not accept anonymous responses' });
+    }
+
+    const { answers, error: answerError } = validateAnswers(survey.questions as SurveyQuestion[], input);
+    if (answerError) {
+      return res.status(400).json({ success: false, error: answerError });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('event_survey_responses')
+      .insert({
+        survey_id: survey.id,
+        event_id: eventId,
+        occurrence_date: held.occurrenceDate,
+        speaker_id: held.speakerId,
+        user_id: isAnonymous ? null : userId,
+        respondent_key: key,
+        answers
+      });
+
+    if (error) {
+      // A concurrent retry of the same response got there first
+      if (error.code === '23505') {
+        return res.json({ success: true, data: { already_submitted: true }, message: 'Response already recorded' });
+      }
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    // Log submission; anonymous ones are not logged, since the log's user and time
+    // would match them to their response
+    if (!isAnonymous) {
+      await supabaseAdmin
+        .from('audit_logs')
+        .insert({
+          user_id: userId,
+          action: 'SUBMIT',
+          resource_type: 'EVENT_SURVEY_RESPONSE',
+          resource_id: survey.id,
+          details: { event_id: eventId, occurrence_date: held.occurrenceDate }
+        });
+    }
+
+    res.status(201).json({ success: true, data: { already_submitted: false }, message: 'Thank you for your feedback' });
+  } catch (error) {
+    console.error('Submit survey response error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Results of an event's survey (Admin/Imam/Pengurus only)
+// ?date= limits recurring events to one occurrence
+router.get('/events/:eventId/results', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const { date } = req.query;
+
+    if (date && !DATE_PATTERN.test(String(date))) {
+      return res.status(400).json({ success: false, error: 'date must be YYYY-MM-DD' });
+    }
+
+    const { data: survey } = await supabaseAdmin
+      .from('event_surveys')
+      .select(SURVEY_COLUMNS)
+      .eq('event_id', eventId)
+      .single();
+
+    if (!survey) {
+      return res.status(404).json({ success: false, error: 'Survey not found' });
+    }
+
+    let responseQuery = supabaseAdmin
+      .from('event_survey_responses')
+      .select('occurrence_date, user_id, answers, submitted_at, users!event_survey_responses_user_id_fkey(display_name)')
+      .eq('survey_id', survey.id);
+
+    let attendeeQuery = supabaseAdmin
+      .from('event_registrations')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('status', 'attended');
+
+    if (date) {
+      responseQuery = responseQuery.eq('occurrence_date', String(date));
+      attendeeQuery = attendeeQuery.eq('occurrence_date', String(date));
+    }
+
+    const [{ data: responses, error }, { count: attendees }] = await Promise.all([responseQuery, attendeeQuery]);
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const rows = (responses || []).map(response => {
+      const user = response.users as unknown as { display_name: string } | null;
+      return {
+        occurrence_date: response.occurrence_date as string | null,
+        answers: response.answers as SurveyAnswers,
+        respondent_name: response.user_id ? user?.display_name || null : null,
+        submitted_at: response.submitted_at as string
+      };
+    });
+    const questions = survey.questions as SurveyQuestion[];
+
+    // Response counts and ratings per occurrence of a recurring event
+    const dates = [...new Set(rows.map(row => row.occurrence_date).filter(Boolean))].sort() as string[];
+    const occurrences = dates.map(occurrenceDate => {
+      const items = rows.filter(row => row.occurrence_date === occurrenceDate);
+      return {
+        occurrence_date: occurrenceDate,
+        responses: items.length,
+        ratings: summarizeRatings(items.map(item => ({ questions, answers: item.answers })))
+      };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        survey,
+        occurrence_date: date || null,
+        total_responses: rows.length,
+        anonymous_responses: rows.filter(row => !row.respondent_name).length,
+        attendees: attendees || 0,
+        response_rate: attendees ? Math.round((rows.length / attendees) * 1000) / 10 : null,
+        ratings: summarizeRatings(rows.map(row => ({ questions, answers: row.answers }))),
+        questions: summarizeResponses(questions, rows),
+        occurrences
+      }
+    });
+  } catch (error) {
+    console.error('Get survey results error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Survey ratings across a speaker's events (Admin/Imam/Pengurus only)
+// Ratings are grouped by question category and scaled to 1-5
+router.get('/speakers/:speakerId/results', authenticateToken, authorizeRoles('Admin', 'Imam', 'Pengurus'), async (req: Request, res: Response) => {
+  try {
+    const { speakerId } = req.params;
+    const { from, to } = req.query;
+
+    for (const value of [from, to]) {
+      if (value && !DATE_PATTERN.test(String(value))) {
+        return res.status(400).json({ success: false, error: 'from and to must be YYYY-MM-DD' });
+      }
+    }
+
+    const { data: speaker } = await supabaseAdmin
+      .from('speakers')
+      .select('id, name, slug')
+      .eq('id', speakerId)
+      .single();
+
+    if (!speaker) {
+      return res.status(404).json({ success: false, error: 'Speaker not found' });
+    }
+
+    let query = supabaseAdmin
+      .from('event_survey_responses')
+      .select('survey_id, event_id, occurrence_date, answers, submitted_at, events(title, event_datetime)')
+      .eq('speaker_id', speakerId);
+
+    if (from) query = query.gte('submitted_at', String(from));
+    if (to) query = query.lt('submitted_at', new Date(Date.parse(String(to)) + DAY_MS).toISOString());
+
+    const { data: responses, error } = await query;
+
+    if (error) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const surveyIds = [...new Set((responses || []).map(response => response.survey_id))];
+    const { data: surveys } = surveyIds.length > 0
+      ? await supabaseAdmin.from('event_surveys').select('id, questions').in('id', surveyIds)
+      : { data: [] };
+
+    const questionsBySurvey = new Map((surveys || []).map(survey => [survey.id, survey.questions as SurveyQuestion[]]));
+    const items = (responses || []).map(response => ({
+      ...response,
+      questions: questionsBySurvey.get(response.survey_id) || [],
+      answers: response.answers as SurveyAnswers
+    }));
+
+    // One entry per event or occurrence the speaker was rated for
+    const groups = new Map<string, typeof items>();
+    for (const item of items) {
+      const key = `${item.event_id}:${item.occurrence_date || ''}`;
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+
+    const events = [...groups.values()]
+      .map(group => {
+        const event = group[0].events as unknown as { title: string; event_datetime: string } | null;
+        return {
+          event_id: group[0].event_id,
+          title: event?.title || null,
+          occurrence_date: group[0].occurrence_date,
+          date: group[0].occurrence_date || event?.event_datetime || null,
+          responses: group.length,
+          ratings: summarizeRatings(group)
+        };
+      })
+      .sort((a, b) => String(b.date).localeCompare(String(a.date)));
+
+    res.json({
+      success: true,
+      data: {
+        speaker,
+        total_responses: items.length,
+        ratings: summarizeRatings(items),
+        events
+      }
+    });
+  } catch (error) {
+    console.error('Get speaker survey results error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,6 +2,11 @@
  * local server entry file, for local development
  */
 import app from './app.js';
+import { startPrayerReminderScheduler } from './jobs/prayerReminders.js';
+import { startAnnouncementScheduler } from './jobs/announcementSchedule.js';
+import { startEventWaitlistScheduler } from './jobs/eventWaitlist.js';
+import { startCampaignScheduler } from './jobs/campaignSchedule.js';
+import { startPledgeScheduler } from './jobs/pledgeSchedule.js';
 
 /**
  * start server with port
@@ -12,6 +17,17 @@ const server = app.listen(PORT, () => {
   console.log(`Server ready on port ${PORT}`);
 });
 
+/**
+ * start background jobs
+ */
+const stopJobs = [
+  startPrayerReminderScheduler(),
+  startAnnouncementScheduler(),
+  startEventWaitlistScheduler(),
+  startCampaignScheduler(),
+  startPledgeScheduler()
+];
+
 /**
  * Handle unhandled promise rejections
  */
@@ -33,6 +49,7 @@ process.on('uncaughtException', (error) => {
  */
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received');
+  stopJobs.forEach(stop => stop());
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -41,6 +58,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT signal received');
+  stopJobs.forEach(stop => stop());
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -13,6 +13,8 @@ declare global {
 
     interface Request {
       user?: User;
+      // Unparsed JSON body, for verifying signed webhooks
+      rawBody?: Buffer;
     }
   }
 }
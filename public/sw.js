@@ -6,7 +6,13 @@
 const CACHE_NAME = 'masjeed-pwa-v1';
 const STATIC_CACHE_NAME = 'masjeed-static-v1';
 const DYNAMIC_CACHE_NAME = 'masjeed-dynamic-v1';
-const API_CACHE_NAME = 'masjeed-api-v1';
+// v2 drops announcement responses cached before they were kept per user
+const API_CACHE_NAME = 'masjeed-api-v2';
+const ATTACHMENT_CACHE_NAME = 'masjeed-attachments-v1';
+
+// Announcement attachments (signed URLs whose content never changes) kept for offline reading
+const ATTACHMENT_PATH = /^\/api\/announcements\/[^/]+\/attachments\/[^/]+\/(file|thumbnail)$/;
+const MAX_CACHED_ATTACHMENTS = 100;
 
 // Static assets to cache immediately
 const STATIC_ASSETS = [
@@ -52,7 +58,8 @@ self.addEventListener('activate', (event) => {
           cacheNames.map((cacheName) => {
             if (cacheName !== STATIC_CACHE_NAME && 
                 cacheName !== DYNAMIC_CACHE_NAME && 
-                cacheName !== API_CACHE_NAME) {
+                cacheName !== API_CACHE_NAME &&
+                cacheName !== ATTACHMENT_CACHE_NAME) {
               console.log('Service Worker: Deleting old cache:', cacheName);
               return caches.delete(cacheName);
             }
@@ -70,6 +77,12 @@ self.addEventListener('fetch', (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
+  // Attachments are served cache-first
+  if (request.method === 'GET' && ATTACHMENT_PATH.test(url.pathname)) {
+    event.respondWith(handleAttachmentRequest(request));
+    return;
+  }
+
   // Handle API requests (including auth endpoints)
   if (url.pathname.startsWith('/api/')) {
     event.respondWith(
@@ -186,18 +199,31 @@ async function handleApiRequest(request) {
     }
   }
   
+  // Announcements depend on who asks, so they are only kept per user in IndexedDB;
+  // Cache Storage is keyed by URL alone and would show them to other users
+  const isPerUserEndpoint = url.pathname.startsWith('/api/announcements');
+
   // Handle read operations with enhanced caching
   try {
     const networkResponse = await fetch(request);
     
     if (networkResponse.ok) {
       // Cache successful API responses
-      const cache = await caches.open(API_CACHE_NAME);
-      cache.put(request, networkResponse.clone());
+      if (!isPerUserEndpoint) {
+        const cache = await caches.open(API_CACHE_NAME);
+        cache.put(request, networkResponse.clone());
+      }
       
       // Also store in IndexedDB for better offline access
       const responseData = await networkResponse.clone().json();
-      await storeApiDataInIndexedDB(url.pathname, responseData);
+      await storeApiDataInIndexedDB(url.pathname, responseData, await getCacheKey(request));
+
+      // Fetch the attachments of announcements in the background so they can be read offline
+      if (url.pathname.startsWith('/api/announcements')) {
+        cacheAnnouncementAttachments(responseData).catch((error) => {
+          console.error('Error caching announcement attachments:', error);
+        });
+      }
       
       return networkResponse;
     }
@@ -207,7 +233,7 @@ async function handleApiRequest(request) {
     console.log('API network request failed, trying fallbacks:', error);
     
     // Try cache first
-    const cachedResponse = await caches.match(request);
+    const cachedResponse = isPerUserEndpoint ? null : await caches.match(request);
     if (cachedResponse) {
       const response = cachedResponse.clone();
       response.headers.set('X-From-Cache', 'true');
@@ -215,7 +241,7 @@ async function handleApiRequest(request) {
     }
     
     // Try IndexedDB as final fallback
-    const indexedDBData = await getApiDataFromIndexedDB(url.pathname);
+    const indexedDBData = await getApiDataFromIndexedDB(url.pathname, await getCacheKey(request));
     if (indexedDBData) {
       return new Response(JSON.stringify(indexedDBData.data), {
         status: 200,
@@ -231,6 +257,62 @@ async function handleApiRequest(request) {
   }
 }
 
+// Cache-first strategy for announcement attachments
+async function handleAttachmentRequest(request) {
+  const cache = await caches.open(ATTACHMENT_CACHE_NAME);
+  const cachedResponse = await cache.match(request);
+  if (cachedResponse) {
+    return cachedResponse;
+  }
+
+  try {
+    const networkResponse = await fetch(request);
+    if (networkResponse.ok) {
+      await cache.put(request, networkResponse.clone());
+      await trimAttachmentCache(cache);
+    }
+    return networkResponse;
+  } catch (error) {
+    console.log('Attachment not available offline:', error);
+    return new Response('Attachment not available offline', { status: 503 });
+  }
+}
+
+// Cache the thumbnails and files of the announcements in an API response
+async function cacheAnnouncementAttachments(responseData) {
+  const data = responseData && responseData.data;
+  const announcements = Array.isArray(data) ? data : data ? [data] : [];
+  const urls = announcements
+    .flatMap((announcement) => announcement.attachments || [])
+    .flatMap((attachment) => [attachment.thumbnail_url, attachment.url])
+    .filter(Boolean);
+
+  if (urls.length === 0) {
+    return;
+  }
+
+  const cache = await caches.open(ATTACHMENT_CACHE_NAME);
+  for (const url of urls) {
+    if (await cache.match(url)) {
+      continue;
+    }
+    const response = await fetch(url);
+    if (response.ok) {
+      await cache.put(url, response);
+    }
+  }
+  await trimAttachmentCache(cache);
+}
+
+// Drop the oldest attachments once the cache is full
+async function trimAttachmentCache(cache) {
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_CACHED_ATTACHMENTS;
+  for (let i = 0; i < excess; i++) {
+    await cache.delete(keys[i]);
+  }
+}
+
 // Helper function to determine request type for offline queue
 function getRequestType(pathname) {
   if (pathname.includes('/donations')) return 'donations';
@@ -239,12 +321,28 @@ function getRequestType(pathname) {
   return 'general';
 }
 
+// Announcements are targeted per reader, so their offline copy is kept per
+// signed-in user (keyed by a hash of the token, never the token itself)
+async function getCacheKey(request) {
+  const url = new URL(request.url);
+  if (!url.pathname.includes('/announcements')) {
+    return 'current';
+  }
+
+  const authorization = request.headers.get('Authorization');
+  if (!authorization) {
+    return 'anonymous';
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(authorization));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 // Store API data in IndexedDB
-async function storeApiDataInIndexedDB(pathname, data) {
+async function storeApiDataInIndexedDB(pathname, data, id = 'current') {
   try {
     const db = await openIndexedDB();
     let storeName = 'general';
-    let id = 'current';
     
     if (pathname.includes('/prayers')) {
       storeName = 'prayerTimes';
@@ -273,7 +371,7 @@ async function storeApiDataInIndexedDB(pathname, data) {
 }
 
 // Get API data from IndexedDB
-async function getApiDataFromIndexedDB(pathname) {
+async function getApiDataFromIndexedDB(pathname, id = 'current') {
   try {
     const db = await openIndexedDB();
     let storeName = 'general';
@@ -294,7 +392,7 @@ async function getApiDataFromIndexedDB(pathname) {
     const store = transaction.objectStore(storeName);
     
     return new Promise((resolve, reject) => {
-      const request = store.get('current');
+      const request = store.get(id);
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         const result = request.result;
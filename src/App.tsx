@@ -1,10 +1,22 @@
 import React, { useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import Home from './pages/Home';
 import Login from './pages/Login';
 import Profile from './pages/Profile';
 import AuthSuccess from './pages/AuthSuccess';
 import PrayerTimes from './pages/PrayerTimes';
+import Ramadan from './pages/Ramadan';
+import Speaker from './pages/Speaker';
+import KajianSeries from './pages/KajianSeries';
+import Facilities from './pages/Facilities';
+import EventSurvey from './pages/EventSurvey';
+import ZakatCalculator from './pages/ZakatCalculator';
+import Campaign from './pages/Campaign';
+import Pledges from './pages/Pledges';
+import ReceiptVerify from './pages/ReceiptVerify';
+import AnnouncementDetail from './pages/AnnouncementDetail';
+import EventDetail from './pages/EventDetail';
+import MemberDetail from './pages/MemberDetail';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
 import PWAInstallPrompt from './components/PWAInstallPrompt';
@@ -101,6 +113,98 @@ function App() {
             } 
           />
           
+          <Route 
+            path="/ramadan" 
+            element={
+              <Layout>
+                <Ramadan />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/speakers/:slug" 
+            element={
+              <Layout>
+                <Speaker />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/kajian/:id" 
+            element={
+              <Layout>
+                <KajianSeries />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/events/:id" 
+            element={
+              <Layout>
+                <EventDetail />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/events/:id/survey" 
+            element={
+              <Layout>
+                <EventSurvey />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/facilities" 
+            element={
+              <Layout>
+                <Facilities />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/zakat" 
+            element={
+              <Layout>
+                <ZakatCalculator />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/campaigns/:id" 
+            element={
+              <Layout>
+                <Campaign />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/receipts/verify/:number" 
+            element={
+              <Layout>
+                <ReceiptVerify />
+              </Layout>
+            } 
+          />
+          
+          <Route 
+            path="/pledges" 
+            element={
+              <Layout>
+                <ProtectedRoute>
+                  <Pledges />
+                </ProtectedRoute>
+              </Layout>
+            } 
+          />
+          
           <Route 
             path="/donations" 
             element={
@@ -114,6 +218,12 @@ function App() {
                       <p className="text-gray-600 dark:text-gray-400">
                         Fitur ini akan segera hadir
                       </p>
+                      <Link to="/zakat" className="mt-4 inline-block text-emerald-700 dark:text-emerald-400 hover:underline">
+                        Hitung dan bayar zakat
+                      </Link>
+                      <Link to="/pledges" className="mt-2 block text-emerald-700 dark:text-emerald-400 hover:underline">
+                        Infaq rutin
+                      </Link>
                     </div>
                   </div>
                 </ProtectedRoute>
@@ -141,6 +251,15 @@ function App() {
             } 
           />
           
+          <Route 
+            path="/announcements/:id" 
+            element={
+              <Layout>
+                <AnnouncementDetail />
+              </Layout>
+            } 
+          />
+          
           <Route 
             path="/directory" 
             element={
@@ -161,6 +280,17 @@ function App() {
             } 
           />
           
+          <Route 
+            path="/directory/:id" 
+            element={
+              <Layout>
+                <ProtectedRoute>
+                  <MemberDetail />
+                </ProtectedRoute>
+              </Layout>
+            } 
+          />
+          
           <Route 
             path="/settings" 
             element={
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Ticket, MapPin, Clock, CheckCircle, X } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+import { offlineStorage } from '../utils/indexedDB';
+import CachedDataDisplay from './CachedDataDisplay';
+
+interface EventTicket {
+  registration_id: string;
+  event_id: string;
+  occurrence_date: string | null;
+  title: string;
+  starts_at: string;
+  location: string;
+  status: 'registered' | 'attended';
+  checked_in_at: string | null;
+  token: string;
+  qr_code: string;
+}
+
+interface EventTicketsProps {
+  className?: string;
+}
+
+const EventTickets: React.FC<EventTicketsProps> = ({ className = '' }) => {
+  const { token, offline } = useAuthStore();
+  const [tickets, setTickets] = useState<EventTicket[]>([]);
+  const [cachedAt, setCachedAt] = useState<number | undefined>();
+  const [selected, setSelected] = useState<EventTicket | null>(null);
+
+  useEffect(() => {
+    // Tickets are kept on the device so they can be shown at the door offline
+    const loadCached = async () => {
+      const cached = await offlineStorage.getTickets<EventTicket>();
+      if (cached) {
+        setTickets(cached.data);
+        setCachedAt(cached.timestamp);
+      }
+    };
+
+    const fetchTickets = async () => {
+      try {
+        const response = await fetch('/api/events/tickets', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        setTickets(result.data);
+        setCachedAt(undefined);
+        await offlineStorage.storeTickets(result.data);
+      } catch (error) {
+        console.error('Error fetching event tickets:', error);
+        await loadCached();
+      }
+    };
+
+    if (!token) return;
+    if (offline.isOnline) {
+      fetchTickets();
+    } else {
+      loadCached();
+    }
+  }, [token, offline.isOnline]);
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString('id-ID', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  return (
+    <CachedDataDisplay dataType="tiket" lastUpdated={cachedAt} showOfflineIndicator={Boolean(cachedAt)} className={className}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+          <Ticket className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Tiket Kegiatan</h3>
+        </div>
+
+        {tickets.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+            Belum ada tiket untuk kegiatan mendatang.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {tickets.map(ticket => (
+              <li key={ticket.registration_id}>
+                <button
+                  onClick={() => setSelected(ticket)}
+                  className="w-full text-left px-6 py-4 flex items-center justify-between gap-4 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{ticket.title}</p>
+                    <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                      <Clock className="h-3 w-3" />
+                      {formatDateTime(ticket.starts_at)}
+                    </p>
+                    <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                      <MapPin className="h-3 w-3" />
+                      {ticket.location}
+                    </p>
+                  </div>
+                  {ticket.status === 'attended' ? (
+                    <span className="flex items-center gap-1 text-xs font-medium text-emerald-700 dark:text-emerald-300">
+                      <CheckCircle className="h-4 w-4" />
+                      Hadir
+                    </span>
+                  ) : (
+                    <img src={ticket.qr_code} alt="" className="h-12 w-12 flex-shrink-0" />
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Full-size QR code for scanning at the door */}
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => setSelected(null)}>
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm text-center" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-end">
+              <button onClick={() => setSelected(null)} aria-label="Tutup" className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <img src={selected.qr_code} alt={`Tiket ${selected.title}`} className="mx-auto w-64 h-64" />
+            <p className="mt-4 font-semibold text-gray-900">{selected.title}</p>
+            <p className="text-sm text-gray-600">{formatDateTime(selected.starts_at)}</p>
+            <p className="text-sm text-gray-600">{selected.location}</p>
+            <p className="mt-2 text-xs text-gray-500">Tunjukkan kode ini kepada pengurus saat masuk</p>
+          </div>
+        </div>
+      )}
+    </CachedDataDisplay>
+  );
+};
+
+export default EventTickets;
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Menu, X, User, LogOut, Settings, Home, Calendar, DollarSign, Bell, Users } from 'lucide-react';
+import { Menu, X, User, LogOut, Settings, Home, Calendar, DollarSign, Bell, Users, Building2 } from 'lucide-react';
 import useAuthStore from '../store/authStore';
+import SearchBox from './SearchBox';
 
 const Navigation: React.FC = () => {
   const navigate = useNavigate();
@@ -35,6 +36,7 @@ const Navigation: React.FC = () => {
     { name: 'Jadwal', href: '/schedule', icon: Calendar },
     { name: 'Donasi', href: '/donations', icon: DollarSign },
     { name: 'Pengumuman', href: '/announcements', icon: Bell },
+    { name: 'Fasilitas', href: '/facilities', icon: Building2 },
     { name: 'Direktori', href: '/directory', icon: Users },
   ];
 
@@ -75,6 +77,7 @@ const Navigation: React.FC = () => {
 
           {/* User Menu */}
           <div className="flex items-center space-x-4">
+            <SearchBox className="hidden lg:block w-64" />
             {isAuthenticated && user ? (
               <div className="relative">
                 <button
@@ -166,6 +169,7 @@ const Navigation: React.FC = () => {
       {isMobileMenuOpen && (
         <div className="md:hidden bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
           <div className="px-2 pt-2 pb-3 space-y-1">
+            <SearchBox onNavigate={closeMobileMenu} className="px-1 pb-2" />
             {navigationItems.map((item) => {
               const Icon = item.icon;
               return (
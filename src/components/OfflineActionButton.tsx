@@ -11,7 +11,7 @@ interface OfflineActionButtonProps {
   disabled?: boolean;
   variant?: 'primary' | 'secondary' | 'danger';
   size?: 'sm' | 'md' | 'lg';
-  queueType?: 'donations' | 'registrations' | 'announcements' | 'general';
+  queueType?: 'donations' | 'registrations' | 'announcements' | 'surveys' | 'general';
   requiresAuth?: boolean;
 }
 
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { MessageSquare, ChevronRight } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+import { offlineStorage } from '../utils/indexedDB';
+import { PendingSurvey, surveyPath } from '../utils/surveys';
+
+interface PendingSurveysProps {
+  className?: string;
+}
+
+const PendingSurveys: React.FC<PendingSurveysProps> = ({ className = '' }) => {
+  const { token, offline } = useAuthStore();
+  const [surveys, setSurveys] = useState<PendingSurvey[]>([]);
+
+  useEffect(() => {
+    // The list is kept on the device so feedback can be given offline
+    const loadCached = async () => {
+      const cached = await offlineStorage.getPendingSurveys<PendingSurvey>();
+      if (cached) {
+        setSurveys(cached.data.filter(survey => Date.parse(survey.closes_at) > Date.now()));
+      }
+    };
+
+    const fetchSurveys = async () => {
+      try {
+        const response = await fetch('/api/surveys/pending', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        setSurveys(result.data);
+        await offlineStorage.storePendingSurveys(result.data);
+      } catch (error) {
+        console.error('Error fetching pending surveys:', error);
+        await loadCached();
+      }
+    };
+
+    if (!token) return;
+    if (offline.isOnline) {
+      fetchSurveys();
+    } else {
+      loadCached();
+    }
+  }, [token, offline.isOnline]);
+
+  if (surveys.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+        <MessageSquare className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Beri Masukan</h3>
+      </div>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {surveys.map(survey => (
+          <li key={`${survey.survey_id}:${survey.occurrence_date || ''}`}>
+            <Link
+              to={surveyPath(survey.event_id, survey.occurrence_date)}
+              className="px-6 py-4 flex items-center justify-between gap-4 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{survey.event_title}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {survey.title} · ditutup {new Date(survey.closes_at).toLocaleDateString('id-ID', { day: 'numeric', month: 'long' })}
+                </p>
+              </div>
+              <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PendingSurveys;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Bell, BellOff, Plane, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import useAuthStore from '../store/authStore';
+import usePWA from '../hooks/usePWA';
+
+type ReminderPrayer = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+interface PrayerReminder {
+  prayer: ReminderPrayer;
+  adhan_minutes: number | null;
+  iqamah_minutes: number | null;
+  is_muted: boolean;
+}
+
+interface PrayerReminderSettingsProps {
+  className?: string;
+}
+
+const PRAYER_LABELS: Record<ReminderPrayer, string> = {
+  fajr: 'Subuh',
+  dhuhr: 'Dzuhur',
+  asr: 'Ashar',
+  maghrib: 'Maghrib',
+  isha: 'Isya'
+};
+
+const ADHAN_OPTIONS = [0, 5, 10, 15, 30, 60];
+const IQAMAH_OPTIONS = [0, 5, 10];
+const PAUSE_OPTIONS = [1, 3, 7, 14];
+
+const PrayerReminderSettings: React.FC<PrayerReminderSettingsProps> = ({ className = '' }) => {
+  const { token } = useAuthStore();
+  const { registerForPushNotifications } = usePWA();
+  const [reminders, setReminders] = useState<PrayerReminder[]>([]);
+  const [pausedUntil, setPausedUntil] = useState<string | null>(null);
+  const [devices, setDevices] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const fetchReminders = useCallback(async () => {
+    try {
+      const response = await fetch('/api/prayers/reminders', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+      if (result.success) {
+        setReminders(result.data.prayers);
+        setPausedUntil(result.data.paused_until);
+        setDevices(result.data.devices);
+      }
+    } catch (error) {
+      console.error('Error fetching prayer reminders:', error);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (token) {
+      fetchReminders();
+    }
+  }, [token, fetchReminders]);
+
+  const saveReminders = async (body: Record<string, unknown>) => {
+    try {
+      setSaving(true);
+      const response = await fetch('/api/prayers/reminders', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      toast.success('Pengingat sholat disimpan');
+      await fetchReminders();
+    } catch (error) {
+      console.error('Error saving prayer reminders:', error);
+      toast.error('Gagal menyimpan pengingat sholat');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateReminder = (prayer: ReminderPrayer, changes: Partial<PrayerReminder>) => {
+    setReminders(prev => prev.map(item => item.prayer === prayer ? { ...item, ...changes } : item));
+  };
+
+  const handleEnablePush = async () => {
+    const subscription = await registerForPushNotifications();
+    if (subscription) {
+      toast.success('Notifikasi diaktifkan di perangkat ini');
+      await fetchReminders();
+    } else {
+      toast.error('Tidak dapat mengaktifkan notifikasi');
+    }
+  };
+
+  const handlePause = (days: number) => {
+    const until = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    saveReminders({ paused_until: until.toISOString() });
+  };
+
+  const parseMinutes = (value: string) => value === '' ? null : Number(value);
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Bell className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Pengingat Sholat</h3>
+        </div>
+        {devices === 0 && (
+          <button
+            onClick={handleEnablePush}
+            className="text-sm px-3 py-1 rounded-md bg-emerald-600 text-white hover:bg-emerald-700"
+          >
+            Aktifkan Notifikasi
+          </button>
+        )}
+      </div>
+
+      {/* Travel pause */}
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-2 mb-2">
+          <Plane className="h-4 w-4 text-gray-400" />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Mode Safar</span>
+        </div>
+        {pausedUntil ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Pengingat dijeda sampai{' '}
+              {new Date(pausedUntil).toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long' })}
+            </p>
+            <button
+              onClick={() => saveReminders({ paused_until: null })}
+              disabled={saving}
+              className="text-sm text-emerald-600 dark:text-emerald-400 hover:underline disabled:opacity-50"
+            >
+              Lanjutkan
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {PAUSE_OPTIONS.map(days => (
+              <button
+                key={days}
+                onClick={() => handlePause(days)}
+                disabled={saving}
+                className="text-sm px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Jeda {days} hari
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Per-prayer reminders */}
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {reminders.map(reminder => (
+          <div key={reminder.prayer} className="px-6 py-3 flex flex-wrap items-center gap-3">
+            <span className={`w-20 font-medium ${reminder.is_muted ? 'text-gray-400' : 'text-gray-900 dark:text-white'}`}>
+              {PRAYER_LABELS[reminder.prayer]}
+            </span>
+            <select
+              value={reminder.adhan_minutes ?? ''}
+              onChange={(e) => updateReminder(reminder.prayer, { adhan_minutes: parseMinutes(e.target.value) })}
+              disabled={reminder.is_muted}
+              className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white disabled:opacity-50"
+              aria-label={`Pengingat adzan ${PRAYER_LABELS[reminder.prayer]}`}
+            >
+              <option value="">Adzan: mati</option>
+              {ADHAN_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'Saat adzan' : `${minutes} menit sebelum adzan`}
+                </option>
+              ))}
+            </select>
+            <select
+              value={reminder.iqamah_minutes ?? ''}
+              onChange={(e) => updateReminder(reminder.prayer, { iqamah_minutes: parseMinutes(e.target.value) })}
+              disabled={reminder.is_muted}
+              className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white disabled:opacity-50"
+              aria-label={`Pengingat iqamah ${PRAYER_LABELS[reminder.prayer]}`}
+            >
+              <option value="">Iqamah: mati</option>
+              {IQAMAH_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'Saat iqamah' : `${minutes} menit sebelum iqamah`}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => updateReminder(reminder.prayer, { is_muted: !reminder.is_muted })}
+              className="ml-auto p-2 rounded-full text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label={reminder.is_muted ? 'Bunyikan' : 'Bisukan'}
+              title={reminder.is_muted ? 'Bunyikan' : 'Bisukan'}
+            >
+              {reminder.is_muted ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4 text-emerald-600" />}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 flex justify-end">
+        <button
+          onClick={() => saveReminders({ prayers: reminders })}
+          disabled={saving || reminders.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 rounded-md bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          <span>Simpan</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PrayerReminderSettings;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Bell, Calendar, User, Loader2 } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+type SearchGroupType = 'announcements' | 'events' | 'members';
+
+interface SearchResult {
+  type: 'announcement' | 'event' | 'member';
+  id: string;
+  title: string;
+  snippet: string | null;
+  url: string;
+  event_datetime?: string;
+  speaker?: string | null;
+}
+
+interface SearchGroup {
+  type: SearchGroupType;
+  results: SearchResult[];
+}
+
+interface SearchBoxProps {
+  onNavigate?: () => void;
+  className?: string;
+}
+
+const GROUP_LABELS: Record<SearchGroupType, string> = {
+  announcements: 'Pengumuman',
+  events: 'Kegiatan',
+  members: 'Jamaah'
+};
+
+const GROUP_ICONS = {
+  announcements: Bell,
+  events: Calendar,
+  members: User
+};
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 300;
+
+// Wrap the query's words in <mark> without rendering any HTML from the result
+const highlight = (text: string, query: string) => {
+  const words = query.split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return text;
+
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="bg-emerald-100 text-emerald-900 dark:bg-emerald-900 dark:text-emerald-100 rounded px-0.5">{part}</mark>
+      : part
+  );
+};
+
+const SearchBox: React.FC<SearchBoxProps> = ({ onNavigate, className = '' }) => {
+  const navigate = useNavigate();
+  const { token } = useAuthStore();
+  const [query, setQuery] = useState('');
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < MIN_QUERY_LENGTH) {
+      setGroups([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/search?q=${encodeURIComponent(q)}`, {
+          headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+          signal: controller.signal
+        });
+        const result = await response.json();
+        if (result.success) {
+          setGroups(result.data.groups);
+        }
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Search error:', error);
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, token]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const handleSelect = (result: SearchResult) => {
+    setIsOpen(false);
+    setQuery('');
+    onNavigate?.();
+    navigate(result.url);
+  };
+
+  const visibleGroups = groups.filter(group => group.results.length > 0);
+  const showResults = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsOpen(false);
+          }}
+          placeholder="Cari pengumuman, kegiatan..."
+          aria-label="Cari"
+          className="w-full pl-9 pr-8 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        {isLoading && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 animate-spin" />
+        )}
+      </div>
+
+      {showResults && (
+        <div className="absolute right-0 mt-2 w-full md:w-96 max-h-[70vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+          {visibleGroups.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+              {isLoading ? 'Mencari...' : 'Tidak ada hasil'}
+            </p>
+          ) : (
+            visibleGroups.map(group => {
+              const Icon = GROUP_ICONS[group.type];
+              return (
+                <div key={group.type} className="py-1 border-b last:border-b-0 border-gray-200 dark:border-gray-700">
+                  <p className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    {GROUP_LABELS[group.type]}
+                  </p>
+                  {group.results.map(result => (
+                    <button
+                      key={result.id}
+                      onClick={() => handleSelect(result)}
+                      className="w-full text-left flex items-start gap-3 px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <Icon className="h-4 w-4 mt-0.5 text-emerald-600 dark:text-emerald-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {highlight(result.title, query)}
+                        </p>
+                        {result.type === 'event' && result.event_datetime && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {new Date(result.event_datetime).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}
+                            {result.speaker && ` · ${result.speaker}`}
+                          </p>
+                        )}
+                        {result.snippet && (
+                          <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                            {highlight(result.snippet, query)}
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Moon, CalendarDays } from 'lucide-react';
+
+interface HijriDate {
+  day: number;
+  month: number;
+  year: number;
+  month_name: string;
+  formatted: string;
+}
+
+interface IslamicDate {
+  key: string;
+  name: string;
+  date: string;
+  end_date: string | null;
+  hijri: HijriDate;
+}
+
+interface UpcomingIslamicDatesProps {
+  limit?: number;
+  className?: string;
+}
+
+const UpcomingIslamicDates: React.FC<UpcomingIslamicDatesProps> = ({ limit = 4, className = '' }) => {
+  const [today, setToday] = useState<HijriDate | null>(null);
+  const [dates, setDates] = useState<IslamicDate[]>([]);
+
+  useEffect(() => {
+    const fetchDates = async () => {
+      try {
+        const [todayResponse, datesResponse] = await Promise.all([
+          fetch('/api/calendar/hijri'),
+          fetch(`/api/calendar/islamic-dates?limit=${limit}`)
+        ]);
+
+        const todayResult = await todayResponse.json();
+        const datesResult = await datesResponse.json();
+
+        if (todayResult.success) {
+          setToday(todayResult.data.hijri);
+        }
+        if (datesResult.success) {
+          setDates(datesResult.data);
+        }
+      } catch (error) {
+        console.error('Error fetching islamic dates:', error);
+      }
+    };
+
+    fetchDates();
+  }, [limit]);
+
+  const daysUntil = (date: string) => {
+    const target = new Date(`${date}T00:00:00`);
+    const now = new Date();
+    now.setHours(0, 0, 0, 0);
+    return Math.round((target.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+  };
+
+  if (!today && dates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-xl p-6 border border-gray-200 dark:border-gray-700 ${className}`}>
+      {today && (
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-3 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400">
+            <Moon className="h-6 w-6" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Hari ini</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{today.formatted}</p>
+          </div>
+        </div>
+      )}
+
+      {dates.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {dates.map((item) => {
+            const days = daysUntil(item.date);
+            return (
+              <li key={`${item.key}-${item.date}`} className="py-3 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <CalendarDays className="h-4 w-4 text-gray-400" />
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{item.name}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {new Date(`${item.date}T00:00:00`).toLocaleDateString('id-ID', {
+                        weekday: 'long',
+                        day: 'numeric',
+                        month: 'long',
+                        year: 'numeric'
+                      })}
+                      {' • '}
+                      {item.hijri.formatted}
+                    </p>
+                  </div>
+                </div>
+                <span className="text-sm text-emerald-600 dark:text-emerald-400 whitespace-nowrap">
+                  {days <= 0 ? 'Hari ini' : `${days} hari lagi`}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UpcomingIslamicDates;
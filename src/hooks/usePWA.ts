@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import useAuthStore from '../store/authStore';
 
 interface PWAState {
   isOnline: boolean;
@@ -71,24 +72,35 @@ const usePWA = (): UsePWAReturn => {
         return null;
       }
 
-      // Subscribe to push notifications
-      const subscription = await state.swRegistration.pushManager.subscribe({
-        userVisibleOnly: true,
-        applicationServerKey: urlBase64ToUint8Array(
-          process.env.REACT_APP_VAPID_PUBLIC_KEY || ''
-        ),
-      });
+      // Get the server's VAPID public key
+      const keyResponse = await fetch('/api/announcements/push/public-key');
+      const keyResult = await keyResponse.json();
+      if (!keyResult.success) {
+        console.error('Push notifications are not available:', keyResult.error);
+        return null;
+      }
+
+      // Subscribe to push notifications (reuses an existing subscription)
+      const subscription = await state.swRegistration.pushManager.getSubscription() ||
+        await state.swRegistration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(keyResult.data.publicKey),
+        });
 
       // Send subscription to server
-      await fetch('/api/notifications/subscribe', {
+      const response = await fetch('/api/announcements/subscribe', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Authorization': `Bearer ${useAuthStore.getState().token}`,
         },
-        body: JSON.stringify(subscription),
+        body: JSON.stringify({ subscription }),
       });
 
+      if (!response.ok) {
+        throw new Error('Failed to save push subscription');
+      }
+
       return subscription;
     } catch (error) {
       console.error('Push notification registration failed:', error);
@@ -109,11 +121,11 @@ const usePWA = (): UsePWAReturn => {
         await subscription.unsubscribe();
         
         // Notify server
-        await fetch('/api/notifications/unsubscribe', {
+        await fetch('/api/announcements/unsubscribe', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('token')}`,
+            'Authorization': `Bearer ${useAuthStore.getState().token}`,
           },
           body: JSON.stringify({ endpoint: subscription.endpoint }),
         });
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Megaphone, Paperclip, CheckCircle, RefreshCw } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+interface Attachment {
+  id: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  url: string;
+  thumbnail_url: string | null;
+}
+
+interface Announcement {
+  id: string;
+  title: string;
+  content_html: string;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  category: string;
+  published_at: string | null;
+  users: { display_name: string } | null;
+  attachments?: Attachment[];
+  receipt: { read_at: string; acknowledged_at: string | null } | null;
+}
+
+const PRIORITY_LABELS: Record<Announcement['priority'], string> = {
+  low: 'Info',
+  normal: 'Umum',
+  high: 'Penting',
+  urgent: 'Mendesak'
+};
+
+const formatDate = (value: string) => {
+  return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const formatSize = (bytes: number) => {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+};
+
+const AnnouncementDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { token } = useAuthStore();
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    const fetchAnnouncement = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/announcements/${encodeURIComponent(id || '')}`, {
+          headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(response.status === 404 ? 'Pengumuman tidak ditemukan' : result.error || 'Gagal mengambil pengumuman');
+        }
+        setAnnouncement(result.data);
+      } catch (err) {
+        console.error('Error fetching announcement:', err);
+        setError(err instanceof Error ? err.message : 'Gagal memuat pengumuman');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAnnouncement();
+  }, [id, token]);
+
+  const acknowledge = async () => {
+    if (!announcement || !token) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+
+      const response = await fetch(`/api/announcements/${announcement.id}/acknowledge`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Gagal mengonfirmasi pengumuman');
+      }
+      setAnnouncement({ ...announcement, receipt: result.data });
+    } catch (err) {
+      console.error('Error acknowledging announcement:', err);
+      setError(err instanceof Error ? err.message : 'Gagal mengonfirmasi pengumuman');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat pengumuman...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!announcement) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600 dark:text-gray-400">{error}</p>
+          {!token && (
+            <Link to="/login" className="mt-4 inline-block text-emerald-700 dark:text-emerald-400 hover:underline">
+              Masuk untuk melihat pengumuman untuk jamaah
+            </Link>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const isUrgent = announcement.priority === 'urgent';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <article className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-4">
+          <div className="flex items-start gap-3">
+            <Megaphone className={`h-6 w-6 flex-shrink-0 ${isUrgent ? 'text-red-600' : 'text-emerald-600'}`} />
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{announcement.title}</h1>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {PRIORITY_LABELS[announcement.priority]} · {announcement.category}
+                {announcement.published_at && ` · ${formatDate(announcement.published_at)}`}
+                {announcement.users && ` · ${announcement.users.display_name}`}
+              </p>
+            </div>
+          </div>
+
+          <div
+            className="text-sm text-gray-700 dark:text-gray-300 space-y-2"
+            dangerouslySetInnerHTML={{ __html: announcement.content_html }}
+          />
+
+          {announcement.attachments && announcement.attachments.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Lampiran</h2>
+              {announcement.attachments.map(attachment => (
+                <a
+                  key={attachment.id}
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-3 rounded-lg border border-gray-200 dark:border-gray-700 p-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  {attachment.thumbnail_url ? (
+                    <img src={attachment.thumbnail_url} alt="" className="h-10 w-10 rounded object-cover" />
+                  ) : (
+                    <Paperclip className="h-5 w-5 text-gray-400" />
+                  )}
+                  <span className="flex-1 truncate text-gray-900 dark:text-white">{attachment.file_name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{formatSize(attachment.size_bytes)}</span>
+                </a>
+              ))}
+            </div>
+          )}
+
+          {isUrgent && token && (
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+              {error && (
+                <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+              )}
+              {announcement.receipt?.acknowledged_at ? (
+                <p className="flex items-center gap-2 text-sm text-emerald-700 dark:text-emerald-400">
+                  <CheckCircle className="h-4 w-4" />
+                  Dikonfirmasi {formatDate(announcement.receipt.acknowledged_at)}
+                </p>
+              ) : (
+                <button
+                  onClick={acknowledge}
+                  disabled={working}
+                  className="px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+                >
+                  Saya sudah membaca
+                </button>
+              )}
+            </div>
+          )}
+        </article>
+      </div>
+    </div>
+  );
+};
+
+export default AnnouncementDetail;
@@ -0,0 +1,290 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { HeartHandshake, CheckCircle, RefreshCw, Users, CalendarClock } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+interface RecentDonor {
+  name: string;
+  amount: number;
+  donated_at: string;
+}
+
+interface CampaignDetail {
+  id: string;
+  title: string;
+  description: string | null;
+  beneficiary_description: string | null;
+  donation_type: string;
+  target_amount: number;
+  total_raised: number;
+  remaining_amount: number;
+  progress: number;
+  donor_count: number;
+  deadline: string | null;
+  days_left: number | null;
+  status: 'Active' | 'Completed' | 'Closed';
+  cover_url: string | null;
+  recent_donors: RecentDonor[];
+}
+
+interface Donation {
+  reference_number: string;
+  amount: number;
+  payment: {
+    qr_image: string | null;
+    va_number: string | null;
+    va_bank: string | null;
+    expires_at: string | null;
+  };
+}
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+
+const formatDate = (value: string) => {
+  return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const STATUS_LABELS: Record<CampaignDetail['status'], string> = {
+  Active: 'Berjalan',
+  Completed: 'Target tercapai',
+  Closed: 'Ditutup'
+};
+
+const Campaign: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { token } = useAuthStore();
+  const [campaign, setCampaign] = useState<CampaignDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [donation, setDonation] = useState<Donation | null>(null);
+
+  useEffect(() => {
+    const fetchCampaign = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/donations/campaigns/${encodeURIComponent(id || '')}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(response.status === 404 ? 'Program donasi tidak ditemukan' : result.error || 'Gagal mengambil data program donasi');
+        }
+        setCampaign(result.data);
+      } catch (err) {
+        console.error('Error fetching campaign:', err);
+        setError(err instanceof Error ? err.message : 'Gagal memuat program donasi');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCampaign();
+  }, [id]);
+
+  const donate = async () => {
+    if (!campaign || !token) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+
+      const response = await fetch('/api/donations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ campaign_id: campaign.id, amount: Number(amount), is_anonymous: isAnonymous })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Gagal membuat donasi');
+      }
+      setDonation(data.data);
+    } catch (err) {
+      console.error('Error creating campaign donation:', err);
+      setError(err instanceof Error ? err.message : 'Gagal membuat donasi');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat program donasi...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+          {campaign.cover_url && (
+            <img src={campaign.cover_url} alt={campaign.title} className="w-full aspect-[40/21] object-cover" />
+          )}
+          <div className="p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{campaign.title}</h1>
+              <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200">
+                {STATUS_LABELS[campaign.status]}
+              </span>
+            </div>
+
+            {/* Progress */}
+            <div>
+              <div className="flex items-baseline justify-between text-sm">
+                <span className="text-lg font-bold text-emerald-700 dark:text-emerald-400">{formatRupiah(campaign.total_raised)}</span>
+                <span className="text-gray-500 dark:text-gray-400">dari {formatRupiah(campaign.target_amount)}</span>
+              </div>
+              <div
+                className="mt-2 h-3 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+                role="progressbar"
+                aria-valuenow={campaign.progress}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                <div className="h-full bg-emerald-600" style={{ width: `${campaign.progress}%` }} />
+              </div>
+              <div className="mt-2 flex flex-wrap gap-4 text-xs text-gray-500 dark:text-gray-400">
+                <span>{campaign.progress}% tercapai</span>
+                <span className="flex items-center gap-1">
+                  <Users className="h-3 w-3" />
+                  {campaign.donor_count} donatur
+                </span>
+                {campaign.deadline && (
+                  <span className="flex items-center gap-1">
+                    <CalendarClock className="h-3 w-3" />
+                    {campaign.status === 'Active'
+                      ? `${campaign.days_left} hari lagi (s.d. ${formatDate(campaign.deadline)})`
+                      : `Berakhir ${formatDate(campaign.deadline)}`}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {campaign.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{campaign.description}</p>
+            )}
+            {campaign.beneficiary_description && (
+              <div>
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Penerima manfaat</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{campaign.beneficiary_description}</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Donate */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-3">
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+          {donation ? (
+            <div className="rounded-lg bg-emerald-50 dark:bg-emerald-900/30 p-4 text-sm text-emerald-800 dark:text-emerald-200">
+              <p className="flex items-center gap-2 font-medium">
+                <CheckCircle className="h-4 w-4" />
+                Donasi {formatRupiah(donation.amount)} dibuat
+              </p>
+              <p className="mt-1">Nomor referensi: {donation.reference_number}</p>
+              {donation.payment.qr_image && (
+                <>
+                  <img src={donation.payment.qr_image} alt="QRIS pembayaran donasi" className="mx-auto mt-3 w-64 h-64 bg-white p-2 rounded" />
+                  <p className="mt-2 text-center">Pindai dengan aplikasi bank atau dompet digital yang mendukung QRIS</p>
+                </>
+              )}
+              {donation.payment.va_number && (
+                <p className="mt-2">
+                  Transfer ke virtual account {donation.payment.va_bank}: <span className="font-mono font-semibold">{donation.payment.va_number}</span>
+                </p>
+              )}
+              {donation.payment.expires_at && (
+                <p className="mt-1 text-xs">
+                  Bayar sebelum {new Date(donation.payment.expires_at).toLocaleString('id-ID', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })}
+                </p>
+              )}
+            </div>
+          ) : campaign.status !== 'Active' ? (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {campaign.status === 'Completed'
+                ? 'Alhamdulillah, target program ini telah tercapai. Jazakumullahu khairan kepada seluruh donatur.'
+                : 'Program donasi ini sudah ditutup.'}
+            </p>
+          ) : token ? (
+            <>
+              <label className="block text-sm text-gray-700 dark:text-gray-200">
+                Jumlah donasi (Rp)
+                <input
+                  type="number"
+                  min={1}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                <input type="checkbox" checked={isAnonymous} onChange={(e) => setIsAnonymous(e.target.checked)} />
+                Sembunyikan nama saya (Hamba Allah)
+              </label>
+              <button
+                onClick={donate}
+                disabled={working || !Number(amount)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+              >
+                <HeartHandshake className="h-4 w-4" />
+                Donasi Sekarang
+              </button>
+            </>
+          ) : (
+            <Link to="/login" className="block text-center text-sm text-emerald-700 dark:text-emerald-400 hover:underline">
+              Masuk untuk berdonasi
+            </Link>
+          )}
+        </div>
+
+        {/* Recent donors */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Donatur Terbaru</h2>
+          </div>
+          {campaign.recent_donors.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">Belum ada donatur. Jadilah yang pertama!</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {campaign.recent_donors.map((donor, index) => (
+                <li key={`${donor.donated_at}:${index}`} className="px-6 py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{donor.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(donor.donated_at)}</p>
+                  </div>
+                  <span className="text-sm font-semibold text-emerald-700 dark:text-emerald-400">{formatRupiah(donor.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Campaign;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { Calendar, MapPin, User, Users, RefreshCw } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+interface Registration {
+  status: 'registered' | 'attended' | 'offered' | 'waitlisted';
+  occurrence_date: string | null;
+}
+
+interface UpcomingOccurrence {
+  occurrence_date: string;
+  starts_at: string;
+  is_cancelled: boolean;
+}
+
+interface EventDetailData {
+  id: string;
+  title: string;
+  description: string | null;
+  type: string;
+  event_datetime: string;
+  location: string;
+  speaker: string | null;
+  capacity: number | null;
+  hijri_date: string | null;
+  registration_count: number;
+  waitlist_count: number;
+  user_registration: Registration | null;
+  is_recurring: boolean;
+  is_cancelled?: boolean;
+  occurrence_notes?: string | null;
+  recurrence_description?: string;
+  upcoming_occurrences?: UpcomingOccurrence[];
+}
+
+const STATUS_LABELS: Record<Registration['status'], string> = {
+  registered: 'Anda terdaftar',
+  attended: 'Anda sudah hadir',
+  offered: 'Tempat tersedia untuk Anda, silakan konfirmasi',
+  waitlisted: 'Anda dalam daftar tunggu'
+};
+
+const formatDateTime = (value: string) => {
+  return new Date(value).toLocaleString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const EventDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const date = searchParams.get('date');
+  const { token } = useAuthStore();
+  const [event, setEvent] = useState<EventDetailData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const fetchEvent = useCallback(async () => {
+    try {
+      setError(null);
+
+      const query = date ? `?date=${encodeURIComponent(date)}` : '';
+      const response = await fetch(`/api/events/${encodeURIComponent(id || '')}${query}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(response.status === 404 ? 'Kegiatan tidak ditemukan' : result.error || 'Gagal mengambil kegiatan');
+      }
+      setEvent(result.data);
+    } catch (err) {
+      console.error('Error fetching event:', err);
+      setError(err instanceof Error ? err.message : 'Gagal memuat kegiatan');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, date, token]);
+
+  useEffect(() => {
+    fetchEvent();
+  }, [fetchEvent]);
+
+  const updateRegistration = async (path: string, method: 'POST' | 'DELETE') => {
+    if (!event || !token) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+
+      const isDelete = method === 'DELETE';
+      const response = await fetch(`/api/events/${event.id}${path}${isDelete && date ? `?date=${date}` : ''}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        ...(!isDelete && { body: JSON.stringify({ occurrence_date: date }) })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Gagal memperbarui pendaftaran');
+      }
+      await fetchEvent();
+    } catch (err) {
+      console.error('Error updating event registration:', err);
+      setError(err instanceof Error ? err.message : 'Gagal memperbarui pendaftaran');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat kegiatan...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    );
+  }
+
+  // A series is registered for one occurrence at a time
+  const canRegister = !event.is_recurring || Boolean(date);
+  const registration = event.user_registration;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-4">
+          <div>
+            <p className="text-xs font-medium uppercase text-emerald-700 dark:text-emerald-400">{event.type}</p>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{event.title}</h1>
+            {event.is_cancelled && (
+              <p className="mt-1 text-sm font-medium text-red-600 dark:text-red-400">Kegiatan ini dibatalkan</p>
+            )}
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
+            <p className="flex items-center gap-2">
+              <Calendar className="h-4 w-4 flex-shrink-0" />
+              {event.is_recurring && !date
+                ? event.recurrence_description
+                : formatDateTime(event.event_datetime)}
+              {event.hijri_date && (!event.is_recurring || date) && ` · ${event.hijri_date}`}
+            </p>
+            <p className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 flex-shrink-0" />
+              {event.location}
+            </p>
+            {event.speaker && (
+              <p className="flex items-center gap-2">
+                <User className="h-4 w-4 flex-shrink-0" />
+                {event.speaker}
+              </p>
+            )}
+            {canRegister && (
+              <p className="flex items-center gap-2">
+                <Users className="h-4 w-4 flex-shrink-0" />
+                {event.capacity ? `${event.registration_count} / ${event.capacity} peserta` : `${event.registration_count} peserta`}
+                {event.waitlist_count > 0 && ` · ${event.waitlist_count} menunggu`}
+              </p>
+            )}
+          </div>
+
+          {event.description && (
+            <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{event.description}</p>
+          )}
+          {event.occurrence_notes && (
+            <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{event.occurrence_notes}</p>
+          )}
+        </div>
+
+        {event.upcoming_occurrences && event.upcoming_occurrences.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Jadwal berikutnya</h2>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {event.upcoming_occurrences.map(occurrence => (
+                <li key={occurrence.occurrence_date} className="py-2">
+                  <Link
+                    to={`/events/${event.id}?date=${occurrence.occurrence_date}`}
+                    className={`text-sm hover:underline ${occurrence.is_cancelled ? 'line-through text-gray-400' : 'text-emerald-700 dark:text-emerald-400'}`}
+                  >
+                    {formatDateTime(occurrence.starts_at)}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {canRegister && !event.is_cancelled && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-3">
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+            {!token ? (
+              <Link to="/login" className="text-sm text-emerald-700 dark:text-emerald-400 hover:underline">
+                Masuk untuk mendaftar
+              </Link>
+            ) : registration ? (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{STATUS_LABELS[registration.status]}</p>
+                <div className="flex gap-2">
+                  {registration.status === 'offered' && (
+                    <button
+                      onClick={() => updateRegistration('/register/confirm', 'POST')}
+                      disabled={working}
+                      className="px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+                    >
+                      Konfirmasi
+                    </button>
+                  )}
+                  {registration.status !== 'attended' && (
+                    <button
+                      onClick={() => updateRegistration('/register', 'DELETE')}
+                      disabled={working}
+                      className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      Batalkan
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => updateRegistration('/register', 'POST')}
+                disabled={working}
+                className="px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+              >
+                Daftar
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventDetail;
@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { MessageSquare, CheckCircle, Clock, RefreshCw, WifiOff } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+import { offlineStorage } from '../utils/indexedDB';
+import { offlineQueue } from '../utils/offlineQueue';
+import type { PendingSurvey } from '../utils/surveys';
+
+interface Question {
+  id: string;
+  type: 'rating' | 'choice' | 'text';
+  label: string;
+  required: boolean;
+  scale?: number;
+  options?: string[];
+  multiple?: boolean;
+}
+
+interface Survey {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: Question[];
+  allow_anonymous: boolean;
+  attendees_only: boolean;
+  event: { id: string; title: string; speaker: string | null; location: string };
+  occurrence_date: string | null;
+  starts_at: string | null;
+  opens_at: string | null;
+  closes_at: string | null;
+  state: 'upcoming' | 'open' | 'closed' | null;
+  respondent?: { has_responded: boolean; has_attended: boolean };
+}
+
+type Answer = number | string | string[];
+
+const formatDateTime = (value: string) => {
+  return new Date(value).toLocaleString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const EventSurvey: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const date = searchParams.get('date');
+  const { token, offline } = useAuthStore();
+  const [survey, setSurvey] = useState<Survey | null>(null);
+  const [answers, setAnswers] = useState<Record<string, Answer>>({});
+  const [anonymous, setAnonymous] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<'sent' | 'queued' | null>(null);
+
+  const cacheKey = `${id}:${date || ''}`;
+
+  const fetchSurvey = useCallback(async () => {
+    // The form is kept on the device so it can be filled in offline
+    const loadCached = async () => {
+      const cached = await offlineStorage.getSurvey<Survey>(cacheKey);
+      if (!cached) {
+        throw new Error('Survei belum tersimpan di perangkat ini');
+      }
+      setSurvey(cached.data);
+    };
+
+    try {
+      setError(null);
+
+      if (!offline.isOnline) {
+        await loadCached();
+        return;
+      }
+
+      const response = await fetch(`/api/surveys/events/${id}${date ? `?date=${date}` : ''}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(response.status === 404 ? 'Survei tidak ditemukan' : result.error || 'Gagal mengambil survei');
+      }
+      setSurvey(result.data);
+      await offlineStorage.storeSurvey(cacheKey, result.data);
+    } catch (err) {
+      console.error('Error fetching event survey:', err);
+      setError(err instanceof Error ? err.message : 'Gagal memuat survei');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, date, token, offline.isOnline, cacheKey]);
+
+  useEffect(() => {
+    fetchSurvey();
+  }, [fetchSurvey]);
+
+  const setAnswer = (questionId: string, value: Answer) => {
+    setAnswers(current => ({ ...current, [questionId]: value }));
+  };
+
+  const toggleChoice = (questionId: string, option: string) => {
+    const current = Array.isArray(answers[questionId]) ? answers[questionId] as string[] : [];
+    setAnswer(questionId, current.includes(option) ? current.filter(item => item !== option) : [...current, option]);
+  };
+
+  // Drop the survey from the cached list of surveys waiting for feedback
+  const markAnswered = async () => {
+    const cached = await offlineStorage.getPendingSurveys<PendingSurvey>();
+    if (cached) {
+      await offlineStorage.storePendingSurveys(
+        cached.data.filter(item => !(item.event_id === id && (item.occurrence_date || null) === (date || null)))
+      );
+    }
+    await offlineStorage.storeSurvey(cacheKey, {
+      ...survey,
+      respondent: { has_responded: true, has_attended: true }
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!survey || !token) return;
+
+    const missing = survey.questions.find(question => {
+      const answer = answers[question.id];
+      return question.required && (answer === undefined || answer === '' || (Array.isArray(answer) && answer.length === 0));
+    });
+    if (missing) {
+      setSubmitError(`"${missing.label}" wajib diisi`);
+      return;
+    }
+
+    const body = { date: date || undefined, anonymous, answers };
+
+    const queue = async () => {
+      await offlineQueue.queueSurveyResponse(survey.event.id, body, token);
+      await markAnswered();
+      setSubmitted('queued');
+    };
+
+    try {
+      setSubmitting(true);
+      setSubmitError(null);
+
+      if (!offline.isOnline) {
+        await queue();
+        return;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`/api/surveys/events/${survey.event.id}/responses`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify(body)
+        });
+      } catch {
+        // The connection dropped: send it when back online
+        await queue();
+        return;
+      }
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Gagal mengirim masukan');
+      }
+      await markAnswered();
+      setSubmitted('sent');
+    } catch (err) {
+      console.error('Error submitting survey response:', err);
+      setSubmitError(err instanceof Error ? err.message : 'Gagal mengirim masukan');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat survei...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !survey) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    );
+  }
+
+  // A cached form may have been saved before the survey opened
+  const now = Date.now();
+  const state = survey.opens_at && survey.closes_at
+    ? now < Date.parse(survey.opens_at) ? 'upcoming' : now >= Date.parse(survey.closes_at) ? 'closed' : 'open'
+    : survey.state;
+
+  // Why the form cannot be filled in, if it cannot
+  let notice: string | null = null;
+  if (!token) {
+    notice = 'Masuk terlebih dahulu untuk memberi masukan.';
+  } else if (!state) {
+    notice = 'Pilih tanggal kegiatan untuk memberi masukan.';
+  } else if (state === 'upcoming') {
+    notice = 'Survei dibuka setelah kegiatan dimulai.';
+  } else if (state === 'closed') {
+    notice = 'Survei sudah ditutup.';
+  } else if (survey.attendees_only && survey.respondent && !survey.respondent.has_attended) {
+    notice = 'Survei ini hanya untuk jamaah yang hadir.';
+  }
+
+  const hasResponded = Boolean(submitted || survey.respondent?.has_responded);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6">
+          <p className="flex items-center gap-2 text-sm text-emerald-700 dark:text-emerald-400">
+            <MessageSquare className="h-4 w-4" />
+            {survey.event.title}
+          </p>
+          <h1 className="mt-1 text-2xl font-bold text-gray-900 dark:text-white">{survey.title}</h1>
+          {survey.starts_at && (
+            <p className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300">
+              <Clock className="h-4 w-4" />
+              {formatDateTime(survey.starts_at)}{survey.event.speaker && ` · ${survey.event.speaker}`}
+            </p>
+          )}
+          {survey.description && (
+            <p className="mt-4 text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{survey.description}</p>
+          )}
+        </div>
+
+        {hasResponded ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 text-center">
+            <CheckCircle className="h-10 w-10 text-emerald-600 mx-auto mb-3" />
+            <p className="font-semibold text-gray-900 dark:text-white">Jazakumullah khairan atas masukannya</p>
+            {submitted === 'queued' && (
+              <p className="mt-2 flex items-center justify-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+                <WifiOff className="h-4 w-4" />
+                Masukan akan dikirim saat perangkat kembali online.
+              </p>
+            )}
+            <Link to="/profile" className="mt-4 inline-block text-sm text-emerald-700 dark:text-emerald-400 hover:underline">
+              Kembali ke profil
+            </Link>
+          </div>
+        ) : notice ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 text-center text-gray-600 dark:text-gray-400">
+            {notice}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-6">
+            {survey.questions.map(question => (
+              <fieldset key={question.id}>
+                <legend className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                  {question.label}
+                  {question.required && <span className="text-red-500"> *</span>}
+                </legend>
+
+                {question.type === 'rating' && (
+                  <div className="flex flex-wrap gap-2">
+                    {Array.from({ length: question.scale || 5 }, (_, index) => index + 1).map(value => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setAnswer(question.id, value)}
+                        className={`h-10 w-10 rounded-full text-sm font-medium border ${
+                          answers[question.id] === value
+                            ? 'bg-emerald-600 border-emerald-600 text-white'
+                            : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:border-emerald-500'
+                        }`}
+                      >
+                        {value}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {question.type === 'choice' && (
+                  <div className="space-y-2">
+                    {(question.options || []).map(option => (
+                      <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                        <input
+                          type={question.multiple ? 'checkbox' : 'radio'}
+                          name={question.id}
+                          checked={question.multiple
+                            ? Array.isArray(answers[question.id]) && (answers[question.id] as string[]).includes(option)
+                            : answers[question.id] === option}
+                          onChange={() => question.multiple ? toggleChoice(question.id, option) : setAnswer(question.id, option)}
+                          className="text-emerald-600 focus:ring-emerald-500"
+                        />
+                        {option}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {question.type === 'text' && (
+                  <textarea
+                    value={typeof answers[question.id] === 'string' ? answers[question.id] as string : ''}
+                    onChange={(e) => setAnswer(question.id, e.target.value)}
+                    maxLength={1000}
+                    rows={3}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500"
+                  />
+                )}
+              </fieldset>
+            ))}
+
+            {survey.allow_anonymous && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={anonymous}
+                  onChange={(e) => setAnonymous(e.target.checked)}
+                  className="rounded text-emerald-600 focus:ring-emerald-500"
+                />
+                Kirim tanpa nama
+              </label>
+            )}
+
+            {submitError && <p className="text-sm text-red-600 dark:text-red-400">{submitError}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {submitting ? 'Mengirim...' : offline.isOnline ? 'Kirim Masukan' : 'Simpan & Kirim Nanti'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventSurvey;
@@ -0,0 +1,420 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Building2, ChevronLeft, ChevronRight, RefreshCw, Plus, X, Clock } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+interface Facility {
+  id: string;
+  name: string;
+  type: 'room' | 'vehicle' | 'equipment';
+  location: string | null;
+}
+
+interface CalendarItem {
+  type: 'booking' | 'event';
+  id: string;
+  facility_id: string;
+  title: string;
+  starts_at: string;
+  ends_at: string;
+  status?: 'pending' | 'approved';
+  is_mine?: boolean;
+}
+
+interface Booking {
+  id: string;
+  purpose: string;
+  starts_at: string;
+  ends_at: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  review_notes: string | null;
+  facilities: { name: string } | null;
+}
+
+interface Conflict {
+  type: 'booking' | 'event';
+  title: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+const STATUS_LABELS: Record<Booking['status'], string> = {
+  pending: 'Menunggu persetujuan',
+  approved: 'Disetujui',
+  rejected: 'Ditolak',
+  cancelled: 'Dibatalkan'
+};
+
+// Local calendar date (YYYY-MM-DD) of the device
+const toLocalDateString = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  return toLocalDateString(next);
+};
+
+const formatTime = (value: string) => {
+  return new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+};
+
+const formatDateTime = (value: string) => {
+  return new Date(value).toLocaleString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const Facilities: React.FC = () => {
+  const { token } = useAuthStore();
+  const [weekStart, setWeekStart] = useState(() => toLocalDateString(new Date()));
+  const [facilityId, setFacilityId] = useState('');
+  const [facilities, setFacilities] = useState<Facility[]>([]);
+  const [items, setItems] = useState<CalendarItem[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ facility_id: '', purpose: '', date: '', start: '08:00', end: '10:00', attendees: '' });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const authHeaders: Record<string, string> = token ? { 'Authorization': `Bearer ${token}` } : {};
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ from: weekStart, to: addDays(weekStart, 6) });
+      if (facilityId) params.set('facility_id', facilityId);
+
+      const response = await fetch(`/api/facilities/calendar?${params}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Gagal mengambil jadwal fasilitas');
+      }
+      setItems(result.data.items);
+      if (!facilityId) setFacilities(result.data.facilities);
+    } catch (err) {
+      console.error('Error fetching facility calendar:', err);
+      setError(err instanceof Error ? err.message : 'Gagal memuat jadwal fasilitas');
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart, facilityId, token]);
+
+  const fetchBookings = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await fetch('/api/facilities/bookings', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+      if (result.success) {
+        setBookings(result.data.bookings);
+      }
+    } catch (err) {
+      console.error('Error fetching facility bookings:', err);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  const submitBooking = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      setConflicts([]);
+
+      const response = await fetch(`/api/facilities/${form.facility_id}/bookings`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          purpose: form.purpose,
+          starts_at: new Date(`${form.date}T${form.start}`).toISOString(),
+          ends_at: new Date(`${form.date}T${form.end}`).toISOString(),
+          attendees: form.attendees ? Number(form.attendees) : undefined
+        })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setConflicts(result.data?.conflicts || []);
+        throw new Error(response.status === 409 ? 'Fasilitas sudah terpakai pada waktu tersebut' : result.error);
+      }
+
+      setShowForm(false);
+      setForm({ ...form, purpose: '', attendees: '' });
+      await Promise.all([fetchCalendar(), fetchBookings()]);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Gagal mengajukan peminjaman');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cancelBooking = async (bookingId: string) => {
+    try {
+      const response = await fetch(`/api/facilities/bookings/${bookingId}/cancel`, {
+        method: 'POST',
+        headers: authHeaders
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      await Promise.all([fetchCalendar(), fetchBookings()]);
+    } catch (err) {
+      console.error('Error cancelling booking:', err);
+    }
+  };
+
+  const itemClass = (item: CalendarItem) => {
+    if (item.type === 'event') return 'bg-blue-50 border-blue-200 text-blue-800 dark:bg-blue-900/40 dark:border-blue-800 dark:text-blue-200';
+    if (item.status === 'pending') return 'bg-amber-50 border-amber-200 text-amber-800 dark:bg-amber-900/40 dark:border-amber-800 dark:text-amber-200';
+    return 'bg-emerald-50 border-emerald-200 text-emerald-800 dark:bg-emerald-900/40 dark:border-emerald-800 dark:text-emerald-200';
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-emerald-100 dark:bg-emerald-900 rounded-full mb-4">
+            <Building2 className="h-8 w-8 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Peminjaman Fasilitas</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Aula, ruang kelas, ambulans dan perlengkapan masjid</p>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setWeekStart(addDays(weekStart, -7))}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+              aria-label="Minggu sebelumnya"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setWeekStart(toLocalDateString(new Date()))}
+              className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              Hari ini
+            </button>
+            <button
+              onClick={() => setWeekStart(addDays(weekStart, 7))}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+              aria-label="Minggu berikutnya"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+            {loading && <RefreshCw className="h-4 w-4 animate-spin text-emerald-600" />}
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={facilityId}
+              onChange={(e) => setFacilityId(e.target.value)}
+              className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-200"
+            >
+              <option value="">Semua fasilitas</option>
+              {facilities.map(facility => (
+                <option key={facility.id} value={facility.id}>{facility.name}</option>
+              ))}
+            </select>
+            {token && (
+              <button
+                onClick={() => {
+                  setForm({ ...form, facility_id: facilityId || facilities[0]?.id || '', date: weekStart });
+                  setShowForm(true);
+                }}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700"
+              >
+                <Plus className="h-4 w-4" />
+                Ajukan Peminjaman
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {/* Week calendar */}
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+          {days.map(day => {
+            const dayItems = items.filter(item => toLocalDateString(new Date(item.starts_at)) === day);
+            return (
+              <div key={day} className="bg-white dark:bg-gray-800 rounded-lg shadow p-2 min-h-[8rem]">
+                <p className={`text-xs font-semibold mb-2 ${day === toLocalDateString(new Date()) ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                  {new Date(`${day}T00:00:00`).toLocaleDateString('id-ID', { weekday: 'short', day: 'numeric', month: 'short' })}
+                </p>
+                <div className="space-y-1">
+                  {dayItems.map(item => (
+                    <div key={`${item.type}-${item.id}-${item.facility_id}-${item.starts_at}`} className={`border rounded px-2 py-1 text-xs ${itemClass(item)}`}>
+                      <p className="font-medium truncate">{item.title}</p>
+                      <p>{formatTime(item.starts_at)}–{formatTime(item.ends_at)}</p>
+                      {!facilityId && (
+                        <p className="truncate opacity-75">{facilities.find(facility => facility.id === item.facility_id)?.name}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-emerald-200" /> Dipinjam</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-amber-200" /> Menunggu persetujuan</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-200" /> Kegiatan masjid</span>
+        </div>
+
+        {/* My bookings */}
+        {token && bookings.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Peminjaman Saya</h2>
+            </div>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {bookings.map(booking => (
+                <li key={booking.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {booking.facilities?.name}: {booking.purpose}
+                    </p>
+                    <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                      <Clock className="h-3 w-3" />
+                      {formatDateTime(booking.starts_at)} – {formatTime(booking.ends_at)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {STATUS_LABELS[booking.status]}{booking.review_notes && ` · ${booking.review_notes}`}
+                    </p>
+                  </div>
+                  {['pending', 'approved'].includes(booking.status) && new Date(booking.starts_at) > new Date() && (
+                    <button
+                      onClick={() => cancelBooking(booking.id)}
+                      className="flex-shrink-0 text-xs text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Batalkan
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Booking request form */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => setShowForm(false)}>
+          <form
+            onSubmit={submitBooking}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Ajukan Peminjaman</h3>
+              <button type="button" onClick={() => setShowForm(false)} aria-label="Tutup" className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <select
+              required
+              value={form.facility_id}
+              onChange={(e) => setForm({ ...form, facility_id: e.target.value })}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+            >
+              {facilities.map(facility => (
+                <option key={facility.id} value={facility.id}>{facility.name}</option>
+              ))}
+            </select>
+            <input
+              required
+              value={form.purpose}
+              onChange={(e) => setForm({ ...form, purpose: e.target.value })}
+              placeholder="Keperluan, mis. walimah, rapat RT"
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+            />
+            <div className="grid grid-cols-3 gap-2">
+              <input
+                required
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="col-span-3 sm:col-span-1 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+              />
+              <input
+                required
+                type="time"
+                value={form.start}
+                onChange={(e) => setForm({ ...form, start: e.target.value })}
+                className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+              />
+              <input
+                required
+                type="time"
+                value={form.end}
+                onChange={(e) => setForm({ ...form, end: e.target.value })}
+                className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+              />
+            </div>
+            <input
+              type="number"
+              min={1}
+              value={form.attendees}
+              onChange={(e) => setForm({ ...form, attendees: e.target.value })}
+              placeholder="Perkiraan jumlah peserta"
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+            />
+
+            {formError && (
+              <div className="text-sm text-red-600 dark:text-red-400">
+                <p>{formError}</p>
+                {conflicts.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside text-xs">
+                    {conflicts.map(conflict => (
+                      <li key={`${conflict.type}-${conflict.starts_at}`}>
+                        {conflict.title} ({formatDateTime(conflict.starts_at)}–{formatTime(conflict.ends_at)})
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {submitting ? 'Mengirim...' : 'Kirim Pengajuan'}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Facilities;
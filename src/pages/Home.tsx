@@ -3,6 +3,7 @@ import { Building2, Clock, Calendar, Heart, Users, Bell, Wifi, WifiOff } from 'l
 import usePWA from '../hooks/usePWA';
 import useAuthStore from '../store/authStore';
 import OfflineStatus from '../components/OfflineStatus';
+import UpcomingIslamicDates from '../components/UpcomingIslamicDates';
 
 export default function Home() {
   const { isOnline, isInstalled } = usePWA();
@@ -133,6 +134,16 @@ export default function Home() {
         </div>
       )}
 
+      {/* Islamic Calendar */}
+      <section className="px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+            Kalender Hijriah
+          </h3>
+          <UpcomingIslamicDates />
+        </div>
+      </section>
+
       {/* Features Grid */}
       <section className="py-16 px-4 sm:px-6 lg:px-8">
         <div className="max-w-7xl mx-auto">
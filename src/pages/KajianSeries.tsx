@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { BookOpen, Clock, CheckCircle, Headphones, Video, FileText, Link as LinkIcon, RefreshCw, Bell, BellOff } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+interface Material {
+  id: string;
+  kind: 'audio' | 'video' | 'slides' | 'link';
+  title: string;
+  url: string;
+}
+
+interface Session {
+  id: string;
+  session_number: number;
+  title: string;
+  chapter: string | null;
+  starts_at: string | null;
+  notes_html: string | null;
+  materials: Material[];
+  attended?: boolean;
+}
+
+interface Progress {
+  total_sessions: number;
+  held_sessions: number;
+  attended_sessions: number;
+  attendance_rate: number | null;
+}
+
+interface Series {
+  id: string;
+  title: string;
+  description: string | null;
+  kitab_title: string | null;
+  kitab_author: string | null;
+  status: 'planned' | 'ongoing' | 'completed';
+  speakers: { id: string; name: string; slug: string } | null;
+  sessions: Session[];
+  is_following?: boolean;
+  progress?: Progress;
+}
+
+const STATUS_LABELS: Record<Series['status'], string> = {
+  planned: 'Akan datang',
+  ongoing: 'Berlangsung',
+  completed: 'Selesai'
+};
+
+const MATERIAL_ICONS: Record<Material['kind'], React.ElementType> = {
+  audio: Headphones,
+  video: Video,
+  slides: FileText,
+  link: LinkIcon
+};
+
+const formatDateTime = (value: string) => {
+  return new Date(value).toLocaleString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const KajianSeries: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { token } = useAuthStore();
+  const [series, setSeries] = useState<Series | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSeries = useCallback(async () => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/kajian/series/${id}`, {
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(response.status === 404 ? 'Serial kajian tidak ditemukan' : result.error || 'Gagal mengambil serial kajian');
+      }
+      setSeries(result.data);
+    } catch (err) {
+      console.error('Error fetching kajian series:', err);
+      setError(err instanceof Error ? err.message : 'Gagal memuat serial kajian');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, token]);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [fetchSeries]);
+
+  const toggleFollow = async () => {
+    if (!series || !token) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/kajian/series/${series.id}/follow`, {
+        method: series.is_following ? 'DELETE' : 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setSeries({ ...series, is_following: !series.is_following });
+    } catch (err) {
+      console.error('Error updating follow:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat serial kajian...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    );
+  }
+
+  const { progress } = series;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <span className="inline-block mb-2 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200">
+                {STATUS_LABELS[series.status]}
+              </span>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{series.title}</h1>
+              {series.kitab_title && (
+                <p className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300">
+                  <BookOpen className="h-4 w-4" />
+                  Kitab {series.kitab_title}{series.kitab_author && ` – ${series.kitab_author}`}
+                </p>
+              )}
+              {series.speakers && (
+                <Link to={`/speakers/${series.speakers.slug}`} className="text-sm text-emerald-700 dark:text-emerald-400 hover:underline">
+                  {series.speakers.name}
+                </Link>
+              )}
+            </div>
+            {token && (
+              <button
+                onClick={toggleFollow}
+                disabled={saving}
+                className={`flex-shrink-0 inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50 ${
+                  series.is_following
+                    ? 'border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200'
+                    : 'bg-emerald-600 text-white hover:bg-emerald-700'
+                }`}
+              >
+                {series.is_following ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                {series.is_following ? 'Berhenti Ikuti' : 'Ikuti'}
+              </button>
+            )}
+          </div>
+          {series.description && (
+            <p className="mt-4 text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{series.description}</p>
+          )}
+
+          {/* Attendance progress */}
+          {progress && progress.held_sessions > 0 && (
+            <div className="mt-4">
+              <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+                <span>Kehadiran Anda</span>
+                <span>{progress.attended_sessions} dari {progress.held_sessions} sesi</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div className="h-full bg-emerald-600" style={{ width: `${progress.attendance_rate || 0}%` }} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Sessions */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Daftar Sesi</h2>
+          </div>
+          {series.sessions.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">Belum ada sesi.</p>
+          ) : (
+            <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+              {series.sessions.map(session => (
+                <li key={session.id} className="px-6 py-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        Sesi {session.session_number}: {session.title}
+                      </p>
+                      {session.chapter && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{session.chapter}</p>
+                      )}
+                      {session.starts_at && (
+                        <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                          <Clock className="h-3 w-3" />
+                          {formatDateTime(session.starts_at)}
+                        </p>
+                      )}
+                    </div>
+                    {session.attended && (
+                      <span className="flex items-center gap-1 text-xs font-medium text-emerald-700 dark:text-emerald-300">
+                        <CheckCircle className="h-4 w-4" />
+                        Hadir
+                      </span>
+                    )}
+                  </div>
+
+                  {session.notes_html && (
+                    <div
+                      className="mt-2 text-sm text-gray-600 dark:text-gray-300 space-y-2"
+                      dangerouslySetInnerHTML={{ __html: session.notes_html }}
+                    />
+                  )}
+
+                  {session.materials.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {session.materials.map(material => {
+                        const Icon = MATERIAL_ICONS[material.kind];
+                        return (
+                          <a
+                            key={material.id}
+                            href={material.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs border border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300 hover:bg-emerald-50 dark:hover:bg-emerald-900/40"
+                          >
+                            <Icon className="h-3 w-3" />
+                            {material.title}
+                          </a>
+                        );
+                      })}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KajianSeries;
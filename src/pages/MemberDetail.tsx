@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { User, Mail, Phone, HandHeart, RefreshCw } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+interface Member {
+  id: string;
+  display_name: string;
+  profile_picture: string | null;
+  is_volunteer: boolean;
+  bio: string | null;
+  joined_at: string | null;
+  user_roles: { role_name: string }[];
+  email?: string;
+  phone?: string | null;
+  volunteer_skills?: string[] | null;
+}
+
+const formatDate = (value: string) => {
+  return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const MemberDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { token } = useAuthStore();
+  const [member, setMember] = useState<Member | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMember = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/community/members/${encodeURIComponent(id || '')}`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(response.status === 404 ? 'Jamaah tidak ditemukan' : result.error || 'Gagal mengambil data jamaah');
+        }
+        setMember(result.data);
+      } catch (err) {
+        console.error('Error fetching member:', err);
+        setError(err instanceof Error ? err.message : 'Gagal memuat data jamaah');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMember();
+  }, [id, token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat data jamaah...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!member) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-xl mx-auto px-4 py-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-4">
+          <div className="flex items-center gap-4">
+            {member.profile_picture ? (
+              <img src={member.profile_picture} alt={member.display_name} className="h-16 w-16 rounded-full object-cover" />
+            ) : (
+              <div className="h-16 w-16 rounded-full bg-emerald-100 dark:bg-emerald-900 flex items-center justify-center">
+                <User className="h-8 w-8 text-emerald-700 dark:text-emerald-300" />
+              </div>
+            )}
+            <div>
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white">{member.display_name}</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {member.user_roles.map(role => role.role_name).join(', ')}
+                {member.joined_at && ` · Bergabung ${formatDate(member.joined_at)}`}
+              </p>
+            </div>
+          </div>
+
+          {member.bio && (
+            <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{member.bio}</p>
+          )}
+
+          <div className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
+            {member.is_volunteer && (
+              <p className="flex items-center gap-2">
+                <HandHeart className="h-4 w-4 flex-shrink-0" />
+                Relawan{member.volunteer_skills && member.volunteer_skills.length > 0 && `: ${member.volunteer_skills.join(', ')}`}
+              </p>
+            )}
+            {member.email && (
+              <p className="flex items-center gap-2">
+                <Mail className="h-4 w-4 flex-shrink-0" />
+                <a href={`mailto:${member.email}`} className="hover:underline">{member.email}</a>
+              </p>
+            )}
+            {member.phone && (
+              <p className="flex items-center gap-2">
+                <Phone className="h-4 w-4 flex-shrink-0" />
+                <a href={`tel:${member.phone}`} className="hover:underline">{member.phone}</a>
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemberDetail;
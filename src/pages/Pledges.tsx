@@ -0,0 +1,434 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Repeat, RefreshCw, AlertTriangle, ChevronDown, ChevronUp, Pause, Play, X, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import useAuthStore from '../store/authStore';
+
+type Frequency = 'weekly' | 'monthly' | 'yearly';
+
+interface Pledge {
+  id: string;
+  donation_type: string;
+  amount: number;
+  frequency: Frequency;
+  start_date: string;
+  end_date: string | null;
+  status: 'active' | 'paused' | 'cancelled' | 'ended';
+  next_due_date: string;
+  paid_count: number;
+  paid_amount: number;
+  arrears_count: number;
+  arrears_amount: number;
+}
+
+interface Instalment {
+  id: string;
+  amount: number;
+  status: string;
+  due_date: string;
+  reference_number: string;
+  completed_at: string | null;
+}
+
+interface Payment {
+  donationId: string;
+  qr_image: string | null;
+  va_number: string | null;
+  va_bank: string | null;
+  expires_at: string | null;
+}
+
+const DONATION_TYPES = ['Infaq', 'Sedekah', 'Zakat Mal', 'Wakaf', 'Operasional'];
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  weekly: 'Mingguan',
+  monthly: 'Bulanan',
+  yearly: 'Tahunan'
+};
+
+const STATUS_LABELS: Record<Pledge['status'], string> = {
+  active: 'Aktif',
+  paused: 'Dijeda',
+  cancelled: 'Dibatalkan',
+  ended: 'Selesai'
+};
+
+const INSTALMENT_LABELS: Record<string, string> = {
+  Completed: 'Lunas',
+  Pending: 'Belum dibayar',
+  Failed: 'Belum dibayar',
+  Cancelled: 'Dibatalkan'
+};
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+
+const formatDate = (value: string) => {
+  return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const Pledges: React.FC = () => {
+  const { token } = useAuthStore();
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+  const [arrears, setArrears] = useState({ count: 0, amount: 0 });
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [instalments, setInstalments] = useState<Instalment[]>([]);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [form, setForm] = useState({ donation_type: 'Infaq', amount: '', frequency: 'monthly' as Frequency, start_date: '', end_date: '' });
+
+  const authHeaders = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` };
+
+  const fetchPledges = useCallback(async () => {
+    try {
+      const response = await fetch('/api/donations/pledges', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setPledges(result.data.pledges);
+      setArrears({ count: result.data.arrears_count, amount: result.data.arrears_amount });
+    } catch (error) {
+      console.error('Error fetching pledges:', error);
+      toast.error('Gagal memuat komitmen donasi');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (token) fetchPledges();
+  }, [token, fetchPledges]);
+
+  const toggleHistory = async (pledgeId: string) => {
+    if (expanded === pledgeId) {
+      setExpanded(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/donations/pledges/${pledgeId}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setInstalments(result.data.instalments);
+      setExpanded(pledgeId);
+      setPayment(null);
+    } catch (error) {
+      console.error('Error fetching pledge history:', error);
+      toast.error('Gagal memuat riwayat cicilan');
+    }
+  };
+
+  const createPledge = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setWorking(true);
+      const response = await fetch('/api/donations/pledges', {
+        method: 'POST',
+        headers: authHeaders,
+        body: JSON.stringify({
+          donation_type: form.donation_type,
+          amount: Number(form.amount),
+          frequency: form.frequency,
+          ...(form.start_date ? { start_date: form.start_date } : {}),
+          ...(form.end_date ? { end_date: form.end_date } : {})
+        })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      toast.success('Komitmen donasi disimpan. Jazakallahu khairan!');
+      setForm({ ...form, amount: '', start_date: '', end_date: '' });
+      await fetchPledges();
+    } catch (error) {
+      console.error('Error creating pledge:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan komitmen donasi');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updatePledge = async (pledge: Pledge, action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !window.confirm('Batalkan komitmen ini? Cicilan yang belum dibayar ikut dibatalkan.')) {
+      return;
+    }
+
+    try {
+      setWorking(true);
+      const response = action === 'cancel'
+        ? await fetch(`/api/donations/pledges/${pledge.id}/cancel`, { method: 'POST', headers: authHeaders })
+        : await fetch(`/api/donations/pledges/${pledge.id}`, {
+          method: 'PUT',
+          headers: authHeaders,
+          body: JSON.stringify({ status: action === 'pause' ? 'paused' : 'active' })
+        });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      await fetchPledges();
+    } catch (error) {
+      console.error('Error updating pledge:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal mengubah komitmen donasi');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Save a receipt PDF; the download needs the auth header, so it goes through a blob
+  const downloadReceipt = async (url: string, filename: string) => {
+    try {
+      setWorking(true);
+      const response = await fetch(url, { headers: { 'Authorization': `Bearer ${token}` } });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error);
+      }
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(await response.blob());
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Error downloading receipt:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal mengunduh kuitansi');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Show how to pay an instalment, with a new QR code when the old one expired
+  const payInstalment = async (instalment: Instalment) => {
+    try {
+      setWorking(true);
+      let response = await fetch(`/api/donations/${instalment.id}/payment`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      let result = await response.json();
+
+      const expired = result.success && (
+        result.data.status === 'Failed'
+        || !result.data.provider
+        || (result.data.expires_at && Date.parse(result.data.expires_at) <= Date.now())
+      );
+      if (expired) {
+        response = await fetch(`/api/donations/${instalment.id}/payment`, { method: 'POST', headers: authHeaders });
+        result = await response.json();
+      }
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setPayment({ donationId: instalment.id, ...result.data });
+    } catch (error) {
+      console.error('Error getting instalment payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal membuat pembayaran');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat komitmen donasi...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const lastYear = new Date().getFullYear() - 1;
+  const inputClass = 'w-full rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6">
+          <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900 dark:text-white">
+            <Repeat className="h-6 w-6 text-emerald-600" />
+            Infaq Rutin
+          </h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+            Tagihan dibuat otomatis setiap jatuh tempo dan dapat dibayar dengan QRIS.
+          </p>
+          {arrears.count > 0 && (
+            <p className="mt-3 flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {arrears.count} cicilan belum dibayar ({formatRupiah(arrears.amount)})
+            </p>
+          )}
+          <button
+            onClick={() => downloadReceipt(`/api/donations/receipts/annual/${lastYear}`, `kuitansi-tahunan-${lastYear}.pdf`)}
+            disabled={working}
+            className="mt-3 inline-flex items-center gap-1 text-sm text-emerald-700 dark:text-emerald-400 hover:underline disabled:opacity-50"
+          >
+            <FileText className="h-4 w-4" />
+            Unduh kuitansi tahunan {lastYear}
+          </button>
+        </div>
+
+        {/* New pledge */}
+        <form onSubmit={createPledge} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <h2 className="sm:col-span-2 text-lg font-semibold text-gray-900 dark:text-white">Komitmen Baru</h2>
+          <label className="block text-sm text-gray-700 dark:text-gray-200">
+            Jenis donasi
+            <select value={form.donation_type} onChange={(e) => setForm({ ...form, donation_type: e.target.value })} className={`mt-1 ${inputClass}`}>
+              {DONATION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-200">
+            Frekuensi
+            <select value={form.frequency} onChange={(e) => setForm({ ...form, frequency: e.target.value as Frequency })} className={`mt-1 ${inputClass}`}>
+              {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map(frequency => (
+                <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-200 sm:col-span-2">
+            Jumlah per cicilan (Rp)
+            <input type="number" min={1} required value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} className={`mt-1 ${inputClass}`} />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-200">
+            Mulai (kosongkan untuk hari ini)
+            <input type="date" value={form.start_date} onChange={(e) => setForm({ ...form, start_date: e.target.value })} className={`mt-1 ${inputClass}`} />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-200">
+            Berakhir (opsional)
+            <input type="date" value={form.end_date} onChange={(e) => setForm({ ...form, end_date: e.target.value })} className={`mt-1 ${inputClass}`} />
+          </label>
+          <button
+            type="submit"
+            disabled={working || !Number(form.amount)}
+            className="sm:col-span-2 px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+          >
+            Simpan Komitmen
+          </button>
+        </form>
+
+        {/* Pledges */}
+        {pledges.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Komitmen Saya</h2>
+            </div>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {pledges.map(pledge => (
+                <li key={pledge.id} className="px-6 py-4 space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {pledge.donation_type} {FREQUENCY_LABELS[pledge.frequency].toLowerCase()} {formatRupiah(pledge.amount)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {pledge.status === 'active'
+                          ? `Jatuh tempo berikutnya ${formatDate(pledge.next_due_date)}`
+                          : STATUS_LABELS[pledge.status]}
+                        {pledge.end_date && ` · sampai ${formatDate(pledge.end_date)}`}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {pledge.paid_count} cicilan lunas ({formatRupiah(pledge.paid_amount)})
+                        {pledge.arrears_count > 0 && (
+                          <span className="text-amber-700 dark:text-amber-400"> · {pledge.arrears_count} belum dibayar</span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {pledge.status === 'active' && (
+                        <button onClick={() => updatePledge(pledge, 'pause')} disabled={working} title="Jeda" className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                          <Pause className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+                        </button>
+                      )}
+                      {pledge.status === 'paused' && (
+                        <button onClick={() => updatePledge(pledge, 'resume')} disabled={working} title="Lanjutkan" className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                          <Play className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+                        </button>
+                      )}
+                      {['active', 'paused'].includes(pledge.status) && (
+                        <button onClick={() => updatePledge(pledge, 'cancel')} disabled={working} title="Batalkan" className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                          <X className="h-4 w-4 text-red-600" />
+                        </button>
+                      )}
+                      <button onClick={() => toggleHistory(pledge.id)} title="Riwayat" className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+                        {expanded === pledge.id
+                          ? <ChevronUp className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+                          : <ChevronDown className="h-4 w-4 text-gray-600 dark:text-gray-300" />}
+                      </button>
+                    </div>
+                  </div>
+
+                  {expanded === pledge.id && (
+                    instalments.length === 0 ? (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Belum ada cicilan.</p>
+                    ) : (
+                      <ul className="rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                        {instalments.map(instalment => (
+                          <li key={instalment.id} className="px-4 py-2 text-sm">
+                            <div className="flex items-center justify-between gap-4">
+                              <span className="text-gray-700 dark:text-gray-200">{formatDate(instalment.due_date)}</span>
+                              {['Pending', 'Failed'].includes(instalment.status) ? (
+                                <button
+                                  onClick={() => payInstalment(instalment)}
+                                  disabled={working}
+                                  className="px-3 py-1 rounded bg-emerald-600 text-white text-xs font-medium hover:bg-emerald-700 disabled:opacity-50"
+                                >
+                                  Bayar {formatRupiah(instalment.amount)}
+                                </button>
+                              ) : instalment.status === 'Completed' ? (
+                                <button
+                                  onClick={() => downloadReceipt(`/api/donations/${instalment.id}/receipt`, `kuitansi-${instalment.reference_number}.pdf`)}
+                                  disabled={working}
+                                  title="Unduh kuitansi"
+                                  className="inline-flex items-center gap-1 text-xs text-emerald-700 dark:text-emerald-400 hover:underline disabled:opacity-50"
+                                >
+                                  <FileText className="h-3.5 w-3.5" />
+                                  {INSTALMENT_LABELS[instalment.status]}
+                                </button>
+                              ) : (
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                  {INSTALMENT_LABELS[instalment.status] || instalment.status}
+                                </span>
+                              )}
+                            </div>
+                            {payment?.donationId === instalment.id && (
+                              <div className="mt-2 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 p-3 text-emerald-800 dark:text-emerald-200">
+                                {payment.qr_image && (
+                                  <img src={payment.qr_image} alt="QRIS pembayaran cicilan" className="mx-auto w-56 h-56 bg-white p-2 rounded" />
+                                )}
+                                {payment.va_number && (
+                                  <p>
+                                    Transfer ke virtual account {payment.va_bank}: <span className="font-mono font-semibold">{payment.va_number}</span>
+                                  </p>
+                                )}
+                                {payment.expires_at && (
+                                  <p className="mt-1 text-xs text-center">
+                                    Bayar sebelum {new Date(payment.expires_at).toLocaleString('id-ID', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })}
+                                  </p>
+                                )}
+                              </div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Pledges;
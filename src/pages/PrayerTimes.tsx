@@ -1,25 +1,71 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, MapPin, Bell, RefreshCw, Wifi, WifiOff } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Clock, MapPin, Bell, RefreshCw, Wifi, WifiOff, Users, Moon } from 'lucide-react';
 import useAuthStore from '../store/authStore';
 import CachedDataDisplay from '../components/CachedDataDisplay';
 import OfflineActionButton from '../components/OfflineActionButton';
 import { offlineStorage } from '../utils/indexedDB';
 
+type PrayerKey = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+interface JumuahInfo {
+  khutbah_time: string | null;
+  khatib_name: string | null;
+  imam_name: string | null;
+  theme: string | null;
+}
+
+interface RamadanInfo {
+  day: number | null;
+  imsak: string | null;
+  iftar: string | null;
+  tarawih: {
+    night: number;
+    time: string | null;
+    imam_name: string | null;
+    penceramah_name: string | null;
+    theme: string | null;
+  } | null;
+}
+
 interface PrayerTime {
-  id: string;
+  id: string | null;
   prayer_date: string;
-  fajr_time: string;
-  sunrise_time?: string;
-  dhuhr_time: string;
-  asr_time: string;
-  maghrib_time: string;
-  isha_time: string;
+  fajr: string | null;
+  sunrise: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+  hijri_date: string | null;
+  iqamah?: Partial<Record<PrayerKey, string | null>>;
+  jumuah?: JumuahInfo | null;
+  ramadan?: RamadanInfo | null;
   notes?: string;
-  is_active: boolean;
 }
 
+interface UpcomingMoment {
+  name: string;
+  kind: 'Adzan' | 'Iqamah' | 'Khutbah' | 'Imsak' | 'Tarawih';
+  time: string;
+}
+
+// Local calendar date (YYYY-MM-DD) of the device
+const toLocalDateString = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(value => String(value).padStart(2, '0')).join(':');
+};
+
 const PrayerTimes: React.FC = () => {
   const { offline, token } = useAuthStore();
+  const navigate = useNavigate();
   const [prayerTimes, setPrayerTimes] = useState<PrayerTime | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -100,37 +146,66 @@ const PrayerTimes: React.FC = () => {
     fetchPrayerTimes();
   }, [offline.isOnline]);
 
-  // Get next prayer time
-  const getNextPrayer = () => {
+  const isFriday = Boolean(prayerTimes?.jumuah);
+
+  const prayerRows: { key: PrayerKey; name: string; arabic: string }[] = [
+    { key: 'fajr', name: 'Subuh', arabic: 'الفجر' },
+    { key: 'sunrise', name: 'Terbit', arabic: 'الشروق' },
+    { key: 'dhuhr', name: isFriday ? 'Jumat' : 'Dzuhur', arabic: isFriday ? 'الجمعة' : 'الظهر' },
+    { key: 'asr', name: 'Ashar', arabic: 'العصر' },
+    { key: 'maghrib', name: 'Maghrib', arabic: 'المغرب' },
+    { key: 'isha', name: 'Isya', arabic: 'العشاء' }
+  ];
+
+  // Get the next adzan, iqamah or khutbah of today
+  const getNextMoment = (): UpcomingMoment | null => {
     if (!prayerTimes) return null;
 
-    const now = currentTime;
-    const today = now.toISOString().split('T')[0];
-    
-    if (prayerTimes.prayer_date !== today) {
+    if (prayerTimes.prayer_date !== toLocalDateString(currentTime)) {
       return null; // Data is for a different day
     }
 
-    const prayers = [
-      { name: 'Subuh', time: prayerTimes.fajr_time },
-      { name: 'Dzuhur', time: prayerTimes.dhuhr_time },
-      { name: 'Ashar', time: prayerTimes.asr_time },
-      { name: 'Maghrib', time: prayerTimes.maghrib_time },
-      { name: 'Isya', time: prayerTimes.isha_time }
-    ];
-
-    const currentTimeStr = now.toTimeString().slice(0, 5);
-    
-    for (const prayer of prayers) {
-      if (prayer.time > currentTimeStr) {
-        return prayer;
+    const moments: UpcomingMoment[] = [];
+    if (prayerTimes.ramadan?.imsak) {
+      moments.push({ name: '', kind: 'Imsak', time: prayerTimes.ramadan.imsak });
+    }
+    if (prayerTimes.ramadan?.tarawih?.time) {
+      moments.push({ name: '', kind: 'Tarawih', time: prayerTimes.ramadan.tarawih.time });
+    }
+    for (const prayer of prayerRows) {
+      if (prayer.key === 'sunrise') continue;
+
+      const adhan = prayerTimes[prayer.key];
+      if (adhan) {
+        moments.push({ name: prayer.name, kind: 'Adzan', time: adhan.slice(0, 5) });
+      }
+      if (prayer.key === 'dhuhr' && prayerTimes.jumuah?.khutbah_time && prayerTimes.jumuah.khutbah_time !== adhan) {
+        moments.push({ name: prayer.name, kind: 'Khutbah', time: prayerTimes.jumuah.khutbah_time.slice(0, 5) });
+      }
+      const iqamah = prayerTimes.iqamah?.[prayer.key];
+      if (iqamah) {
+        moments.push({ name: prayer.name, kind: 'Iqamah', time: iqamah.slice(0, 5) });
       }
     }
-    
-    return null; // All prayers for today have passed
+
+    const currentTimeStr = currentTime.toTimeString().slice(0, 5);
+    return moments
+      .sort((a, b) => a.time.localeCompare(b.time))
+      .find(moment => moment.time > currentTimeStr) || null; // null when all prayers have passed
   };
 
-  const nextPrayer = getNextPrayer();
+  const nextMoment = getNextMoment();
+
+  const countdown = nextMoment
+    ? formatCountdown(new Date(`${prayerTimes!.prayer_date}T${nextMoment.time}:00`).getTime() - currentTime.getTime())
+    : null;
+
+  // Time left until breaking the fast, only while fasting today
+  const ramadan = prayerTimes?.prayer_date === toLocalDateString(currentTime) ? prayerTimes.ramadan : null;
+  const iftarAt = ramadan?.iftar ? new Date(`${prayerTimes!.prayer_date}T${ramadan.iftar}:00`) : null;
+  const iftarCountdown = iftarAt && iftarAt > currentTime
+    ? formatCountdown(iftarAt.getTime() - currentTime.getTime())
+    : null;
 
   const formatTime = (time: string) => {
     return new Date(`2000-01-01T${time}`).toLocaleTimeString('id-ID', {
@@ -187,7 +262,7 @@ const PrayerTimes: React.FC = () => {
         )}
 
         {/* Next Prayer Highlight */}
-        {nextPrayer && (
+        {nextMoment && (
           <CachedDataDisplay
             dataType="sholat berikutnya"
             lastUpdated={lastUpdated || undefined}
@@ -199,16 +274,108 @@ const PrayerTimes: React.FC = () => {
                   Sholat Berikutnya
                 </h2>
                 <div className="text-3xl font-bold text-emerald-900 dark:text-emerald-100 mb-1">
-                  {nextPrayer.name}
+                  {nextMoment.name ? `${nextMoment.kind} ${nextMoment.name}` : nextMoment.kind}
                 </div>
                 <div className="text-xl text-emerald-700 dark:text-emerald-300">
-                  {formatTime(nextPrayer.time)}
+                  {formatTime(nextMoment.time)}
                 </div>
+                {countdown && (
+                  <div className="mt-2 text-sm text-emerald-700 dark:text-emerald-300">
+                    dalam <span className="font-mono font-semibold">{countdown}</span>
+                  </div>
+                )}
               </div>
             </div>
           </CachedDataDisplay>
         )}
 
+        {/* Ramadan */}
+        {ramadan && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-emerald-200 dark:border-emerald-800 p-6 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <Moon className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {ramadan.day ? `Ramadhan Hari ke-${ramadan.day}` : 'Malam Pertama Ramadhan'}
+                </h3>
+              </div>
+              <Link to="/ramadan" className="text-sm text-emerald-600 dark:text-emerald-400 hover:underline">
+                Jadwal Imsakiyah
+              </Link>
+            </div>
+
+            {iftarCountdown && (
+              <div className="text-center bg-emerald-50 dark:bg-emerald-900/20 rounded-lg p-4 mb-4">
+                <p className="text-sm text-emerald-700 dark:text-emerald-300">Berbuka puasa dalam</p>
+                <p className="text-3xl font-mono font-bold text-emerald-900 dark:text-emerald-100">{iftarCountdown}</p>
+              </div>
+            )}
+
+            <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">Imsak</dt>
+                <dd className="font-mono text-gray-900 dark:text-white">
+                  {ramadan.imsak ? formatTime(ramadan.imsak) : '-'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">Berbuka</dt>
+                <dd className="font-mono text-gray-900 dark:text-white">
+                  {ramadan.iftar ? formatTime(ramadan.iftar) : '-'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">
+                  Tarawih{ramadan.tarawih && ` (malam ke-${ramadan.tarawih.night})`}
+                </dt>
+                <dd className="font-mono text-gray-900 dark:text-white">
+                  {ramadan.tarawih?.time ? formatTime(ramadan.tarawih.time) : '-'}
+                </dd>
+              </div>
+            </dl>
+            {ramadan.tarawih && (ramadan.tarawih.imam_name || ramadan.tarawih.penceramah_name) && (
+              <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                {ramadan.tarawih.imam_name && <><strong>Imam:</strong> {ramadan.tarawih.imam_name} </>}
+                {ramadan.tarawih.penceramah_name && <><strong>Penceramah:</strong> {ramadan.tarawih.penceramah_name}</>}
+                {ramadan.tarawih.theme && <> • {ramadan.tarawih.theme}</>}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Jumu'ah Details */}
+        {prayerTimes?.jumuah && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-6">
+            <div className="flex items-center gap-2 mb-3">
+              <Users className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Sholat Jumat
+              </h3>
+            </div>
+            <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">Khutbah</dt>
+                <dd className="font-mono text-gray-900 dark:text-white">
+                  {prayerTimes.jumuah.khutbah_time ? formatTime(prayerTimes.jumuah.khutbah_time) : '-'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">Khatib</dt>
+                <dd className="text-gray-900 dark:text-white">{prayerTimes.jumuah.khatib_name || '-'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">Imam</dt>
+                <dd className="text-gray-900 dark:text-white">{prayerTimes.jumuah.imam_name || '-'}</dd>
+              </div>
+            </dl>
+            {prayerTimes.jumuah.theme && (
+              <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                <strong>Tema:</strong> {prayerTimes.jumuah.theme}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Prayer Times Table */}
         {prayerTimes ? (
           <CachedDataDisplay
@@ -228,47 +395,53 @@ const PrayerTimes: React.FC = () => {
                     month: 'long',
                     day: 'numeric'
                   })}
+                  {prayerTimes.hijri_date && <span> • {prayerTimes.hijri_date}</span>}
                 </p>
               </div>
               
               <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                {[
-                  { name: 'Subuh', time: prayerTimes.fajr_time, arabic: 'الفجر' },
-                  { name: 'Terbit', time: prayerTimes.sunrise_time, arabic: 'الشروق' },
-                  { name: 'Dzuhur', time: prayerTimes.dhuhr_time, arabic: 'الظهر' },
-                  { name: 'Ashar', time: prayerTimes.asr_time, arabic: 'العصر' },
-                  { name: 'Maghrib', time: prayerTimes.maghrib_time, arabic: 'المغرب' },
-                  { name: 'Isya', time: prayerTimes.isha_time, arabic: 'العشاء' }
-                ].filter(prayer => prayer.time).map((prayer, index) => (
-                  <div key={index} className={`px-6 py-4 flex items-center justify-between ${
-                    nextPrayer?.name === prayer.name ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
-                  }`}>
-                    <div className="flex items-center space-x-4">
-                      <div className={`w-2 h-2 rounded-full ${
-                        nextPrayer?.name === prayer.name 
-                          ? 'bg-emerald-500' 
-                          : 'bg-gray-300 dark:bg-gray-600'
-                      }`} />
-                      <div>
-                        <div className="font-medium text-gray-900 dark:text-white">
-                          {prayer.name}
+                {prayerRows.filter(prayer => prayerTimes[prayer.key]).map((prayer) => {
+                  const isNext = nextMoment?.name === prayer.name;
+                  const iqamah = prayerTimes.iqamah?.[prayer.key];
+
+                  return (
+                    <div key={prayer.key} className={`px-6 py-4 flex items-center justify-between ${
+                      isNext ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+                    }`}>
+                      <div className="flex items-center space-x-4">
+                        <div className={`w-2 h-2 rounded-full ${
+                          isNext
+                            ? 'bg-emerald-500'
+                            : 'bg-gray-300 dark:bg-gray-600'
+                        }`} />
+                        <div>
+                          <div className="font-medium text-gray-900 dark:text-white">
+                            {prayer.name}
+                          </div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            {prayer.arabic}
+                          </div>
                         </div>
-                        <div className="text-sm text-gray-500 dark:text-gray-400">
-                          {prayer.arabic}
+                      </div>
+                      <div className="text-right">
+                        <div className={`text-lg font-mono ${
+                          isNext
+                            ? 'text-emerald-600 dark:text-emerald-400 font-bold'
+                            : 'text-gray-900 dark:text-white'
+                        }`}>
+                          {formatTime(prayerTimes[prayer.key]!)}
                         </div>
+                        {iqamah && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Iqamah <span className="font-mono">{formatTime(iqamah)}</span>
+                          </div>
+                        )}
                       </div>
                     </div>
-                    <div className={`text-lg font-mono ${
-                      nextPrayer?.name === prayer.name
-                        ? 'text-emerald-600 dark:text-emerald-400 font-bold'
-                        : 'text-gray-900 dark:text-white'
-                    }`}>
-                      {formatTime(prayer.time!)}
-                    </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
-              
+
               {prayerTimes.notes && (
                 <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50">
                   <p className="text-sm text-gray-600 dark:text-gray-400">
@@ -303,16 +476,13 @@ const PrayerTimes: React.FC = () => {
           </OfflineActionButton>
           
           <OfflineActionButton
-            onClick={() => {
-              // This would typically enable/disable prayer notifications
-              alert('Fitur notifikasi sholat segera hadir!');
-            }}
+            onClick={() => navigate('/profile')}
             variant="primary"
             className="flex items-center space-x-2"
             queueType="general"
           >
             <Bell className="h-4 w-4" />
-            <span>Aktifkan Notifikasi</span>
+            <span>Atur Pengingat</span>
           </OfflineActionButton>
         </div>
       </div>
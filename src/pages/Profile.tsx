@@ -5,6 +5,9 @@ import { toast } from 'sonner';
 import OfflineStatus from '../components/OfflineStatus';
 import CachedDataDisplay from '../components/CachedDataDisplay';
 import OfflineActionButton from '../components/OfflineActionButton';
+import PrayerReminderSettings from '../components/PrayerReminderSettings';
+import EventTickets from '../components/EventTickets';
+import PendingSurveys from '../components/PendingSurveys';
 
 const Profile: React.FC = () => {
   const { user, refreshUser, offline } = useAuthStore();
@@ -327,6 +330,15 @@ const Profile: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Event Tickets (available offline) */}
+        <EventTickets className="mt-6" />
+
+        {/* Feedback for attended events (available offline) */}
+        <PendingSurveys className="mt-6" />
+
+        {/* Prayer Reminders */}
+        {isOnline && <PrayerReminderSettings className="mt-6" />}
       </div>
     </div>
   );
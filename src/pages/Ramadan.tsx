@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import { Moon, Printer, Download, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+
+interface ImsakiyahDay {
+  day: number;
+  date: string;
+  hijri_date: string | null;
+  imsak: string | null;
+  fajr: string | null;
+  sunrise: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+}
+
+interface TarawihNight {
+  night: number;
+  night_date: string;
+  time: string | null;
+  imam_name: string | null;
+  penceramah_name: string | null;
+  theme: string | null;
+}
+
+interface RamadanSchedule {
+  hijri_year: number;
+  start_date: string;
+  end_date: string;
+  days: ImsakiyahDay[];
+  nights: TarawihNight[];
+  imsak_minutes: number;
+}
+
+// Local calendar date (YYYY-MM-DD) of the device
+const toLocalDateString = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const formatDate = (date: string) => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short'
+  });
+};
+
+const Ramadan: React.FC = () => {
+  const [schedule, setSchedule] = useState<RamadanSchedule | null>(null);
+  const [year, setYear] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/ramadan${year ? `?year=${year}` : ''}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Gagal mengambil jadwal Ramadhan');
+        }
+        setSchedule(result.data);
+      } catch (err) {
+        console.error('Error fetching ramadan schedule:', err);
+        setError(err instanceof Error ? err.message : 'Gagal memuat jadwal Ramadhan');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, [year]);
+
+  const today = toLocalDateString(new Date());
+  const hijriYear = schedule?.hijri_year;
+
+  if (loading && !schedule) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat jadwal Ramadhan...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 print:bg-white">
+      <div className="max-w-5xl mx-auto px-4 py-8 print:p-0">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-emerald-100 dark:bg-emerald-900 rounded-full mb-4 print:hidden">
+            <Moon className="h-8 w-8 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Jadwal Imsakiyah {hijriYear && `Ramadhan ${hijriYear} H`}
+          </h1>
+          {schedule && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {new Date(`${schedule.start_date}T00:00:00`).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}
+              {' – '}
+              {new Date(`${schedule.end_date}T00:00:00`).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        {hijriYear && (
+          <div className="flex flex-wrap items-center justify-center gap-3 mb-6 print:hidden">
+            <button
+              onClick={() => setYear(hijriYear - 1)}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+              aria-label="Ramadhan sebelumnya"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => window.print()}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-emerald-600 text-white hover:bg-emerald-700"
+            >
+              <Printer className="h-4 w-4" />
+              <span>Cetak</span>
+            </button>
+            <a
+              href={`/api/ramadan/imsakiyah?format=pdf&year=${hijriYear}`}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg border border-emerald-600 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+            >
+              <Download className="h-4 w-4" />
+              <span>Unduh PDF</span>
+            </a>
+            <button
+              onClick={() => setYear(hijriYear + 1)}
+              className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+              aria-label="Ramadhan berikutnya"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-6">
+            <p className="text-red-800 dark:text-red-200 text-center">{error}</p>
+          </div>
+        )}
+
+        {schedule && (
+          <>
+            {/* Imsakiyah Table */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto mb-6 print:shadow-none">
+              <table className="w-full text-sm">
+                <thead className="bg-emerald-600 text-white">
+                  <tr>
+                    <th className="px-3 py-2 text-center">Ramadhan</th>
+                    <th className="px-3 py-2 text-left">Tanggal</th>
+                    <th className="px-3 py-2 text-center">Imsak</th>
+                    <th className="px-3 py-2 text-center">Subuh</th>
+                    <th className="px-3 py-2 text-center">Terbit</th>
+                    <th className="px-3 py-2 text-center">Dzuhur</th>
+                    <th className="px-3 py-2 text-center">Ashar</th>
+                    <th className="px-3 py-2 text-center">Maghrib</th>
+                    <th className="px-3 py-2 text-center">Isya</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {schedule.days.map((day) => (
+                    <tr
+                      key={day.date}
+                      className={day.date === today
+                        ? 'bg-emerald-50 dark:bg-emerald-900/20 font-semibold'
+                        : 'even:bg-gray-50 dark:even:bg-gray-700/30'}
+                    >
+                      <td className="px-3 py-2 text-center text-gray-900 dark:text-white">{day.day}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white whitespace-nowrap">{formatDate(day.date)}</td>
+                      {([day.imsak, day.fajr, day.sunrise, day.dhuhr, day.asr, day.maghrib, day.isha]).map((time, index) => (
+                        <td key={index} className="px-3 py-2 text-center font-mono text-gray-900 dark:text-white">
+                          {time || '-'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                Imsak {schedule.imsak_minutes} menit sebelum Subuh. Waktu berbuka puasa adalah waktu Maghrib.
+              </p>
+            </div>
+
+            {/* Tarawih Nights */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto print:shadow-none print:break-before-page">
+              <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Jadwal Tarawih
+                </h3>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="px-3 py-2 text-center">Malam</th>
+                    <th className="px-3 py-2 text-left">Tanggal</th>
+                    <th className="px-3 py-2 text-center">Waktu</th>
+                    <th className="px-3 py-2 text-left">Imam</th>
+                    <th className="px-3 py-2 text-left">Penceramah</th>
+                    <th className="px-3 py-2 text-left">Tema</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {schedule.nights.map((night) => (
+                    <tr
+                      key={night.night_date}
+                      className={night.night_date === today ? 'bg-emerald-50 dark:bg-emerald-900/20 font-semibold' : ''}
+                    >
+                      <td className="px-3 py-2 text-center text-gray-900 dark:text-white">{night.night}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white whitespace-nowrap">{formatDate(night.night_date)}</td>
+                      <td className="px-3 py-2 text-center font-mono text-gray-900 dark:text-white">{night.time || '-'}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{night.imam_name || '-'}</td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{night.penceramah_name || '-'}</td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{night.theme || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Ramadan;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { ShieldCheck, ShieldX, RefreshCw } from 'lucide-react';
+
+interface VerifiedReceipt {
+  receipt_number: string;
+  kind: 'donation' | 'annual';
+  valid: boolean;
+  donor_name: string;
+  amount: number;
+  period_year: number | null;
+  donation_type: string | null;
+  reference_number: string | null;
+  completed_at: string | null;
+  donation_count: number | null;
+  issued_at: string;
+  void_reason: string | null;
+  voided_at: string | null;
+}
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+
+const formatDate = (value: string) => {
+  return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const ReceiptVerify: React.FC = () => {
+  const { number } = useParams<{ number: string }>();
+  const [searchParams] = useSearchParams();
+  const signature = searchParams.get('sig') || '';
+  const [receipt, setReceipt] = useState<VerifiedReceipt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const verifyReceipt = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(
+          `/api/donations/receipts/verify/${encodeURIComponent(number || '')}?sig=${encodeURIComponent(signature)}`
+        );
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(response.status === 404
+            ? 'Kuitansi tidak dikenali. Pastikan Anda memindai QR code pada kuitansi asli.'
+            : result.error || 'Gagal memeriksa kuitansi');
+        }
+        setReceipt(result.data);
+      } catch (err) {
+        console.error('Error verifying receipt:', err);
+        setError(err instanceof Error ? err.message : 'Gagal memeriksa kuitansi');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verifyReceipt();
+  }, [number, signature]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memeriksa kuitansi...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!receipt) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center">
+          <ShieldX className="h-12 w-12 text-red-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const rows: [string, string][] = [
+    ['Nomor kuitansi', receipt.receipt_number],
+    ['Diterima dari', receipt.donor_name],
+    ['Jumlah', formatRupiah(receipt.amount)],
+    ...(receipt.kind === 'annual'
+      ? [
+        ['Periode', `Tahun ${receipt.period_year}`],
+        ['Jumlah transaksi', `${receipt.donation_count} donasi`]
+      ] as [string, string][]
+      : [
+        ['Jenis donasi', receipt.donation_type || '-'],
+        ['No. referensi', receipt.reference_number || '-'],
+        ['Tanggal diterima', receipt.completed_at ? formatDate(receipt.completed_at) : '-']
+      ] as [string, string][]),
+    ['Diterbitkan', formatDate(receipt.issued_at)]
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-xl mx-auto px-4 py-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-4">
+          {receipt.valid ? (
+            <div className="flex items-center gap-3 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 p-4 text-emerald-800 dark:text-emerald-200">
+              <ShieldCheck className="h-8 w-8 flex-shrink-0" />
+              <div>
+                <p className="font-semibold">Kuitansi asli dan berlaku</p>
+                <p className="text-sm">Diterbitkan oleh pengurus masjid.</p>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3 rounded-lg bg-red-50 dark:bg-red-900/30 p-4 text-red-800 dark:text-red-200">
+              <ShieldX className="h-8 w-8 flex-shrink-0" />
+              <div>
+                <p className="font-semibold">Kuitansi telah dibatalkan</p>
+                <p className="text-sm">
+                  {receipt.voided_at && `Sejak ${formatDate(receipt.voided_at)}`}
+                  {receipt.void_reason && ` · ${receipt.void_reason}`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <dl className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                <dd className="text-right font-medium text-gray-900 dark:text-white">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptVerify;
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { User, Clock, MapPin, RefreshCw, BookOpen } from 'lucide-react';
+
+interface SpeakerEvent {
+  event_id: string;
+  occurrence_date: string | null;
+  title: string;
+  type: string;
+  starts_at: string;
+  location: string;
+  is_recurring: boolean;
+}
+
+interface SpeakerSeries {
+  id: string;
+  title: string;
+  kitab_title: string | null;
+  status: string;
+}
+
+interface SpeakerProfile {
+  id: string;
+  name: string;
+  slug: string;
+  bio: string | null;
+  photo_url: string | null;
+  topics: string[];
+  series: SpeakerSeries[];
+  upcoming_events: SpeakerEvent[];
+  past_events: SpeakerEvent[];
+}
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  kajian: 'Kajian',
+  jumat: "Jum'at",
+  pengajian: 'Pengajian'
+};
+
+const formatDateTime = (value: string) => {
+  return new Date(value).toLocaleString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const EventList: React.FC<{ title: string; events: SpeakerEvent[]; empty: string }> = ({ title, events, empty }) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+    <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+    </div>
+    {events.length === 0 ? (
+      <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">{empty}</p>
+    ) : (
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {events.map(event => (
+          <li key={`${event.event_id}:${event.occurrence_date || ''}`} className="px-6 py-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{event.title}</p>
+              <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200">
+                {EVENT_TYPE_LABELS[event.type] || event.type}
+              </span>
+            </div>
+            <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+              <Clock className="h-3 w-3" />
+              {formatDateTime(event.starts_at)}
+            </p>
+            <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+              <MapPin className="h-3 w-3" />
+              {event.location}
+            </p>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const Speaker: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [speaker, setSpeaker] = useState<SpeakerProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSpeaker = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/speakers/${encodeURIComponent(slug || '')}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(response.status === 404 ? 'Pemateri tidak ditemukan' : result.error || 'Gagal mengambil data pemateri');
+        }
+        setSpeaker(result.data);
+      } catch (err) {
+        console.error('Error fetching speaker:', err);
+        setError(err instanceof Error ? err.message : 'Gagal memuat data pemateri');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSpeaker();
+  }, [slug]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat data pemateri...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !speaker) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600 dark:text-gray-400">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        {/* Profile */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 flex flex-col sm:flex-row items-center sm:items-start gap-6">
+          {speaker.photo_url ? (
+            <img src={speaker.photo_url} alt={speaker.name} className="h-32 w-32 rounded-full object-cover flex-shrink-0" />
+          ) : (
+            <div className="h-32 w-32 rounded-full bg-emerald-100 dark:bg-emerald-900 flex items-center justify-center flex-shrink-0">
+              <User className="h-12 w-12 text-emerald-600 dark:text-emerald-400" />
+            </div>
+          )}
+          <div className="text-center sm:text-left">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{speaker.name}</h1>
+            {speaker.topics.length > 0 && (
+              <div className="flex flex-wrap justify-center sm:justify-start gap-2 mb-3">
+                {speaker.topics.map(topic => (
+                  <span key={topic} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200">
+                    <BookOpen className="h-3 w-3" />
+                    {topic}
+                  </span>
+                ))}
+              </div>
+            )}
+            {speaker.bio && (
+              <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{speaker.bio}</p>
+            )}
+          </div>
+        </div>
+
+        {speaker.series.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Serial Kajian</h2>
+            </div>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {speaker.series.map(series => (
+                <li key={series.id}>
+                  <Link to={`/kajian/${series.id}`} className="block px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{series.title}</p>
+                    {series.kitab_title && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Kitab {series.kitab_title}</p>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <EventList title="Kajian Mendatang" events={speaker.upcoming_events} empty="Belum ada jadwal kajian mendatang." />
+        <EventList title="Kajian Sebelumnya" events={speaker.past_events} empty="Belum ada kajian dalam setahun terakhir." />
+      </div>
+    </div>
+  );
+};
+
+export default Speaker;
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Calculator, CheckCircle, RefreshCw, AlertTriangle } from 'lucide-react';
+import useAuthStore from '../store/authStore';
+
+type ZakatType = 'mal' | 'fitrah';
+
+interface PriceInfo {
+  prices: Partial<Record<'gold' | 'silver' | 'rice', { price: number; effective_date: string }>>;
+  nisab: { gold_grams: number; gold_value: number | null };
+  fitrah: { rice_kg: number; amount_per_person: number | null };
+}
+
+interface Component {
+  kind: string;
+  label: string;
+  wealth: number;
+  nisab: number;
+  is_due: boolean;
+  zakat: number;
+  note?: string;
+}
+
+interface Result {
+  type: ZakatType;
+  components: Component[];
+  total: number;
+  warnings: string[];
+  donation: { donation_type: string; amount: number; zakat_calculation: Record<string, unknown> } | null;
+}
+
+interface Donation {
+  reference_number: string;
+  amount: number;
+  payment: {
+    method: 'QRIS' | 'VIRTUAL_ACCOUNT' | null;
+    qr_image: string | null;
+    va_number: string | null;
+    va_bank: string | null;
+    expires_at: string | null;
+  };
+}
+
+const MAL_FIELDS: { key: string; label: string; unit: 'gram' | 'rupiah' }[] = [
+  { key: 'gold_grams', label: 'Emas simpanan', unit: 'gram' },
+  { key: 'silver_grams', label: 'Perak simpanan', unit: 'gram' },
+  { key: 'savings', label: 'Tabungan, deposito dan uang tunai', unit: 'rupiah' },
+  { key: 'debts', label: 'Hutang jatuh tempo', unit: 'rupiah' },
+  { key: 'trade.inventory', label: 'Nilai barang dagangan', unit: 'rupiah' },
+  { key: 'trade.cash', label: 'Kas usaha', unit: 'rupiah' },
+  { key: 'trade.receivables', label: 'Piutang lancar', unit: 'rupiah' },
+  { key: 'trade.debts', label: 'Hutang usaha jangka pendek', unit: 'rupiah' },
+  { key: 'income.monthly_income', label: 'Penghasilan per bulan', unit: 'rupiah' },
+  { key: 'income.other_income', label: 'Penghasilan lain per bulan', unit: 'rupiah' },
+  { key: 'income.deductions', label: 'Kebutuhan pokok dan cicilan per bulan', unit: 'rupiah' }
+];
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+
+// Form values as the calculation request: "trade.cash" goes into a trade section
+const buildMalRequest = (values: Record<string, string>, haulComplete: boolean) => {
+  const request: Record<string, unknown> = { type: 'mal', haul_complete: haulComplete };
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!value) continue;
+    const [section, field] = key.split('.');
+    if (field) {
+      request[section] = { ...(request[section] as Record<string, string> | undefined), [field]: Number(value) };
+    } else {
+      request[key] = Number(value);
+    }
+  }
+
+  return request;
+};
+
+const ZakatCalculator: React.FC = () => {
+  const { token } = useAuthStore();
+  const [type, setType] = useState<ZakatType>('mal');
+  const [priceInfo, setPriceInfo] = useState<PriceInfo | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [haulComplete, setHaulComplete] = useState(true);
+  const [members, setMembers] = useState('1');
+  const [result, setResult] = useState<Result | null>(null);
+  const [amount, setAmount] = useState('');
+  const [donation, setDonation] = useState<Donation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPrices = async () => {
+      try {
+        const response = await fetch('/api/donations/zakat/prices');
+        const result = await response.json();
+        if (result.success) {
+          setPriceInfo(result.data);
+        }
+      } catch (err) {
+        console.error('Error fetching zakat prices:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPrices();
+  }, []);
+
+  const changeType = (next: ZakatType) => {
+    setType(next);
+    setResult(null);
+    setDonation(null);
+    setError(null);
+  };
+
+  const calculate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setWorking(true);
+      setError(null);
+      setDonation(null);
+
+      const body = type === 'fitrah'
+        ? { type, household_members: Number(members) }
+        : buildMalRequest(values, haulComplete);
+
+      const response = await fetch('/api/donations/zakat/calculate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Gagal menghitung zakat');
+      }
+      setResult(result.data);
+      setAmount(result.data.donation ? String(result.data.donation.amount) : '');
+    } catch (err) {
+      console.error('Error calculating zakat:', err);
+      setError(err instanceof Error ? err.message : 'Gagal menghitung zakat');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Pay the zakat: the donation is prefilled from the calculation
+  const pay = async () => {
+    if (!result?.donation || !token) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+
+      const response = await fetch('/api/donations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ ...result.donation, amount: Number(amount) })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Gagal membuat pembayaran zakat');
+      }
+      setDonation(data.data);
+    } catch (err) {
+      console.error('Error creating zakat donation:', err);
+      setError(err instanceof Error ? err.message : 'Gagal membuat pembayaran zakat');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-emerald-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Memuat kalkulator zakat...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-500';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6">
+          <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900 dark:text-white">
+            <Calculator className="h-6 w-6 text-emerald-600" />
+            Kalkulator Zakat
+          </h1>
+          {priceInfo && (
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+              {priceInfo.nisab.gold_value !== null && (
+                <>Nisab {priceInfo.nisab.gold_grams} g emas: {formatRupiah(priceInfo.nisab.gold_value)}. </>
+              )}
+              {priceInfo.fitrah.amount_per_person !== null && (
+                <>Zakat fitrah {priceInfo.fitrah.rice_kg} kg beras: {formatRupiah(priceInfo.fitrah.amount_per_person)} per orang.</>
+              )}
+            </p>
+          )}
+
+          <div className="mt-4 flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+            {(['mal', 'fitrah'] as ZakatType[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => changeType(option)}
+                className={`flex-1 px-4 py-2 text-sm font-medium ${
+                  type === option ? 'bg-emerald-600 text-white' : 'text-gray-700 dark:text-gray-200'
+                }`}
+              >
+                {option === 'mal' ? 'Zakat Mal' : 'Zakat Fitrah'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <form onSubmit={calculate} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-4">
+          {type === 'fitrah' ? (
+            <label className="block text-sm text-gray-700 dark:text-gray-200">
+              Jumlah anggota keluarga
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={members}
+                onChange={(e) => setMembers(e.target.value)}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          ) : (
+            <>
+              {MAL_FIELDS.map(field => (
+                <label key={field.key} className="block text-sm text-gray-700 dark:text-gray-200">
+                  {field.label} ({field.unit === 'gram' ? 'gram' : 'Rp'})
+                  <input
+                    type="number"
+                    min={0}
+                    value={values[field.key] || ''}
+                    onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    className={`mt-1 ${inputClass}`}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={haulComplete}
+                  onChange={(e) => setHaulComplete(e.target.checked)}
+                  className="rounded text-emerald-600 focus:ring-emerald-500"
+                />
+                Harta sudah dimiliki selama satu tahun (haul)
+              </label>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={working}
+            className="w-full px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+          >
+            Hitung Zakat
+          </button>
+        </form>
+
+        {result && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 space-y-4">
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {result.components.map(component => (
+                <li key={component.kind} className="py-3 flex items-start justify-between gap-4 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{component.label}</p>
+                    {component.kind !== 'fitrah' && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatRupiah(component.wealth)} · nisab {formatRupiah(component.nisab)}
+                      </p>
+                    )}
+                    {component.note && <p className="text-xs text-gray-500 dark:text-gray-400">{component.note}</p>}
+                  </div>
+                  <span className={component.is_due ? 'font-semibold text-emerald-700 dark:text-emerald-400' : 'text-gray-500 dark:text-gray-400'}>
+                    {component.is_due ? formatRupiah(component.zakat) : 'Belum wajib'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-between text-lg font-bold text-gray-900 dark:text-white">
+              <span>Total zakat</span>
+              <span>{formatRupiah(result.total)}</span>
+            </div>
+
+            {result.warnings.length > 0 && (
+              <p className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                Harga acuan belum diperbarui lebih dari sebulan; hasil dapat berbeda dari harga saat ini.
+              </p>
+            )}
+
+            {donation ? (
+              <div className="rounded-lg bg-emerald-50 dark:bg-emerald-900/30 p-4 text-sm text-emerald-800 dark:text-emerald-200">
+                <p className="flex items-center gap-2 font-medium">
+                  <CheckCircle className="h-4 w-4" />
+                  Pembayaran zakat {formatRupiah(donation.amount)} dibuat
+                </p>
+                <p className="mt-1">Nomor referensi: {donation.reference_number}</p>
+                {donation.payment.qr_image && (
+                  <>
+                    <img src={donation.payment.qr_image} alt="QRIS pembayaran zakat" className="mx-auto mt-3 w-64 h-64 bg-white p-2 rounded" />
+                    <p className="mt-2 text-center">Pindai dengan aplikasi bank atau dompet digital yang mendukung QRIS</p>
+                  </>
+                )}
+                {donation.payment.va_number && (
+                  <p className="mt-2">
+                    Transfer ke virtual account {donation.payment.va_bank}: <span className="font-mono font-semibold">{donation.payment.va_number}</span>
+                  </p>
+                )}
+                {donation.payment.expires_at && (
+                  <p className="mt-1 text-xs">
+                    Bayar sebelum {new Date(donation.payment.expires_at).toLocaleString('id-ID', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                )}
+              </div>
+            ) : result.donation && (
+              token ? (
+                <div className="space-y-2">
+                  <label className="block text-sm text-gray-700 dark:text-gray-200">
+                    Jumlah yang dibayarkan (Rp)
+                    <input
+                      type="number"
+                      min={1}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className={`mt-1 ${inputClass}`}
+                    />
+                  </label>
+                  <button
+                    onClick={pay}
+                    disabled={working || !Number(amount)}
+                    className="w-full px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    Bayar {result.type === 'fitrah' ? 'Zakat Fitrah' : 'Zakat Mal'}
+                  </button>
+                </div>
+              ) : (
+                <Link to="/login" className="block text-center text-sm text-emerald-700 dark:text-emerald-400 hover:underline">
+                  Masuk untuk membayar zakat
+                </Link>
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ZakatCalculator;
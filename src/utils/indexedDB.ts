@@ -242,6 +242,48 @@ export const offlineStorage = {
     return result ? { data: result.data, timestamp: result.timestamp } : null;
   },
 
+  // Event tickets (kept for a week so they can be shown at the door offline)
+  async storeTickets<T>(data: T[]): Promise<void> {
+    await indexedDBManager.store('events', {
+      id: 'tickets',
+      data,
+      timestamp: Date.now()
+    }, 7 * 24 * 60); // 7 days TTL
+  },
+
+  async getTickets<T>(): Promise<{ data: T[]; timestamp: number } | null> {
+    const result = await indexedDBManager.get('events', 'tickets');
+    return result ? { data: result.data, timestamp: result.timestamp } : null;
+  },
+
+  // Event surveys (the form and the open surveys list, so feedback can be
+  // given offline and sent through the offline queue)
+  async storeSurvey<T>(key: string, data: T): Promise<void> {
+    await indexedDBManager.store('events', {
+      id: `survey:${key}`,
+      data,
+      timestamp: Date.now()
+    }, 7 * 24 * 60); // 7 days TTL
+  },
+
+  async getSurvey<T>(key: string): Promise<{ data: T; timestamp: number } | null> {
+    const result = await indexedDBManager.get('events', `survey:${key}`);
+    return result ? { data: result.data, timestamp: result.timestamp } : null;
+  },
+
+  async storePendingSurveys<T>(data: T[]): Promise<void> {
+    await indexedDBManager.store('events', {
+      id: 'pending-surveys',
+      data,
+      timestamp: Date.now()
+    }, 7 * 24 * 60); // 7 days TTL
+  },
+
+  async getPendingSurveys<T>(): Promise<{ data: T[]; timestamp: number } | null> {
+    const result = await indexedDBManager.get('events', 'pending-surveys');
+    return result ? { data: result.data, timestamp: result.timestamp } : null;
+  },
+
   // Announcements
   async storeAnnouncements(data: any[]): Promise<void> {
     await indexedDBManager.store('announcements', {
@@ -9,7 +9,7 @@ interface QueuedRequest {
   timestamp: number;
   retryCount: number;
   maxRetries?: number;
-  type: 'donations' | 'registrations' | 'announcements' | 'general';
+  type: 'donations' | 'registrations' | 'announcements' | 'surveys' | 'general';
 }
 
 interface RetryConfig {
@@ -288,16 +288,29 @@ export const offlineQueue = {
   },
 
   // Add event registration to queue
-  async queueEventRegistration(eventId: string, token: string): Promise<string> {
+  // occurrenceDate is required for recurring events
+  async queueEventRegistration(eventId: string, token: string, occurrenceDate?: string): Promise<string> {
     return offlineQueueManager.addToQueue(
       `/api/events/${eventId}/register`,
       'POST',
-      {},
+      occurrenceDate ? { occurrence_date: occurrenceDate } : {},
       { 'Authorization': `Bearer ${token}` },
       'registrations'
     );
   },
 
+  // Add survey response to queue
+  // The API accepts the same response twice, so retries are safe
+  async queueSurveyResponse(eventId: string, response: Record<string, unknown>, token: string): Promise<string> {
+    return offlineQueueManager.addToQueue(
+      `/api/surveys/events/${eventId}/responses`,
+      'POST',
+      response,
+      { 'Authorization': `Bearer ${token}` },
+      'surveys'
+    );
+  },
+
   // Add announcement to queue
   async queueAnnouncement(announcementData: any, token: string): Promise<string> {
     return offlineQueueManager.addToQueue(
@@ -0,0 +1,13 @@
+export interface PendingSurvey {
+  survey_id: string;
+  event_id: string;
+  event_title: string;
+  occurrence_date: string | null;
+  title: string;
+  starts_at: string;
+  closes_at: string;
+}
+
+// Link to the feedback form of an event, or of one occurrence of a series
+export const surveyPath = (eventId: string, occurrenceDate: string | null) =>
+  `/events/${eventId}/survey${occurrenceDate ? `?date=${occurrenceDate}` : ''}`;
@@ -0,0 +1,46 @@
+-- Prayer time calculation settings
+-- Prayer times are now computed from the mosque location; rows in
+-- prayer_schedules only override individual times for a date.
+
+-- Create mosque_settings table (single row)
+CREATE TABLE mosque_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(200) NOT NULL DEFAULT 'Masjid',
+    latitude DECIMAL(9,6) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude DECIMAL(9,6) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Jakarta',
+    calculation_method VARCHAR(20) NOT NULL DEFAULT 'KEMENAG' CHECK (calculation_method IN ('KEMENAG', 'MWL', 'ISNA', 'UMM_AL_QURA', 'EGYPTIAN')),
+    asr_madhab VARCHAR(10) NOT NULL DEFAULT 'shafi' CHECK (asr_madhab IN ('shafi', 'hanafi')),
+    updated_by UUID REFERENCES users(id),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Allow partial overrides in prayer_schedules
+ALTER TABLE prayer_schedules ALTER COLUMN fajr DROP NOT NULL;
+ALTER TABLE prayer_schedules ALTER COLUMN dhuhr DROP NOT NULL;
+ALTER TABLE prayer_schedules ALTER COLUMN asr DROP NOT NULL;
+ALTER TABLE prayer_schedules ALTER COLUMN maghrib DROP NOT NULL;
+ALTER TABLE prayer_schedules ALTER COLUMN isha DROP NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE mosque_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view mosque settings" ON mosque_settings
+    FOR SELECT USING (true);
+
+CREATE POLICY "Authorized users can manage mosque settings" ON mosque_settings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON mosque_settings TO anon;
+GRANT ALL PRIVILEGES ON mosque_settings TO authenticated;
+
+-- Default location: Jakarta
+INSERT INTO mosque_settings (name, latitude, longitude, timezone, calculation_method, asr_madhab)
+VALUES ('Masjid', -6.208800, 106.845600, 'Asia/Jakarta', 'KEMENAG', 'shafi');
@@ -0,0 +1,85 @@
+-- Iqamah offsets and jumu'ah schedule
+
+-- Create iqamah_rules table
+-- Rules without a date range are the defaults; rules with a date range
+-- (e.g. Ramadan) take precedence on the dates they cover.
+CREATE TABLE iqamah_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prayer VARCHAR(10) NOT NULL CHECK (prayer IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha')),
+    mode VARCHAR(10) NOT NULL DEFAULT 'offset' CHECK (mode IN ('offset', 'fixed')),
+    offset_minutes INTEGER CHECK (offset_minutes BETWEEN 0 AND 120),
+    fixed_time TIME,
+    start_date DATE,
+    end_date DATE,
+    label VARCHAR(100),
+    updated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((mode = 'offset' AND offset_minutes IS NOT NULL) OR (mode = 'fixed' AND fixed_time IS NOT NULL)),
+    CHECK ((start_date IS NULL AND end_date IS NULL) OR (start_date IS NOT NULL AND end_date IS NOT NULL AND start_date <= end_date))
+);
+
+CREATE INDEX idx_iqamah_rules_prayer ON iqamah_rules(prayer);
+CREATE INDEX idx_iqamah_rules_dates ON iqamah_rules(start_date, end_date);
+
+-- Create jumuah_schedules table
+CREATE TABLE jumuah_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    jumuah_date DATE NOT NULL UNIQUE CHECK (EXTRACT(ISODOW FROM jumuah_date) = 5),
+    khutbah_time TIME,
+    khatib_name VARCHAR(100),
+    imam_name VARCHAR(100),
+    muadzin_name VARCHAR(100),
+    theme VARCHAR(200),
+    notes TEXT,
+    updated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_jumuah_schedules_date ON jumuah_schedules(jumuah_date);
+
+-- Enable Row Level Security
+ALTER TABLE iqamah_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE jumuah_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view iqamah rules" ON iqamah_rules
+    FOR SELECT USING (true);
+
+CREATE POLICY "Authorized users can manage iqamah rules" ON iqamah_rules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam')
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY "Everyone can view jumuah schedules" ON jumuah_schedules
+    FOR SELECT USING (true);
+
+CREATE POLICY "Authorized users can manage jumuah schedules" ON jumuah_schedules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON iqamah_rules TO anon;
+GRANT ALL PRIVILEGES ON iqamah_rules TO authenticated;
+
+GRANT SELECT ON jumuah_schedules TO anon;
+GRANT ALL PRIVILEGES ON jumuah_schedules TO authenticated;
+
+-- Default iqamah offsets
+INSERT INTO iqamah_rules (prayer, mode, offset_minutes, label)
+VALUES
+    ('fajr', 'offset', 15, 'Default'),
+    ('dhuhr', 'offset', 10, 'Default'),
+    ('asr', 'offset', 10, 'Default'),
+    ('maghrib', 'offset', 5, 'Default'),
+    ('isha', 'offset', 10, 'Default');
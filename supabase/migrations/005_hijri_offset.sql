@@ -0,0 +1,6 @@
+-- Hijri calendar offset
+-- Shifts the computed Umm al-Qura dates by whole days so the calendar
+-- follows the sidang isbat announcement.
+
+ALTER TABLE mosque_settings
+    ADD COLUMN hijri_offset SMALLINT NOT NULL DEFAULT 0 CHECK (hijri_offset BETWEEN -2 AND 2);
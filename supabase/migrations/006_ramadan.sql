@@ -0,0 +1,44 @@
+-- Ramadan mode: imsak, tarawih and per-night assignments
+
+-- Imsak is this many minutes before fajr; tarawih starts this many minutes
+-- after the isha adhan unless a night sets its own time.
+ALTER TABLE mosque_settings
+    ADD COLUMN imsak_minutes SMALLINT NOT NULL DEFAULT 10 CHECK (imsak_minutes BETWEEN 0 AND 60),
+    ADD COLUMN tarawih_offset_minutes SMALLINT NOT NULL DEFAULT 20 CHECK (tarawih_offset_minutes BETWEEN 0 AND 120);
+
+-- Create ramadan_nights table
+-- night_date is the Gregorian evening the tarawih is prayed, so night 1 falls
+-- on the last day of Sya'ban.
+CREATE TABLE ramadan_nights (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    night_date DATE NOT NULL UNIQUE,
+    tarawih_time TIME,
+    imam_name VARCHAR(100),
+    penceramah_name VARCHAR(100),
+    theme VARCHAR(200),
+    notes TEXT,
+    updated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ramadan_nights_date ON ramadan_nights(night_date);
+
+-- Enable Row Level Security
+ALTER TABLE ramadan_nights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view ramadan nights" ON ramadan_nights
+    FOR SELECT USING (true);
+
+CREATE POLICY "Authorized users can manage ramadan nights" ON ramadan_nights
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON ramadan_nights TO anon;
+GRANT ALL PRIVILEGES ON ramadan_nights TO authenticated;
@@ -0,0 +1,53 @@
+-- Web Push subscriptions and delivery tracking
+
+-- Create push_subscriptions table
+-- One row per browser/device; a user can have several
+CREATE TABLE push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    last_success_at TIMESTAMP WITH TIME ZONE,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+-- Create notification_deliveries table
+CREATE TABLE notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    announcement_id UUID REFERENCES announcements(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES push_subscriptions(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    status VARCHAR(10) NOT NULL CHECK (status IN ('sent', 'failed', 'expired')),
+    status_code INTEGER,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notification_deliveries_announcement ON notification_deliveries(announcement_id);
+CREATE INDEX idx_notification_deliveries_user ON notification_deliveries(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own push subscriptions" ON push_subscriptions
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Authorized users can view notification deliveries" ON notification_deliveries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT ALL PRIVILEGES ON push_subscriptions TO authenticated;
+GRANT SELECT ON notification_deliveries TO authenticated;
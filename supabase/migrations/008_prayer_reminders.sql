@@ -0,0 +1,51 @@
+-- Adhan and iqamah reminder preferences
+
+-- Reminders are paused until this time (e.g. while travelling)
+ALTER TABLE users
+    ADD COLUMN reminders_paused_until TIMESTAMP WITH TIME ZONE;
+
+-- Create prayer_reminders table
+-- One row per user and prayer; NULL minutes means no reminder for that moment
+CREATE TABLE prayer_reminders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    prayer VARCHAR(10) NOT NULL CHECK (prayer IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha')),
+    adhan_minutes SMALLINT CHECK (adhan_minutes BETWEEN 0 AND 120),
+    iqamah_minutes SMALLINT CHECK (iqamah_minutes BETWEEN 0 AND 60),
+    is_muted BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, prayer)
+);
+
+CREATE INDEX idx_prayer_reminders_user_id ON prayer_reminders(user_id);
+
+-- Create prayer_reminder_log table
+-- A row is claimed before a reminder is sent; the unique key makes sure each
+-- reminder goes out once even across restarts or several server instances.
+CREATE TABLE prayer_reminder_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    prayer_date DATE NOT NULL,
+    prayer VARCHAR(10) NOT NULL,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('adhan', 'iqamah')),
+    remind_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, prayer_date, prayer, kind)
+);
+
+CREATE INDEX idx_prayer_reminder_log_date ON prayer_reminder_log(prayer_date);
+
+-- Enable Row Level Security
+ALTER TABLE prayer_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prayer_reminder_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own prayer reminders" ON prayer_reminders
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own reminder log" ON prayer_reminder_log
+    FOR SELECT USING (auth.uid() = user_id);
+
+GRANT ALL PRIVILEGES ON prayer_reminders TO authenticated;
+GRANT SELECT ON prayer_reminder_log TO authenticated;
@@ -0,0 +1,13 @@
+-- Scheduled publishing and expiry for announcements
+
+ALTER TABLE announcements
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+    -- Push is sent when the announcement goes live; notification_sent_at makes sure it is sent once
+    ADD COLUMN send_notification BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN notification_sent_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT announcements_schedule_check CHECK (expires_at IS NULL OR publish_at IS NULL OR expires_at > publish_at);
+
+CREATE INDEX idx_announcements_publish_at ON announcements(publish_at) WHERE is_published = false;
+CREATE INDEX idx_announcements_expires_at ON announcements(expires_at);
@@ -0,0 +1,25 @@
+-- Audience targeting for announcements
+-- An announcement with no audience goes to everyone. Otherwise it goes to
+-- anyone matching at least one target: a role, a volunteer skill, being
+-- registered for an event, or being listed explicitly.
+
+ALTER TABLE announcements
+    ADD COLUMN audience_roles TEXT[],
+    ADD COLUMN audience_skills TEXT[],
+    ADD COLUMN audience_event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    ADD COLUMN audience_user_ids UUID[],
+    ADD COLUMN is_targeted BOOLEAN GENERATED ALWAYS AS (
+        audience_roles IS NOT NULL OR
+        audience_skills IS NOT NULL OR
+        audience_event_id IS NOT NULL OR
+        audience_user_ids IS NOT NULL
+    ) STORED,
+    ADD CONSTRAINT announcements_audience_roles_check CHECK (
+        audience_roles IS NULL OR audience_roles <@ ARRAY['Admin', 'Imam', 'Pengurus', 'Jamaah']::TEXT[]
+    );
+
+CREATE INDEX idx_announcements_is_targeted ON announcements(is_targeted);
+CREATE INDEX idx_announcements_audience_roles ON announcements USING GIN (audience_roles);
+CREATE INDEX idx_announcements_audience_skills ON announcements USING GIN (audience_skills);
+CREATE INDEX idx_announcements_audience_user_ids ON announcements USING GIN (audience_user_ids);
+CREATE INDEX idx_announcements_audience_event_id ON announcements(audience_event_id);
@@ -0,0 +1,34 @@
+-- Read receipts and acknowledgements for urgent announcements
+
+-- Create announcement_receipts table
+-- One row per reader; acknowledged_at is set when the reader confirms they
+-- have taken note of the announcement.
+CREATE TABLE announcement_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    announcement_id UUID REFERENCES announcements(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(announcement_id, user_id)
+);
+
+CREATE INDEX idx_announcement_receipts_announcement_id ON announcement_receipts(announcement_id);
+CREATE INDEX idx_announcement_receipts_user_id ON announcement_receipts(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE announcement_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own announcement receipts" ON announcement_receipts
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all announcement receipts" ON announcement_receipts
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON announcement_receipts TO authenticated;
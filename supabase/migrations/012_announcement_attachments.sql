@@ -0,0 +1,47 @@
+-- Markdown content and file attachments for announcements
+-- announcements.content is now Markdown; the API renders it to sanitized HTML.
+
+-- Create announcement_attachments table
+-- Files live in the configured storage backend under storage_key; images
+-- also get a WebP thumbnail under thumbnail_key.
+CREATE TABLE announcement_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    announcement_id UUID REFERENCES announcements(id) ON DELETE CASCADE NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL CHECK (mime_type IN ('image/jpeg', 'image/png', 'image/webp', 'application/pdf')),
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+    storage_key TEXT NOT NULL,
+    thumbnail_key TEXT,
+    thumbnail_width INTEGER,
+    thumbnail_height INTEGER,
+    uploaded_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_announcement_attachments_announcement_id ON announcement_attachments(announcement_id);
+
+-- Enable Row Level Security
+ALTER TABLE announcement_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view attachments of published announcements" ON announcement_attachments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM announcements
+            WHERE announcements.id = announcement_id
+            AND announcements.is_published = true
+            AND announcements.is_targeted = false
+        )
+    );
+
+CREATE POLICY "Staff can manage announcement attachments" ON announcement_attachments
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON announcement_attachments TO anon;
+GRANT ALL PRIVILEGES ON announcement_attachments TO authenticated;
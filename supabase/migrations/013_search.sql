@@ -0,0 +1,150 @@
+-- Full-text search over announcements, events and members
+-- The 'simple' configuration is used because content mixes Indonesian,
+-- Arabic transliterations and English; it lowercases but does not stem.
+
+ALTER TABLE announcements
+    ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(content, '')), 'B')
+    ) STORED;
+
+ALTER TABLE events
+    ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(speaker, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(description, '')), 'B')
+    ) STORED;
+
+ALTER TABLE users
+    ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('simple', coalesce(display_name, ''))
+    ) STORED;
+
+CREATE INDEX idx_announcements_search ON announcements USING GIN (search_vector);
+CREATE INDEX idx_events_search ON events USING GIN (search_vector);
+CREATE INDEX idx_users_search ON users USING GIN (search_vector);
+
+-- Turn free text into a prefix query so results appear while typing:
+-- "kajian tafs" becomes 'kajian':* & 'tafs':*
+CREATE OR REPLACE FUNCTION search_tsquery(search_query TEXT)
+RETURNS TSQUERY
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT to_tsquery('simple', coalesce(string_agg(quote_literal(word) || ':*', ' & '), ''))
+    FROM regexp_split_to_table(
+        trim(regexp_replace(lower(search_query), '[^[:alnum:][:space:]]+', ' ', 'g')),
+        '[[:space:]]+'
+    ) AS word
+    WHERE word <> '';
+$$;
+
+-- Announcements a reader may see, with the same audience rules as the API:
+-- staff see everything, others only published, unexpired announcements that
+-- are untargeted or target them
+CREATE OR REPLACE FUNCTION search_announcements(
+    search_query TEXT,
+    viewer_id UUID DEFAULT NULL,
+    viewer_role TEXT DEFAULT NULL,
+    viewer_skills TEXT[] DEFAULT '{}',
+    viewer_event_ids UUID[] DEFAULT '{}',
+    is_staff BOOLEAN DEFAULT false,
+    max_results INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    id UUID,
+    title VARCHAR,
+    snippet TEXT,
+    category VARCHAR,
+    priority VARCHAR,
+    published_at TIMESTAMP WITH TIME ZONE,
+    rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        a.id,
+        a.title,
+        ts_headline('simple', a.content, q, 'MaxWords=25, MinWords=10, MaxFragments=1'),
+        a.category,
+        a.priority,
+        a.published_at,
+        ts_rank(a.search_vector, q)
+    FROM announcements a, search_tsquery(search_query) q
+    WHERE a.search_vector @@ q
+    AND (
+        is_staff OR (
+            a.is_published = true
+            AND (a.expires_at IS NULL OR a.expires_at > NOW())
+            AND (
+                a.is_targeted = false
+                OR (viewer_id IS NOT NULL AND (
+                    viewer_role = ANY(a.audience_roles)
+                    OR viewer_id = ANY(a.audience_user_ids)
+                    OR a.audience_skills && viewer_skills
+                    OR a.audience_event_id = ANY(viewer_event_ids)
+                ))
+            )
+        )
+    )
+    ORDER BY ts_rank(a.search_vector, q) DESC, a.published_at DESC NULLS LAST
+    LIMIT max_results;
+$$;
+
+CREATE OR REPLACE FUNCTION search_events(search_query TEXT, max_results INTEGER DEFAULT 5)
+RETURNS TABLE (
+    id UUID,
+    title VARCHAR,
+    snippet TEXT,
+    type VARCHAR,
+    speaker VARCHAR,
+    event_datetime TIMESTAMP WITH TIME ZONE,
+    rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        e.id,
+        e.title,
+        ts_headline('simple', e.description, q, 'MaxWords=25, MinWords=10, MaxFragments=1'),
+        e.type,
+        e.speaker,
+        e.event_datetime,
+        ts_rank(e.search_vector, q)
+    FROM events e, search_tsquery(search_query) q
+    WHERE e.search_vector @@ q
+    -- Upcoming events first among equally good matches
+    ORDER BY ts_rank(e.search_vector, q) DESC, (e.event_datetime >= NOW()) DESC, e.event_datetime DESC
+    LIMIT max_results;
+$$;
+
+-- Only names are searched, so search never reveals contact details. Members
+-- are listed by the same rule as the directory: active users with a role
+CREATE OR REPLACE FUNCTION search_members(search_query TEXT, max_results INTEGER DEFAULT 5)
+RETURNS TABLE (
+    id UUID,
+    display_name VARCHAR,
+    profile_picture TEXT,
+    rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        u.id,
+        u.display_name,
+        u.profile_picture,
+        ts_rank(u.search_vector, q)
+    FROM users u, search_tsquery(search_query) q
+    WHERE u.search_vector @@ q
+    AND u.is_active = true
+    AND EXISTS (SELECT 1 FROM user_roles ur WHERE ur.user_id = u.id)
+    ORDER BY ts_rank(u.search_vector, q) DESC, u.display_name
+    LIMIT max_results;
+$$;
+
+-- Announcement and member search trust their viewer arguments, so only the
+-- API (service role) may call them
+REVOKE EXECUTE ON FUNCTION search_announcements(TEXT, UUID, TEXT, TEXT[], UUID[], BOOLEAN, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION search_members(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_announcements(TEXT, UUID, TEXT, TEXT[], UUID[], BOOLEAN, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION search_events(TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_members(TEXT, INTEGER) TO service_role;
@@ -0,0 +1,63 @@
+-- Recurring events (weekly kajian, jumu'ah, monthly pengajian)
+
+-- Recurrence rule (RFC 5545 RRULE subset) for an event series. The series
+-- starts on the local date of event_datetime. Occurrences start at the local
+-- time of event_datetime, or at a prayer time plus an offset when
+-- recurrence_anchor is set ("every Thursday after maghrib").
+ALTER TABLE events
+    ADD COLUMN recurrence_rule TEXT,
+    ADD COLUMN recurrence_anchor VARCHAR(10) CHECK (recurrence_anchor IN ('fajr', 'dhuhr', 'asr', 'maghrib', 'isha')),
+    ADD COLUMN recurrence_offset_minutes SMALLINT NOT NULL DEFAULT 0
+        CHECK (recurrence_offset_minutes BETWEEN -180 AND 720),
+    ADD CONSTRAINT events_recurrence_anchor_check
+        CHECK (recurrence_anchor IS NULL OR recurrence_rule IS NOT NULL);
+
+CREATE INDEX idx_events_recurring ON events(event_datetime) WHERE recurrence_rule IS NOT NULL;
+
+-- Create event_occurrence_overrides table
+-- Exceptions (is_cancelled) and per-occurrence changes of a recurring event,
+-- keyed by the occurrence's local date
+CREATE TABLE event_occurrence_overrides (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+    occurrence_date DATE NOT NULL,
+    is_cancelled BOOLEAN NOT NULL DEFAULT false,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    speaker VARCHAR(100),
+    location VARCHAR(200),
+    capacity INTEGER CHECK (capacity > 0),
+    notes TEXT,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(event_id, occurrence_date)
+);
+
+CREATE INDEX idx_event_occurrence_overrides_date ON event_occurrence_overrides(occurrence_date);
+
+-- Registrations for a recurring event belong to one occurrence
+ALTER TABLE event_registrations ADD COLUMN occurrence_date DATE;
+
+DROP INDEX IF EXISTS idx_event_registrations_unique;
+CREATE UNIQUE INDEX idx_event_registrations_unique
+    ON event_registrations(event_id, user_id, occurrence_date) NULLS NOT DISTINCT;
+CREATE INDEX idx_event_registrations_occurrence ON event_registrations(event_id, occurrence_date);
+
+-- Enable Row Level Security
+ALTER TABLE event_occurrence_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view event occurrence overrides" ON event_occurrence_overrides
+    FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage event occurrence overrides" ON event_occurrence_overrides
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON event_occurrence_overrides TO anon;
+GRANT ALL PRIVILEGES ON event_occurrence_overrides TO authenticated;
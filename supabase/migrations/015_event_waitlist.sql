@@ -0,0 +1,111 @@
+-- Event waitlist with automatic promotion
+
+-- Registrations beyond capacity are 'waitlisted'. When a spot opens the first
+-- person in line is 'offered' it and has until offer_expires_at to confirm;
+-- after that the offer lapses and passes to the next person.
+ALTER TABLE event_registrations DROP CONSTRAINT IF EXISTS event_registrations_status_check;
+ALTER TABLE event_registrations
+    ADD CONSTRAINT event_registrations_status_check
+        CHECK (status IN ('registered', 'attended', 'cancelled', 'waitlisted', 'offered')),
+    ADD COLUMN offered_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN offer_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Waitlist order is first come, first served
+CREATE INDEX idx_event_registrations_waitlist
+    ON event_registrations(event_id, occurrence_date, registered_at)
+    WHERE status = 'waitlisted';
+
+CREATE INDEX idx_event_registrations_offer_expiry
+    ON event_registrations(offer_expires_at)
+    WHERE status = 'offered';
+
+-- Hours a promoted person has to confirm; NULL uses the server default
+ALTER TABLE events
+    ADD COLUMN waitlist_confirmation_hours INTEGER
+        CHECK (waitlist_confirmation_hours BETWEEN 1 AND 168);
+
+-- Offer a slot's open spots to the first people in line, returning the
+-- registrations offered. The event row is locked first, so concurrent
+-- promotions for the same event run one after another and each counts the
+-- spots the previous one offered; capacity is the event's or occurrence's.
+CREATE OR REPLACE FUNCTION offer_waitlist_spots(
+    target_event_id UUID,
+    target_occurrence_date DATE,
+    slot_capacity INTEGER,
+    offer_expires TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (id UUID, user_id UUID)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    open_spots INTEGER;
+BEGIN
+    PERFORM 1 FROM events WHERE events.id = target_event_id FOR UPDATE;
+
+    IF slot_capacity IS NOT NULL THEN
+        SELECT slot_capacity - COUNT(*) INTO open_spots
+        FROM event_registrations r
+        WHERE r.event_id = target_event_id
+        AND r.occurrence_date IS NOT DISTINCT FROM target_occurrence_date
+        AND r.status IN ('registered', 'attended', 'offered');
+
+        IF open_spots <= 0 THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    -- A NULL limit offers a spot to everyone waiting
+    RETURN QUERY
+    UPDATE event_registrations r
+    SET status = 'offered', offered_at = NOW(), offer_expires_at = offer_expires
+    FROM (
+        SELECT w.id
+        FROM event_registrations w
+        WHERE w.event_id = target_event_id
+        AND w.occurrence_date IS NOT DISTINCT FROM target_occurrence_date
+        AND w.status = 'waitlisted'
+        ORDER BY w.registered_at
+        LIMIT open_spots
+    ) next_in_line
+    WHERE r.id = next_in_line.id
+    RETURNING r.id, r.user_id;
+END;
+$$;
+
+-- Register a member for a slot, on the waitlist if it is full. It takes the
+-- same event lock as offer_waitlist_spots, so concurrent registrations never
+-- overfill a slot; while people are waiting, newcomers queue behind them.
+CREATE OR REPLACE FUNCTION register_for_event(
+    target_event_id UUID,
+    target_user_id UUID,
+    target_occurrence_date DATE,
+    slot_capacity INTEGER
+)
+RETURNS SETOF event_registrations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    is_full BOOLEAN := false;
+BEGIN
+    PERFORM 1 FROM events WHERE events.id = target_event_id FOR UPDATE;
+
+    IF slot_capacity IS NOT NULL THEN
+        SELECT COUNT(*) FILTER (WHERE r.status IN ('registered', 'attended', 'offered')) >= slot_capacity
+            OR COUNT(*) FILTER (WHERE r.status = 'waitlisted') > 0
+        INTO is_full
+        FROM event_registrations r
+        WHERE r.event_id = target_event_id
+        AND r.occurrence_date IS NOT DISTINCT FROM target_occurrence_date;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO event_registrations (event_id, user_id, occurrence_date, status)
+    VALUES (
+        target_event_id,
+        target_user_id,
+        target_occurrence_date,
+        CASE WHEN is_full THEN 'waitlisted' ELSE 'registered' END
+    )
+    RETURNING *;
+END;
+$$;
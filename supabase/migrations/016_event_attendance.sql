@@ -0,0 +1,20 @@
+-- Event check-in and attendance tracking
+
+-- Check-ins mark a registration 'attended'. Walk-ins without a registration
+-- get one at the door; guests without an account are recorded by name.
+ALTER TABLE event_registrations
+    ADD COLUMN checked_in_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN checked_in_by UUID REFERENCES users(id),
+    ADD COLUMN check_in_method VARCHAR(10) CHECK (check_in_method IN ('ticket', 'walk_in', 'manual')),
+    ADD COLUMN walk_in_name VARCHAR(100),
+    ADD CONSTRAINT event_registrations_attendee_check
+        CHECK (user_id IS NOT NULL OR walk_in_name IS NOT NULL);
+
+-- Guests have no user_id, so uniqueness only applies to members
+DROP INDEX IF EXISTS idx_event_registrations_unique;
+CREATE UNIQUE INDEX idx_event_registrations_unique
+    ON event_registrations(event_id, user_id, occurrence_date) NULLS NOT DISTINCT
+    WHERE user_id IS NOT NULL;
+
+CREATE INDEX idx_event_registrations_checked_in ON event_registrations(event_id, checked_in_at)
+    WHERE checked_in_at IS NOT NULL;
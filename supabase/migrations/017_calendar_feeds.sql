@@ -0,0 +1,5 @@
+-- Private calendar feeds
+
+-- Secret token in a member's personal calendar feed URL. Rotating it revokes
+-- the old URL.
+ALTER TABLE users ADD COLUMN calendar_token VARCHAR(64) UNIQUE;
@@ -0,0 +1,152 @@
+-- Speaker (ustadz) directory
+-- events.speaker stays as the display name, so search and calendar feeds keep
+-- working; speaker_id links an event or occurrence to its speaker.
+
+-- Comparable form of a speaker name: lowercase, without punctuation,
+-- honorifics ("Ust.", "KH", "Dr.") or the degrees after the first comma
+-- ("Ust. Abdul Somad, Lc., M.A." becomes 'abdul somad')
+CREATE OR REPLACE FUNCTION normalize_speaker_name(name TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+    SELECT regexp_replace(
+        regexp_replace(
+            btrim(regexp_replace(lower(split_part(coalesce(name, ''), ',', 1)), '[^[:alnum:]]+', ' ', 'g')),
+            '^((al )?(ustadzah|ustazah|ustadz|ustaz|ustad|ust|kh|k h|hj|h|drs|dr|prof) )+',
+            ''
+        ),
+        ' (lc|ma|phd)$',
+        ''
+    );
+$$;
+
+-- Create speakers table
+-- aliases holds other normalized spellings of the name that should match
+-- this speaker, e.g. 'abdul shomad' for 'abdul somad'
+CREATE TABLE speakers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    name_key TEXT GENERATED ALWAYS AS (normalize_speaker_name(name)) STORED,
+    slug VARCHAR(120) UNIQUE NOT NULL,
+    bio TEXT,
+    photo_key TEXT,
+    topics TEXT[] NOT NULL DEFAULT '{}',
+    phone VARCHAR(20),
+    email VARCHAR(255),
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_speakers_name_key ON speakers(name_key) WHERE is_active = true;
+CREATE INDEX idx_speakers_aliases ON speakers USING GIN (aliases);
+CREATE INDEX idx_speakers_topics ON speakers USING GIN (topics);
+
+ALTER TABLE events ADD COLUMN speaker_id UUID REFERENCES speakers(id) ON DELETE SET NULL;
+ALTER TABLE event_occurrence_overrides ADD COLUMN speaker_id UUID REFERENCES speakers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_events_speaker_id ON events(speaker_id);
+CREATE INDEX idx_event_occurrence_overrides_speaker_id ON event_occurrence_overrides(speaker_id, occurrence_date);
+
+-- Link events and occurrence overrides whose free-text speaker matches one of
+-- the given normalized names; returns the number of rows linked
+CREATE OR REPLACE FUNCTION link_speaker_names(target_speaker_id UUID, name_keys TEXT[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    speaker_name VARCHAR;
+    linked_events INTEGER;
+    linked_overrides INTEGER;
+BEGIN
+    SELECT name INTO speaker_name FROM speakers WHERE id = target_speaker_id;
+
+    UPDATE events
+    SET speaker_id = target_speaker_id, speaker = speaker_name, updated_at = NOW()
+    WHERE speaker_id IS NULL
+    AND normalize_speaker_name(speaker) = ANY(name_keys);
+    GET DIAGNOSTICS linked_events = ROW_COUNT;
+
+    UPDATE event_occurrence_overrides
+    SET speaker_id = target_speaker_id, speaker = speaker_name, updated_at = NOW()
+    WHERE speaker_id IS NULL
+    AND normalize_speaker_name(speaker) = ANY(name_keys);
+    GET DIAGNOSTICS linked_overrides = ROW_COUNT;
+
+    RETURN linked_events + linked_overrides;
+END;
+$$;
+
+-- Free-text speaker names not linked to a speaker yet, grouped by their
+-- normalized form, with the most used spelling first
+CREATE OR REPLACE FUNCTION unmatched_speaker_names()
+RETURNS TABLE (
+    name_key TEXT,
+    spellings TEXT[],
+    event_count BIGINT,
+    last_used_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH unlinked AS (
+        SELECT speaker, event_datetime AS used_at FROM events
+        WHERE speaker_id IS NULL AND speaker IS NOT NULL
+        UNION ALL
+        SELECT speaker, starts_at FROM event_occurrence_overrides
+        WHERE speaker_id IS NULL AND speaker IS NOT NULL
+    ),
+    spellings AS (
+        SELECT normalize_speaker_name(speaker) AS name_key, speaker, count(*) AS uses, max(used_at) AS last_used_at
+        FROM unlinked
+        GROUP BY speaker
+    )
+    SELECT
+        spellings.name_key,
+        array_agg(speaker ORDER BY uses DESC, speaker),
+        sum(uses)::BIGINT,
+        max(spellings.last_used_at)
+    FROM spellings
+    WHERE spellings.name_key <> ''
+    GROUP BY spellings.name_key
+    ORDER BY sum(uses) DESC, spellings.name_key;
+$$;
+
+-- Create a speaker for every distinct existing name, shown with its most
+-- used spelling, and link the events to it
+INSERT INTO speakers (name, slug)
+SELECT spellings[1], regexp_replace(name_key, ' ', '-', 'g')
+FROM unmatched_speaker_names();
+
+UPDATE events
+SET speaker_id = speakers.id
+FROM speakers
+WHERE normalize_speaker_name(events.speaker) = speakers.name_key;
+
+UPDATE event_occurrence_overrides
+SET speaker_id = speakers.id
+FROM speakers
+WHERE normalize_speaker_name(event_occurrence_overrides.speaker) = speakers.name_key;
+
+-- Enable Row Level Security
+ALTER TABLE speakers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active speakers" ON speakers
+    FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Staff can manage speakers" ON speakers
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+-- Contact details are only served by the API to staff; the table-level
+-- default grant would otherwise expose every column
+REVOKE SELECT ON speakers FROM anon, authenticated;
+GRANT SELECT (id, name, slug, bio, photo_key, topics, is_active, created_at, updated_at) ON speakers TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON speakers TO authenticated;
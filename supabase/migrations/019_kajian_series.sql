@@ -0,0 +1,129 @@
+-- Kajian series: a kitab or theme studied over ordered sessions
+
+-- Create kajian_series table
+CREATE TABLE kajian_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    kitab_title VARCHAR(200),
+    kitab_author VARCHAR(150),
+    speaker_id UUID REFERENCES speakers(id) ON DELETE SET NULL,
+    -- The recurring event the sessions usually take place at
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'ongoing' CHECK (status IN ('planned', 'ongoing', 'completed')),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_kajian_series_speaker_id ON kajian_series(speaker_id);
+CREATE INDEX idx_kajian_series_event_id ON kajian_series(event_id);
+
+-- Create kajian_sessions table
+-- A session is held at an event, or at one occurrence of a recurring event;
+-- attendance comes from the check-ins of that event
+CREATE TABLE kajian_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    series_id UUID REFERENCES kajian_series(id) ON DELETE CASCADE NOT NULL,
+    session_number INTEGER NOT NULL CHECK (session_number > 0),
+    title VARCHAR(200) NOT NULL,
+    -- Chapter (bab) or pages of the kitab covered
+    chapter VARCHAR(200),
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    occurrence_date DATE,
+    notes TEXT,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(series_id, session_number),
+    CONSTRAINT kajian_sessions_occurrence_check CHECK (occurrence_date IS NULL OR event_id IS NOT NULL)
+);
+
+CREATE INDEX idx_kajian_sessions_event ON kajian_sessions(event_id, occurrence_date);
+
+-- Create kajian_session_materials table
+-- Recordings are links (audio, video or any other page); slides are
+-- uploaded files stored under storage_key
+CREATE TABLE kajian_session_materials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID REFERENCES kajian_sessions(id) ON DELETE CASCADE NOT NULL,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('audio', 'video', 'slides', 'link')),
+    title VARCHAR(200) NOT NULL,
+    url TEXT,
+    storage_key TEXT,
+    file_name VARCHAR(255),
+    mime_type VARCHAR(100),
+    size_bytes INTEGER CHECK (size_bytes > 0),
+    uploaded_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT kajian_session_materials_source_check CHECK ((url IS NULL) <> (storage_key IS NULL))
+);
+
+CREATE INDEX idx_kajian_session_materials_session_id ON kajian_session_materials(session_id);
+
+-- Create kajian_series_followers table
+CREATE TABLE kajian_series_followers (
+    series_id UUID REFERENCES kajian_series(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (series_id, user_id)
+);
+
+CREATE INDEX idx_kajian_series_followers_user_id ON kajian_series_followers(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE kajian_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kajian_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kajian_session_materials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kajian_series_followers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active kajian series" ON kajian_series
+    FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Anyone can view kajian sessions" ON kajian_sessions
+    FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view kajian session materials" ON kajian_session_materials
+    FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage kajian series" ON kajian_series
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY "Staff can manage kajian sessions" ON kajian_sessions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY "Staff can manage kajian session materials" ON kajian_session_materials
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY "Users can manage their own follows" ON kajian_series_followers
+    FOR ALL USING (auth.uid() = user_id);
+
+GRANT SELECT ON kajian_series TO anon;
+GRANT SELECT ON kajian_sessions TO anon;
+GRANT SELECT ON kajian_session_materials TO anon;
+GRANT ALL PRIVILEGES ON kajian_series TO authenticated;
+GRANT ALL PRIVILEGES ON kajian_sessions TO authenticated;
+GRANT ALL PRIVILEGES ON kajian_session_materials TO authenticated;
+GRANT ALL PRIVILEGES ON kajian_series_followers TO authenticated;
@@ -0,0 +1,92 @@
+-- Facility booking: the hall, classrooms, ambulance and other resources
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Create facilities table
+-- location is compared with events.location (case-insensitively) so bookings
+-- cannot clash with events held in the same room
+CREATE TABLE facilities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL DEFAULT 'room' CHECK (type IN ('room', 'vehicle', 'equipment')),
+    description TEXT,
+    location VARCHAR(200),
+    capacity INTEGER CHECK (capacity > 0),
+    -- Bookings without approval are confirmed immediately when free
+    requires_approval BOOLEAN NOT NULL DEFAULT true,
+    -- Time kept free around each booking (cleaning, ambulance turnaround)
+    buffer_minutes SMALLINT NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 240),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_facilities_location ON facilities(lower(location));
+
+-- Create facility_bookings table
+CREATE TABLE facility_bookings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    facility_id UUID REFERENCES facilities(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    purpose VARCHAR(200) NOT NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    attendees INTEGER CHECK (attendees > 0),
+    contact_phone VARCHAR(20),
+    notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT facility_bookings_time_check CHECK (ends_at > starts_at),
+    -- Two approved bookings of a facility can never overlap, even when
+    -- approved at the same moment
+    CONSTRAINT facility_bookings_no_overlap EXCLUDE USING gist (
+        facility_id WITH =,
+        tstzrange(starts_at, ends_at) WITH &&
+    ) WHERE (status = 'approved')
+);
+
+CREATE INDEX idx_facility_bookings_facility_time ON facility_bookings(facility_id, starts_at, ends_at);
+CREATE INDEX idx_facility_bookings_user_id ON facility_bookings(user_id);
+CREATE INDEX idx_facility_bookings_pending ON facility_bookings(created_at) WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE facilities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facility_bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active facilities" ON facilities
+    FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Staff can manage facilities" ON facilities
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+CREATE POLICY "Users can view their own bookings" ON facility_bookings
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can request bookings" ON facility_bookings
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Staff can manage bookings" ON facility_bookings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON facilities TO anon;
+GRANT ALL PRIVILEGES ON facilities TO authenticated;
+GRANT ALL PRIVILEGES ON facility_bookings TO authenticated;
@@ -0,0 +1,74 @@
+-- Feedback surveys for events
+
+-- Create event_surveys table
+-- questions is a list of {id, type, label, required, ...}: 'rating' questions
+-- have a scale (and an optional category such as 'speaker' or 'topic'),
+-- 'choice' questions have options, 'text' questions take free text.
+-- A survey opens when the event (or occurrence) starts and closes after
+-- open_days.
+CREATE TABLE event_surveys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID REFERENCES events(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    questions JSONB NOT NULL CHECK (jsonb_typeof(questions) = 'array'),
+    allow_anonymous BOOLEAN NOT NULL DEFAULT true,
+    attendees_only BOOLEAN NOT NULL DEFAULT true,
+    open_days SMALLINT NOT NULL DEFAULT 7 CHECK (open_days BETWEEN 1 AND 60),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create event_survey_responses table
+-- respondent_key is an HMAC of the survey, member and occurrence: it allows
+-- one response per member without storing who sent an anonymous response.
+-- speaker_id is the speaker of the event or occurrence when it was held.
+CREATE TABLE event_survey_responses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    survey_id UUID REFERENCES event_surveys(id) ON DELETE CASCADE NOT NULL,
+    event_id UUID REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+    occurrence_date DATE,
+    speaker_id UUID REFERENCES speakers(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    respondent_key TEXT NOT NULL,
+    answers JSONB NOT NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(survey_id, respondent_key)
+);
+
+CREATE INDEX idx_event_survey_responses_occurrence ON event_survey_responses(survey_id, occurrence_date);
+CREATE INDEX idx_event_survey_responses_speaker_id ON event_survey_responses(speaker_id);
+
+-- Enable Row Level Security
+ALTER TABLE event_surveys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_survey_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active event surveys" ON event_surveys
+    FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Staff can manage event surveys" ON event_surveys
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+-- Responses are only written through the API, which computes respondent_key
+CREATE POLICY "Staff can view event survey responses" ON event_survey_responses
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON event_surveys TO anon;
+GRANT ALL PRIVILEGES ON event_surveys TO authenticated;
+GRANT SELECT ON event_survey_responses TO authenticated;
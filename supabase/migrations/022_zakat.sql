@@ -0,0 +1,41 @@
+-- Zakat calculation: commodity prices for nisab and fitrah
+
+-- Create zakat_prices table
+-- Gold and silver are priced per gram (for the nisab of zakat mal), rice per
+-- kg (for zakat fitrah). The price in effect is the latest one on or before
+-- the day of the calculation.
+CREATE TABLE zakat_prices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    commodity VARCHAR(10) NOT NULL CHECK (commodity IN ('gold', 'silver', 'rice')),
+    price DECIMAL(12,2) NOT NULL CHECK (price > 0),
+    effective_date DATE NOT NULL,
+    source VARCHAR(200),
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(commodity, effective_date)
+);
+
+CREATE INDEX idx_zakat_prices_commodity_date ON zakat_prices(commodity, effective_date DESC);
+
+-- Inputs, prices and result of the zakat calculation a donation was made from
+ALTER TABLE donations ADD COLUMN zakat_calculation JSONB;
+
+-- Enable Row Level Security
+ALTER TABLE zakat_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view zakat prices" ON zakat_prices
+    FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage zakat prices" ON zakat_prices
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON zakat_prices TO anon;
+GRANT ALL PRIVILEGES ON zakat_prices TO authenticated;
@@ -0,0 +1,49 @@
+-- Payment gateway: payment instructions on donations and callback log
+
+-- Payment created at the gateway for a donation. qr_code_data holds the
+-- QRIS payload for QR payments.
+ALTER TABLE donations ADD COLUMN payment_provider VARCHAR(30);
+ALTER TABLE donations ADD COLUMN provider_reference VARCHAR(100);
+ALTER TABLE donations ADD COLUMN va_number VARCHAR(50);
+ALTER TABLE donations ADD COLUMN va_bank VARCHAR(20);
+ALTER TABLE donations ADD COLUMN payment_expires_at TIMESTAMP WITH TIME ZONE;
+-- What the gateway reported as paid, which may differ from amount
+ALTER TABLE donations ADD COLUMN paid_amount DECIMAL(12,2);
+ALTER TABLE donations ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+-- Create payment_callbacks table
+-- Every verified callback is recorded once: a gateway resending the same
+-- notification (same transaction and status) gets the first result back.
+CREATE TABLE payment_callbacks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(30) NOT NULL,
+    reference VARCHAR(100) NOT NULL,
+    transaction_id VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    amount DECIMAL(12,2),
+    donation_id UUID REFERENCES donations(id) ON DELETE SET NULL,
+    -- completed, failed, amount_mismatch, already_completed, ignored, unknown_donation
+    result VARCHAR(30) NOT NULL DEFAULT 'received',
+    payload JSONB,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(provider, transaction_id, status)
+);
+
+CREATE INDEX idx_payment_callbacks_donation_id ON payment_callbacks(donation_id);
+CREATE INDEX idx_payment_callbacks_mismatch ON payment_callbacks(received_at DESC) WHERE result = 'amount_mismatch';
+
+-- Enable Row Level Security
+ALTER TABLE payment_callbacks ENABLE ROW LEVEL SECURITY;
+
+-- Callbacks are only written by the API
+CREATE POLICY "Staff can view payment callbacks" ON payment_callbacks
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON payment_callbacks TO authenticated;
@@ -0,0 +1,128 @@
+-- Fundraising campaigns with running totals
+
+-- Create donation_campaigns table
+-- total_raised, donation_count, donor_count and last_donation_at cover the
+-- completed donations to the campaign and are kept up to date by
+-- refresh_campaign_totals. A campaign is Completed when it reaches its target
+-- and Closed when it passes its deadline or is closed by hand.
+CREATE TABLE donation_campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title VARCHAR(200) NOT NULL,
+    slug VARCHAR(220) UNIQUE NOT NULL,
+    description TEXT,
+    -- Who the money is for, e.g. "Renovasi atap masjid" or "Santri yatim Ponpes Al-Ikhlas"
+    beneficiary_description TEXT,
+    donation_type VARCHAR(20) NOT NULL DEFAULT 'Infaq'
+        CHECK (donation_type IN ('Infaq', 'Sedekah', 'Zakat Fitrah', 'Zakat Mal', 'Wakaf', 'Operasional')),
+    target_amount DECIMAL(14,2) NOT NULL CHECK (target_amount > 0),
+    -- Last day donations are accepted, in the mosque's timezone
+    deadline DATE,
+    cover_image_key TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'Active' CHECK (status IN ('Active', 'Completed', 'Closed')),
+    closed_reason VARCHAR(20) CHECK (closed_reason IN ('target_reached', 'deadline', 'manual')),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    total_raised DECIMAL(14,2) NOT NULL DEFAULT 0,
+    donation_count INTEGER NOT NULL DEFAULT 0,
+    donor_count INTEGER NOT NULL DEFAULT 0,
+    last_donation_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_donation_campaigns_status ON donation_campaigns(status, created_at DESC) WHERE is_active = true;
+CREATE INDEX idx_donation_campaigns_deadline ON donation_campaigns(deadline) WHERE status = 'Active';
+
+-- donations.campaign_id was written by the API before campaigns had a table;
+-- ids from then may not match a campaign, so the reference is not checked for
+-- existing rows
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS campaign_id UUID;
+ALTER TABLE donations DROP CONSTRAINT IF EXISTS donations_campaign_id_fkey;
+ALTER TABLE donations ADD CONSTRAINT donations_campaign_id_fkey
+    FOREIGN KEY (campaign_id) REFERENCES donation_campaigns(id) ON DELETE SET NULL NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_donations_campaign_id ON donations(campaign_id, status, completed_at DESC);
+
+-- Recalculate a campaign's totals from its completed donations; an active
+-- campaign that reaches its target is completed. The campaign row is locked
+-- before the donations are summed, so a transaction that waited on another
+-- sums after it committed and includes its donation.
+CREATE OR REPLACE FUNCTION refresh_campaign_totals(target_campaign_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    t RECORD;
+BEGIN
+    PERFORM 1 FROM donation_campaigns WHERE id = target_campaign_id FOR UPDATE;
+
+    SELECT
+        COALESCE(SUM(amount), 0) AS total_raised,
+        COUNT(*) AS donation_count,
+        COUNT(DISTINCT donor_id) AS donor_count,
+        MAX(COALESCE(completed_at, created_at)) AS last_donation_at
+    INTO t
+    FROM donations
+    WHERE campaign_id = target_campaign_id
+    AND status = 'Completed';
+
+    UPDATE donation_campaigns c
+    SET total_raised = t.total_raised,
+        donation_count = t.donation_count,
+        donor_count = t.donor_count,
+        last_donation_at = t.last_donation_at,
+        status = CASE WHEN c.status = 'Active' AND t.total_raised >= c.target_amount THEN 'Completed' ELSE c.status END,
+        closed_reason = CASE WHEN c.status = 'Active' AND t.total_raised >= c.target_amount THEN 'target_reached' ELSE c.closed_reason END,
+        closed_at = CASE WHEN c.status = 'Active' AND t.total_raised >= c.target_amount THEN NOW() ELSE c.closed_at END,
+        updated_at = NOW()
+    WHERE c.id = target_campaign_id;
+END;
+$$;
+
+-- Keep campaign totals current as donations are created, paid, moved or removed
+CREATE OR REPLACE FUNCTION donations_refresh_campaign_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.campaign_id IS NOT NULL THEN
+            PERFORM refresh_campaign_totals(NEW.campaign_id);
+        END IF;
+    ELSIF TG_OP = 'UPDATE' THEN
+        IF OLD.campaign_id IS NOT NULL THEN
+            PERFORM refresh_campaign_totals(OLD.campaign_id);
+        END IF;
+        IF NEW.campaign_id IS NOT NULL AND NEW.campaign_id IS DISTINCT FROM OLD.campaign_id THEN
+            PERFORM refresh_campaign_totals(NEW.campaign_id);
+        END IF;
+    ELSIF OLD.campaign_id IS NOT NULL THEN
+        PERFORM refresh_campaign_totals(OLD.campaign_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER donations_campaign_totals
+    AFTER INSERT OR DELETE OR UPDATE OF status, amount, campaign_id ON donations
+    FOR EACH ROW EXECUTE FUNCTION donations_refresh_campaign_totals();
+
+-- Enable Row Level Security
+ALTER TABLE donation_campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active campaigns" ON donation_campaigns
+    FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Staff can manage campaigns" ON donation_campaigns
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT SELECT ON donation_campaigns TO anon;
+GRANT ALL PRIVILEGES ON donation_campaigns TO authenticated;
@@ -0,0 +1,58 @@
+-- Recurring donation pledges (e.g. monthly infaq)
+
+-- Create donation_pledges table
+-- Each due date gets its own pending donation (an instalment) with a fresh
+-- payment. next_instalment counts the instalments generated so far and
+-- next_due_date is the due date of the next one; due dates are counted from
+-- start_date so a pledge starting on the 31st falls on the last day of
+-- shorter months.
+CREATE TABLE donation_pledges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    donor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    donation_type VARCHAR(20) NOT NULL DEFAULT 'Infaq'
+        CHECK (donation_type IN ('Infaq', 'Sedekah', 'Zakat Mal', 'Wakaf', 'Operasional')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    frequency VARCHAR(10) NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'yearly')),
+    start_date DATE NOT NULL,
+    end_date DATE CHECK (end_date >= start_date),
+    description TEXT,
+    is_anonymous BOOLEAN NOT NULL DEFAULT false,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled', 'ended')),
+    next_instalment INTEGER NOT NULL DEFAULT 0,
+    next_due_date DATE NOT NULL,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_donation_pledges_donor_id ON donation_pledges(donor_id, created_at DESC);
+CREATE INDEX idx_donation_pledges_due ON donation_pledges(next_due_date) WHERE status = 'active';
+
+-- Instalments: the pledge and due date a donation was generated for, and the
+-- reminders sent while it is unpaid
+ALTER TABLE donations ADD COLUMN pledge_id UUID REFERENCES donation_pledges(id) ON DELETE SET NULL;
+ALTER TABLE donations ADD COLUMN due_date DATE;
+ALTER TABLE donations ADD COLUMN reminder_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE donations ADD COLUMN last_reminded_at TIMESTAMP WITH TIME ZONE;
+
+-- One instalment per due date, however often the scheduler runs
+CREATE UNIQUE INDEX idx_donations_pledge_due_date ON donations(pledge_id, due_date) WHERE pledge_id IS NOT NULL;
+CREATE INDEX idx_donations_unpaid_instalments ON donations(due_date) WHERE pledge_id IS NOT NULL AND status IN ('Pending', 'Failed');
+
+-- Enable Row Level Security
+ALTER TABLE donation_pledges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own pledges" ON donation_pledges
+    FOR SELECT USING (auth.uid() = donor_id);
+
+CREATE POLICY "Staff can manage pledges" ON donation_pledges
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT ALL PRIVILEGES ON donation_pledges TO authenticated;
@@ -0,0 +1,65 @@
+-- Donation receipts (kuitansi)
+
+-- Receipt numbers run per year of issue: KW-2026-000001, KW-2026-000002, ...
+CREATE TABLE donation_receipt_counters (
+    year INTEGER PRIMARY KEY,
+    last_number INTEGER NOT NULL DEFAULT 0
+);
+
+-- Next receipt number of a year; concurrent callers get different numbers
+CREATE OR REPLACE FUNCTION next_receipt_number(receipt_year INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    INSERT INTO donation_receipt_counters (year, last_number)
+    VALUES (receipt_year, 1)
+    ON CONFLICT (year) DO UPDATE SET last_number = donation_receipt_counters.last_number + 1
+    RETURNING last_number;
+$$;
+
+-- Create donation_receipts table
+-- A receipt keeps what it certified (donor name, amount and, in details, the
+-- donations it covers) so it reads the same however the donations change
+-- later. A receipt is for one completed donation ('donation') or for all of a
+-- donor's completed donations in a past year ('annual'). Receipts are voided,
+-- never deleted, e.g. when a donation is refunded.
+CREATE TABLE donation_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    receipt_number VARCHAR(30) UNIQUE NOT NULL,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('donation', 'annual')),
+    donation_id UUID REFERENCES donations(id) ON DELETE SET NULL,
+    donor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    period_year INTEGER,
+    donor_name VARCHAR(100) NOT NULL,
+    amount DECIMAL(14,2) NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}',
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    is_void BOOLEAN NOT NULL DEFAULT false,
+    void_reason TEXT,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    CHECK ((kind = 'donation' AND donation_id IS NOT NULL) OR (kind = 'annual' AND period_year IS NOT NULL))
+);
+
+-- One valid receipt per donation and one per donor and year
+CREATE UNIQUE INDEX idx_donation_receipts_donation ON donation_receipts(donation_id) WHERE kind = 'donation' AND is_void = false;
+CREATE UNIQUE INDEX idx_donation_receipts_annual ON donation_receipts(donor_id, period_year) WHERE kind = 'annual' AND is_void = false;
+CREATE INDEX idx_donation_receipts_donor_id ON donation_receipts(donor_id, issued_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE donation_receipt_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE donation_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own receipts" ON donation_receipts
+    FOR SELECT USING (auth.uid() = donor_id);
+
+CREATE POLICY "Staff can manage receipts" ON donation_receipts
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM user_roles
+            WHERE user_id = auth.uid()
+            AND role IN ('Admin', 'Imam', 'Pengurus')
+            AND is_active = true
+        )
+    );
+
+GRANT ALL PRIVILEGES ON donation_receipts TO authenticated;